@@ -0,0 +1,105 @@
+import { Request, Response, NextFunction } from 'express';
+import { apiKeyService, ApiKey } from '../../services/apiKeyService';
+import { rateLimiter, RateLimitDecision } from '../../services/rateLimiter';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+// Configuration (read per request, this module is imported before dotenv runs)
+function apiKeysRequired(): boolean {
+  return process.env.API_KEYS_REQUIRED === 'true';
+}
+
+function anonymousLimits(): { ratePerMinute: number; burst: number } {
+  return {
+    ratePerMinute: parseInt(process.env.ANONYMOUS_RATE_LIMIT_PER_MINUTE || '60'),
+    burst: parseInt(process.env.ANONYMOUS_BURST || '20')
+  };
+}
+
+function sendAuthError(res: Response, message: string, code: string): void {
+  res.status(401).json({
+    success: false,
+    error: {
+      message,
+      code
+    }
+  });
+}
+
+function sendRateLimited(res: Response, decision: RateLimitDecision): void {
+  res.setHeader('Retry-After', decision.retryAfterSeconds);
+  res.status(429).json({
+    success: false,
+    error: {
+      message: `Rate limit exceeded. Retry in ${decision.retryAfterSeconds}s.`,
+      code: 'RATE_LIMITED'
+    }
+  });
+}
+
+/**
+ * Middleware that resolves the X-API-Key header and applies the per-key token bucket.
+ * Requests without a key are allowed as anonymous readers (limited per IP) unless API_KEYS_REQUIRED=true.
+ */
+export async function apiKeyMiddleware(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const header = req.headers['x-api-key'];
+  const plaintext = typeof header === 'string' ? header.trim() : '';
+
+  let clientId: string;
+  let ratePerMinute: number;
+  let burst: number;
+
+  if (plaintext) {
+    let key: ApiKey | null;
+    try {
+      key = await apiKeyService.authenticate(plaintext);
+    } catch (error) {
+      next(error);
+      return;
+    }
+
+    if (!key) {
+      // Each lookup costs a query, so guessing keys is throttled like anonymous requests from the same IP
+      const { ratePerMinute: anonymousRate, burst: anonymousBurst } = anonymousLimits();
+      const decision = rateLimiter.take(`ip:${req.ip}`, anonymousRate, anonymousBurst);
+      if (!decision.allowed) {
+        sendRateLimited(res, decision);
+        return;
+      }
+      sendAuthError(res, 'Invalid or revoked API key', 'INVALID_API_KEY');
+      return;
+    }
+
+    req.apiKey = key;
+    clientId = `key:${key.id}`;
+    ratePerMinute = key.rate_limit_per_minute;
+    burst = key.burst;
+  } else if (apiKeysRequired()) {
+    sendAuthError(res, 'An API key is required. Send it in the X-API-Key header.', 'API_KEY_REQUIRED');
+    return;
+  } else {
+    clientId = `ip:${req.ip}`;
+    ({ ratePerMinute, burst } = anonymousLimits());
+  }
+
+  const decision = rateLimiter.take(clientId, ratePerMinute, burst);
+  res.setHeader('X-RateLimit-Limit', decision.limit);
+  res.setHeader('X-RateLimit-Remaining', decision.remaining);
+
+  if (req.apiKey) {
+    apiKeyService.recordUsage(req.apiKey.id, !decision.allowed);
+  }
+
+  if (!decision.allowed) {
+    sendRateLimited(res, decision);
+    return;
+  }
+
+  next();
+}
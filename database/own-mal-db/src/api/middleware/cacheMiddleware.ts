@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+import { responseCache } from '../../services/responseCache';
+
+interface CacheOptions {
+  ttlSeconds: number;
+  tags: string[] | ((req: Request) => string[]);
+  bypass?: (req: Request) => boolean; // Skip the cache entirely (neither read nor stored) for matching requests
+}
+
+// ?fresh=true asks view-backed endpoints to compute live instead of reading the materialized views
+export function wantsFreshData(req: Request): boolean {
+  return req.query.fresh === 'true';
+}
+
+function setValidators(res: Response, etag: string, lastModified: number, status: 'HIT' | 'MISS'): void {
+  res.setHeader('ETag', etag);
+  res.setHeader('Last-Modified', new Date(lastModified).toUTCString());
+  // Clients may keep the response but must revalidate; unchanged data comes back as 304
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('X-Cache', status);
+}
+
+/**
+ * Middleware that serves GET responses from the response cache and stores successful ones.
+ * Sets ETag / Last-Modified; Express answers 304 when the request's validators still match.
+ * The key is the full URL, so format, fields and pagination parameters get their own entries.
+ */
+export function cacheResponse(options: CacheOptions) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (req.method !== 'GET' || !responseCache.isEnabled() || options.bypass?.(req)) {
+      next();
+      return;
+    }
+
+    const key = req.originalUrl;
+    const tags = typeof options.tags === 'function' ? options.tags(req) : options.tags;
+
+    try {
+      const cached = await responseCache.get(key);
+      if (cached) {
+        setValidators(res, cached.etag, cached.lastModified, 'HIT');
+        // Parsed fresh every time so middleware that decorates the body can't alter the cached copy
+        res.json(JSON.parse(cached.body));
+        return;
+      }
+    } catch (error) {
+      console.error('Response cache read failed:', error);
+    }
+
+    const tagVersions = responseCache.snapshotTags(tags);
+    const originalJson = res.json.bind(res);
+    res.json = function(body: any): Response {
+      if (res.statusCode !== 200 || !body || body.success === false) {
+        return originalJson(body);
+      }
+
+      const entry = responseCache.set(key, body, tagVersions, options.ttlSeconds);
+      setValidators(res, entry.etag, entry.lastModified, 'MISS');
+      return originalJson(body);
+    };
+
+    next();
+  };
+}
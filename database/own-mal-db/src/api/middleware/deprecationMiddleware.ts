@@ -89,6 +89,9 @@ function getV1Equivalent(legacyPath: string): string {
   if (legacyPath.match(/^\/api\/anime\/reception\/\d+/)) {
     return '/api/v1/reception/anime/:id';
   }
+  if (legacyPath.match(/^\/api\/anime\/recommendations\/\d+/)) {
+    return '/api/v1/anime/:id/recommendations';
+  }
 
   return mappings[legacyPath] || '/api/v1';
 }
\ No newline at end of file
@@ -4,6 +4,8 @@
  */
 
 import { db } from '../../database/connection';
+import { buildKeysetClause, buildKeysetPage, decodeCursor, SortKey } from '../../database/keysetPagination';
+import { rankingViewService } from '../../services/rankingViewService';
 
 export type SentimentPattern =
   | 'mostly_positive'
@@ -21,6 +23,13 @@ export type InsightType =
   | 'genre_sentiment'
   | 'database_overview';
 
+export type LeaderboardType = 'positive' | 'polarizing' | 'reviewed';
+
+export interface SentimentSearchOptions {
+  page?: number;
+  cursor?: string;
+}
+
 export class ReceptionRepository {
   /**
    * Get reception data for a specific anime
@@ -32,11 +41,12 @@ export class ReceptionRepository {
   }
 
   /**
-   * Search anime by sentiment pattern
+   * Search anime by sentiment pattern (offset or keyset cursor pagination)
    */
-  async searchBySentimentPattern(pattern: SentimentPattern, minReviews: number, limit: number) {
+  async searchBySentimentPattern(pattern: SentimentPattern, minReviews: number, limit: number, options: SentimentSearchOptions = {}) {
+    const { page = 1, cursor } = options;
     let whereCondition = '';
-    let orderBy = '';
+    let orderBy: SortKey;
 
     switch (pattern) {
       case 'mostly_positive':
@@ -44,7 +54,7 @@ export class ReceptionRepository {
           (reception_data->>'sentiment_ratio')::float > 2.0
           AND (reception_data->>'review_count')::int >= $1
         `;
-        orderBy = `(reception_data->>'sentiment_ratio')::float DESC`;
+        orderBy = { expr: `(reception_data->>'sentiment_ratio')::float`, direction: 'DESC' };
         break;
 
       case 'mostly_negative':
@@ -52,7 +62,7 @@ export class ReceptionRepository {
           (reception_data->>'sentiment_ratio')::float < 0.5
           AND (reception_data->>'review_count')::int >= $1
         `;
-        orderBy = `(reception_data->>'sentiment_ratio')::float ASC`;
+        orderBy = { expr: `(reception_data->>'sentiment_ratio')::float`, direction: 'ASC' };
         break;
 
       case 'highly_polarizing':
@@ -60,7 +70,7 @@ export class ReceptionRepository {
           (reception_data->>'score_variance')::float > 6.0
           AND (reception_data->>'review_count')::int >= $1
         `;
-        orderBy = `(reception_data->>'score_variance')::float DESC`;
+        orderBy = { expr: `(reception_data->>'score_variance')::float`, direction: 'DESC' };
         break;
 
       case 'universally_loved':
@@ -69,7 +79,7 @@ export class ReceptionRepository {
           AND (reception_data->>'score_variance')::float < 3.0
           AND (reception_data->>'review_count')::int >= $1
         `;
-        orderBy = `(reception_data->>'sentiment_ratio')::float DESC`;
+        orderBy = { expr: `(reception_data->>'sentiment_ratio')::float`, direction: 'DESC' };
         break;
 
       case 'underrated':
@@ -78,7 +88,7 @@ export class ReceptionRepository {
           AND score < 7.5
           AND (reception_data->>'review_count')::int >= $1
         `;
-        orderBy = `(reception_data->>'sentiment_ratio')::float DESC`;
+        orderBy = { expr: `(reception_data->>'sentiment_ratio')::float`, direction: 'DESC' };
         break;
 
       case 'overrated':
@@ -87,7 +97,7 @@ export class ReceptionRepository {
           AND score > 7.5
           AND (reception_data->>'review_count')::int >= $1
         `;
-        orderBy = `score DESC`;
+        orderBy = { expr: 'score', direction: 'DESC' };
         break;
 
       case 'mixed_reception':
@@ -96,23 +106,38 @@ export class ReceptionRepository {
           AND (reception_data->>'score_variance')::float > 4.0
           AND (reception_data->>'review_count')::int >= $1
         `;
-        orderBy = `(reception_data->>'score_variance')::float DESC`;
+        orderBy = { expr: `(reception_data->>'score_variance')::float`, direction: 'DESC' };
         break;
     }
 
+    // MAL ID breaks ties so cursors are stable
+    const sortKeys: SortKey[] = [orderBy, { expr: 'mal_id', direction: orderBy.direction }];
+    const decodedCursor = cursor ? decodeCursor(cursor, sortKeys) : null;
+    const offset = decodedCursor ? 0 : (page - 1) * limit;
+    const keyset = buildKeysetClause(sortKeys, decodedCursor, 4);
+
     const query = `
       SELECT
         mal_id, title, score, episodes, status,
-        reception_data
+        reception_data,
+        ${keyset.selectKeys}
       FROM anime
       WHERE reception_data IS NOT NULL
         AND ${whereCondition}
-      ORDER BY ${orderBy}
-      LIMIT $2
+        ${keyset.condition ? `AND ${keyset.condition}` : ''}
+      ORDER BY ${keyset.orderBy}
+      LIMIT $2 OFFSET $3
     `;
 
-    const result = await db.query(query, [minReviews, limit]);
-    return result.rows;
+    // Fetch one extra row to know whether another page follows
+    const result = await db.query(query, [minReviews, limit + 1, offset, ...keyset.params]);
+    const keysetPage = buildKeysetPage<any>(result.rows, sortKeys, limit, decodedCursor, offset > 0);
+
+    return {
+      results: keysetPage.rows,
+      next_cursor: keysetPage.next_cursor,
+      prev_cursor: keysetPage.prev_cursor
+    };
   }
 
   /**
@@ -130,45 +155,44 @@ export class ReceptionRepository {
   }
 
   /**
-   * Get database insights based on insight type
+   * Get database insights based on insight type.
+   * Aggregates come from reception_leaderboard_mv unless fresh is set; the overview is always live.
    */
-  async getInsights(insightType: InsightType) {
+  async getInsights(insightType: InsightType, fresh: boolean = false) {
+    const source = rankingViewService.source('reception_leaderboard_mv', fresh);
     let query = '';
 
     switch (insightType) {
       case 'sentiment_distribution':
         query = `
           SELECT
-            COUNT(*) FILTER (WHERE (reception_data->>'sentiment_ratio')::float > 2.0) as mostly_positive,
-            COUNT(*) FILTER (WHERE (reception_data->>'sentiment_ratio')::float BETWEEN 0.7 AND 2.0) as mixed,
-            COUNT(*) FILTER (WHERE (reception_data->>'sentiment_ratio')::float < 0.7) as mostly_negative,
+            COUNT(*) FILTER (WHERE sentiment_ratio > 2.0) as mostly_positive,
+            COUNT(*) FILTER (WHERE sentiment_ratio BETWEEN 0.7 AND 2.0) as mixed,
+            COUNT(*) FILTER (WHERE sentiment_ratio < 0.7) as mostly_negative,
             COUNT(*) as total_analyzed
-          FROM anime
-          WHERE reception_data IS NOT NULL
+          FROM ${source} rl
         `;
         break;
 
       case 'polarization_trends':
         query = `
           SELECT
-            COUNT(*) FILTER (WHERE (reception_data->>'score_variance')::float > 6.0) as highly_polarizing,
-            COUNT(*) FILTER (WHERE (reception_data->>'score_variance')::float BETWEEN 3.0 AND 6.0) as moderately_polarizing,
-            COUNT(*) FILTER (WHERE (reception_data->>'score_variance')::float < 3.0) as consensus,
-            AVG((reception_data->>'score_variance')::float) as avg_polarization
-          FROM anime
-          WHERE reception_data IS NOT NULL
+            COUNT(*) FILTER (WHERE score_variance > 6.0) as highly_polarizing,
+            COUNT(*) FILTER (WHERE score_variance BETWEEN 3.0 AND 6.0) as moderately_polarizing,
+            COUNT(*) FILTER (WHERE score_variance < 3.0) as consensus,
+            AVG(score_variance) as avg_polarization
+          FROM ${source} rl
         `;
         break;
 
       case 'review_engagement':
         query = `
           SELECT
-            AVG((reception_data->>'review_count')::int) as avg_reviews_per_anime,
-            AVG((reception_data->>'avg_review_length')::float) as avg_review_length,
-            COUNT(*) FILTER (WHERE (reception_data->>'review_count')::int > 50) as highly_reviewed,
-            COUNT(*) FILTER (WHERE (reception_data->>'avg_review_length')::float > 2000) as detailed_reviews
-          FROM anime
-          WHERE reception_data IS NOT NULL
+            AVG(review_count) as avg_reviews_per_anime,
+            AVG(avg_review_length) as avg_review_length,
+            COUNT(*) FILTER (WHERE review_count > 50) as highly_reviewed,
+            COUNT(*) FILTER (WHERE avg_review_length > 2000) as detailed_reviews
+          FROM ${source} rl
         `;
         break;
 
@@ -189,6 +213,32 @@ export class ReceptionRepository {
     const result = await db.query(query);
     return result.rows[0];
   }
+
+  /**
+   * Reception leaderboard from reception_leaderboard_mv (or live when fresh is set):
+   * best received, most polarizing or most reviewed anime
+   */
+  async getLeaderboard(by: LeaderboardType, minReviews: number = 5, limit: number = 20, fresh: boolean = false) {
+    const orderBy: Record<LeaderboardType, string> = {
+      positive: 'rl.sentiment_ratio DESC NULLS LAST',
+      polarizing: 'rl.score_variance DESC NULLS LAST',
+      reviewed: 'rl.review_count DESC NULLS LAST'
+    };
+
+    const query = `
+      SELECT rl.mal_id, rl.title, rl.score, rl.review_count, rl.sentiment_ratio, rl.score_variance, rl.avg_review_length
+      FROM ${rankingViewService.source('reception_leaderboard_mv', fresh)} rl
+      WHERE rl.review_count >= $1
+      ORDER BY ${orderBy[by]}, rl.mal_id
+      LIMIT $2
+    `;
+
+    const result = await db.query(query, [minReviews, limit]);
+    return result.rows.map(row => ({
+      ...row,
+      score: row.score !== null ? parseFloat(row.score) : null
+    }));
+  }
 }
 
 export const receptionRepository = new ReceptionRepository();
\ No newline at end of file
@@ -4,23 +4,25 @@
  */
 
 import { db } from '../../database/connection';
+import { buildKeysetClause, buildKeysetPage, decodeCursor, SortKey } from '../../database/keysetPagination';
+import { SpoilerMode } from '../../services/spoilerClassifier';
 
 export interface ReviewQueryOptions {
   page?: number;
   limit?: number;
   preliminary?: boolean;
-  spoilers?: boolean;
+  spoilers?: SpoilerMode;
   sort?: 'date' | 'helpful' | 'score';
   order?: 'asc' | 'desc';
+  cursor?: string;
 }
 
 export class ReviewRepository {
   /**
-   * Get reviews for a specific anime with filtering and pagination
+   * Get reviews for a specific anime with filtering and pagination (offset or keyset cursor)
    */
   async findByAnimeId(animeId: number, options: ReviewQueryOptions) {
-    const { page = 1, limit = 10, preliminary, sort = 'date', order = 'desc' } = options;
-    const offset = (page - 1) * limit;
+    const { page = 1, limit = 10, preliminary, spoilers, sort = 'date', order = 'desc', cursor } = options;
 
     // Build WHERE clause
     let whereConditions = ['r.anime_id = $1'];
@@ -33,20 +35,39 @@ export class ReviewRepository {
       paramIndex++;
     }
 
-    // Build ORDER BY clause
-    let orderByClause = '';
+    // Unclassified reviews (NULL) stay in and are redacted when returned
+    if (spoilers === 'hide') {
+      whereConditions.push('r.is_spoiler IS NOT TRUE');
+    }
+
+    // Build sort keys, review ID breaks ties so cursors are stable
+    const direction = order.toUpperCase() as 'ASC' | 'DESC';
+    let sortColumn = '';
     switch (sort) {
       case 'helpful':
-        orderByClause = `r.helpful_count ${order.toUpperCase()}`;
+        sortColumn = 'r.helpful_count';
         break;
       case 'score':
-        orderByClause = `r.user_score ${order.toUpperCase()} NULLS LAST`;
+        sortColumn = 'r.user_score';
         break;
       case 'date':
       default:
-        orderByClause = `r.date_posted ${order.toUpperCase()} NULLS LAST`;
+        sortColumn = 'r.date_posted';
         break;
     }
+    const sortKeys: SortKey[] = [
+      { expr: sortColumn, direction },
+      { expr: 'r.id', direction }
+    ];
+
+    const decodedCursor = cursor ? decodeCursor(cursor, sortKeys) : null;
+    const offset = decodedCursor ? 0 : (page - 1) * limit;
+    const keyset = buildKeysetClause(sortKeys, decodedCursor, paramIndex);
+    if (keyset.condition) {
+      whereConditions.push(keyset.condition);
+      queryValues.push(...keyset.params);
+      paramIndex += keyset.params.length;
+    }
 
     const reviewsQuery = `
       SELECT
@@ -61,18 +82,28 @@ export class ReviewRepository {
         r.review_length,
         r.sentiment_score,
         r.sentiment_label,
-        a.title as anime_title
+        r.is_spoiler,
+        r.spoiler_spans,
+        a.title as anime_title,
+        ${keyset.selectKeys}
       FROM anime_reviews r
       JOIN anime a ON r.anime_id = a.mal_id
       WHERE ${whereConditions.join(' AND ')}
-      ORDER BY ${orderByClause}
+      ORDER BY ${keyset.orderBy}
       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
     `;
 
-    queryValues.push(limit, offset);
+    // Fetch one extra row to know whether another page follows
+    queryValues.push(limit + 1, offset);
 
     const result = await db.query(reviewsQuery, queryValues);
-    return result.rows;
+    const keysetPage = buildKeysetPage<any>(result.rows, sortKeys, limit, decodedCursor, offset > 0);
+
+    return {
+      reviews: keysetPage.rows,
+      next_cursor: keysetPage.next_cursor,
+      prev_cursor: keysetPage.prev_cursor
+    };
   }
 
   /**
@@ -89,6 +120,10 @@ export class ReviewRepository {
       paramIndex++;
     }
 
+    if (options.spoilers === 'hide') {
+      whereConditions.push('r.is_spoiler IS NOT TRUE');
+    }
+
     const countQuery = `
       SELECT COUNT(*) as total
       FROM anime_reviews r
@@ -111,6 +146,7 @@ export class ReviewRepository {
         SUM(CASE WHEN sentiment_label = 'negative' THEN 1 ELSE 0 END) as negative_count,
         SUM(CASE WHEN sentiment_label = 'neutral' THEN 1 ELSE 0 END) as neutral_count,
         SUM(CASE WHEN is_preliminary = true THEN 1 ELSE 0 END) as preliminary_count,
+        SUM(CASE WHEN is_spoiler = true THEN 1 ELSE 0 END) as spoiler_count,
         AVG(review_length) as avg_review_length,
         AVG(helpful_count) as avg_helpful_count
       FROM anime_reviews
@@ -146,31 +182,35 @@ export class ReviewRepository {
   /**
    * Get balanced sample of reviews (positive, negative, neutral)
    */
-  async getBalancedSample(animeId: number, totalLimit: number = 10) {
+  async getBalancedSample(animeId: number, totalLimit: number = 10, spoilers: SpoilerMode = 'redact') {
     const reviewsPerSentiment = Math.ceil(totalLimit / 3);
+    const spoilerFilter = spoilers === 'hide' ? 'AND is_spoiler IS NOT TRUE' : '';
 
     const sampleQuery = `
       (SELECT
         id, username, user_score, review_text, helpful_count,
-        sentiment_label, sentiment_score, is_preliminary, date_posted, review_length
+        sentiment_label, sentiment_score, is_preliminary, date_posted, review_length,
+        is_spoiler, spoiler_spans
        FROM anime_reviews
-       WHERE anime_id = $1 AND sentiment_label = 'positive'
+       WHERE anime_id = $1 AND sentiment_label = 'positive' ${spoilerFilter}
        ORDER BY helpful_count DESC, date_posted DESC
        LIMIT $2)
       UNION ALL
       (SELECT
         id, username, user_score, review_text, helpful_count,
-        sentiment_label, sentiment_score, is_preliminary, date_posted, review_length
+        sentiment_label, sentiment_score, is_preliminary, date_posted, review_length,
+        is_spoiler, spoiler_spans
        FROM anime_reviews
-       WHERE anime_id = $1 AND sentiment_label = 'negative'
+       WHERE anime_id = $1 AND sentiment_label = 'negative' ${spoilerFilter}
        ORDER BY helpful_count DESC, date_posted DESC
        LIMIT $2)
       UNION ALL
       (SELECT
         id, username, user_score, review_text, helpful_count,
-        sentiment_label, sentiment_score, is_preliminary, date_posted, review_length
+        sentiment_label, sentiment_score, is_preliminary, date_posted, review_length,
+        is_spoiler, spoiler_spans
        FROM anime_reviews
-       WHERE anime_id = $1 AND sentiment_label = 'neutral'
+       WHERE anime_id = $1 AND sentiment_label = 'neutral' ${spoilerFilter}
        ORDER BY helpful_count DESC, date_posted DESC
        LIMIT $2)
       ORDER BY sentiment_label, helpful_count DESC
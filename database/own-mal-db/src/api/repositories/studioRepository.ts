@@ -0,0 +1,263 @@
+/**
+ * Studio Repository
+ * Handles all database operations for studio data and aggregate stats
+ */
+
+import { db } from '../../database/connection';
+
+export type StudioRole = 'studio' | 'producer' | 'licensor';
+
+export interface StudioListOptions {
+  query?: string;
+  role?: StudioRole;
+  sort?: 'title_count' | 'mean_score' | 'name';
+  page?: number;
+  limit?: number;
+}
+
+export interface StudioAnimeOptions {
+  role?: StudioRole;
+  sort?: 'score' | 'year' | 'popularity';
+  page?: number;
+  limit?: number;
+}
+
+// Only studios with at least this many scored titles are ranked by mean score
+const MIN_TITLES_FOR_MEAN_SCORE_SORT = 3;
+
+export class StudioRepository {
+  /**
+   * List studios with title counts and mean score
+   */
+  async findAll(options: StudioListOptions) {
+    const { query, role = 'studio', sort = 'title_count', page = 1, limit = 25 } = options;
+    const offset = (page - 1) * limit;
+
+    const whereConditions = ['ast.role = $1'];
+    const queryValues: any[] = [role];
+    let paramIndex = 2;
+
+    if (query) {
+      whereConditions.push(`s.name ILIKE '%' || $${paramIndex} || '%'`);
+      queryValues.push(query);
+      paramIndex++;
+    }
+
+    let havingClause = '';
+    let orderByClause = '';
+    switch (sort) {
+      case 'mean_score':
+        havingClause = `HAVING COUNT(a.score) >= ${MIN_TITLES_FOR_MEAN_SCORE_SORT}`;
+        orderByClause = 'mean_score DESC NULLS LAST, title_count DESC';
+        break;
+      case 'name':
+        orderByClause = 's.name ASC';
+        break;
+      case 'title_count':
+      default:
+        orderByClause = 'title_count DESC, s.name ASC';
+        break;
+    }
+
+    const studiosQuery = `
+      SELECT
+        s.id,
+        s.name,
+        s.url,
+        COUNT(*) as title_count,
+        ROUND(AVG(a.score)::numeric, 2) as mean_score,
+        MIN(a.year) as first_year,
+        MAX(a.year) as last_year,
+        COUNT(*) OVER() as total_count
+      FROM studios s
+      JOIN anime_studios ast ON ast.studio_id = s.id
+      JOIN anime a ON a.mal_id = ast.anime_id
+      WHERE ${whereConditions.join(' AND ')}
+      GROUP BY s.id, s.name, s.url
+      ${havingClause}
+      ORDER BY ${orderByClause}
+      LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+    `;
+
+    queryValues.push(limit, offset);
+
+    const result = await db.query(studiosQuery, queryValues);
+    const total = result.rows.length > 0 ? parseInt(result.rows[0].total_count) : 0;
+
+    return {
+      total,
+      studios: result.rows.map(row => ({
+        id: row.id,
+        name: row.name,
+        url: row.url,
+        title_count: parseInt(row.title_count),
+        mean_score: row.mean_score !== null ? parseFloat(row.mean_score) : null,
+        first_year: row.first_year,
+        last_year: row.last_year
+      }))
+    };
+  }
+
+  /**
+   * Get a studio by ID
+   */
+  async findById(studioId: number) {
+    const result = await db.query('SELECT id, name, url, type FROM studios WHERE id = $1', [studioId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Get aggregate stats for a studio: totals, titles per year, top genres and reception summary
+   */
+  async getStats(studioId: number, role: StudioRole = 'studio') {
+    const totalsQuery = `
+      SELECT
+        COUNT(*) as title_count,
+        COUNT(a.score) as scored_titles,
+        ROUND(AVG(a.score)::numeric, 2) as mean_score,
+        ROUND((SUM(a.score * a.scored_by) / NULLIF(SUM(a.scored_by) FILTER (WHERE a.score IS NOT NULL), 0))::numeric, 2) as weighted_mean_score,
+        SUM(a.members) as total_members,
+        MIN(a.year) as first_year,
+        MAX(a.year) as last_year
+      FROM anime_studios ast
+      JOIN anime a ON a.mal_id = ast.anime_id
+      WHERE ast.studio_id = $1 AND ast.role = $2
+    `;
+
+    const perYearQuery = `
+      SELECT
+        a.year,
+        COUNT(*) as title_count,
+        ROUND(AVG(a.score)::numeric, 2) as mean_score
+      FROM anime_studios ast
+      JOIN anime a ON a.mal_id = ast.anime_id
+      WHERE ast.studio_id = $1 AND ast.role = $2 AND a.year IS NOT NULL
+      GROUP BY a.year
+      ORDER BY a.year ASC
+    `;
+
+    const topGenresQuery = `
+      SELECT
+        g.id,
+        g.name,
+        COUNT(*) as title_count,
+        ROUND(AVG(a.score)::numeric, 2) as mean_score
+      FROM anime_studios ast
+      JOIN anime a ON a.mal_id = ast.anime_id
+      JOIN anime_genres ag ON ag.anime_id = a.mal_id AND ag.genre_type = 'genre'
+      JOIN genres g ON g.id = ag.genre_id
+      WHERE ast.studio_id = $1 AND ast.role = $2
+      GROUP BY g.id, g.name
+      ORDER BY title_count DESC, mean_score DESC NULLS LAST
+      LIMIT 5
+    `;
+
+    const receptionQuery = `
+      SELECT
+        COUNT(*) as analyzed_titles,
+        SUM((a.reception_data->>'review_count')::int) as total_reviews,
+        ROUND(AVG((a.reception_data->>'sentiment_ratio')::float)::numeric, 2) as avg_sentiment_ratio,
+        ROUND(AVG((a.reception_data->>'score_variance')::float)::numeric, 2) as avg_score_variance,
+        COUNT(*) FILTER (WHERE (a.reception_data->>'sentiment_ratio')::float > 2.0) as mostly_positive,
+        COUNT(*) FILTER (WHERE (a.reception_data->>'score_variance')::float > 6.0) as highly_polarizing
+      FROM anime_studios ast
+      JOIN anime a ON a.mal_id = ast.anime_id
+      WHERE ast.studio_id = $1 AND ast.role = $2 AND a.reception_data IS NOT NULL
+    `;
+
+    const [totals, perYear, topGenres, reception] = await Promise.all([
+      db.query(totalsQuery, [studioId, role]),
+      db.query(perYearQuery, [studioId, role]),
+      db.query(topGenresQuery, [studioId, role]),
+      db.query(receptionQuery, [studioId, role])
+    ]);
+
+    const totalsRow = totals.rows[0];
+    const receptionRow = reception.rows[0];
+    const analyzedTitles = parseInt(receptionRow.analyzed_titles);
+
+    return {
+      title_count: parseInt(totalsRow.title_count),
+      scored_titles: parseInt(totalsRow.scored_titles),
+      mean_score: totalsRow.mean_score !== null ? parseFloat(totalsRow.mean_score) : null,
+      weighted_mean_score: totalsRow.weighted_mean_score !== null ? parseFloat(totalsRow.weighted_mean_score) : null,
+      total_members: totalsRow.total_members !== null ? parseInt(totalsRow.total_members) : 0,
+      active_years: {
+        first: totalsRow.first_year,
+        last: totalsRow.last_year
+      },
+      titles_per_year: perYear.rows.map(row => ({
+        year: row.year,
+        title_count: parseInt(row.title_count),
+        mean_score: row.mean_score !== null ? parseFloat(row.mean_score) : null
+      })),
+      top_genres: topGenres.rows.map(row => ({
+        id: row.id,
+        name: row.name,
+        title_count: parseInt(row.title_count),
+        mean_score: row.mean_score !== null ? parseFloat(row.mean_score) : null
+      })),
+      reception: analyzedTitles > 0 ? {
+        analyzed_titles: analyzedTitles,
+        total_reviews: parseInt(receptionRow.total_reviews) || 0,
+        avg_sentiment_ratio: parseFloat(receptionRow.avg_sentiment_ratio),
+        avg_score_variance: parseFloat(receptionRow.avg_score_variance),
+        mostly_positive_titles: parseInt(receptionRow.mostly_positive),
+        highly_polarizing_titles: parseInt(receptionRow.highly_polarizing)
+      } : null
+    };
+  }
+
+  /**
+   * Get anime made by a studio with pagination
+   */
+  async findAnimeByStudio(studioId: number, options: StudioAnimeOptions) {
+    const { role = 'studio', sort = 'score', page = 1, limit = 25 } = options;
+    const offset = (page - 1) * limit;
+
+    let orderByClause = '';
+    switch (sort) {
+      case 'year':
+        orderByClause = 'a.year DESC NULLS LAST, a.aired_from DESC NULLS LAST';
+        break;
+      case 'popularity':
+        orderByClause = 'a.popularity ASC NULLS LAST';
+        break;
+      case 'score':
+      default:
+        orderByClause = 'a.score DESC NULLS LAST';
+        break;
+    }
+
+    const animeQuery = `
+      SELECT
+        a.mal_id,
+        a.title,
+        a.title_english,
+        a.type,
+        a.episodes,
+        a.year,
+        a.season,
+        a.score,
+        a.members,
+        a.popularity,
+        a.image_url,
+        COUNT(*) OVER() as total_count
+      FROM anime_studios ast
+      JOIN anime a ON a.mal_id = ast.anime_id
+      WHERE ast.studio_id = $1 AND ast.role = $2
+      ORDER BY ${orderByClause}, a.mal_id ASC
+      LIMIT $3 OFFSET $4
+    `;
+
+    const result = await db.query(animeQuery, [studioId, role, limit, offset]);
+    const total = result.rows.length > 0 ? parseInt(result.rows[0].total_count) : 0;
+
+    return {
+      total,
+      anime: result.rows.map(({ total_count, ...anime }) => anime)
+    };
+  }
+}
+
+export const studioRepository = new StudioRepository();
@@ -1,9 +1,15 @@
 import { Router, Request, Response } from 'express';
 import { animeService } from '../../services/animeService';
 import { SearchParams } from '../../types/anime';
-import { ReviewAnalyzer } from '../../services/reviewAnalyzer';
+import { ReviewAnalyzer, compareAspects } from '../../services/reviewAnalyzer';
 import { z } from 'zod';
 import { deprecationMiddleware } from '../middleware/deprecationMiddleware';
+import { cacheResponse } from '../middleware/cacheMiddleware';
+import { CacheTags } from '../../services/responseCache';
+import { rankingViewService } from '../../services/rankingViewService';
+import { applySpoilerMode } from '../../services/spoilerClassifier';
+import { spoilerModeSchema } from '../validators/review.validators';
+import { booleanParam, searchParamsSchema } from '../validators/search.validators';
 
 const router = Router();
 const reviewAnalyzer = new ReviewAnalyzer();
@@ -12,44 +18,8 @@ const reviewAnalyzer = new ReviewAnalyzer();
 router.use(deprecationMiddleware);
 
 // Validation schemas
-const searchParamsSchema = z.object({
-  query: z.string().optional(),
-  genres: z.string().optional(),
-  min_score: z.coerce.number().min(0).max(10).optional(),
-  max_score: z.coerce.number().min(0).max(10).optional(),
-  
-  // Year filtering
-  year: z.coerce.number().int().min(1900).max(2030).optional(),
-  min_year: z.coerce.number().int().min(1900).max(2030).optional(),
-  max_year: z.coerce.number().int().min(1900).max(2030).optional(),
-  decade: z.string().regex(/^\d{4}s$/).optional(), // e.g., "1990s", "2000s"
-  
-  // Popularity filtering
-  min_popularity: z.coerce.number().int().positive().optional(),
-  max_popularity: z.coerce.number().int().positive().optional(),
-  exclude_very_popular: z.coerce.boolean().optional(),
-  
-  // Status and airing filtering
-  airing_status: z.enum(['airing', 'finished', 'upcoming']).optional(),
-  current_year_only: z.coerce.boolean().optional(),
-  season: z.enum(['winter', 'spring', 'summer', 'fall']).optional(),
-  
-  // Episode count filtering
-  min_episodes: z.coerce.number().int().positive().optional(),
-  max_episodes: z.coerce.number().int().positive().optional(),
-  
-  // Type filtering
-  type: z.enum(['TV', 'Movie', 'OVA', 'Special', 'ONA', 'Music']).optional(),
-  
-  order_by: z.enum([
-    'mal_id', 'title', 'type', 'rating', 'start_date', 'end_date',
-    'episodes', 'score', 'scored_by', 'rank', 'popularity', 'members', 'favorites'
-  ]).optional().default('mal_id'),
-  sort: z.enum(['desc', 'asc']).optional().default('desc'),
-  sfw: z.coerce.boolean().optional().default(true),
-  page: z.coerce.number().int().positive().optional().default(1),
-  limit: z.coerce.number().int().positive().max(25).optional().default(25)
-});
+// The v1 search filters; legacy routes page by number only
+const legacySearchParamsSchema = searchParamsSchema.omit({ cursor: true });
 
 const animeIdSchema = z.object({
   id: z.coerce.number().int().positive()
@@ -77,6 +47,10 @@ const compareReceptionSchema = z.object({
   anime_id_2: z.coerce.number().int().positive()
 });
 
+const recommendationsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(25).optional().default(10)
+});
+
 const bulkAnimeSchema = z.object({
   ids: z.string().transform((str) => {
     const ids = str.split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id) && id > 0);
@@ -88,38 +62,13 @@ const bulkAnimeSchema = z.object({
     }
     return ids;
   }),
-  compact: z.coerce.boolean().optional().default(false)
+  compact: booleanParam.optional().default(false)
 });
 
 // GET /api/anime/search - Search anime with filters
 router.get('/search', async (req: Request, res: Response): Promise<void> => {
   try {
-    const validatedParams = searchParamsSchema.parse(req.query);
-    
-    const searchParams: SearchParams = {
-      query: validatedParams.query,
-      genres: validatedParams.genres,
-      min_score: validatedParams.min_score,
-      max_score: validatedParams.max_score,
-      year: validatedParams.year,
-      min_year: validatedParams.min_year,
-      max_year: validatedParams.max_year,
-      decade: validatedParams.decade,
-      min_popularity: validatedParams.min_popularity,
-      max_popularity: validatedParams.max_popularity,
-      exclude_very_popular: validatedParams.exclude_very_popular,
-      airing_status: validatedParams.airing_status,
-      current_year_only: validatedParams.current_year_only,
-      season: validatedParams.season,
-      min_episodes: validatedParams.min_episodes,
-      max_episodes: validatedParams.max_episodes,
-      type: validatedParams.type,
-      order_by: validatedParams.order_by,
-      sort: validatedParams.sort,
-      sfw: validatedParams.sfw,
-      page: validatedParams.page,
-      limit: validatedParams.limit
-    };
+    const searchParams: SearchParams = legacySearchParamsSchema.parse(req.query);
     
     const results = await animeService.searchAnime(searchParams);
     
@@ -147,7 +96,7 @@ router.get('/search', async (req: Request, res: Response): Promise<void> => {
 });
 
 // GET /api/anime/capabilities - Get search capabilities for MCP tool discovery
-router.get('/capabilities', async (req: Request, res: Response): Promise<void> => {
+router.get('/capabilities', cacheResponse({ ttlSeconds: 3600, tags: [CacheTags.anime, CacheTags.genres] }), async (req: Request, res: Response): Promise<void> => {
   try {
     const capabilities = await animeService.getSearchCapabilities();
     
@@ -167,7 +116,7 @@ router.get('/capabilities', async (req: Request, res: Response): Promise<void> =
 });
 
 // GET /api/anime/top/:limit? - Get top anime by score
-router.get('/top/:limit?', async (req: Request, res: Response): Promise<void> => {
+router.get('/top/:limit?', cacheResponse({ ttlSeconds: 600, tags: [CacheTags.anime, CacheTags.rankings] }), async (req: Request, res: Response): Promise<void> => {
   try {
     const limit = req.params.limit ? parseInt(req.params.limit) : 50;
     
@@ -179,7 +128,11 @@ router.get('/top/:limit?', async (req: Request, res: Response): Promise<void> =>
       return;
     }
     
-    const topAnime = await animeService.getTopAnime(limit);
+    // Ranks come from anime_rankings_mv
+    const [topAnime, freshness] = await Promise.all([
+      animeService.getTopAnime(limit),
+      rankingViewService.getFreshness('anime_rankings_mv')
+    ]);
     
     res.json({
       success: true,
@@ -188,7 +141,8 @@ router.get('/top/:limit?', async (req: Request, res: Response): Promise<void> =>
         limit: limit,
         category: 'top_anime',
         results: topAnime
-      }
+      },
+      meta: freshness
     });
     
   } catch (error) {
@@ -201,7 +155,7 @@ router.get('/top/:limit?', async (req: Request, res: Response): Promise<void> =>
 });
 
 // GET /api/anime/genres - Get all available genres
-router.get('/genres', async (req: Request, res: Response): Promise<void> => {
+router.get('/genres', cacheResponse({ ttlSeconds: 3600, tags: [CacheTags.genres] }), async (req: Request, res: Response): Promise<void> => {
   try {
     const genres = await animeService.getAllGenres();
     
@@ -229,7 +183,7 @@ router.get('/genres', async (req: Request, res: Response): Promise<void> => {
 });
 
 // GET /api/anime/stats/by-genre - Get anime count statistics by genre
-router.get('/stats/by-genre', async (req: Request, res: Response) => {
+router.get('/stats/by-genre', cacheResponse({ ttlSeconds: 3600, tags: [CacheTags.genres, CacheTags.rankings] }), async (req: Request, res: Response) => {
   try {
     const stats = await animeService.getAnimeCountByGenre();
     
@@ -255,32 +209,7 @@ router.get('/stats/by-genre', async (req: Request, res: Response) => {
 // GET /api/anime/clean/search - Search anime with clean, LLM-optimized data
 router.get('/clean/search', async (req: Request, res: Response): Promise<void> => {
   try {
-    const validatedParams = searchParamsSchema.parse(req.query);
-    
-    const searchParams: SearchParams = {
-      query: validatedParams.query,
-      genres: validatedParams.genres,
-      min_score: validatedParams.min_score,
-      max_score: validatedParams.max_score,
-      year: validatedParams.year,
-      min_year: validatedParams.min_year,
-      max_year: validatedParams.max_year,
-      decade: validatedParams.decade,
-      min_popularity: validatedParams.min_popularity,
-      max_popularity: validatedParams.max_popularity,
-      exclude_very_popular: validatedParams.exclude_very_popular,
-      airing_status: validatedParams.airing_status,
-      current_year_only: validatedParams.current_year_only,
-      season: validatedParams.season,
-      min_episodes: validatedParams.min_episodes,
-      max_episodes: validatedParams.max_episodes,
-      type: validatedParams.type,
-      order_by: validatedParams.order_by,
-      sort: validatedParams.sort,
-      sfw: validatedParams.sfw,
-      page: validatedParams.page,
-      limit: validatedParams.limit
-    };
+    const searchParams: SearchParams = legacySearchParamsSchema.parse(req.query);
     
     const results = await animeService.searchCleanAnime(searchParams);
     
@@ -348,7 +277,7 @@ router.get('/clean/:id', async (req: Request, res: Response): Promise<void> => {
 });
 
 // GET /api/anime/clean/top/:limit? - Get top anime with clean data
-router.get('/clean/top/:limit?', async (req: Request, res: Response): Promise<void> => {
+router.get('/clean/top/:limit?', cacheResponse({ ttlSeconds: 600, tags: [CacheTags.anime, CacheTags.rankings] }), async (req: Request, res: Response): Promise<void> => {
   try {
     const limit = req.params.limit ? parseInt(req.params.limit) : 50;
     
@@ -360,7 +289,11 @@ router.get('/clean/top/:limit?', async (req: Request, res: Response): Promise<vo
       return;
     }
     
-    const topAnime = await animeService.getTopCleanAnime(limit);
+    // Ranks come from anime_rankings_mv
+    const [topAnime, freshness] = await Promise.all([
+      animeService.getTopCleanAnime(limit),
+      rankingViewService.getFreshness('anime_rankings_mv')
+    ]);
     
     res.json({
       success: true,
@@ -370,6 +303,7 @@ router.get('/clean/top/:limit?', async (req: Request, res: Response): Promise<vo
         category: 'top_anime_clean',
         results: topAnime
       },
+      meta: freshness,
       note: "This endpoint returns cleaned, LLM-optimized anime data with essential fields only."
     });
     
@@ -403,7 +337,8 @@ router.get('/reception/:id', async (req: Request, res: Response): Promise<void>
           polarization_level: reception.score_variance > 6 ? "Highly Polarizing" :
                              reception.score_variance > 3 ? "Moderately Polarizing" : "Generally Agreed Upon",
           review_engagement: reception.avg_review_length > 2000 ? "High Engagement" :
-                            reception.avg_review_length > 1000 ? "Moderate Engagement" : "Low Engagement"
+                            reception.avg_review_length > 1000 ? "Moderate Engagement" : "Low Engagement",
+          aspects: reception.aspect_summary || "Too few reviews discuss specific aspects"
         },
         metadata: {
           data_source: "local_review_database",
@@ -579,7 +514,7 @@ router.get('/sentiment/search', async (req: Request, res: Response): Promise<voi
 });
 
 // GET /api/anime/insights - Get review insights
-router.get('/insights', async (req: Request, res: Response): Promise<void> => {
+router.get('/insights', cacheResponse({ ttlSeconds: 600, tags: [CacheTags.reviews] }), async (req: Request, res: Response): Promise<void> => {
   try {
     const validatedParams = insightTypeSchema.parse(req.query);
     const { insight_type } = validatedParams;
@@ -758,7 +693,8 @@ router.get('/compare-reception', async (req: Request, res: Response): Promise<vo
           more_reviews: reception1.review_count > reception2.review_count ? anime1.title : anime2.title,
           review_count_difference: Math.abs(reception1.review_count - reception2.review_count),
           longer_reviews: reception1.avg_review_length > reception2.avg_review_length ? anime1.title : anime2.title
-        }
+        },
+        aspect_comparison: compareAspects(reception1.aspects, reception2.aspects, anime1.title, anime2.title)
       }
     };
 
@@ -844,39 +780,19 @@ router.get('/bulk', async (req: Request, res: Response): Promise<void> => {
 // GET /api/anime/compact/search - Ultra-compact search results
 router.get('/compact/search', async (req: Request, res: Response): Promise<void> => {
   try {
-    const validatedParams = searchParamsSchema.parse(req.query);
-
+    const validatedParams = legacySearchParamsSchema.parse(req.query);
     const searchParams: SearchParams = {
-      query: validatedParams.query,
-      genres: validatedParams.genres,
-      min_score: validatedParams.min_score,
-      max_score: validatedParams.max_score,
-      year: validatedParams.year,
-      min_year: validatedParams.min_year,
-      max_year: validatedParams.max_year,
-      decade: validatedParams.decade,
-      min_popularity: validatedParams.min_popularity,
-      max_popularity: validatedParams.max_popularity,
-      exclude_very_popular: validatedParams.exclude_very_popular,
-      airing_status: validatedParams.airing_status,
-      current_year_only: validatedParams.current_year_only,
-      season: validatedParams.season,
-      min_episodes: validatedParams.min_episodes,
-      max_episodes: validatedParams.max_episodes,
-      type: validatedParams.type,
-      order_by: validatedParams.order_by,
-      sort: validatedParams.sort,
-      sfw: validatedParams.sfw,
-      page: validatedParams.page,
+      ...validatedParams,
       limit: Math.min(validatedParams.limit, 15) // Force small limit for compact results
     };
 
-    const results = await animeService.getCompactSearch(searchParams);
+    const { results, did_you_mean } = await animeService.getCompactSearch(searchParams);
 
     res.json({
       success: true,
       total_results: results.length,
       data: results,
+      did_you_mean,
       note: "Ultra-compact results optimized for MCP tools with minimal token usage"
     });
 
@@ -951,6 +867,49 @@ router.get('/compact/current', async (req: Request, res: Response): Promise<void
   }
 });
 
+// GET /api/anime/recommendations/:id - Content-based similar anime
+router.get('/recommendations/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = animeIdSchema.parse(req.params);
+    const { limit } = recommendationsQuerySchema.parse(req.query);
+
+    const recommendations = await animeService.getSimilarAnime(id, {
+      limit,
+      compact: req.query.compact === 'true'
+    });
+
+    if (!recommendations) {
+      res.status(404).json({
+        success: false,
+        error: 'Anime not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: recommendations,
+      note: "Recommendations ranked by shared genres, themes, demographics, studios, synopsis overlap, era and type. Each result explains why it matched."
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid parameters',
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Get recommendations error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+});
+
 // Helper function for pattern descriptions
 function getPatternDescription(pattern: string): string {
   const descriptions: Record<string, string> = {
@@ -970,7 +929,7 @@ const reviewsQuerySchema = z.object({
   page: z.coerce.number().int().positive().optional().default(1),
   limit: z.coerce.number().int().positive().max(25).optional().default(10),
   preliminary: z.coerce.boolean().optional(),
-  spoilers: z.coerce.boolean().optional(),
+  spoilers: spoilerModeSchema,
   sort: z.enum(['date', 'helpful', 'score']).optional().default('date'),
   order: z.enum(['asc', 'desc']).optional().default('desc')
 });
@@ -998,7 +957,10 @@ router.get('/reviews/:id', async (req: Request, res: Response): Promise<void> =>
       paramIndex++;
     }
 
-    // Note: is_spoiler column doesn't exist in current schema, skipping spoiler filter
+    // Unclassified reviews (NULL) stay in and are redacted when returned
+    if (spoilers === 'hide') {
+      whereConditions.push('r.is_spoiler IS NOT TRUE');
+    }
 
     // Build ORDER BY clause
     let orderByClause = '';
@@ -1029,6 +991,8 @@ router.get('/reviews/:id', async (req: Request, res: Response): Promise<void> =>
         r.review_length,
         r.sentiment_score,
         r.sentiment_label,
+        r.is_spoiler,
+        r.spoiler_spans,
         a.title as anime_title
       FROM anime_reviews r
       JOIN anime a ON r.anime_id = a.mal_id
@@ -1076,7 +1040,7 @@ router.get('/reviews/:id', async (req: Request, res: Response): Promise<void> =>
           id: review.id,
           username: review.username,
           user_score: review.user_score,
-          review_text: review.review_text,
+          ...applySpoilerMode(review, spoilers),
           helpful_count: review.helpful_count,
           is_preliminary: review.is_preliminary,
           date_posted: review.date_posted,
@@ -1120,7 +1084,7 @@ router.get('/reviews/:id', async (req: Request, res: Response): Promise<void> =>
 });
 
 // GET /api/anime/reviews/:id/summary - Get reviews summary for MCP efficiency
-router.get('/reviews/:id/summary', async (req: Request, res: Response): Promise<void> => {
+router.get('/reviews/:id/summary', cacheResponse({ ttlSeconds: 600, tags: req => [CacheTags.reviewsByAnime(parseInt(req.params.id))] }), async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = animeIdSchema.parse(req.params);
 
@@ -1151,6 +1115,7 @@ router.get('/reviews/:id/summary', async (req: Request, res: Response): Promise<
         SUM(CASE WHEN sentiment_label = 'negative' THEN 1 ELSE 0 END) as negative_count,
         SUM(CASE WHEN sentiment_label = 'neutral' THEN 1 ELSE 0 END) as neutral_count,
         SUM(CASE WHEN is_preliminary = true THEN 1 ELSE 0 END) as preliminary_count,
+        SUM(CASE WHEN is_spoiler = true THEN 1 ELSE 0 END) as spoiler_count,
         AVG(review_length) as avg_review_length,
         AVG(helpful_count) as avg_helpful_count
       FROM anime_reviews
@@ -1210,7 +1175,8 @@ router.get('/reviews/:id/summary', async (req: Request, res: Response): Promise<
           },
           review_types: {
             preliminary_reviews: summary.preliminary_count,
-            regular_reviews: totalReviews - summary.preliminary_count
+            regular_reviews: totalReviews - summary.preliminary_count,
+            spoiler_reviews: summary.spoiler_count
           },
           engagement_metrics: {
             avg_review_length: summary.avg_review_length ? Math.round(summary.avg_review_length) : null,
@@ -1227,7 +1193,7 @@ router.get('/reviews/:id/summary', async (req: Request, res: Response): Promise<
         })),
         next_steps: {
           get_detailed_reviews: `Use /api/anime/reviews/${id} to get full review text and details`,
-          filter_options: "Add parameters: ?preliminary=false&spoilers=false&sort=helpful&limit=5",
+          filter_options: "Add parameters: ?preliminary=false&spoilers=hide&sort=helpful&limit=5 (spoilers=hide|redact|show, default redact)",
           note: "This summary gives you an overview without flooding the context. Use the detailed endpoint when you need actual review content."
         }
       }
@@ -1257,6 +1223,7 @@ router.get('/reviews/:id/sample', async (req: Request, res: Response): Promise<v
     const { id } = animeIdSchema.parse(req.params);
     const limitParam = parseInt(req.query.limit as string) || 10;
     const limit = Math.min(limitParam, 15); // Cap at 15 for context safety
+    const spoilers = spoilerModeSchema.parse(req.query.spoilers);
 
     // Import db here to avoid circular imports
     const { db } = await import('../../database/connection');
@@ -1278,29 +1245,33 @@ router.get('/reviews/:id/sample', async (req: Request, res: Response): Promise<v
 
     // Get balanced sample - take top reviews from each sentiment category
     const reviewsPerSentiment = Math.ceil(limit / 3);
+    const spoilerFilter = spoilers === 'hide' ? 'AND is_spoiler IS NOT TRUE' : '';
 
     const sampleQuery = `
       (SELECT
         id, username, user_score, review_text, helpful_count,
-        sentiment_label, sentiment_score, is_preliminary, date_posted, review_length
+        sentiment_label, sentiment_score, is_preliminary, date_posted, review_length,
+        is_spoiler, spoiler_spans
        FROM anime_reviews
-       WHERE anime_id = $1 AND sentiment_label = 'positive'
+       WHERE anime_id = $1 AND sentiment_label = 'positive' ${spoilerFilter}
        ORDER BY helpful_count DESC, date_posted DESC
        LIMIT $2)
       UNION ALL
       (SELECT
         id, username, user_score, review_text, helpful_count,
-        sentiment_label, sentiment_score, is_preliminary, date_posted, review_length
+        sentiment_label, sentiment_score, is_preliminary, date_posted, review_length,
+        is_spoiler, spoiler_spans
        FROM anime_reviews
-       WHERE anime_id = $1 AND sentiment_label = 'negative'
+       WHERE anime_id = $1 AND sentiment_label = 'negative' ${spoilerFilter}
        ORDER BY helpful_count DESC, date_posted DESC
        LIMIT $2)
       UNION ALL
       (SELECT
         id, username, user_score, review_text, helpful_count,
-        sentiment_label, sentiment_score, is_preliminary, date_posted, review_length
+        sentiment_label, sentiment_score, is_preliminary, date_posted, review_length,
+        is_spoiler, spoiler_spans
        FROM anime_reviews
-       WHERE anime_id = $1 AND sentiment_label = 'neutral'
+       WHERE anime_id = $1 AND sentiment_label = 'neutral' ${spoilerFilter}
        ORDER BY helpful_count DESC, date_posted DESC
        LIMIT $2)
       ORDER BY sentiment_label, helpful_count DESC
@@ -1335,13 +1306,14 @@ router.get('/reviews/:id/sample', async (req: Request, res: Response): Promise<v
         sample_info: {
           total_sampled: reviews.length,
           sentiment_distribution: sentimentCounts,
-          sampling_strategy: "Balanced mix of positive/negative/neutral reviews, prioritized by helpfulness"
+          sampling_strategy: "Balanced mix of positive/negative/neutral reviews, prioritized by helpfulness",
+          spoilers: spoilers
         },
         reviews: reviews.map(review => ({
           id: review.id,
           username: review.username,
           user_score: review.user_score,
-          review_text: review.review_text,
+          ...applySpoilerMode(review, spoilers),
           helpful_count: review.helpful_count,
           sentiment_label: review.sentiment_label,
           sentiment_score: review.sentiment_score,
@@ -1357,7 +1329,7 @@ router.get('/reviews/:id/sample', async (req: Request, res: Response): Promise<v
     if (error instanceof z.ZodError) {
       res.status(400).json({
         success: false,
-        error: 'Invalid anime ID',
+        error: 'Invalid parameters',
         details: error.errors
       });
       return;
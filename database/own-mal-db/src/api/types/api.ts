@@ -6,9 +6,12 @@ export type ResponseFormat = 'standard' | 'clean' | 'compact';
 
 export interface ApiMeta {
   format?: ResponseFormat;
+  fields?: string[];
   page?: number;
   limit?: number;
   total?: number;
+  next_cursor?: string | null;
+  prev_cursor?: string | null;
   note?: string;
   [key: string]: any;
 }
@@ -5,8 +5,16 @@
 
 import { Request, Response } from 'express';
 import { animeService } from '../../../services/animeService';
-import { SearchParams } from '../../../types/anime';
+import { InvalidCursorError } from '../../../database/keysetPagination';
+import { characterService } from '../../../services/characterService';
+import { franchiseService } from '../../../services/franchiseService';
+import { staffService } from '../../../services/staffService';
+import { rankingViewService } from '../../../services/rankingViewService';
+import { statisticsService } from '../../../services/statisticsService';
+import { AnimeCharacterFilters, SearchParams, TopAnimeOptions } from '../../../types/anime';
 import { ApiResponse } from '../../types/api';
+import { wantsFreshData } from '../../middleware/cacheMiddleware';
+import { searchParamsSchema } from '../../validators/search.validators';
 
 export class AnimeController {
   /**
@@ -66,46 +74,48 @@ export class AnimeController {
    */
   async searchAnime(req: Request, res: Response): Promise<void> {
     try {
-      const searchParams: SearchParams = {
-        query: req.query.query as string,
-        genres: req.query.genres as string,
-        min_score: req.query.min_score ? parseFloat(req.query.min_score as string) : undefined,
-        max_score: req.query.max_score ? parseFloat(req.query.max_score as string) : undefined,
-        year: req.query.year ? parseInt(req.query.year as string) : undefined,
-        min_year: req.query.min_year ? parseInt(req.query.min_year as string) : undefined,
-        max_year: req.query.max_year ? parseInt(req.query.max_year as string) : undefined,
-        decade: req.query.decade as string,
-        min_popularity: req.query.min_popularity ? parseInt(req.query.min_popularity as string) : undefined,
-        max_popularity: req.query.max_popularity ? parseInt(req.query.max_popularity as string) : undefined,
-        exclude_very_popular: req.query.exclude_very_popular === 'true',
-        airing_status: req.query.airing_status as any,
-        current_year_only: req.query.current_year_only === 'true',
-        season: req.query.season as any,
-        min_episodes: req.query.min_episodes ? parseInt(req.query.min_episodes as string) : undefined,
-        max_episodes: req.query.max_episodes ? parseInt(req.query.max_episodes as string) : undefined,
-        type: req.query.type as any,
-        order_by: (req.query.order_by as any) || 'mal_id',
-        sort: (req.query.sort as any) || 'desc',
-        sfw: req.query.sfw !== 'false',
-        page: req.query.page ? parseInt(req.query.page as string) : 1,
-        limit: req.query.limit ? parseInt(req.query.limit as string) : 25
-      };
+      // Validated by the route; parsed again for the coerced values and defaults
+      const searchParams: SearchParams = searchParamsSchema.parse(req.query);
+
+      if (searchParams.cursor && searchParams.collapse_franchise) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'cursor cannot be combined with collapse_franchise, use page instead',
+            code: 'INVALID_CURSOR'
+          }
+        });
+        return;
+      }
 
-      const results = await animeService.searchAnime(searchParams);
+      const { next_cursor, prev_cursor, did_you_mean, ...results } = await animeService.searchAnime(searchParams);
 
       const response: ApiResponse<any> = {
         success: true,
         data: results,
         meta: {
           format: req.responseFormat,
-          page: searchParams.page,
+          page: searchParams.cursor ? undefined : searchParams.page,
           limit: searchParams.limit,
-          total: results.total_results
+          total: results.total_results,
+          next_cursor: next_cursor ?? null,
+          prev_cursor: prev_cursor ?? null,
+          did_you_mean: did_you_mean ?? null
         }
       };
 
       res.json(response);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: error.message,
+            code: 'INVALID_CURSOR'
+          }
+        });
+        return;
+      }
       console.error('Search anime error:', error);
       res.status(500).json({
         success: false,
@@ -118,11 +128,16 @@ export class AnimeController {
   }
 
   /**
-   * GET /api/v1/anime/top - Get top anime
+   * GET /api/v1/anime/top - Get top anime, overall or for one season (?fresh=true skips the materialized view)
    */
   async getTopAnime(req: Request, res: Response): Promise<void> {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+      const collapseFranchise = req.query.collapse_franchise === 'true';
+      const cursor = req.query.cursor as string | undefined;
+      const year = req.query.year ? parseInt(req.query.year as string) : undefined;
+      const season = req.query.season as TopAnimeOptions['season'] | undefined;
+      const fresh = wantsFreshData(req);
 
       if (limit < 1 || limit > 100) {
         res.status(400).json({
@@ -135,7 +150,35 @@ export class AnimeController {
         return;
       }
 
-      const topAnime = await animeService.getTopAnime(limit);
+      if (cursor && collapseFranchise) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'cursor cannot be combined with collapse_franchise',
+            code: 'INVALID_CURSOR'
+          }
+        });
+        return;
+      }
+
+      if ((year !== undefined && isNaN(year)) || (season && !['winter', 'spring', 'summer', 'fall'].includes(season))) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid year or season. Season must be winter, spring, summer or fall.',
+            code: 'INVALID_SEASON'
+          }
+        });
+        return;
+      }
+
+      // Franchise collapsing isn't precomputed, so it's always ranked live
+      const live = fresh || collapseFranchise;
+      const [topPage, freshness] = await Promise.all([
+        animeService.getTopAnimePage(limit, collapseFranchise, cursor, { year, season, fresh }),
+        rankingViewService.getFreshness('anime_rankings_mv', live)
+      ]);
+      const topAnime = topPage.results;
 
       const response: ApiResponse<any> = {
         success: true,
@@ -143,15 +186,31 @@ export class AnimeController {
           total_results: topAnime.length,
           limit: limit,
           category: 'top_anime',
+          collapse_franchise: collapseFranchise,
+          year: year ?? null,
+          season: season ?? null,
           results: topAnime
         },
         meta: {
-          format: req.responseFormat
+          format: req.responseFormat,
+          next_cursor: topPage.next_cursor ?? null,
+          prev_cursor: topPage.prev_cursor ?? null,
+          ...freshness
         }
       };
 
       res.json(response);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: error.message,
+            code: 'INVALID_CURSOR'
+          }
+        });
+        return;
+      }
       console.error('Get top anime error:', error);
       res.status(500).json({
         success: false,
@@ -164,63 +223,78 @@ export class AnimeController {
   }
 
   /**
-   * GET /api/v1/anime/bulk - Get multiple anime by IDs
+   * GET /api/v1/anime/bulk - Get multiple anime by IDs and/or titles
    */
   async getBulkAnime(req: Request, res: Response): Promise<void> {
     try {
-      const idsParam = req.query.ids as string;
-      const compact = req.query.compact === 'true';
+      const idsParam = req.query.ids as string | undefined;
+      const titlesParam = req.query.titles as string | undefined;
+      const compact = req.responseFormat === 'compact';
 
-      if (!idsParam) {
+      if (!idsParam && !titlesParam) {
         res.status(400).json({
           success: false,
           error: {
-            message: 'IDs parameter is required',
+            message: 'ids or titles parameter is required',
             code: 'MISSING_IDS'
           }
         });
         return;
       }
 
-      const ids = idsParam.split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id) && id > 0);
+      const ids = idsParam
+        ? idsParam.split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id) && id > 0)
+        : [];
+      // Titles may contain commas, so they are separated by |
+      const titles = titlesParam
+        ? titlesParam.split('|').map(title => title.trim()).filter(title => title.length > 0)
+        : [];
 
-      if (ids.length === 0) {
+      if (ids.length === 0 && titles.length === 0) {
         res.status(400).json({
           success: false,
           error: {
-            message: 'No valid anime IDs provided',
+            message: 'No valid anime IDs or titles provided',
             code: 'INVALID_IDS'
           }
         });
         return;
       }
 
-      if (ids.length > 100) {
+      if (ids.length + titles.length > 100) {
         res.status(400).json({
           success: false,
           error: {
-            message: 'Too many IDs. Maximum 100 IDs allowed per request',
+            message: 'Too many IDs. Maximum 100 IDs and titles allowed per request',
             code: 'TOO_MANY_IDS'
           }
         });
         return;
       }
 
-      const results = await animeService.getBulkAnimeByIds(ids, compact);
+      const resolvedTitles = titles.length > 0 ? await animeService.resolveTitles(titles) : [];
+      const titleIds = resolvedTitles.flatMap(resolved => resolved.mal_id !== null ? [resolved.mal_id] : []);
+      const unresolvedTitles = resolvedTitles.filter(resolved => resolved.mal_id === null).map(resolved => resolved.input);
+
+      const results = await animeService.getBulkAnimeByIds([...new Set([...ids, ...titleIds])], compact);
       const foundIds = results.map((anime: any) => anime.mal_id || anime.id);
       const missingIds = ids.filter(id => !foundIds.includes(id));
 
       const response: ApiResponse<any> = {
         success: true,
         data: {
-          total_requested: ids.length,
+          total_requested: ids.length + titles.length,
           total_found: results.length,
-          total_missing: missingIds.length,
+          total_missing: missingIds.length + unresolvedTitles.length,
           missing_ids: missingIds.length > 0 ? missingIds : undefined,
+          resolved_titles: titles.length > 0
+            ? Object.fromEntries(resolvedTitles.map(resolved => [resolved.input, resolved.mal_id]))
+            : undefined,
+          unresolved_titles: unresolvedTitles.length > 0 ? unresolvedTitles : undefined,
           results
         },
         meta: {
-          format: compact ? 'compact' : req.responseFormat
+          format: req.responseFormat
         }
       };
 
@@ -236,6 +310,212 @@ export class AnimeController {
       });
     }
   }
+  /**
+   * GET /api/v1/anime/:id/recommendations - Get content-based recommendations
+   */
+  async getRecommendations(req: Request, res: Response): Promise<void> {
+    try {
+      const malId = parseInt(req.params.id);
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+      const compact = req.responseFormat === 'compact';
+
+      if (isNaN(malId)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid anime ID',
+            code: 'INVALID_ID'
+          }
+        });
+        return;
+      }
+
+      if (isNaN(limit) || limit < 1 || limit > 25) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid limit. Must be between 1 and 25.',
+            code: 'INVALID_LIMIT'
+          }
+        });
+        return;
+      }
+
+      const recommendations = await animeService.getSimilarAnime(malId, {
+        limit,
+        compact,
+        sfw: req.query.sfw !== 'false'
+      });
+
+      if (!recommendations) {
+        res.status(404).json({
+          success: false,
+          error: {
+            message: 'Anime not found',
+            code: 'NOT_FOUND'
+          }
+        });
+        return;
+      }
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: recommendations,
+        meta: {
+          format: req.responseFormat,
+          limit,
+          note: 'Content-based similarity: shared genres, themes, demographics, studios, synopsis, era and type'
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get recommendations error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+  /**
+   * GET /api/v1/anime/:id/relations - Get direct relations (prequel, sequel, adaptation, ...)
+   */
+  async getRelations(req: Request, res: Response): Promise<void> {
+    await respondWithAnimeResource(req, res, 'relations', malId => animeService.getAnimeById(malId), (anime, malId) => {
+      const relations = anime.relations || [];
+      return {
+        data: {
+          anime_id: malId,
+          title: anime.title,
+          total_relations: relations.length,
+          relations
+        }
+      };
+    });
+  }
+
+  /**
+   * GET /api/v1/anime/:id/franchise - Get franchise entries in watch order
+   */
+  async getFranchise(req: Request, res: Response): Promise<void> {
+    await respondWithAnimeResource(req, res, 'franchise', malId => franchiseService.getFranchiseWatchOrder(malId), franchise => ({
+      data: franchise,
+      meta: { note: 'Watch order follows prequel/sequel/side story relations, ties broken by air date' }
+    }));
+  }
+
+  /**
+   * GET /api/v1/anime/:id/characters - Get characters and voice actors
+   */
+  async getCharacters(req: Request, res: Response): Promise<void> {
+    const filters: AnimeCharacterFilters = {};
+    if (req.query.role) {
+      const role = req.query.role as string;
+      if (role !== 'Main' && role !== 'Supporting') {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'role must be Main or Supporting',
+            code: 'INVALID_ROLE'
+          }
+        });
+        return;
+      }
+      filters.role = role;
+    }
+    if (req.query.language) filters.language = req.query.language as string;
+
+    await respondWithAnimeResource(req, res, 'characters', malId => characterService.getAnimeCharacters(malId, filters), characters => ({
+      data: characters
+    }));
+  }
+
+  /**
+   * GET /api/v1/anime/:id/staff - Get staff credits
+   */
+  async getStaff(req: Request, res: Response): Promise<void> {
+    const position = req.query.position as string | undefined;
+
+    await respondWithAnimeResource(req, res, 'staff', malId => staffService.getAnimeStaff(malId, position), staff => ({
+      data: staff
+    }));
+  }
+
+  /**
+   * GET /api/v1/anime/:id/statistics - Get watch status counts, score distribution and derived metrics
+   */
+  async getStatistics(req: Request, res: Response): Promise<void> {
+    await respondWithAnimeResource(req, res, 'statistics', malId => statisticsService.getAnimeStatistics(malId), statistics => ({
+      data: statistics,
+      meta: statistics.user_counts.total === 0
+        ? { note: 'No statistics crawled for this anime yet (npm run statistics)' }
+        : {}
+    }));
+  }
+}
+
+/**
+ * Shared flow of the /api/v1/anime/:id/<resource> endpoints: 400 for a non-numeric id,
+ * 404 when load() finds no anime, 500 when it throws, otherwise the data with its meta
+ */
+async function respondWithAnimeResource<T>(
+  req: Request,
+  res: Response,
+  resource: string,
+  load: (malId: number) => Promise<T | null>,
+  present: (data: T, malId: number) => { data: any; meta?: Record<string, any> }
+): Promise<void> {
+  try {
+    const malId = parseInt(req.params.id);
+
+    if (isNaN(malId)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message: 'Invalid anime ID',
+          code: 'INVALID_ID'
+        }
+      });
+      return;
+    }
+
+    const loaded = await load(malId);
+
+    if (!loaded) {
+      res.status(404).json({
+        success: false,
+        error: {
+          message: 'Anime not found',
+          code: 'NOT_FOUND'
+        }
+      });
+      return;
+    }
+
+    const { data, meta } = present(loaded, malId);
+    const response: ApiResponse<any> = {
+      success: true,
+      data,
+      meta: {
+        format: req.responseFormat,
+        ...meta
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error(`Get ${resource} error:`, error);
+    res.status(500).json({
+      success: false,
+      error: {
+        message: 'Internal server error',
+        code: 'INTERNAL_ERROR'
+      }
+    });
+  }
 }
 
 export const animeController = new AnimeController();
\ No newline at end of file
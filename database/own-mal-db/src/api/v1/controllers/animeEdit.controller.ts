@@ -0,0 +1,180 @@
+/**
+ * Anime Edit Controller (v1)
+ * Business logic for manual anime corrections and their audit trail
+ */
+
+import { Request, Response } from 'express';
+import { animeEditService, AnimeEditError, AnimeEditErrorCode } from '../../../services/animeEditService';
+import { ApiResponse } from '../../types/api';
+
+const EDIT_ERROR_STATUS: Record<AnimeEditErrorCode, number> = {
+  NOT_FOUND: 404,
+  ENTRY_NOT_FOUND: 404,
+  ALREADY_EXISTS: 409,
+  CONFLICT: 409,
+  NOT_REVERTIBLE: 422
+};
+
+// Helper to map service errors to responses, shared by all write endpoints
+function sendEditError(res: Response, error: unknown, context: string): void {
+  if (error instanceof AnimeEditError) {
+    res.status(EDIT_ERROR_STATUS[error.code]).json({
+      success: false,
+      error: {
+        message: error.message,
+        code: error.code
+      }
+    });
+    return;
+  }
+
+  console.error(`${context} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: {
+      message: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    }
+  });
+}
+
+export class AnimeEditController {
+  /**
+   * POST /api/v1/anime/:id - Create an anime record
+   */
+  async createAnime(req: Request, res: Response): Promise<void> {
+    try {
+      const malId = parseInt(req.params.id);
+      const { reason, ...fields } = req.body;
+
+      const result = await animeEditService.createAnime(malId, fields, req.actor || 'admin', reason);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: result,
+        meta: {
+          format: req.responseFormat
+        }
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      sendEditError(res, error, 'Create anime');
+    }
+  }
+
+  /**
+   * PATCH /api/v1/anime/:id - Correct fields of an anime
+   */
+  async updateAnime(req: Request, res: Response): Promise<void> {
+    try {
+      const malId = parseInt(req.params.id);
+      const { reason, ...changes } = req.body;
+
+      const result = await animeEditService.updateAnime(malId, changes, req.actor || 'admin', reason);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: result,
+        meta: {
+          format: req.responseFormat,
+          note: result.entry ? undefined : 'No field changed, nothing was recorded'
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      sendEditError(res, error, 'Update anime');
+    }
+  }
+
+  /**
+   * DELETE /api/v1/anime/:id - Delete an anime record
+   */
+  async deleteAnime(req: Request, res: Response): Promise<void> {
+    try {
+      const malId = parseInt(req.params.id);
+
+      const result = await animeEditService.deleteAnime(malId, req.actor || 'admin', req.body?.reason);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: result,
+        meta: {
+          format: req.responseFormat,
+          note: 'The deleted row is kept in the history; revert the entry to restore it'
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      sendEditError(res, error, 'Delete anime');
+    }
+  }
+
+  /**
+   * GET /api/v1/anime/:id/history - Get the edit history of an anime
+   */
+  async getHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const malId = parseInt(req.params.id);
+      const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string), 200) : 50;
+
+      if (isNaN(limit) || limit < 1) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid limit. Must be between 1 and 200.',
+            code: 'INVALID_LIMIT'
+          }
+        });
+        return;
+      }
+
+      const history = await animeEditService.getHistory(malId, limit);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: {
+          anime_id: malId,
+          total_entries: history.length,
+          history
+        },
+        meta: {
+          format: req.responseFormat,
+          limit
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      sendEditError(res, error, 'Get anime history');
+    }
+  }
+
+  /**
+   * POST /api/v1/anime/:id/history/:entryId/revert - Revert a single history entry
+   */
+  async revertEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const malId = parseInt(req.params.id);
+      const entryId = parseInt(req.params.entryId);
+
+      const result = await animeEditService.revertEntry(malId, entryId, req.actor || 'admin', req.body?.reason);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: result,
+        meta: {
+          format: req.responseFormat
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      sendEditError(res, error, 'Revert anime history entry');
+    }
+  }
+}
+
+export const animeEditController = new AnimeEditController();
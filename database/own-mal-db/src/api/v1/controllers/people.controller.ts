@@ -0,0 +1,118 @@
+/**
+ * People Controller (v1)
+ * Business logic for people (voice actor and staff) endpoints
+ */
+
+import { Request, Response } from 'express';
+import { characterService } from '../../../services/characterService';
+import { staffService } from '../../../services/staffService';
+import { ApiResponse } from '../../types/api';
+
+export class PeopleController {
+  /**
+   * GET /api/v1/people/:id - Get person by MAL ID with their voice roles
+   */
+  async getPersonById(req: Request, res: Response): Promise<void> {
+    try {
+      const personId = parseInt(req.params.id);
+
+      if (isNaN(personId)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid person ID',
+            code: 'INVALID_ID'
+          }
+        });
+        return;
+      }
+
+      const person = await characterService.getPersonById(personId);
+
+      if (!person) {
+        res.status(404).json({
+          success: false,
+          error: {
+            message: 'Person not found',
+            code: 'NOT_FOUND'
+          }
+        });
+        return;
+      }
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: person,
+        meta: {
+          format: req.responseFormat
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get person error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/people/:id/filmography - Get staff credits sorted by score
+   */
+  async getFilmography(req: Request, res: Response): Promise<void> {
+    try {
+      const personId = parseInt(req.params.id);
+      const position = req.query.position as string | undefined;
+
+      if (isNaN(personId)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid person ID',
+            code: 'INVALID_ID'
+          }
+        });
+        return;
+      }
+
+      const filmography = await staffService.getPersonFilmography(personId, position);
+
+      if (!filmography) {
+        res.status(404).json({
+          success: false,
+          error: {
+            message: 'Person not found',
+            code: 'NOT_FOUND'
+          }
+        });
+        return;
+      }
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: filmography,
+        meta: {
+          format: req.responseFormat
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get filmography error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+}
+
+export const peopleController = new PeopleController();
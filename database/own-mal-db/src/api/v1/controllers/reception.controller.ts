@@ -5,8 +5,12 @@
 
 import { Request, Response } from 'express';
 import { receptionRepository, SentimentPattern, InsightType } from '../../repositories/receptionRepository';
-import { ReviewAnalyzer } from '../../../services/reviewAnalyzer';
+import { ReviewAnalyzer, compareAspects } from '../../../services/reviewAnalyzer';
+import { rankingViewService } from '../../../services/rankingViewService';
+import { InvalidCursorError } from '../../../database/keysetPagination';
 import { ApiResponse } from '../../types/api';
+import { wantsFreshData } from '../../middleware/cacheMiddleware';
+import { receptionLeaderboardSchema } from '../../validators/review.validators';
 
 const reviewAnalyzer = new ReviewAnalyzer();
 
@@ -57,7 +61,8 @@ export class ReceptionController {
             polarization_level: reception.score_variance > 6 ? 'Highly Polarizing' :
                                reception.score_variance > 3 ? 'Moderately Polarizing' : 'Generally Agreed Upon',
             review_engagement: reception.avg_review_length > 2000 ? 'High Engagement' :
-                              reception.avg_review_length > 1000 ? 'Moderate Engagement' : 'Low Engagement'
+                              reception.avg_review_length > 1000 ? 'Moderate Engagement' : 'Low Engagement',
+            aspects: reception.aspect_summary || 'Too few reviews discuss specific aspects'
           },
           metadata: {
             data_source: 'local_review_database',
@@ -101,6 +106,8 @@ export class ReceptionController {
       const sentimentPattern = req.query.sentiment_pattern as SentimentPattern;
       const minReviews = req.query.min_reviews ? parseInt(req.query.min_reviews as string) : 10;
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+      const page = req.query.page ? parseInt(req.query.page as string) : 1;
+      const cursor = req.query.cursor as string | undefined;
 
       if (!sentimentPattern) {
         res.status(400).json({
@@ -113,9 +120,9 @@ export class ReceptionController {
         return;
       }
 
-      const anime = await receptionRepository.searchBySentimentPattern(sentimentPattern, minReviews, limit);
+      const searchPage = await receptionRepository.searchBySentimentPattern(sentimentPattern, minReviews, limit, { page, cursor });
 
-      const formattedResults = anime.map(row => {
+      const formattedResults = searchPage.results.map(row => {
         const receptionData = row.reception_data;
         return {
           mal_id: row.mal_id,
@@ -148,12 +155,26 @@ export class ReceptionController {
         },
         meta: {
           format: req.responseFormat,
-          total: formattedResults.length
+          page: cursor ? undefined : page,
+          limit,
+          total: formattedResults.length,
+          next_cursor: searchPage.next_cursor,
+          prev_cursor: searchPage.prev_cursor
         }
       };
 
       res.json(response);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: error.message,
+            code: 'INVALID_CURSOR'
+          }
+        });
+        return;
+      }
       console.error('Search by sentiment error:', error);
       res.status(500).json({
         success: false,
@@ -236,7 +257,8 @@ export class ReceptionController {
             more_reviews: reception1.review_count > reception2.review_count ? anime1.title : anime2.title,
             review_count_difference: Math.abs(reception1.review_count - reception2.review_count),
             longer_reviews: reception1.avg_review_length > reception2.avg_review_length ? anime1.title : anime2.title
-          }
+          },
+          aspect_comparison: compareAspects(reception1.aspects, reception2.aspects, anime1.title, anime2.title)
         }
       };
 
@@ -262,7 +284,7 @@ export class ReceptionController {
   }
 
   /**
-   * GET /api/v1/reception/insights - Get review insights
+   * GET /api/v1/reception/insights - Get review insights (?fresh=true skips the materialized view)
    */
   async getInsights(req: Request, res: Response): Promise<void> {
     try {
@@ -279,7 +301,12 @@ export class ReceptionController {
         return;
       }
 
-      const rawInsights = await receptionRepository.getInsights(insightType);
+      // The overview counts whole tables, it doesn't come from the leaderboard view
+      const fresh = wantsFreshData(req) || insightType === 'database_overview';
+      const [rawInsights, freshness] = await Promise.all([
+        receptionRepository.getInsights(insightType, fresh),
+        rankingViewService.getFreshness('reception_leaderboard_mv', fresh)
+      ]);
 
       let insights: any = {
         type: insightType,
@@ -314,7 +341,8 @@ export class ReceptionController {
           }
         },
         meta: {
-          format: req.responseFormat
+          format: req.responseFormat,
+          ...freshness
         }
       };
 
@@ -330,6 +358,45 @@ export class ReceptionController {
       });
     }
   }
+
+  /**
+   * GET /api/v1/reception/leaderboard - Best received, most polarizing or most reviewed anime
+   */
+  async getLeaderboard(req: Request, res: Response): Promise<void> {
+    try {
+      const params = receptionLeaderboardSchema.parse(req.query);
+      const fresh = wantsFreshData(req);
+      const [results, freshness] = await Promise.all([
+        receptionRepository.getLeaderboard(params.by, params.min_reviews, params.limit, fresh),
+        rankingViewService.getFreshness('reception_leaderboard_mv', fresh)
+      ]);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: {
+          leaderboard: params.by,
+          min_reviews: params.min_reviews,
+          total_results: results.length,
+          results
+        },
+        meta: {
+          format: req.responseFormat,
+          ...freshness
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get reception leaderboard error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
 }
 
 export const receptionController = new ReceptionController();
\ No newline at end of file
@@ -5,8 +5,11 @@
 
 import { Request, Response } from 'express';
 import { reviewRepository } from '../../repositories/reviewRepository';
+import { InvalidCursorError } from '../../../database/keysetPagination';
 import { db } from '../../../database/connection';
 import { ApiResponse } from '../../types/api';
+import { reviewSpoilersQuerySchema } from '../../validators/review.validators';
+import { applySpoilerMode } from '../../../services/spoilerClassifier';
 
 export class ReviewsController {
   /**
@@ -20,6 +23,8 @@ export class ReviewsController {
       const preliminary = req.query.preliminary === 'true' ? true : req.query.preliminary === 'false' ? false : undefined;
       const sort = (req.query.sort as any) || 'date';
       const order = (req.query.order as any) || 'desc';
+      const cursor = req.query.cursor as string | undefined;
+      const { spoilers } = reviewSpoilersQuerySchema.parse(req.query);
 
       if (isNaN(animeId)) {
         res.status(400).json({
@@ -32,12 +37,13 @@ export class ReviewsController {
         return;
       }
 
-      const [reviews, totalReviews] = await Promise.all([
-        reviewRepository.findByAnimeId(animeId, { page, limit, preliminary, sort, order }),
-        reviewRepository.countByAnimeId(animeId, { preliminary })
+      const [reviewPage, totalReviews] = await Promise.all([
+        reviewRepository.findByAnimeId(animeId, { page, limit, preliminary, spoilers, sort, order, cursor }),
+        reviewRepository.countByAnimeId(animeId, { preliminary, spoilers })
       ]);
+      const reviews = reviewPage.reviews;
 
-      if (reviews.length === 0) {
+      if (totalReviews === 0) {
         res.status(404).json({
           success: false,
           error: {
@@ -49,7 +55,7 @@ export class ReviewsController {
       }
 
       const totalPages = Math.ceil(totalReviews / limit);
-      const animeTitle = reviews[0].anime_title;
+      const animeTitle = reviews[0]?.anime_title || null;
 
       const response: ApiResponse<any> = {
         success: true,
@@ -60,7 +66,7 @@ export class ReviewsController {
             id: review.id,
             username: review.username,
             user_score: review.user_score,
-            review_text: review.review_text,
+            ...applySpoilerMode(review, spoilers),
             helpful_count: review.helpful_count,
             is_preliminary: review.is_preliminary,
             date_posted: review.date_posted,
@@ -68,25 +74,38 @@ export class ReviewsController {
             sentiment_score: review.sentiment_score,
             sentiment_label: review.sentiment_label
           })),
+          spoilers,
           pagination: {
-            current_page: page,
+            current_page: cursor ? null : page,
             total_pages: totalPages,
             total_reviews: totalReviews,
             per_page: limit,
-            has_next: page < totalPages,
-            has_prev: page > 1
+            has_next: cursor ? reviewPage.next_cursor !== null : page < totalPages,
+            has_prev: cursor ? reviewPage.prev_cursor !== null : page > 1
           }
         },
         meta: {
           format: req.responseFormat,
-          page,
+          page: cursor ? undefined : page,
           limit,
-          total: totalReviews
+          total: totalReviews,
+          next_cursor: reviewPage.next_cursor,
+          prev_cursor: reviewPage.prev_cursor
         }
       };
 
       res.json(response);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: error.message,
+            code: 'INVALID_CURSOR'
+          }
+        });
+        return;
+      }
       console.error('Get reviews error:', error);
       res.status(500).json({
         success: false,
@@ -170,7 +189,8 @@ export class ReviewsController {
             },
             review_types: {
               preliminary_reviews: summary.preliminary_count,
-              regular_reviews: totalReviews - summary.preliminary_count
+              regular_reviews: totalReviews - summary.preliminary_count,
+              spoiler_reviews: summary.spoiler_count
             },
             engagement_metrics: {
               avg_review_length: summary.avg_review_length ? Math.round(summary.avg_review_length) : null,
@@ -213,6 +233,7 @@ export class ReviewsController {
       const animeId = parseInt(req.params.id);
       const limitParam = parseInt(req.query.limit as string) || 10;
       const limit = Math.min(limitParam, 15); // Cap at 15
+      const { spoilers } = reviewSpoilersQuerySchema.parse(req.query);
 
       if (isNaN(animeId)) {
         res.status(400).json({
@@ -241,7 +262,7 @@ export class ReviewsController {
       }
 
       const animeTitle = titleResult.rows[0].title;
-      const reviews = await reviewRepository.getBalancedSample(animeId, limit);
+      const reviews = await reviewRepository.getBalancedSample(animeId, limit, spoilers);
 
       if (reviews.length === 0) {
         res.status(404).json({
@@ -268,13 +289,14 @@ export class ReviewsController {
           sample_info: {
             total_sampled: reviews.length,
             sentiment_distribution: sentimentCounts,
-            sampling_strategy: 'Balanced mix of positive/negative/neutral reviews, prioritized by helpfulness'
+            sampling_strategy: 'Balanced mix of positive/negative/neutral reviews, prioritized by helpfulness',
+            spoilers
           },
           reviews: reviews.map(review => ({
             id: review.id,
             username: review.username,
             user_score: review.user_score,
-            review_text: review.review_text,
+            ...applySpoilerMode(review, spoilers),
             helpful_count: review.helpful_count,
             sentiment_label: review.sentiment_label,
             sentiment_score: review.sentiment_score,
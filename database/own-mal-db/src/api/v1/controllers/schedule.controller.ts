@@ -0,0 +1,66 @@
+/**
+ * Schedule Controller (v1)
+ * Business logic for airing schedule endpoints
+ */
+
+import { Request, Response } from 'express';
+import { scheduleService } from '../../../services/scheduleService';
+import { calendarQuerySchema, scheduleQuerySchema } from '../../validators/schedule.validators';
+import { ApiResponse } from '../../types/api';
+
+export class ScheduleController {
+  /**
+   * GET /api/v1/schedule - Airing schedule of a week in the requester's time zone
+   */
+  async getSchedule(req: Request, res: Response): Promise<void> {
+    try {
+      const params = scheduleQuerySchema.parse(req.query);
+      const schedule = await scheduleService.getWeeklySchedule(params);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: schedule,
+        meta: {
+          format: req.responseFormat,
+          note: 'Broadcast times are converted from JST; estimated_episode counts weekly slots since the premiere, so breaks throw it off'
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get schedule error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/schedule/calendar.ics - iCalendar feed of upcoming episodes
+   */
+  async getCalendar(req: Request, res: Response): Promise<void> {
+    try {
+      const params = calendarQuerySchema.parse(req.query);
+      const calendar = await scheduleService.getCalendar(params);
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', 'inline; filename="anime-schedule.ics"');
+      res.send(calendar);
+    } catch (error) {
+      console.error('Get schedule calendar error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+}
+
+export const scheduleController = new ScheduleController();
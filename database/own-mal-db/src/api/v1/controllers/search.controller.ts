@@ -4,9 +4,37 @@
  */
 
 import { Request, Response } from 'express';
+import { airingStatusService, AiringStatus } from '../../../services/airingStatusService';
 import { animeService } from '../../../services/animeService';
+import { queryParser } from '../../../services/queryParser';
+import { semanticSearchService } from '../../../services/semanticSearchService';
+import { statisticsService } from '../../../services/statisticsService';
+import { VIBE_TAG_NAMES, VibeTag, vibeTagService } from '../../../services/vibeTagService';
+import { controversialQuerySchema, recentTransitionsQuerySchema, titleSuggestQuerySchema, vibeBrowseQuerySchema } from '../../validators/search.validators';
 import { ApiResponse } from '../../types/api';
 
+// Helper shared by the recently-finished and recently-started endpoints
+async function sendRecentTransitions(req: Request, res: Response, toStatus: AiringStatus): Promise<void> {
+  const params = recentTransitionsQuerySchema.parse(req.query);
+  const results = await airingStatusService.getRecentTransitions(toStatus, params);
+
+  const response: ApiResponse<any> = {
+    success: true,
+    data: {
+      status: toStatus,
+      days: params.days,
+      total_results: results.length,
+      results
+    },
+    meta: {
+      format: req.responseFormat,
+      note: 'Based on status changes seen by crawls and `npm run refresh`; changed_at is when the change was noticed'
+    }
+  };
+
+  res.json(response);
+}
+
 export class SearchController {
   /**
    * GET /api/v1/search/capabilities - Get search capabilities
@@ -37,6 +65,255 @@ export class SearchController {
     }
   }
 
+  /**
+   * GET /api/v1/search/suggest - Title autocomplete, tolerant of typos
+   */
+  async suggestTitles(req: Request, res: Response): Promise<void> {
+    try {
+      const { q, limit } = titleSuggestQuerySchema.parse(req.query);
+      const suggestions = await animeService.suggestTitles(q, limit, req.query.sfw !== 'false');
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: suggestions,
+        meta: {
+          format: req.responseFormat,
+          query: q,
+          total: suggestions.length,
+          note: 'Prefix matches on titles and synonyms first, then fuzzy matches'
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Suggest titles error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/search/parse - Turn a natural-language request into search parameters
+   */
+  async parseQuery(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = await queryParser.parse(req.body.query);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: parsed,
+        meta: {
+          note: parsed.unmatched_tokens.length > 0
+            ? 'Some words were not understood; check unmatched_tokens before relying on the parameters'
+            : 'Pass params to GET /api/v1/anime (search_path is ready to use)'
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Parse query error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/search/semantic - Anime whose synopsis is closest in meaning to a description
+   */
+  async semanticSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await semanticSearchService.search(req.body);
+
+      if (!result) {
+        res.status(503).json({
+          success: false,
+          error: {
+            message: 'Semantic search is not available until synopsis embeddings are built (npm run embeddings:build)',
+            code: 'EMBEDDINGS_NOT_BUILT'
+          }
+        });
+        return;
+      }
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: result,
+        meta: {
+          format: req.responseFormat,
+          note: 'Ranked by semantic_similarity, the cosine similarity between the text and the synopsis embedding (-1 to 1)'
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Semantic search error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/search/controversial - Anime whose score votes are the most divided
+   */
+  async getControversialAnime(req: Request, res: Response): Promise<void> {
+    try {
+      const params = controversialQuerySchema.parse(req.query);
+      const results = await statisticsService.getControversialAnime(params);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: {
+          total_results: results.length,
+          results
+        },
+        meta: {
+          format: req.responseFormat,
+          min_votes: params.min_votes,
+          note: 'vote_controversy is the spread of score votes relative to an even split between 1s and 10s (0-1)'
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get controversial anime error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/search/vibes - Review-based vibe tags with how many anime carry each
+   */
+  async getVibes(req: Request, res: Response): Promise<void> {
+    try {
+      const sfw = req.query.sfw !== 'false';
+      const vibes = await vibeTagService.getVibeSummary(sfw);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: { vibes },
+        meta: {
+          format: req.responseFormat,
+          note: 'Browse a vibe with /api/v1/search/vibes/:vibe or filter searches with vibes=<tag>'
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get vibes error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/search/vibes/:vibe - Anime reviewers describe with a vibe, most confident first
+   */
+  async getAnimeByVibe(req: Request, res: Response): Promise<void> {
+    try {
+      const vibe = req.params.vibe;
+
+      if (!VIBE_TAG_NAMES.includes(vibe as VibeTag)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: `vibe must be one of: ${VIBE_TAG_NAMES.join(', ')}`,
+            code: 'INVALID_VIBE'
+          }
+        });
+        return;
+      }
+
+      const params = vibeBrowseQuerySchema.parse(req.query);
+      const results = await vibeTagService.getAnimeByVibe({ vibe, ...params });
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: {
+          vibe,
+          total_results: results.length,
+          results
+        },
+        meta: {
+          format: req.responseFormat,
+          note: 'support is the number of reviews calling the anime that; confidence (0-1) weighs it against the review count'
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get anime by vibe error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/search/recently-finished - Anime that finished airing within the last days
+   */
+  async getRecentlyFinished(req: Request, res: Response): Promise<void> {
+    try {
+      await sendRecentTransitions(req, res, 'Finished Airing');
+    } catch (error) {
+      console.error('Get recently finished anime error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/search/recently-started - Anime that started airing within the last days
+   */
+  async getRecentlyStarted(req: Request, res: Response): Promise<void> {
+    try {
+      await sendRecentTransitions(req, res, 'Currently Airing');
+    } catch (error) {
+      console.error('Get recently started anime error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+
   /**
    * GET /api/v1/search/seasonal - Get seasonal anime
    */
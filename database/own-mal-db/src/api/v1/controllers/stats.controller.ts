@@ -5,6 +5,8 @@
 
 import { Request, Response } from 'express';
 import { animeService } from '../../../services/animeService';
+import { rankingViewService } from '../../../services/rankingViewService';
+import { wantsFreshData } from '../../middleware/cacheMiddleware';
 import { ApiResponse } from '../../types/api';
 
 export class StatsController {
@@ -46,11 +48,15 @@ export class StatsController {
   }
 
   /**
-   * GET /api/v1/genres/stats - Get genre statistics
+   * GET /api/v1/genres/stats - Get genre statistics (?fresh=true skips the materialized view)
    */
   async getGenreStats(req: Request, res: Response): Promise<void> {
     try {
-      const stats = await animeService.getAnimeCountByGenre();
+      const fresh = wantsFreshData(req);
+      const [stats, freshness] = await Promise.all([
+        animeService.getAnimeCountByGenre(fresh),
+        rankingViewService.getFreshness('genre_stats_mv', fresh)
+      ]);
 
       const response: ApiResponse<any> = {
         success: true,
@@ -59,7 +65,8 @@ export class StatsController {
           statistics: stats
         },
         meta: {
-          format: req.responseFormat
+          format: req.responseFormat,
+          ...freshness
         }
       };
 
@@ -0,0 +1,218 @@
+/**
+ * Studios Controller (v1)
+ * Business logic for studio browsing endpoints
+ */
+
+import { Request, Response } from 'express';
+import { studioRepository, StudioRole } from '../../repositories/studioRepository';
+import { ApiResponse } from '../../types/api';
+import { studioAnimeQuerySchema, studiosQuerySchema } from '../../validators/studio.validators';
+
+const STUDIO_ROLES: StudioRole[] = ['studio', 'producer', 'licensor'];
+
+// Helper to send the invalid role error shared by all studio endpoints
+function sendInvalidRole(res: Response): void {
+  res.status(400).json({
+    success: false,
+    error: {
+      message: `role must be one of: ${STUDIO_ROLES.join(', ')}`,
+      code: 'INVALID_ROLE'
+    }
+  });
+}
+
+export class StudiosController {
+  /**
+   * GET /api/v1/studios - List studios with title counts and mean score
+   */
+  async getStudios(req: Request, res: Response): Promise<void> {
+    try {
+      const { query, sort, page, limit } = studiosQuerySchema.parse(req.query);
+      const role = (req.query.role as StudioRole) || 'studio';
+
+      if (!STUDIO_ROLES.includes(role)) {
+        sendInvalidRole(res);
+        return;
+      }
+
+      const { total, studios } = await studioRepository.findAll({ query, role, sort, page, limit });
+      const totalPages = Math.ceil(total / limit);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: {
+          studios,
+          pagination: {
+            current_page: page,
+            total_pages: totalPages,
+            total_studios: total,
+            per_page: limit,
+            has_next: page < totalPages,
+            has_prev: page > 1
+          }
+        },
+        meta: {
+          format: req.responseFormat,
+          note: sort === 'mean_score' ? 'Only studios with at least 3 scored titles are ranked by mean score' : undefined
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get studios error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/studios/:id - Get studio profile with aggregate stats
+   */
+  async getStudioById(req: Request, res: Response): Promise<void> {
+    try {
+      const studioId = parseInt(req.params.id);
+      const role = (req.query.role as StudioRole) || 'studio';
+
+      if (isNaN(studioId)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid studio ID',
+            code: 'INVALID_ID'
+          }
+        });
+        return;
+      }
+
+      if (!STUDIO_ROLES.includes(role)) {
+        sendInvalidRole(res);
+        return;
+      }
+
+      const studio = await studioRepository.findById(studioId);
+
+      if (!studio) {
+        res.status(404).json({
+          success: false,
+          error: {
+            message: 'Studio not found',
+            code: 'NOT_FOUND'
+          }
+        });
+        return;
+      }
+
+      const [stats, topAnime] = await Promise.all([
+        studioRepository.getStats(studioId, role),
+        studioRepository.findAnimeByStudio(studioId, { role, sort: 'score', limit: 5 })
+      ]);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: {
+          id: studio.id,
+          name: studio.name,
+          url: studio.url,
+          role,
+          stats,
+          top_anime: topAnime.anime
+        },
+        meta: {
+          format: req.responseFormat
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get studio error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+
+  /**
+   * GET /api/v1/studios/:id/anime - Get anime made by a studio
+   */
+  async getStudioAnime(req: Request, res: Response): Promise<void> {
+    try {
+      const studioId = parseInt(req.params.id);
+      const { sort, page, limit } = studioAnimeQuerySchema.parse(req.query);
+      const role = (req.query.role as StudioRole) || 'studio';
+
+      if (isNaN(studioId)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            message: 'Invalid studio ID',
+            code: 'INVALID_ID'
+          }
+        });
+        return;
+      }
+
+      if (!STUDIO_ROLES.includes(role)) {
+        sendInvalidRole(res);
+        return;
+      }
+
+      const studio = await studioRepository.findById(studioId);
+
+      if (!studio) {
+        res.status(404).json({
+          success: false,
+          error: {
+            message: 'Studio not found',
+            code: 'NOT_FOUND'
+          }
+        });
+        return;
+      }
+
+      const { total, anime } = await studioRepository.findAnimeByStudio(studioId, { role, sort, page, limit });
+      const totalPages = Math.ceil(total / limit);
+
+      const response: ApiResponse<any> = {
+        success: true,
+        data: {
+          studio_id: studio.id,
+          studio_name: studio.name,
+          anime,
+          pagination: {
+            current_page: page,
+            total_pages: totalPages,
+            total_anime: total,
+            per_page: limit,
+            has_next: page < totalPages,
+            has_prev: page > 1
+          }
+        },
+        meta: {
+          format: req.responseFormat
+        }
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Get studio anime error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR'
+        }
+      });
+    }
+  }
+}
+
+export const studiosController = new StudiosController();
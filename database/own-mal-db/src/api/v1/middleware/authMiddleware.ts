@@ -0,0 +1,45 @@
+/**
+ * Auth Middleware
+ * Guards endpoints by the scope of the API key resolved by apiKeyMiddleware
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ApiKeyScope, scopeAllows } from '../../../services/apiKeyService';
+
+declare global {
+  namespace Express {
+    interface Request {
+      actor?: string;
+    }
+  }
+}
+
+export const requireScope = (scope: ApiKeyScope) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiKey) {
+      res.status(401).json({
+        success: false,
+        error: {
+          message: 'An API key is required. Send it in the X-API-Key header.',
+          code: 'API_KEY_REQUIRED'
+        }
+      });
+      return;
+    }
+
+    if (!scopeAllows(req.apiKey.scope, scope)) {
+      res.status(403).json({
+        success: false,
+        error: {
+          message: `This endpoint requires a key with ${scope} scope`,
+          code: 'INSUFFICIENT_SCOPE'
+        }
+      });
+      return;
+    }
+
+    // Edits are attributed to the key's name in the audit log
+    req.actor = req.apiKey.name;
+    next();
+  };
+};
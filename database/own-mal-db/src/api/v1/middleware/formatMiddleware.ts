@@ -1,24 +1,67 @@
 /**
  * Format Middleware
- * Handles response format transformation based on ?format query parameter
+ * Handles response format transformation based on ?format and ?fields query parameters
  */
 
 import { Request, Response, NextFunction } from 'express';
 import { ResponseFormat } from '../../types/api';
+import { InvalidFieldsError, parseFields, serializeData } from '../serializers/responseSerializer';
 
 declare global {
   namespace Express {
     interface Request {
       responseFormat: ResponseFormat;
+      responseFields: string[] | null;
     }
   }
 }
 
+const RESPONSE_FORMATS: ResponseFormat[] = ['standard', 'clean', 'compact'];
+
 export const formatMiddleware = (req: Request, res: Response, next: NextFunction) => {
-  // Placeholder - will be populated in Task 6
-  const format = req.query.format as string || 'standard';
-  req.responseFormat = ['standard', 'clean', 'compact'].includes(format)
+  // Legacy ?compact=true is an alias for ?format=compact
+  const format = (req.query.format as string) || (req.query.compact === 'true' ? 'compact' : 'standard');
+  req.responseFormat = RESPONSE_FORMATS.includes(format as ResponseFormat)
     ? format as ResponseFormat
     : 'standard';
+
+  try {
+    req.responseFields = parseFields(req.query.fields);
+  } catch (error) {
+    if (error instanceof InvalidFieldsError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message: error.message,
+          code: 'INVALID_FIELDS'
+        }
+      });
+      return;
+    }
+    throw error;
+  }
+
+  if (req.responseFormat === 'standard' && !req.responseFields) {
+    next();
+    return;
+  }
+
+  // Shape successful payloads on the way out; error responses pass through untouched
+  const json = res.json.bind(res);
+  res.json = (body: any) => {
+    if (body && body.success === true && 'data' in body) {
+      body = {
+        ...body,
+        data: serializeData(body.data, req.responseFormat, req.responseFields),
+        meta: {
+          ...body.meta,
+          format: req.responseFormat,
+          fields: req.responseFields || undefined
+        }
+      };
+    }
+    return json(body);
+  };
+
   next();
-};
\ No newline at end of file
+};
@@ -6,11 +6,16 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 
-export const validateRequest = (schema: z.ZodSchema) => {
+export type RequestSource = 'query' | 'body' | 'params';
+
+export const validateRequest = (schema: z.ZodSchema, source: RequestSource = 'query') => {
   return async (req: Request, res: Response, next: NextFunction) => {
-    // Placeholder - will be populated later
     try {
-      await schema.parseAsync(req.query);
+      const parsed = await schema.parseAsync(req[source]);
+      // Bodies are replaced with the parsed value so handlers only ever see validated fields
+      if (source === 'body') {
+        req.body = parsed;
+      }
       next();
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -27,4 +32,4 @@ export const validateRequest = (schema: z.ZodSchema) => {
       next(error);
     }
   };
-};
\ No newline at end of file
+};
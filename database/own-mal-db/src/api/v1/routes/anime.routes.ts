@@ -5,7 +5,20 @@
 
 import { Router } from 'express';
 import { animeController } from '../controllers/anime.controller';
+import { animeEditController } from '../controllers/animeEdit.controller';
 import { formatMiddleware } from '../middleware/formatMiddleware';
+import { cacheResponse, wantsFreshData } from '../../middleware/cacheMiddleware';
+import { CacheTags } from '../../../services/responseCache';
+import { requireScope } from '../middleware/authMiddleware';
+import { validateRequest } from '../middleware/validateRequest';
+import {
+  animeHistoryEntryParamsSchema,
+  animeIdSchema,
+  createAnimeSchema,
+  editReasonBodySchema,
+  updateAnimeSchema
+} from '../../validators/anime.validators';
+import { searchParamsSchema } from '../../validators/search.validators';
 
 const router = Router();
 
@@ -13,15 +26,84 @@ const router = Router();
 router.use(formatMiddleware);
 
 // GET /api/v1/anime - Search anime
-router.get('/', animeController.searchAnime.bind(animeController));
+router.get('/', validateRequest(searchParamsSchema), animeController.searchAnime.bind(animeController));
 
-// GET /api/v1/anime/top - Get top anime
-router.get('/top', animeController.getTopAnime.bind(animeController));
+// GET /api/v1/anime/top - Get top anime (ranks come from anime_rankings_mv)
+router.get(
+  '/top',
+  cacheResponse({ ttlSeconds: 600, tags: [CacheTags.anime, CacheTags.rankings], bypass: wantsFreshData }),
+  animeController.getTopAnime.bind(animeController)
+);
 
-// GET /api/v1/anime/bulk - Get multiple anime by IDs
+// GET /api/v1/anime/bulk - Get multiple anime by IDs and/or titles
 router.get('/bulk', animeController.getBulkAnime.bind(animeController));
 
+// GET /api/v1/anime/:id/recommendations - Get similar anime
+router.get('/:id/recommendations', animeController.getRecommendations.bind(animeController));
+
+// GET /api/v1/anime/:id/relations - Get related anime/manga
+router.get('/:id/relations', animeController.getRelations.bind(animeController));
+
+// GET /api/v1/anime/:id/franchise - Get franchise watch order
+router.get('/:id/franchise', animeController.getFranchise.bind(animeController));
+
+// GET /api/v1/anime/:id/characters - Get characters and voice actors
+router.get('/:id/characters', animeController.getCharacters.bind(animeController));
+
+// GET /api/v1/anime/:id/staff - Get staff credits
+router.get('/:id/staff', animeController.getStaff.bind(animeController));
+
+// GET /api/v1/anime/:id/statistics - Get watch status counts and score distribution
+router.get(
+  '/:id/statistics',
+  cacheResponse({ ttlSeconds: 3600, tags: req => [CacheTags.animeById(parseInt(req.params.id))] }),
+  animeController.getStatistics.bind(animeController)
+);
+
+// GET /api/v1/anime/:id/history - Get edit history
+router.get(
+  '/:id/history',
+  validateRequest(animeIdSchema, 'params'),
+  animeEditController.getHistory.bind(animeEditController)
+);
+
+// POST /api/v1/anime/:id/history/:entryId/revert - Revert a history entry
+router.post(
+  '/:id/history/:entryId/revert',
+  requireScope('admin'),
+  validateRequest(animeHistoryEntryParamsSchema, 'params'),
+  validateRequest(editReasonBodySchema, 'body'),
+  animeEditController.revertEntry.bind(animeEditController)
+);
+
 // GET /api/v1/anime/:id - Get anime by ID (must be last)
 router.get('/:id', animeController.getAnimeById.bind(animeController));
 
+// POST /api/v1/anime/:id - Create an anime record
+router.post(
+  '/:id',
+  requireScope('write'),
+  validateRequest(animeIdSchema, 'params'),
+  validateRequest(createAnimeSchema, 'body'),
+  animeEditController.createAnime.bind(animeEditController)
+);
+
+// PATCH /api/v1/anime/:id - Correct fields of an anime
+router.patch(
+  '/:id',
+  requireScope('write'),
+  validateRequest(animeIdSchema, 'params'),
+  validateRequest(updateAnimeSchema, 'body'),
+  animeEditController.updateAnime.bind(animeEditController)
+);
+
+// DELETE /api/v1/anime/:id - Delete an anime record
+router.delete(
+  '/:id',
+  requireScope('admin'),
+  validateRequest(animeIdSchema, 'params'),
+  validateRequest(editReasonBodySchema, 'body'),
+  animeEditController.deleteAnime.bind(animeEditController)
+);
+
 export default router;
\ No newline at end of file
@@ -9,6 +9,9 @@ import reviewsRoutes from './reviews.routes';
 import receptionRoutes from './reception.routes';
 import searchRoutes from './search.routes';
 import genresRoutes from './stats.routes';
+import peopleRoutes from './people.routes';
+import studiosRoutes from './studios.routes';
+import scheduleRoutes from './schedule.routes';
 
 const router = Router();
 
@@ -18,6 +21,9 @@ router.use('/reviews', reviewsRoutes);
 router.use('/reception', receptionRoutes);
 router.use('/search', searchRoutes);
 router.use('/genres', genresRoutes);
+router.use('/people', peopleRoutes);
+router.use('/studios', studiosRoutes);
+router.use('/schedule', scheduleRoutes);
 
 // v1 API info endpoint
 router.get('/', (req, res) => {
@@ -29,8 +35,19 @@ router.get('/', (req, res) => {
       anime: {
         search: 'GET /api/v1/anime?query=...',
         getById: 'GET /api/v1/anime/:id',
-        top: 'GET /api/v1/anime/top',
-        bulk: 'GET /api/v1/anime/bulk?ids=1,2,3'
+        top: 'GET /api/v1/anime/top?year=&season=&fresh=',
+        bulk: 'GET /api/v1/anime/bulk?ids=1,2,3 or ?titles=a|b',
+        recommendations: 'GET /api/v1/anime/:id/recommendations',
+        relations: 'GET /api/v1/anime/:id/relations',
+        franchise: 'GET /api/v1/anime/:id/franchise',
+        characters: 'GET /api/v1/anime/:id/characters',
+        staff: 'GET /api/v1/anime/:id/staff',
+        statistics: 'GET /api/v1/anime/:id/statistics',
+        history: 'GET /api/v1/anime/:id/history',
+        create: 'POST /api/v1/anime/:id (auth)',
+        update: 'PATCH /api/v1/anime/:id (auth)',
+        delete: 'DELETE /api/v1/anime/:id (auth)',
+        revert: 'POST /api/v1/anime/:id/history/:entryId/revert (auth)'
       },
       reviews: {
         getByAnime: 'GET /api/v1/reviews/anime/:id',
@@ -41,20 +58,43 @@ router.get('/', (req, res) => {
         getByAnime: 'GET /api/v1/reception/anime/:id',
         search: 'GET /api/v1/reception/search?sentiment_pattern=...',
         compare: 'GET /api/v1/reception/compare?anime_id_1=1&anime_id_2=2',
-        insights: 'GET /api/v1/reception/insights?insight_type=...'
+        insights: 'GET /api/v1/reception/insights?insight_type=...',
+        leaderboard: 'GET /api/v1/reception/leaderboard?by=positive|polarizing|reviewed'
       },
       search: {
         capabilities: 'GET /api/v1/search/capabilities',
+        suggest: 'GET /api/v1/search/suggest?q=',
+        parse: 'POST /api/v1/search/parse',
+        semantic: 'POST /api/v1/search/semantic',
+        controversial: 'GET /api/v1/search/controversial?min_votes=',
+        vibes: 'GET /api/v1/search/vibes',
+        byVibe: 'GET /api/v1/search/vibes/:vibe?min_confidence=',
+        recentlyFinished: 'GET /api/v1/search/recently-finished?days=30',
+        recentlyStarted: 'GET /api/v1/search/recently-started?days=30',
         seasonal: 'GET /api/v1/search/seasonal',
         current: 'GET /api/v1/search/current'
       },
       genres: {
         list: 'GET /api/v1/genres',
-        stats: 'GET /api/v1/genres/stats'
+        stats: 'GET /api/v1/genres/stats?fresh='
+      },
+      people: {
+        getById: 'GET /api/v1/people/:id',
+        filmography: 'GET /api/v1/people/:id/filmography'
+      },
+      studios: {
+        list: 'GET /api/v1/studios?query=...',
+        getById: 'GET /api/v1/studios/:id',
+        anime: 'GET /api/v1/studios/:id/anime'
+      },
+      schedule: {
+        week: 'GET /api/v1/schedule?tz=Europe/Helsinki&week=2025-W41',
+        calendar: 'GET /api/v1/schedule/calendar.ics?ids=1,2,3'
       }
     },
     notes: {
       format: 'Add ?format=compact or ?format=clean to any endpoint',
+      fields: 'Add ?fields=title,score to any endpoint to return only those fields of each record',
       legacy_api: 'Old /api/anime/* endpoints still work but are deprecated'
     }
   });
@@ -0,0 +1,21 @@
+/**
+ * People Routes (v1)
+ * Voice actor and staff endpoints
+ */
+
+import { Router } from 'express';
+import { peopleController } from '../controllers/people.controller';
+import { formatMiddleware } from '../middleware/formatMiddleware';
+
+const router = Router();
+
+// Apply format middleware
+router.use(formatMiddleware);
+
+// GET /api/v1/people/:id/filmography - Get staff credits
+router.get('/:id/filmography', peopleController.getFilmography.bind(peopleController));
+
+// GET /api/v1/people/:id - Get person with voice roles
+router.get('/:id', peopleController.getPersonById.bind(peopleController));
+
+export default router;
@@ -6,6 +6,10 @@
 import { Router } from 'express';
 import { receptionController } from '../controllers/reception.controller';
 import { formatMiddleware } from '../middleware/formatMiddleware';
+import { cacheResponse, wantsFreshData } from '../../middleware/cacheMiddleware';
+import { CacheTags } from '../../../services/responseCache';
+import { validateRequest } from '../middleware/validateRequest';
+import { receptionLeaderboardSchema } from '../../validators/review.validators';
 
 const router = Router();
 
@@ -19,7 +23,19 @@ router.get('/search', receptionController.searchBySentiment.bind(receptionContro
 router.get('/compare', receptionController.compareReception.bind(receptionController));
 
 // GET /api/v1/reception/insights - Get insights
-router.get('/insights', receptionController.getInsights.bind(receptionController));
+router.get(
+  '/insights',
+  cacheResponse({ ttlSeconds: 600, tags: [CacheTags.reviews, CacheTags.rankings], bypass: wantsFreshData }),
+  receptionController.getInsights.bind(receptionController)
+);
+
+// GET /api/v1/reception/leaderboard - Reception leaderboards from the ranking view
+router.get(
+  '/leaderboard',
+  validateRequest(receptionLeaderboardSchema),
+  cacheResponse({ ttlSeconds: 600, tags: [CacheTags.rankings], bypass: wantsFreshData }),
+  receptionController.getLeaderboard.bind(receptionController)
+);
 
 // GET /api/v1/reception/anime/:id - Get anime reception
 router.get('/anime/:id', receptionController.getReceptionByAnimeId.bind(receptionController));
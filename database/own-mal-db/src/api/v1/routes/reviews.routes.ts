@@ -6,6 +6,10 @@
 import { Router } from 'express';
 import { reviewsController } from '../controllers/reviews.controller';
 import { formatMiddleware } from '../middleware/formatMiddleware';
+import { cacheResponse } from '../../middleware/cacheMiddleware';
+import { CacheTags } from '../../../services/responseCache';
+import { validateRequest } from '../middleware/validateRequest';
+import { reviewSpoilersQuerySchema } from '../../validators/review.validators';
 
 const router = Router();
 
@@ -13,12 +17,24 @@ const router = Router();
 router.use(formatMiddleware);
 
 // GET /api/v1/reviews/anime/:id/summary - Get review summary
-router.get('/anime/:id/summary', reviewsController.getReviewSummary.bind(reviewsController));
+router.get(
+  '/anime/:id/summary',
+  cacheResponse({ ttlSeconds: 600, tags: req => [CacheTags.reviewsByAnime(parseInt(req.params.id))] }),
+  reviewsController.getReviewSummary.bind(reviewsController)
+);
 
 // GET /api/v1/reviews/anime/:id/sample - Get review sample
-router.get('/anime/:id/sample', reviewsController.getReviewSample.bind(reviewsController));
+router.get(
+  '/anime/:id/sample',
+  validateRequest(reviewSpoilersQuerySchema),
+  reviewsController.getReviewSample.bind(reviewsController)
+);
 
 // GET /api/v1/reviews/anime/:id - Get reviews for anime
-router.get('/anime/:id', reviewsController.getReviewsByAnimeId.bind(reviewsController));
+router.get(
+  '/anime/:id',
+  validateRequest(reviewSpoilersQuerySchema),
+  reviewsController.getReviewsByAnimeId.bind(reviewsController)
+);
 
 export default router;
\ No newline at end of file
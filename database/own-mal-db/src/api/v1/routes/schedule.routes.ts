@@ -0,0 +1,34 @@
+/**
+ * Schedule Routes (v1)
+ * Airing schedule endpoints
+ */
+
+import { Router } from 'express';
+import { scheduleController } from '../controllers/schedule.controller';
+import { formatMiddleware } from '../middleware/formatMiddleware';
+import { validateRequest } from '../middleware/validateRequest';
+import { cacheResponse } from '../../middleware/cacheMiddleware';
+import { CacheTags } from '../../../services/responseCache';
+import { calendarQuerySchema, scheduleQuerySchema } from '../../validators/schedule.validators';
+
+const router = Router();
+
+// Apply format middleware
+router.use(formatMiddleware);
+
+// GET /api/v1/schedule/calendar.ics - iCalendar feed, e.g. of the watching list (?ids=...)
+router.get(
+  '/calendar.ics',
+  validateRequest(calendarQuerySchema),
+  scheduleController.getCalendar.bind(scheduleController)
+);
+
+// GET /api/v1/schedule - Weekly airing schedule
+router.get(
+  '/',
+  validateRequest(scheduleQuerySchema),
+  cacheResponse({ ttlSeconds: 600, tags: [CacheTags.anime] }),
+  scheduleController.getSchedule.bind(scheduleController)
+);
+
+export default router;
@@ -6,6 +6,10 @@
 import { Router } from 'express';
 import { searchController } from '../controllers/search.controller';
 import { formatMiddleware } from '../middleware/formatMiddleware';
+import { cacheResponse } from '../../middleware/cacheMiddleware';
+import { CacheTags } from '../../../services/responseCache';
+import { validateRequest } from '../middleware/validateRequest';
+import { controversialQuerySchema, parseQueryBodySchema, recentTransitionsQuerySchema, semanticSearchBodySchema, titleSuggestQuerySchema, vibeBrowseQuerySchema } from '../../validators/search.validators';
 
 const router = Router();
 
@@ -13,7 +17,71 @@ const router = Router();
 router.use(formatMiddleware);
 
 // GET /api/v1/search/capabilities - Get search capabilities
-router.get('/capabilities', searchController.getCapabilities.bind(searchController));
+router.get(
+  '/capabilities',
+  cacheResponse({ ttlSeconds: 3600, tags: [CacheTags.anime, CacheTags.genres] }),
+  searchController.getCapabilities.bind(searchController)
+);
+
+// GET /api/v1/search/suggest - Title autocomplete
+router.get(
+  '/suggest',
+  validateRequest(titleSuggestQuerySchema),
+  searchController.suggestTitles.bind(searchController)
+);
+
+// POST /api/v1/search/parse - Natural-language query to search parameters
+router.post(
+  '/parse',
+  validateRequest(parseQueryBodySchema, 'body'),
+  searchController.parseQuery.bind(searchController)
+);
+
+// POST /api/v1/search/semantic - Synopsis search by meaning, combinable with the search filters
+router.post(
+  '/semantic',
+  validateRequest(semanticSearchBodySchema, 'body'),
+  searchController.semanticSearch.bind(searchController)
+);
+
+// GET /api/v1/search/controversial - Most divided score votes
+router.get(
+  '/controversial',
+  validateRequest(controversialQuerySchema),
+  cacheResponse({ ttlSeconds: 3600, tags: [CacheTags.anime] }),
+  searchController.getControversialAnime.bind(searchController)
+);
+
+// GET /api/v1/search/vibes - Review-based vibe tags
+router.get(
+  '/vibes',
+  cacheResponse({ ttlSeconds: 3600, tags: [CacheTags.anime] }),
+  searchController.getVibes.bind(searchController)
+);
+
+// GET /api/v1/search/vibes/:vibe - Anime with a vibe
+router.get(
+  '/vibes/:vibe',
+  validateRequest(vibeBrowseQuerySchema),
+  cacheResponse({ ttlSeconds: 600, tags: [CacheTags.anime] }),
+  searchController.getAnimeByVibe.bind(searchController)
+);
+
+// GET /api/v1/search/recently-finished - Anime that recently finished airing
+router.get(
+  '/recently-finished',
+  validateRequest(recentTransitionsQuerySchema),
+  cacheResponse({ ttlSeconds: 600, tags: [CacheTags.anime] }),
+  searchController.getRecentlyFinished.bind(searchController)
+);
+
+// GET /api/v1/search/recently-started - Anime that recently started airing
+router.get(
+  '/recently-started',
+  validateRequest(recentTransitionsQuerySchema),
+  cacheResponse({ ttlSeconds: 600, tags: [CacheTags.anime] }),
+  searchController.getRecentlyStarted.bind(searchController)
+);
 
 // GET /api/v1/search/seasonal - Get seasonal anime
 router.get('/seasonal', searchController.getSeasonalAnime.bind(searchController));
@@ -6,6 +6,8 @@
 import { Router } from 'express';
 import { statsController } from '../controllers/stats.controller';
 import { formatMiddleware } from '../middleware/formatMiddleware';
+import { cacheResponse, wantsFreshData } from '../../middleware/cacheMiddleware';
+import { CacheTags } from '../../../services/responseCache';
 
 const router = Router();
 
@@ -13,9 +15,17 @@ const router = Router();
 router.use(formatMiddleware);
 
 // GET /api/v1/genres/stats - Get genre statistics
-router.get('/stats', statsController.getGenreStats.bind(statsController));
+router.get(
+  '/stats',
+  cacheResponse({ ttlSeconds: 3600, tags: [CacheTags.genres, CacheTags.rankings], bypass: wantsFreshData }),
+  statsController.getGenreStats.bind(statsController)
+);
 
 // GET /api/v1/genres - Get all genres
-router.get('/', statsController.getAllGenres.bind(statsController));
+router.get(
+  '/',
+  cacheResponse({ ttlSeconds: 3600, tags: [CacheTags.genres] }),
+  statsController.getAllGenres.bind(statsController)
+);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,26 @@
+/**
+ * Studios Routes (v1)
+ * Studio browsing endpoints
+ */
+
+import { Router } from 'express';
+import { studiosController } from '../controllers/studios.controller';
+import { formatMiddleware } from '../middleware/formatMiddleware';
+import { validateRequest } from '../middleware/validateRequest';
+import { studioAnimeQuerySchema, studiosQuerySchema } from '../../validators/studio.validators';
+
+const router = Router();
+
+// Apply format middleware
+router.use(formatMiddleware);
+
+// GET /api/v1/studios - List studios
+router.get('/', validateRequest(studiosQuerySchema), studiosController.getStudios.bind(studiosController));
+
+// GET /api/v1/studios/:id/anime - Get anime made by a studio
+router.get('/:id/anime', validateRequest(studioAnimeQuerySchema), studiosController.getStudioAnime.bind(studiosController));
+
+// GET /api/v1/studios/:id - Get studio profile
+router.get('/:id', studiosController.getStudioById.bind(studiosController));
+
+export default router;
@@ -0,0 +1,98 @@
+/**
+ * Response Serializer (v1)
+ * Applies the ?format projection and ?fields sparse fieldsets to v1 response payloads
+ */
+
+import { cleanAnimeData, ultraCompactAnimeData } from '../../../services/animeFormatter';
+import { ResponseFormat } from '../../types/api';
+
+type Projection = (anime: any) => Record<string, any>;
+
+const PROJECTIONS: Record<ResponseFormat, Projection | null> = {
+  standard: null,
+  clean: cleanAnimeData,
+  compact: ultraCompactAnimeData
+};
+
+// Keys that identify an entity; they are always kept when a sparse fieldset is requested
+const IDENTITY_KEYS = ['mal_id', 'id'];
+
+const FIELD_NAME_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+
+export class InvalidFieldsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidFieldsError';
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+// A full anime record as returned by animeService (relations still as arrays).
+// Rows that were already shaped (clean/compact) or partial rows (franchise members, studio lists) don't match.
+function isFullAnimeRecord(value: Record<string, any>): boolean {
+  return typeof value.mal_id === 'number' && typeof value.title === 'string' && Array.isArray(value.genres);
+}
+
+function isEntity(value: Record<string, any>): boolean {
+  return IDENTITY_KEYS.some(key => key in value);
+}
+
+/**
+ * Parse ?fields=a,b,c into a list of field names. Returns null when no fieldset was requested
+ * and throws when a field name is malformed.
+ */
+export function parseFields(raw: unknown): string[] | null {
+  if (raw === undefined || raw === '') return null;
+  if (typeof raw !== 'string') {
+    throw new InvalidFieldsError('fields must be a comma-separated list of field names');
+  }
+
+  const fields = raw.split(',').map(field => field.trim()).filter(Boolean);
+  const invalid = fields.filter(field => !FIELD_NAME_PATTERN.test(field));
+  if (invalid.length > 0) {
+    throw new InvalidFieldsError(`Invalid field names: ${invalid.join(', ')}`);
+  }
+
+  return fields.length > 0 ? Array.from(new Set(fields)) : null;
+}
+
+/**
+ * Project a response payload: full anime records are shaped for the requested format, and
+ * the outermost entity on each path (an object with mal_id or id) is reduced to the requested fields.
+ */
+export function serializeData(data: any, format: ResponseFormat, fields: string[] | null): any {
+  const projection = PROJECTIONS[format];
+
+  const visit = (value: any): any => {
+    if (Array.isArray(value)) {
+      return value.map(visit);
+    }
+    if (!isPlainObject(value)) {
+      return value;
+    }
+
+    const shaped = projection && isFullAnimeRecord(value) ? projection(value) : value;
+
+    if (fields && isEntity(shaped)) {
+      const picked: Record<string, any> = {};
+      for (const key of [...IDENTITY_KEYS, ...fields]) {
+        if (key in shaped) {
+          // Nested values still get the format projection, but no further field filtering
+          picked[key] = serializeData(shaped[key], format, null);
+        }
+      }
+      return picked;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, child] of Object.entries(shaped)) {
+      result[key] = visit(child);
+    }
+    return result;
+  };
+
+  return visit(data);
+}
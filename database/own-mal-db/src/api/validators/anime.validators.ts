@@ -21,4 +21,61 @@ export const bulkAnimeSchema = z.object({
     return ids;
   }),
   compact: z.coerce.boolean().optional().default(false)
-});
\ No newline at end of file
+});
+
+// Columns that can be corrected through the write API (JSON blobs and crawler metadata stay crawler-owned)
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+export const animeWritableFieldsSchema = z.object({
+  title: z.string().min(1).max(500),
+  title_english: z.string().max(500).nullable(),
+  title_japanese: z.string().max(500).nullable(),
+  title_synonyms: z.array(z.string().max(500)),
+  image_url: z.string().url().max(1000).nullable(),
+  type: z.enum(['TV', 'OVA', 'Movie', 'Special', 'ONA', 'Music', 'TV Special']).nullable(),
+  source: z.string().max(100).nullable(),
+  episodes: z.number().int().nonnegative().nullable(),
+  status: z.enum(['Finished Airing', 'Currently Airing', 'Not yet aired']).nullable(),
+  airing: z.boolean(),
+  aired_from: isoDate.nullable(),
+  aired_to: isoDate.nullable(),
+  duration: z.string().max(100).nullable(),
+  rating: z.string().max(50).nullable(),
+  score: z.number().min(0).max(10).nullable(),
+  scored_by: z.number().int().nonnegative().nullable(),
+  rank: z.number().int().positive().nullable(),
+  popularity: z.number().int().positive().nullable(),
+  members: z.number().int().nonnegative().nullable(),
+  favorites: z.number().int().nonnegative().nullable(),
+  synopsis: z.string().nullable(),
+  background: z.string().nullable(),
+  season: z.enum(['winter', 'spring', 'summer', 'fall']).nullable(),
+  year: z.number().int().min(1900).max(2100).nullable()
+});
+
+export type AnimeWritableFields = z.infer<typeof animeWritableFieldsSchema>;
+
+const editReasonSchema = z.string().max(1000).optional();
+
+export const createAnimeSchema = animeWritableFieldsSchema
+  .partial()
+  .required({ title: true })
+  .extend({ reason: editReasonSchema })
+  .strict();
+
+export const updateAnimeSchema = animeWritableFieldsSchema
+  .partial()
+  .extend({ reason: editReasonSchema })
+  .strict()
+  .refine(body => Object.keys(body).some(key => key !== 'reason'), {
+    message: 'At least one field to update is required'
+  });
+
+export const editReasonBodySchema = z.object({
+  reason: editReasonSchema
+}).strict();
+
+export const animeHistoryEntryParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+  entryId: z.coerce.number().int().positive()
+});
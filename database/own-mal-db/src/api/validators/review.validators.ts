@@ -4,12 +4,24 @@
  */
 
 import { z } from 'zod';
+import { SPOILER_MODES, SpoilerMode } from '../../services/spoilerClassifier';
+
+// Spoiler handling for review text (/api/v1/reviews/anime/:id and /sample). The old boolean form maps
+// spoilers=true to show and spoilers=false to hide.
+export const spoilerModeSchema = z.preprocess(
+  value => value === 'true' ? 'show' : value === 'false' ? 'hide' : value,
+  z.enum(SPOILER_MODES as [SpoilerMode, ...SpoilerMode[]])
+).optional().default('redact');
+
+export const reviewSpoilersQuerySchema = z.object({
+  spoilers: spoilerModeSchema
+});
 
 export const reviewsQuerySchema = z.object({
   page: z.coerce.number().int().positive().optional().default(1),
   limit: z.coerce.number().int().positive().max(25).optional().default(10),
   preliminary: z.coerce.boolean().optional(),
-  spoilers: z.coerce.boolean().optional(),
+  spoilers: spoilerModeSchema,
   sort: z.enum(['date', 'helpful', 'score']).optional().default('date'),
   order: z.enum(['asc', 'desc']).optional().default('desc')
 });
@@ -31,6 +43,13 @@ export const insightTypeSchema = z.object({
   genre_filter: z.string().optional()
 });
 
+export const receptionLeaderboardSchema = z.object({
+  by: z.enum(['positive', 'polarizing', 'reviewed']).optional().default('positive'),
+  min_reviews: z.coerce.number().int().positive().optional().default(5),
+  limit: z.coerce.number().int().positive().max(50).optional().default(20),
+  fresh: z.enum(['true', 'false']).optional()
+});
+
 export const compareReceptionSchema = z.object({
   anime_id_1: z.coerce.number().int().positive(),
   anime_id_2: z.coerce.number().int().positive()
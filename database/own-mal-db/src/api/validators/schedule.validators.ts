@@ -0,0 +1,27 @@
+/**
+ * Zod validation schemas for schedule endpoints
+ */
+
+import { z } from 'zod';
+import { isValidTimeZone, parseWeek } from '../../services/scheduleService';
+
+// Comma-separated MAL IDs, e.g. the watching list
+const idsSchema = z.string()
+  .regex(/^\d+(,\d+)*$/, 'ids must be comma-separated MAL IDs')
+  .transform(value => value.split(',').map(id => parseInt(id)))
+  .refine(ids => ids.length <= 500, 'Maximum 500 IDs allowed per request');
+
+const sfwSchema = z.enum(['true', 'false']).optional().default('true').transform(value => value === 'true');
+
+export const scheduleQuerySchema = z.object({
+  tz: z.string().refine(isValidTimeZone, 'tz must be an IANA time zone, e.g. Europe/Helsinki').optional(),
+  week: z.string().refine(week => parseWeek(week) !== null, 'week must be an ISO week (2025-W41) or a date (2025-10-08)').optional(),
+  ids: idsSchema.optional(),
+  sfw: sfwSchema
+});
+
+export const calendarQuerySchema = z.object({
+  ids: idsSchema.optional(),
+  weeks: z.coerce.number().int().positive().max(12).optional().default(4),
+  sfw: sfwSchema
+});
@@ -5,9 +5,16 @@
 
 import { z } from 'zod';
 
+// "true"/"false" from a query string (z.coerce.boolean() reads "false" as true), or a JSON boolean
+export const booleanParam = z.preprocess(
+  value => value === 'true' ? true : value === 'false' ? false : value,
+  z.boolean()
+);
+
 export const searchParamsSchema = z.object({
   query: z.string().optional(),
   genres: z.string().optional(),
+  genre_mode: z.enum(['any', 'all']).optional(),
   min_score: z.coerce.number().min(0).max(10).optional(),
   max_score: z.coerce.number().min(0).max(10).optional(),
 
@@ -20,26 +27,102 @@ export const searchParamsSchema = z.object({
   // Popularity filtering
   min_popularity: z.coerce.number().int().positive().optional(),
   max_popularity: z.coerce.number().int().positive().optional(),
-  exclude_very_popular: z.coerce.boolean().optional(),
+  exclude_very_popular: booleanParam.optional(),
 
   // Status and airing filtering
   airing_status: z.enum(['airing', 'finished', 'upcoming']).optional(),
-  current_year_only: z.coerce.boolean().optional(),
+  current_year_only: booleanParam.optional(),
   season: z.enum(['winter', 'spring', 'summer', 'fall']).optional(),
 
   // Episode count filtering
   min_episodes: z.coerce.number().int().positive().optional(),
   max_episodes: z.coerce.number().int().positive().optional(),
 
+  // Runtime filtering, in minutes
+  min_duration: z.coerce.number().int().positive().optional(),
+  max_duration: z.coerce.number().int().positive().optional(),
+  max_total_runtime: z.coerce.number().int().positive().optional(),
+
+  // Exclusions, comma-separated IDs
+  exclude_genres: z.string().regex(/^\d+(,\d+)*$/).optional(),
+  exclude_studios: z.string().regex(/^\d+(,\d+)*$/).optional(),
+  exclude_ids: z.string().regex(/^\d+(,\d+)*$/).optional(),
+
+  // Audience statistics filtering, fractions 0-1
+  max_drop_rate: z.coerce.number().min(0).max(1).optional(),
+  min_completion_rate: z.coerce.number().min(0).max(1).optional(),
+  min_vote_controversy: z.coerce.number().min(0).max(1).optional(),
+
   // Type filtering
   type: z.enum(['TV', 'Movie', 'OVA', 'Special', 'ONA', 'Music']).optional(),
 
+  // Studio filtering
+  studios: z.string().regex(/^\d+(,\d+)*$/).optional(),
+
+  // Staff filtering
+  staff: z.string().regex(/^\d+(,\d+)*$/).optional(),
+  staff_position: z.string().max(100).optional(),
+
+  // Review-based vibe tags, comma-separated (e.g. "comfy,slow_burn")
+  vibes: z.string().regex(/^[a-z_]+(,[a-z_]+)*$/).optional(),
+
+  // Franchise deduplication
+  collapse_franchise: booleanParam.optional(),
+
   order_by: z.enum([
     'mal_id', 'title', 'type', 'rating', 'start_date', 'end_date',
-    'episodes', 'score', 'scored_by', 'rank', 'popularity', 'members', 'favorites'
+    'episodes', 'score', 'scored_by', 'rank', 'popularity', 'members', 'favorites',
+    'drop_rate', 'completion_rate', 'vote_controversy'
   ]).optional().default('mal_id'),
   sort: z.enum(['desc', 'asc']).optional().default('desc'),
-  sfw: z.coerce.boolean().optional().default(true),
+  sfw: booleanParam.optional().default(true),
   page: z.coerce.number().int().positive().optional().default(1),
-  limit: z.coerce.number().int().positive().max(25).optional().default(25)
-});
\ No newline at end of file
+  limit: z.coerce.number().int().positive().max(25).optional().default(25),
+  cursor: z.string().optional()
+});
+// Title autocomplete (/api/v1/search/suggest)
+export const titleSuggestQuerySchema = z.object({
+  q: z.string().trim().min(2).max(100),
+  limit: z.coerce.number().int().positive().max(20).optional().default(10)
+});
+
+// Natural-language query parsing (/api/v1/search/parse)
+export const parseQueryBodySchema = z.object({
+  query: z.string().trim().min(1).max(500)
+}).strict();
+
+// Anime that recently changed airing status (/api/v1/search/recently-finished, /recently-started)
+export const recentTransitionsQuerySchema = z.object({
+  days: z.coerce.number().int().positive().max(365).optional().default(30),
+  type: z.enum(['TV', 'Movie', 'OVA', 'Special', 'ONA', 'Music']).optional(),
+  sfw: z.enum(['true', 'false']).optional().default('true').transform(value => value === 'true'),
+  limit: z.coerce.number().int().positive().max(50).optional().default(20)
+});
+
+// Anime with a review-based vibe (/api/v1/search/vibes/:vibe)
+export const vibeBrowseQuerySchema = z.object({
+  min_confidence: z.coerce.number().min(0).max(1).optional().default(0),
+  min_score: z.coerce.number().min(0).max(10).optional(),
+  type: z.enum(['TV', 'Movie', 'OVA', 'Special', 'ONA', 'Music']).optional(),
+  sfw: z.enum(['true', 'false']).optional().default('true').transform(value => value === 'true'),
+  limit: z.coerce.number().int().positive().max(50).optional().default(20)
+});
+
+// Anime with the most divided score votes (/api/v1/search/controversial)
+export const controversialQuerySchema = z.object({
+  min_votes: z.coerce.number().int().positive().optional().default(1000),
+  type: z.enum(['TV', 'Movie', 'OVA', 'Special', 'ONA', 'Music']).optional(),
+  sfw: z.enum(['true', 'false']).optional().default('true').transform(value => value === 'true'),
+  limit: z.coerce.number().int().positive().max(50).optional().default(20)
+});
+
+// Semantic synopsis search (/api/v1/search/semantic), with the same filters as GET /api/v1/anime
+export const semanticSearchBodySchema = searchParamsSchema
+  .omit({ query: true, order_by: true, sort: true, collapse_franchise: true, page: true, limit: true, cursor: true })
+  .extend({
+    text: z.string().trim().min(3).max(500),
+    min_similarity: z.coerce.number().min(-1).max(1).optional().default(0.1),
+    page: z.coerce.number().int().positive().optional().default(1),
+    limit: z.coerce.number().int().positive().max(50).optional().default(10)
+  })
+  .strict();
@@ -0,0 +1,19 @@
+/**
+ * Zod validation schemas for studio endpoints
+ * role is checked by the controller, which answers an unknown role with INVALID_ROLE
+ */
+
+import { z } from 'zod';
+
+export const studiosQuerySchema = z.object({
+  query: z.string().optional(),
+  sort: z.enum(['title_count', 'mean_score', 'name']).optional().default('title_count'),
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(25)
+});
+
+export const studioAnimeQuerySchema = z.object({
+  sort: z.enum(['score', 'year', 'popularity']).optional().default('score'),
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(25)
+});
@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+
+import chalk from 'chalk';
+import * as dotenv from 'dotenv';
+import { db } from '../database/connection';
+import { apiKeyService, API_KEY_SCOPES, ApiKeyScope } from '../services/apiKeyService';
+
+dotenv.config();
+
+const USAGE = `Usage: npm run api-keys -- <command> [options]
+
+Commands:
+  create --name <name> [--scope read|write|admin] [--rate <per minute>] [--burst <n>]
+  list [--all]                 List active keys (--all includes revoked) with usage
+  revoke <id|prefix>           Revoke a key
+  usage <id> [--days <n>]      Daily request counts of a key (default 30 days)`;
+
+// Value of --flag, or undefined when it is absent
+function option(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function positiveInt(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseInt(value);
+  if (isNaN(parsed) || parsed < 1) {
+    throw new Error(`${flag} must be a positive integer`);
+  }
+  return parsed;
+}
+
+async function createKey(args: string[]): Promise<void> {
+  const name = option(args, '--name');
+  const scope = (option(args, '--scope') || 'read') as ApiKeyScope;
+
+  if (!name) {
+    throw new Error('--name is required');
+  }
+  if (!API_KEY_SCOPES.includes(scope)) {
+    throw new Error(`--scope must be one of: ${API_KEY_SCOPES.join(', ')}`);
+  }
+
+  const { key, plaintext } = await apiKeyService.createKey({
+    name,
+    scope,
+    rateLimitPerMinute: positiveInt(option(args, '--rate'), '--rate'),
+    burst: positiveInt(option(args, '--burst'), '--burst')
+  });
+
+  console.log(chalk.green(`✅ Created key #${key.id} "${key.name}" (${key.scope}, ${key.rate_limit_per_minute}/min, burst ${key.burst})`));
+  console.log(`\n  ${chalk.bold(plaintext)}\n`);
+  console.log(chalk.yellow('⚠️  Store it now, it cannot be shown again. Send it in the X-API-Key header.'));
+}
+
+async function listKeys(args: string[]): Promise<void> {
+  const keys = await apiKeyService.listKeys(args.includes('--all'));
+
+  if (keys.length === 0) {
+    console.log('No API keys. Create one with: npm run api-keys -- create --name <name>');
+    return;
+  }
+
+  console.table(keys.map(key => ({
+    id: key.id,
+    name: key.name,
+    prefix: key.key_prefix,
+    scope: key.scope,
+    'limit/min': key.rate_limit_per_minute,
+    burst: key.burst,
+    today: key.requests_today,
+    'rejected today': key.rejected_today,
+    total: key.requests_total,
+    'last used': key.last_used_at ? key.last_used_at.toISOString() : '-',
+    revoked: key.revoked_at ? key.revoked_at.toISOString() : ''
+  })));
+}
+
+async function revokeKey(args: string[]): Promise<void> {
+  const target = args[0];
+  if (!target) {
+    throw new Error('Pass the id or prefix of the key to revoke');
+  }
+
+  const key = await apiKeyService.revokeKey(target);
+  if (!key) {
+    throw new Error(`No active key matches ${target}`);
+  }
+
+  console.log(chalk.green(`✅ Revoked key #${key.id} "${key.name}" (${key.key_prefix}...)`));
+  console.log('Running API servers stop accepting it within 30 seconds.');
+}
+
+async function showUsage(args: string[]): Promise<void> {
+  const keyId = positiveInt(args[0], 'Key id');
+  if (!keyId) {
+    throw new Error('Pass the id of the key');
+  }
+
+  const days = positiveInt(option(args, '--days'), '--days') || 30;
+  const usage = await apiKeyService.getUsage(keyId, days);
+
+  if (usage.length === 0) {
+    console.log(`No requests recorded for key #${keyId} in the last ${days} days`);
+    return;
+  }
+
+  console.table(usage.map(row => ({
+    day: row.day instanceof Date ? row.day.toISOString().slice(0, 10) : row.day,
+    requests: row.request_count,
+    rejected: row.rejected_count
+  })));
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'create':
+      await createKey(args);
+      break;
+    case 'list':
+      await listKeys(args);
+      break;
+    case 'revoke':
+      await revokeKey(args);
+      break;
+    case 'usage':
+      await showUsage(args);
+      break;
+    default:
+      console.log(USAGE);
+      process.exitCode = command ? 1 : 0;
+  }
+}
+
+if (require.main === module) {
+  main()
+    .catch((error) => {
+      console.error(chalk.red(`❌ ${error.message}`));
+      process.exitCode = 1;
+    })
+    .finally(() => db.end());
+}
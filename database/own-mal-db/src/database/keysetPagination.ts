@@ -0,0 +1,176 @@
+import { createHash } from 'crypto';
+
+// Column or expression a result set is ordered by. The last key must be unique (e.g. a primary key)
+// so that every row has a distinct position and cursors never skip or repeat rows.
+export interface SortKey {
+  expr: string;
+  direction: 'ASC' | 'DESC';
+}
+
+export type CursorDirection = 'next' | 'prev';
+
+export interface DecodedCursor {
+  direction: CursorDirection;
+  values: Array<string | null>;
+}
+
+export interface KeysetClause {
+  orderBy: string;
+  condition: string | null;
+  params: any[];
+  selectKeys: string;
+}
+
+export interface KeysetPage<T> {
+  rows: T[];
+  next_cursor: string | null;
+  prev_cursor: string | null;
+}
+
+interface CursorPayload {
+  s: string; // Sort signature, so a cursor can't be replayed against a different ordering
+  d: CursorDirection;
+  v: Array<string | null>; // Sort key values of the boundary row, as text
+}
+
+export class InvalidCursorError extends Error {
+  constructor(message: string = 'Invalid cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+function sortSignature(keys: SortKey[]): string {
+  return createHash('sha1')
+    .update(keys.map(key => `${key.expr} ${key.direction}`).join(','))
+    .digest('base64url')
+    .slice(0, 12);
+}
+
+function flip(direction: 'ASC' | 'DESC'): 'ASC' | 'DESC' {
+  return direction === 'ASC' ? 'DESC' : 'ASC';
+}
+
+function sortKeyAlias(index: number): string {
+  return `sort_key_${index}`;
+}
+
+export function encodeCursor(keys: SortKey[], direction: CursorDirection, values: Array<string | null>): string {
+  const payload: CursorPayload = { s: sortSignature(keys), d: direction, v: values };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, keys: SortKey[]): DecodedCursor {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (
+    !payload ||
+    (payload.d !== 'next' && payload.d !== 'prev') ||
+    !Array.isArray(payload.v) ||
+    payload.v.length !== keys.length
+  ) {
+    throw new InvalidCursorError();
+  }
+
+  if (payload.s !== sortSignature(keys)) {
+    throw new InvalidCursorError('Cursor was created for a different sort order');
+  }
+
+  return { direction: payload.d, values: payload.v };
+}
+
+// Build ORDER BY and the "rows past the cursor" condition for a keyset query.
+// NULLs always sort last in the requested order; walking backwards reverses everything,
+// and the page is flipped back by buildKeysetPage.
+export function buildKeysetClause(keys: SortKey[], cursor: DecodedCursor | null, paramStart: number): KeysetClause {
+  const backwards = cursor?.direction === 'prev';
+  const nullsLast = !backwards;
+  const effective = keys.map(key => ({
+    expr: key.expr,
+    direction: backwards ? flip(key.direction) : key.direction
+  }));
+
+  const orderBy = effective
+    .map(key => `(${key.expr}) ${key.direction} NULLS ${nullsLast ? 'LAST' : 'FIRST'}`)
+    .join(', ');
+
+  const selectKeys = keys
+    .map((key, index) => `(${key.expr})::text AS ${sortKeyAlias(index)}`)
+    .join(', ');
+
+  if (!cursor) {
+    return { orderBy, condition: null, params: [], selectKeys };
+  }
+
+  // Placeholders are numbered in key order, the condition is assembled from the last key outwards
+  const params: any[] = [];
+  const placeholders = cursor.values.map(value => {
+    if (value === null) return null;
+    params.push(value);
+    return `$${paramStart + params.length - 1}`;
+  });
+
+  let condition = '';
+  for (let index = effective.length - 1; index >= 0; index--) {
+    const { expr, direction } = effective[index];
+    const placeholder = placeholders[index];
+    const operator = direction === 'ASC' ? '>' : '<';
+
+    let strictlyAfter: string;
+    let equal: string;
+    if (placeholder === null) {
+      strictlyAfter = nullsLast ? 'FALSE' : `(${expr}) IS NOT NULL`;
+      equal = `(${expr}) IS NULL`;
+    } else {
+      strictlyAfter = nullsLast
+        ? `((${expr}) ${operator} ${placeholder} OR (${expr}) IS NULL)`
+        : `(${expr}) ${operator} ${placeholder}`;
+      equal = `(${expr}) = ${placeholder}`;
+    }
+
+    condition = condition
+      ? `(${strictlyAfter} OR (${equal} AND ${condition}))`
+      : strictlyAfter;
+  }
+
+  return { orderBy, condition, params, selectKeys };
+}
+
+// Turn rows fetched with LIMIT limit + 1 into a page with cursors.
+// hasRowsBefore tells whether an offset page (page > 1) has rows before it when no cursor was used.
+export function buildKeysetPage<T>(
+  rows: any[],
+  keys: SortKey[],
+  limit: number,
+  cursor: DecodedCursor | null,
+  hasRowsBefore: boolean = false
+): KeysetPage<T> {
+  const backwards = cursor?.direction === 'prev';
+  const hasMore = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+  if (backwards) {
+    pageRows.reverse();
+  }
+
+  const hasNext = backwards ? pageRows.length > 0 : hasMore;
+  const hasPrev = backwards ? hasMore : cursor !== null || hasRowsBefore;
+
+  const valuesOf = (row: any) => keys.map((_, index) => row[sortKeyAlias(index)] ?? null);
+  const first = pageRows[0];
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    rows: pageRows.map(row => {
+      const stripped = { ...row };
+      keys.forEach((_, index) => delete stripped[sortKeyAlias(index)]);
+      return stripped;
+    }),
+    next_cursor: hasNext && last ? encodeCursor(keys, 'next', valuesOf(last)) : null,
+    prev_cursor: hasPrev && first ? encodeCursor(keys, 'prev', valuesOf(first)) : null
+  };
+}
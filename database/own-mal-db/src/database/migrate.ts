@@ -13,8 +13,8 @@ function parseSQL(sql: string): string[] {
   for (const line of lines) {
     const trimmedLine = line.trim();
     
-    // Skip empty lines and comments
-    if (!trimmedLine || trimmedLine.startsWith('--')) {
+    // Skip empty lines, comments, and echo commands
+    if (!trimmedLine || trimmedLine.startsWith('--') || trimmedLine.startsWith('\\echo')) {
       continue;
     }
     
@@ -117,4 +117,4 @@ if (require.main === module) {
   runMigration();
 }
 
-export { runMigration }; 
\ No newline at end of file
+export { runMigration, parseSQL }; 
\ No newline at end of file
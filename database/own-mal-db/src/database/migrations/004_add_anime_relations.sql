@@ -0,0 +1,24 @@
+-- Migration to add anime relations (prequel/sequel/side story/adaptation graph)
+-- Run this after 003_add_review_intelligence.sql
+
+\echo 'Adding anime relations table...'
+
+-- Directed relation edges as reported by Jikan: "<related> is the <relation> of <anime>"
+-- Targets are not foreign keys because the related entry may be manga or an anime we haven't crawled yet
+CREATE TABLE anime_relations (
+    anime_id INTEGER REFERENCES anime(mal_id) ON DELETE CASCADE,
+    related_id INTEGER NOT NULL,
+    related_type VARCHAR(20) NOT NULL DEFAULT 'anime', -- 'anime' or 'manga'
+    relation VARCHAR(50) NOT NULL, -- 'Prequel', 'Sequel', 'Side Story', 'Parent Story', 'Adaptation', ...
+    related_name VARCHAR(500),
+    related_url VARCHAR(500),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (anime_id, related_type, related_id, relation)
+);
+
+-- Indexes for graph traversal in both directions
+CREATE INDEX idx_anime_relations_anime_id ON anime_relations(anime_id);
+CREATE INDEX idx_anime_relations_related_id ON anime_relations(related_id) WHERE related_type = 'anime';
+CREATE INDEX idx_anime_relations_relation ON anime_relations(relation);
+
+\echo 'Anime relations table added successfully!'
@@ -0,0 +1,64 @@
+-- Migration to add characters and voice actors
+-- Run this after 004_add_anime_relations.sql
+
+\echo 'Adding character and voice actor tables...'
+
+-- Characters (MAL character IDs)
+CREATE TABLE characters (
+    mal_id INTEGER PRIMARY KEY,
+    name VARCHAR(300) NOT NULL,
+    url VARCHAR(500),
+    image_url VARCHAR(1000),
+    favorites INTEGER DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- People (voice actors, later also staff) using MAL person IDs
+CREATE TABLE people (
+    mal_id INTEGER PRIMARY KEY,
+    name VARCHAR(300) NOT NULL,
+    url VARCHAR(500),
+    image_url VARCHAR(1000),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Many-to-many relationship: anime to characters
+CREATE TABLE anime_characters (
+    anime_id INTEGER REFERENCES anime(mal_id) ON DELETE CASCADE,
+    character_id INTEGER REFERENCES characters(mal_id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL, -- 'Main' or 'Supporting'
+    PRIMARY KEY (anime_id, character_id)
+);
+
+-- Who voiced a character in a specific anime (casts differ between entries and languages)
+CREATE TABLE character_voice_actors (
+    anime_id INTEGER REFERENCES anime(mal_id) ON DELETE CASCADE,
+    character_id INTEGER REFERENCES characters(mal_id) ON DELETE CASCADE,
+    person_id INTEGER REFERENCES people(mal_id) ON DELETE CASCADE,
+    language VARCHAR(50) NOT NULL, -- 'Japanese', 'English', ...
+    PRIMARY KEY (anime_id, character_id, person_id, language)
+);
+
+-- Indexes
+CREATE INDEX idx_anime_characters_anime_id ON anime_characters(anime_id);
+CREATE INDEX idx_anime_characters_character_id ON anime_characters(character_id);
+CREATE INDEX idx_anime_characters_role ON anime_characters(role);
+CREATE INDEX idx_character_voice_actors_person_id ON character_voice_actors(person_id);
+CREATE INDEX idx_character_voice_actors_character_id ON character_voice_actors(character_id);
+CREATE INDEX idx_characters_name ON characters(name);
+CREATE INDEX idx_people_name ON people(name);
+
+-- Update triggers for updated_at columns
+CREATE TRIGGER trigger_characters_updated_at
+    BEFORE UPDATE ON characters
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER trigger_people_updated_at
+    BEFORE UPDATE ON people
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+\echo 'Character and voice actor tables added successfully!'
@@ -0,0 +1,19 @@
+-- Migration to add staff credits (directors, writers, composers, ...)
+-- Run this after 005_add_characters.sql (reuses the people table)
+
+\echo 'Adding staff credits table...'
+
+-- One row per credited position: a person can hold several positions on one anime
+CREATE TABLE anime_staff (
+    anime_id INTEGER REFERENCES anime(mal_id) ON DELETE CASCADE,
+    person_id INTEGER REFERENCES people(mal_id) ON DELETE CASCADE,
+    position VARCHAR(100) NOT NULL, -- 'Director', 'Series Composition', 'Music', ...
+    PRIMARY KEY (anime_id, person_id, position)
+);
+
+-- Indexes
+CREATE INDEX idx_anime_staff_anime_id ON anime_staff(anime_id);
+CREATE INDEX idx_anime_staff_person_id ON anime_staff(person_id);
+CREATE INDEX idx_anime_staff_position ON anime_staff(position);
+
+\echo 'Staff credits table added successfully!'
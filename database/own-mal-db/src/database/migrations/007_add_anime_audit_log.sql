@@ -0,0 +1,24 @@
+-- Migration to add an audit trail for manual anime edits made through the write API
+-- Crawler upserts are not logged; only POST/PATCH/DELETE /api/v1/anime/:id and reverts are
+
+\echo 'Adding anime audit log table...'
+
+-- anime_id has no foreign key so history survives the record being deleted
+CREATE TABLE anime_audit_log (
+    id SERIAL PRIMARY KEY,
+    anime_id INTEGER NOT NULL,
+    action VARCHAR(10) NOT NULL CHECK (action IN ('create', 'update', 'delete', 'revert')),
+    changed_fields TEXT[] NOT NULL DEFAULT '{}',
+    before_data JSONB, -- Previous values of changed_fields (full row for deletes, NULL for creates)
+    after_data JSONB,  -- New values of changed_fields (full row for creates, NULL for deletes)
+    actor VARCHAR(100) NOT NULL,
+    reason TEXT,
+    reverts_entry_id INTEGER REFERENCES anime_audit_log(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX idx_anime_audit_log_anime_id ON anime_audit_log(anime_id, created_at DESC);
+CREATE INDEX idx_anime_audit_log_created_at ON anime_audit_log(created_at DESC);
+
+\echo 'Anime audit log table added successfully!'
@@ -0,0 +1,33 @@
+-- Migration to add API keys with scopes, per-key rate limits and usage counters
+-- Keys are minted and revoked with `npm run api-keys`
+
+\echo 'Adding API key tables...'
+
+-- Only the SHA-256 of a key is stored; the plaintext is shown once when it is created
+CREATE TABLE api_keys (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    key_prefix VARCHAR(16) NOT NULL, -- First characters of the key, to recognise it in listings
+    key_hash CHAR(64) NOT NULL UNIQUE,
+    scope VARCHAR(10) NOT NULL CHECK (scope IN ('read', 'write', 'admin')),
+    rate_limit_per_minute INTEGER NOT NULL DEFAULT 120 CHECK (rate_limit_per_minute > 0),
+    burst INTEGER NOT NULL DEFAULT 30 CHECK (burst > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Daily request counters per key, flushed in batches by the API server
+CREATE TABLE api_key_usage (
+    key_id INTEGER REFERENCES api_keys(id) ON DELETE CASCADE,
+    day DATE NOT NULL,
+    request_count BIGINT NOT NULL DEFAULT 0,
+    rejected_count BIGINT NOT NULL DEFAULT 0, -- Requests refused with 429
+    PRIMARY KEY (key_id, day)
+);
+
+-- Indexes
+CREATE INDEX idx_api_keys_active ON api_keys(key_hash) WHERE revoked_at IS NULL;
+CREATE INDEX idx_api_key_usage_day ON api_key_usage(day);
+
+\echo 'API key tables added successfully!'
@@ -0,0 +1,21 @@
+-- Migration to add trigram (fuzzy) title matching for misspelled search queries
+-- Backs the fuzzy relevance tier of searchAnime, "did you mean" suggestions and /api/v1/search/suggest
+
+\echo 'Adding trigram title search...'
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- array_to_string() is only STABLE, so synonyms need an IMMUTABLE wrapper to be indexable
+CREATE OR REPLACE FUNCTION anime_synonyms_text(synonyms TEXT[])
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE PARALLEL SAFE
+AS $$
+    SELECT LOWER(array_to_string(COALESCE(synonyms, ARRAY[]::text[]), ' | '))
+$$;
+
+-- Trigram indexes serve both LIKE '%...%' and the similarity operators (%, <%)
+CREATE INDEX idx_anime_title_trgm ON anime USING GIN (LOWER(title) gin_trgm_ops);
+CREATE INDEX idx_anime_title_english_trgm ON anime USING GIN (LOWER(title_english) gin_trgm_ops);
+CREATE INDEX idx_anime_title_synonyms_trgm ON anime USING GIN (anime_synonyms_text(title_synonyms) gin_trgm_ops);
+
+\echo 'Trigram title search added successfully!'
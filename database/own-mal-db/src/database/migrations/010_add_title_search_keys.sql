@@ -0,0 +1,22 @@
+-- Migration to add normalized title search keys (romanization, kana and punctuation folded)
+-- Keys are computed in the application (see services/titleNormalizer.ts); fill them for
+-- existing anime with `npm run titles:reindex`
+
+\echo 'Adding title search keys...'
+
+-- One row per distinct key of an anime's title, English title, Japanese title and synonyms
+CREATE TABLE anime_title_keys (
+    anime_id INTEGER NOT NULL REFERENCES anime(mal_id) ON DELETE CASCADE,
+    search_key TEXT NOT NULL,
+    source VARCHAR(10) NOT NULL CHECK (source IN ('title', 'english', 'japanese', 'synonym')),
+    title TEXT NOT NULL, -- The title the key was derived from
+    PRIMARY KEY (anime_id, search_key)
+);
+
+-- Exact and prefix lookups
+CREATE INDEX idx_anime_title_keys_key ON anime_title_keys(search_key text_pattern_ops);
+
+-- Substring lookups (pg_trgm comes with migration 009)
+CREATE INDEX idx_anime_title_keys_key_trgm ON anime_title_keys USING GIN (search_key gin_trgm_ops);
+
+\echo 'Title search keys added successfully!'
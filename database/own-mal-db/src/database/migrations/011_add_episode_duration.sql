@@ -0,0 +1,24 @@
+-- Migration to add a parsed episode length for duration and total watch time filters
+-- New and edited anime get the value in the application (parseEpisodeDuration in services/animeFormatter.ts);
+-- the backfill below applies the same hr/min/sec parsing to existing rows
+
+\echo 'Adding episode duration...'
+
+ALTER TABLE anime ADD COLUMN episode_duration_seconds INTEGER;
+
+-- "24 min per ep" → 1440, "1 hr 52 min" → 6720, "Unknown" → NULL
+UPDATE anime
+SET episode_duration_seconds = NULLIF(
+    COALESCE(substring(LOWER(duration) from '(\d+)\s*hr')::int * 3600, 0) +
+    COALESCE(substring(LOWER(duration) from '(\d+)\s*min')::int * 60, 0) +
+    COALESCE(substring(LOWER(duration) from '(\d+)\s*sec')::int, 0),
+    0
+)
+WHERE duration IS NOT NULL;
+
+CREATE INDEX idx_anime_episode_duration ON anime(episode_duration_seconds);
+
+-- Total watch time, for max_total_runtime
+CREATE INDEX idx_anime_total_runtime ON anime((episodes * episode_duration_seconds));
+
+\echo 'Episode duration added successfully!'
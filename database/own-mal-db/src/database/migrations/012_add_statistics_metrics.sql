@@ -0,0 +1,23 @@
+-- Migration to add metrics derived from the MAL statistics JSON (watch status counts and score votes)
+-- The metrics are computed in the application (computeStatisticsMetrics in services/statisticsService.ts);
+-- fill them for anime that already have statistics with `npm run statistics:reindex`
+
+\echo 'Adding statistics metrics...'
+
+-- Rates: dropped or completed / (watching + completed + on hold + dropped)
+ALTER TABLE anime ADD COLUMN drop_rate REAL;
+ALTER TABLE anime ADD COLUMN completion_rate REAL;
+
+-- Shape of the 1-10 score votes; entropy is normalized to 0-1 and vote_controversy is
+-- score_stddev relative to an even 1 vs 10 split (0-1)
+ALTER TABLE anime ADD COLUMN score_votes INTEGER;
+ALTER TABLE anime ADD COLUMN score_stddev REAL;
+ALTER TABLE anime ADD COLUMN score_skewness REAL;
+ALTER TABLE anime ADD COLUMN score_entropy REAL;
+ALTER TABLE anime ADD COLUMN vote_controversy REAL;
+
+CREATE INDEX idx_anime_drop_rate ON anime(drop_rate) WHERE drop_rate IS NOT NULL;
+CREATE INDEX idx_anime_completion_rate ON anime(completion_rate DESC) WHERE completion_rate IS NOT NULL;
+CREATE INDEX idx_anime_vote_controversy ON anime(vote_controversy DESC, score_votes) WHERE vote_controversy IS NOT NULL;
+
+\echo 'Statistics metrics added successfully!'
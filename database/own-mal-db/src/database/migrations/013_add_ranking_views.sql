@@ -0,0 +1,68 @@
+-- Migration to add materialized views for genre stats, rankings and reception leaderboards
+-- The views are refreshed by `npm run views:refresh` (or on a schedule, see RANKING_VIEWS_REFRESH_MINUTES);
+-- the live fallbacks in services/rankingViewService.ts mirror these definitions, so keep the two in step
+
+\echo 'Adding ranking views...'
+
+-- When each view was last refreshed (meta.refreshed_at)
+CREATE TABLE ranking_view_refreshes (
+    view_name VARCHAR(100) PRIMARY KEY,
+    refreshed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    duration_ms INTEGER NOT NULL DEFAULT 0
+);
+
+-- Anime count per genre
+CREATE MATERIALIZED VIEW genre_stats_mv AS
+SELECT g.id AS genre_id, g.name AS genre_name, COUNT(ag.anime_id) AS count
+FROM genres g
+LEFT JOIN anime_genres ag ON g.id = ag.genre_id
+GROUP BY g.id, g.name;
+
+CREATE UNIQUE INDEX idx_genre_stats_mv_genre ON genre_stats_mv(genre_id);
+
+-- Score rank overall and within each season, SFW anime with a score only (ties broken like searchAnime)
+CREATE MATERIALIZED VIEW anime_rankings_mv AS
+SELECT
+    a.mal_id,
+    a.year,
+    a.season,
+    a.score,
+    ROW_NUMBER() OVER (ORDER BY a.score DESC, a.mal_id DESC) AS overall_rank,
+    ROW_NUMBER() OVER (PARTITION BY a.year, a.season ORDER BY a.score DESC, a.mal_id DESC) AS season_rank
+FROM anime a
+WHERE a.score IS NOT NULL
+  AND a.mal_id NOT IN (
+    SELECT ag.anime_id
+    FROM anime_genres ag
+    JOIN genres g ON ag.genre_id = g.id
+    WHERE g.name IN ('Hentai', 'Erotica')
+  );
+
+CREATE UNIQUE INDEX idx_anime_rankings_mv_anime ON anime_rankings_mv(mal_id);
+CREATE INDEX idx_anime_rankings_mv_overall ON anime_rankings_mv(overall_rank);
+CREATE INDEX idx_anime_rankings_mv_season ON anime_rankings_mv(year, season, season_rank);
+
+-- Typed reception metrics of every analyzed anime, for leaderboards and insights
+CREATE MATERIALIZED VIEW reception_leaderboard_mv AS
+SELECT
+    a.mal_id,
+    a.title,
+    a.score,
+    (a.reception_data->>'review_count')::int AS review_count,
+    (a.reception_data->>'sentiment_ratio')::float AS sentiment_ratio,
+    (a.reception_data->>'score_variance')::float AS score_variance,
+    (a.reception_data->>'avg_review_length')::float AS avg_review_length
+FROM anime a
+WHERE a.reception_data IS NOT NULL;
+
+CREATE UNIQUE INDEX idx_reception_leaderboard_mv_anime ON reception_leaderboard_mv(mal_id);
+CREATE INDEX idx_reception_leaderboard_mv_sentiment ON reception_leaderboard_mv(sentiment_ratio DESC);
+CREATE INDEX idx_reception_leaderboard_mv_variance ON reception_leaderboard_mv(score_variance DESC);
+CREATE INDEX idx_reception_leaderboard_mv_reviews ON reception_leaderboard_mv(review_count DESC);
+
+-- The views are populated on creation
+INSERT INTO ranking_view_refreshes (view_name, refreshed_at)
+VALUES ('genre_stats_mv', NOW()), ('anime_rankings_mv', NOW()), ('reception_leaderboard_mv', NOW())
+ON CONFLICT (view_name) DO UPDATE SET refreshed_at = EXCLUDED.refreshed_at;
+
+\echo 'Ranking views added successfully!'
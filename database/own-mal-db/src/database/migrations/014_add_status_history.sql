@@ -0,0 +1,21 @@
+-- Migration to track airing status transitions ("Not yet aired" → "Currently Airing" → "Finished Airing")
+-- Transitions are recorded by upsertAnime whenever a crawl or `npm run refresh` changes an anime's status
+
+\echo 'Adding anime status history...'
+
+CREATE TABLE anime_status_history (
+    id SERIAL PRIMARY KEY,
+    anime_id INTEGER NOT NULL REFERENCES anime(mal_id) ON DELETE CASCADE,
+    from_status VARCHAR(50),
+    to_status VARCHAR(50),
+    changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX idx_anime_status_history_anime ON anime_status_history(anime_id, changed_at DESC);
+CREATE INDEX idx_anime_status_history_to_status ON anime_status_history(to_status, changed_at DESC);
+
+-- The refresh job picks stale rows by status and last fetch (updated_at also moves on edits and statistics crawls)
+CREATE INDEX idx_anime_status_last_scraped ON anime(status, last_scraped);
+
+\echo 'Anime status history added successfully!'
@@ -0,0 +1,26 @@
+-- Migration for semantic synopsis search: one embedding per anime and embedding provider,
+-- plus the fitted model of providers that learn from our own synopses (the default LSA provider)
+-- Filled by `npm run embeddings:build`
+
+\echo 'Adding anime embeddings...'
+
+CREATE TABLE embedding_models (
+    provider VARCHAR(50) PRIMARY KEY,
+    dimensions INTEGER NOT NULL,
+    model BYTEA,
+    document_count INTEGER NOT NULL DEFAULT 0,
+    fitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE anime_embeddings (
+    anime_id INTEGER NOT NULL REFERENCES anime(mal_id) ON DELETE CASCADE,
+    provider VARCHAR(50) NOT NULL,
+    embedding REAL[] NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (anime_id, provider)
+);
+
+-- Indexes
+CREATE INDEX idx_anime_embeddings_provider_updated ON anime_embeddings(provider, updated_at);
+
+\echo 'Anime embeddings added successfully!'
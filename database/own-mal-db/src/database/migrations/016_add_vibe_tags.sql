@@ -0,0 +1,19 @@
+-- Migration for review-based vibe tags ("slow burn", "comfy", "tearjerker", ...)
+-- Rebuilt per anime whenever its reception data is updated; backfill with `npm run vibes:rebuild`
+
+\echo 'Adding anime vibe tags...'
+
+CREATE TABLE anime_vibe_tags (
+    anime_id INTEGER NOT NULL REFERENCES anime(mal_id) ON DELETE CASCADE,
+    tag VARCHAR(50) NOT NULL,
+    support INTEGER NOT NULL,
+    review_count INTEGER NOT NULL,
+    confidence REAL NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (anime_id, tag)
+);
+
+-- Indexes
+CREATE INDEX idx_anime_vibe_tags_tag ON anime_vibe_tags(tag, confidence DESC);
+
+\echo 'Anime vibe tags added successfully!'
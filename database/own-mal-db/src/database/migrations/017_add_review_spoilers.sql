@@ -0,0 +1,12 @@
+-- Migration for review spoiler classification
+-- NULL until a review is classified; crawlers classify new reviews, backfill with `npm run spoilers:classify`
+
+\echo 'Adding review spoiler columns...'
+
+ALTER TABLE anime_reviews ADD COLUMN is_spoiler BOOLEAN;
+ALTER TABLE anime_reviews ADD COLUMN spoiler_spans JSONB; -- [{start, end, reasons}] character offsets into review_text
+
+-- Indexes
+CREATE INDEX idx_anime_reviews_spoiler ON anime_reviews(anime_id) WHERE is_spoiler;
+
+\echo 'Review spoiler columns added successfully!'
@@ -0,0 +1,108 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { db } from './connection';
+import { parseSQL } from './migrate';
+
+interface SqlMigration {
+  name: string;
+  file: string;
+  label: string;
+  hint?: string;
+}
+
+// Migrations on top of schema.sql, in the order they have to run. They are not optional: getAnimeById
+// needs 004 and 016, upsertAnime 010-012 and 014 and getTopAnime 013, so a new database needs --all
+// (the docker init script only creates the user)
+const SQL_MIGRATIONS: SqlMigration[] = [
+  { name: 'tv-special', file: '002_add_tv_special_type.sql', label: 'TV Special type' },
+  { name: 'reviews', file: '003_add_review_intelligence.sql', label: 'Review intelligence' },
+  { name: 'relations', file: '004_add_anime_relations.sql', label: 'Anime relations', hint: 'Run `npm run repair:relations` to backfill relations for existing anime' },
+  { name: 'characters', file: '005_add_characters.sql', label: 'Characters', hint: 'Run `npm run characters` to crawl characters and voice actors' },
+  { name: 'staff', file: '006_add_staff.sql', label: 'Staff', hint: 'Run `npm run staff` to crawl staff credits' },
+  { name: 'audit-log', file: '007_add_anime_audit_log.sql', label: 'Audit log', hint: 'Edits need an API key with write scope, see `npm run api-keys`' },
+  { name: 'api-keys', file: '008_add_api_keys.sql', label: 'API keys', hint: 'Run `npm run api-keys -- create --name <name>` to mint a key' },
+  { name: 'trigram', file: '009_add_trigram_search.sql', label: 'Trigram search' },
+  { name: 'title-keys', file: '010_add_title_search_keys.sql', label: 'Title search keys', hint: 'Run `npm run titles:reindex` to build keys for existing anime' },
+  { name: 'duration', file: '011_add_episode_duration.sql', label: 'Episode duration' },
+  { name: 'statistics', file: '012_add_statistics_metrics.sql', label: 'Statistics metrics', hint: 'Run `npm run statistics:reindex` to compute metrics for anime that already have statistics' },
+  { name: 'ranking-views', file: '013_add_ranking_views.sql', label: 'Ranking views', hint: 'Refresh the views after crawls with: npm run views:refresh' },
+  { name: 'status-history', file: '014_add_status_history.sql', label: 'Status history', hint: 'Run `npm run refresh` to start recording status changes of stale anime' },
+  { name: 'embeddings', file: '015_add_anime_embeddings.sql', label: 'Embeddings', hint: 'Run `npm run embeddings:build` to embed the synopses for semantic search' },
+  { name: 'vibe-tags', file: '016_add_vibe_tags.sql', label: 'Vibe tags', hint: 'Run `npm run vibes:rebuild` to tag anime that already have reviews' },
+  { name: 'review-spoilers', file: '017_add_review_spoilers.sql', label: 'Review spoilers', hint: 'Run `npm run spoilers:classify` to classify reviews that are already stored' }
+];
+
+// Objects a previous run already created are skipped, so a migration can run again
+const EXISTING_OBJECT_CODES = [
+  '42P07', // relation already exists
+  '42710', // object already exists
+  '42P06', // schema already exists
+  '42723', // function already exists
+  '42701'  // column already exists
+];
+
+async function runSqlMigration(migration: SqlMigration): Promise<void> {
+  console.log(`Starting ${migration.label} migration (${migration.file})...`);
+
+  // Read and execute migration file
+  const migrationPath = join(__dirname, 'migrations', migration.file);
+  const statements = parseSQL(readFileSync(migrationPath, 'utf-8'));
+
+  console.log(`Executing ${statements.length} SQL statements...`);
+
+  for (let i = 0; i < statements.length; i++) {
+    const statement = statements[i];
+    try {
+      console.log(`Executing statement ${i + 1}/${statements.length}...`);
+      await db.query(statement);
+    } catch (error: any) {
+      if (EXISTING_OBJECT_CODES.includes(error.code)) {
+        console.log(`Skipping existing object: ${error.message}`);
+        continue;
+      }
+      console.error(`Error executing statement ${i + 1}:`, statement.substring(0, 100));
+      throw error;
+    }
+  }
+
+  console.log(`${migration.label} migration completed successfully!`);
+  if (migration.hint) {
+    console.log(migration.hint);
+  }
+}
+
+// Run one migration by name, or every migration in order with --all (after `npm run db:migrate`)
+async function runSqlMigrations(args: string[]): Promise<void> {
+  const migrations = args.includes('--all')
+    ? SQL_MIGRATIONS
+    : SQL_MIGRATIONS.filter(migration => args.includes(migration.name));
+
+  try {
+    if (migrations.length === 0) {
+      throw new Error(`Name a migration (${SQL_MIGRATIONS.map(migration => migration.name).join(', ')}) or pass --all`);
+    }
+
+    // Test connection first
+    const isConnected = await db.testConnection();
+    if (!isConnected) {
+      throw new Error('Database connection failed');
+    }
+
+    for (const migration of migrations) {
+      await runSqlMigration(migration);
+    }
+
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  } finally {
+    await db.end();
+  }
+}
+
+// Run migrations if this file is executed directly
+if (require.main === module) {
+  runSqlMigrations(process.argv.slice(2));
+}
+
+export { SQL_MIGRATIONS, runSqlMigration, runSqlMigrations };
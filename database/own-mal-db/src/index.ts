@@ -5,6 +5,10 @@ import { db } from './database/connection';
 import animeRoutes from './api/routes/anime';
 import v1Routes from './api/v1/routes';
 import docsRouter from './api/docs';
+import { apiKeyMiddleware } from './api/middleware/apiKeyMiddleware';
+import { apiKeyService } from './services/apiKeyService';
+import { listenForCacheInvalidations } from './services/responseCache';
+import { rankingViewService } from './services/rankingViewService';
 
 // Load environment variables
 dotenv.config();
@@ -48,11 +52,11 @@ app.get('/', (req, res) => {
 // API documentation (Scalar UI)
 app.use('/api/docs', docsRouter);
 
-// API v1 routes (new, clean API)
-app.use('/api/v1', v1Routes);
+// API v1 routes (new, clean API), behind API key auth and rate limiting
+app.use('/api/v1', apiKeyMiddleware, v1Routes);
 
 // Legacy API routes (deprecated but still working)
-app.use('/api/anime', animeRoutes);
+app.use('/api/anime', apiKeyMiddleware, animeRoutes);
 
 // Global error handler
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -81,6 +85,15 @@ async function startServer() {
     if (!isConnected) {
       throw new Error('Database connection failed');
     }
+
+    // Crawler processes publish cache invalidations through Postgres NOTIFY
+    await listenForCacheInvalidations();
+
+    // Genre stats, top anime and reception leaderboards are read from materialized views
+    const viewRefreshMinutes = parseInt(process.env.RANKING_VIEWS_REFRESH_MINUTES || '0');
+    if (viewRefreshMinutes > 0) {
+      rankingViewService.startScheduledRefresh(viewRefreshMinutes);
+    }
     
     app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -98,12 +111,14 @@ async function startServer() {
 // Handle graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully...');
+  await apiKeyService.flushUsage().catch(() => undefined);
   await db.end();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('\nSIGINT received, shutting down gracefully...');
+  await apiKeyService.flushUsage().catch(() => undefined);
   await db.end();
   process.exit(0);
 });
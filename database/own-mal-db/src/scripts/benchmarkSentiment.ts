@@ -0,0 +1,121 @@
+import { db } from '../database/connection';
+import { createSentimentEngine, listSentimentEngines, SentimentAnalysis } from '../services/sentimentEngine';
+import chalk from 'chalk';
+
+const DEFAULT_SAMPLE_SIZE = 5000;
+
+// Reviewers' own 1-10 scores as weak labels: 7+ recommends the show, 4 or less doesn't
+function labelForUserScore(userScore: number): SentimentAnalysis['label'] {
+  if (userScore >= 7) return 'positive';
+  if (userScore <= 4) return 'negative';
+  return 'neutral';
+}
+
+function pearson(xs: number[], ys: number[]): number {
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  return varianceX === 0 || varianceY === 0 ? 0 : covariance / Math.sqrt(varianceX * varianceY);
+}
+
+// Average ranks, ties sharing the mean of their positions
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    for (let i = start; i <= end; i++) result[order[i].index] = (start + end) / 2 + 1;
+    start = end + 1;
+  }
+  return result;
+}
+
+function macroF1(expected: string[], predicted: string[]): number {
+  const labels = ['positive', 'neutral', 'negative'];
+  const scores = labels.map(label => {
+    const truePositives = expected.filter((value, i) => value === label && predicted[i] === label).length;
+    const predictedCount = predicted.filter(value => value === label).length;
+    const expectedCount = expected.filter(value => value === label).length;
+    const precision = predictedCount === 0 ? 0 : truePositives / predictedCount;
+    const recall = expectedCount === 0 ? 0 : truePositives / expectedCount;
+    return precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  });
+  return scores.reduce((a, b) => a + b, 0) / labels.length;
+}
+
+// Score a sample of reviews with every engine and compare against the reviewers' own scores.
+// Usage: npm run sentiment:benchmark -- [--engines lexicon,vader] [--limit 5000]
+async function benchmarkSentiment() {
+  const enginesArg = process.argv.indexOf('--engines');
+  const limitArg = process.argv.indexOf('--limit');
+  const engineNames = enginesArg !== -1 ? process.argv[enginesArg + 1].split(',') : listSentimentEngines();
+  const limit = limitArg !== -1 ? parseInt(process.argv[limitArg + 1]) : DEFAULT_SAMPLE_SIZE;
+
+  console.log(chalk.bold.cyan('\n📏 Benchmarking sentiment engines against user scores\n'));
+
+  try {
+    const engines = engineNames.map(name => createSentimentEngine(name));
+
+    // A stable pseudo-random sample, so runs compare the same reviews
+    const result = await db.query(
+      `SELECT user_score, review_text
+       FROM anime_reviews
+       WHERE user_score IS NOT NULL AND review_text IS NOT NULL
+       ORDER BY md5(id::text)
+       LIMIT $1`,
+      [limit]
+    );
+    const reviews = result.rows;
+    if (reviews.length === 0) {
+      throw new Error('No reviews with a user score; run the review crawler first');
+    }
+
+    const userScores = reviews.map(review => review.user_score as number);
+    const expected = userScores.map(labelForUserScore);
+    const labelShare = (label: string) => (expected.filter(value => value === label).length / expected.length * 100).toFixed(1);
+    console.log(chalk.white(`   ${reviews.length} reviews: ${labelShare('positive')}% positive (7-10), ${labelShare('neutral')}% neutral (5-6), ${labelShare('negative')}% negative (1-4)\n`));
+
+    console.log(chalk.bold(`   ${'Engine'.padEnd(10)} ${'Pearson'.padStart(8)} ${'Spearman'.padStart(9)} ${'Accuracy'.padStart(9)} ${'Macro F1'.padStart(9)} ${'Coverage'.padStart(9)} ${'ms/review'.padStart(10)}`));
+    for (const engine of engines) {
+      const started = process.hrtime.bigint();
+      const analyses = reviews.map(review => engine.analyze(review.review_text));
+      const elapsedMs = Number(process.hrtime.bigint() - started) / 1e6;
+
+      const scores = analyses.map(analysis => analysis.score);
+      const predicted = analyses.map(analysis => analysis.label);
+      const accuracy = predicted.filter((label, i) => label === expected[i]).length / predicted.length;
+      const coverage = analyses.filter(analysis => analysis.terms.length > 0).length / analyses.length;
+
+      console.log(chalk.white(
+        `   ${engine.name.padEnd(10)} ` +
+        `${pearson(scores, userScores).toFixed(3).padStart(8)} ` +
+        `${pearson(ranks(scores), ranks(userScores)).toFixed(3).padStart(9)} ` +
+        `${(accuracy * 100).toFixed(1).padStart(8)}% ` +
+        `${macroF1(expected, predicted).toFixed(3).padStart(9)} ` +
+        `${(coverage * 100).toFixed(1).padStart(8)}% ` +
+        `${(elapsedMs / reviews.length).toFixed(2).padStart(10)}`
+      ));
+    }
+
+    console.log(chalk.gray('\n   Coverage is the share of reviews with at least one sentiment word.'));
+    console.log(chalk.bold.green('\n✅ Benchmark complete; npm run sentiment:reanalyze -- --engine <name> applies an engine\n'));
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error);
+    throw error;
+  } finally {
+    await db.end();
+  }
+}
+
+benchmarkSentiment()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
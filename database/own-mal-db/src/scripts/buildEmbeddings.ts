@@ -0,0 +1,73 @@
+import { db } from '../database/connection';
+import { createEmbeddingProvider } from '../services/embeddingProvider';
+import { EmbeddingDocument, semanticSearchService } from '../services/semanticSearchService';
+import chalk from 'chalk';
+
+const BATCH_SIZE = 500;
+
+// Embed every synopsis for semantic search. Providers that learn from the corpus (the default LSA one)
+// are fitted first and their model stored; that replaces all embeddings of the previous model.
+// With --missing, only new or updated anime are embedded with the stored model (`npm run embeddings:update`).
+async function buildEmbeddings() {
+  const onlyMissing = process.argv.includes('--missing');
+  console.log(chalk.bold.cyan(`\n🧭 ${onlyMissing ? 'Updating' : 'Building'} synopsis embeddings\n`));
+
+  try {
+    let provider = createEmbeddingProvider();
+    console.log(chalk.white(`   Provider: ${provider.name}`));
+
+    if (onlyMissing) {
+      const stored = await semanticSearchService.loadProvider();
+      if (!stored) {
+        throw new Error(`No stored ${provider.name} model; run npm run embeddings:build first`);
+      }
+      provider = stored;
+    } else {
+      if (provider.fit) {
+        const documents: EmbeddingDocument[] = [];
+        let fitLastId = 0;
+        while (true) {
+          const batch = await semanticSearchService.getDocuments(provider.name, fitLastId, BATCH_SIZE);
+          if (batch.length === 0) break;
+          documents.push(...batch);
+          fitLastId = batch[batch.length - 1].mal_id;
+        }
+
+        console.log(chalk.white(`   Fitting on ${documents.length} synopses...`));
+        await provider.fit(documents.map(document => document.text));
+        console.log(chalk.white(`   Fitted ${provider.dimensions} dimensions`));
+        await semanticSearchService.clearEmbeddings(provider.name);
+        await semanticSearchService.saveModel(provider, documents.length);
+      } else {
+        await semanticSearchService.saveModel(provider, 0);
+      }
+    }
+
+    let lastId = 0;
+    let processed = 0;
+
+    while (true) {
+      const documents = await semanticSearchService.getDocuments(provider.name, lastId, BATCH_SIZE, onlyMissing);
+      if (documents.length === 0) break;
+
+      await semanticSearchService.storeEmbeddings(provider, documents);
+
+      processed += documents.length;
+      lastId = documents[documents.length - 1].mal_id;
+      console.log(chalk.white(`   Embedded ${processed} anime (up to MAL ID ${lastId})`));
+    }
+
+    const totalResult = await db.query('SELECT COUNT(*) as total FROM anime_embeddings WHERE provider = $1', [provider.name]);
+    console.log(chalk.bold.green(`\n✅ Embedded ${processed} anime, ${totalResult.rows[0].total} searchable with ${provider.name}\n`));
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error);
+    throw error;
+  } finally {
+    await db.end();
+  }
+}
+
+buildEmbeddings()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
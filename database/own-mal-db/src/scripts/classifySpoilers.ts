@@ -0,0 +1,70 @@
+import { db } from '../database/connection';
+import { classifySpoilers, SpoilerSpan } from '../services/spoilerClassifier';
+import { CacheTags, invalidateCache } from '../services/responseCache';
+import chalk from 'chalk';
+
+const BATCH_SIZE = 500;
+
+// Classify stored reviews for spoilers, e.g. after the migration. The crawlers classify new reviews.
+// With --all, reviews that were already classified are redone, e.g. after a change to the patterns;
+// MAL's own spoiler flag is only known at crawl time, so reviews flagged then stay flagged.
+async function classifyStoredSpoilers() {
+  const all = process.argv.includes('--all');
+  console.log(chalk.bold.cyan(`\n🙈 Classifying ${all ? 'all' : 'unclassified'} reviews for spoilers\n`));
+
+  try {
+    let lastId = 0;
+    let processed = 0;
+    let spoilers = 0;
+
+    while (true) {
+      const result = await db.query(
+        `SELECT id, review_text, spoiler_spans
+         FROM anime_reviews
+         WHERE id > $1 ${all ? '' : 'AND is_spoiler IS NULL'}
+         ORDER BY id
+         LIMIT $2`,
+        [lastId, BATCH_SIZE]
+      );
+      if (result.rows.length === 0) break;
+
+      const ids: number[] = [];
+      const flags: boolean[] = [];
+      const spans: string[] = [];
+      for (const row of result.rows) {
+        const flagged = ((row.spoiler_spans || []) as SpoilerSpan[]).some(span => span.reasons.includes('flagged'));
+        const classification = classifySpoilers(row.review_text || '', flagged);
+        ids.push(row.id);
+        flags.push(classification.is_spoiler);
+        spans.push(JSON.stringify(classification.spoiler_spans));
+        if (classification.is_spoiler) spoilers++;
+      }
+
+      await db.query(
+        `UPDATE anime_reviews ar
+         SET is_spoiler = v.is_spoiler, spoiler_spans = v.spoiler_spans::jsonb
+         FROM unnest($1::int[], $2::boolean[], $3::text[]) AS v(id, is_spoiler, spoiler_spans)
+         WHERE ar.id = v.id`,
+        [ids, flags, spans]
+      );
+
+      processed += result.rows.length;
+      lastId = result.rows[result.rows.length - 1].id;
+      console.log(chalk.white(`   Classified ${processed} reviews (up to review ${lastId})`));
+    }
+    await invalidateCache([CacheTags.reviews]);
+
+    const share = processed > 0 ? (spoilers / processed * 100).toFixed(1) : '0';
+    console.log(chalk.bold.green(`\n✅ Classified ${processed} reviews, ${spoilers} (${share}%) contain spoilers\n`));
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error);
+    throw error;
+  } finally {
+    await db.end();
+  }
+}
+
+classifyStoredSpoilers()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
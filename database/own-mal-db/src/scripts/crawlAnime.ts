@@ -1,5 +1,12 @@
+import { db } from '../database/connection';
+import { airingStatusService } from '../services/airingStatusService';
 import { animeService } from '../services/animeService';
-import { Anime, Genre, JikanAnimeResponse, JikanGenreResponse } from '../types/anime';
+import { characterService } from '../services/characterService';
+import { franchiseService } from '../services/franchiseService';
+import { parseEpisodeDuration } from '../services/animeFormatter';
+import { staffService } from '../services/staffService';
+import { statisticsService } from '../services/statisticsService';
+import { Anime, Genre, JikanAnimeResponse, JikanCharacterEntry, JikanGenreResponse, JikanRelationGroup, JikanStaffEntry, Statistics, StatisticsMetrics } from '../types/anime';
 import { CrawlerCheckpoint } from './crawlerCheckpoint';
 
 // Rate limiter for Jikan API (more conservative to avoid 429 errors)
@@ -98,6 +105,7 @@ function transformJikanAnime(jikanAnime: any): Anime {
     aired_from: jikanAnime.aired?.from ? new Date(jikanAnime.aired.from) : null,
     aired_to: jikanAnime.aired?.to ? new Date(jikanAnime.aired.to) : null,
     duration: jikanAnime.duration || null,
+    episode_duration_seconds: parseEpisodeDuration(jikanAnime.duration),
     rating: jikanAnime.rating || null,
     score: jikanAnime.score || null,
     scored_by: jikanAnime.scored_by || null,
@@ -112,7 +120,7 @@ function transformJikanAnime(jikanAnime: any): Anime {
     images: jikanAnime.images || null,
     trailer: jikanAnime.trailer || null,
     broadcast: jikanAnime.broadcast || null,
-    statistics: null // Will be fetched separately if needed
+    statistics: null // Fetched by the statistics stage (--statistics)
   };
 }
 
@@ -159,7 +167,8 @@ async function fetchAnimeByGenre(
   genreId: number, 
   genreName: string, 
   maxPages: number,
-  checkpoint: CrawlerCheckpoint
+  checkpoint: CrawlerCheckpoint,
+  crawlRelations: boolean = true
 ): Promise<number> {
   console.log(`\n=== Fetching anime for genre: ${genreName} (ID: ${genreId}) ===`);
   
@@ -221,6 +230,11 @@ async function fetchAnimeByGenre(
           // Store genre relationships
           await storeAnimeGenreRelationships(anime.mal_id, jikanAnime, checkpoint);
           
+          // Store prequel/sequel/adaptation relations (extra request per anime)
+          if (crawlRelations) {
+            await fetchAndStoreAnimeRelations(anime.mal_id, checkpoint);
+          }
+          
           // Mark as processed in checkpoint
           checkpoint.markAnimeProcessed(anime.mal_id);
           
@@ -328,6 +342,27 @@ async function storeAnimeGenreRelationships(animeId: number, jikanAnime: any, ch
   }
 }
 
+// Fetch and store anime relations from Jikan (search results don't include them)
+async function fetchAndStoreAnimeRelations(animeId: number, checkpoint: CrawlerCheckpoint): Promise<void> {
+  try {
+    const response = await fetchWithRateLimit(`https://api.jikan.moe/v4/anime/${animeId}/relations`);
+    
+    if (!response.ok) {
+      const error = `Failed to fetch relations: ${response.status} ${response.statusText}`;
+      checkpoint.logError('api_error', error, { animeId });
+      return;
+    }
+    
+    const data = await response.json() as { data: JikanRelationGroup[] };
+    await franchiseService.replaceAnimeRelations(animeId, data.data || []);
+    
+  } catch (error) {
+    // Relations are supplementary - log and keep the anime itself
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    checkpoint.logError('anime_error', `Failed to store relations for anime ${animeId}: ${errorMsg}`, { animeId });
+  }
+}
+
 // Main crawler function with checkpoint support
 async function crawlAnimeData(): Promise<void> {
   console.log('🚀 Starting anime data crawling from Jikan API...');
@@ -339,6 +374,7 @@ async function crawlAnimeData(): Promise<void> {
     // Configuration
     const maxPagesPerGenre = parseInt(process.env.MAX_PAGES_PER_GENRE || '3');
     const maxGenres = parseInt(process.env.MAX_GENRES || '10');
+    const crawlRelations = process.env.CRAWL_RELATIONS !== 'false';
     const priorityGenres = ['Action', 'Adventure', 'Comedy', 'Drama', 'Fantasy', 'Romance', 'Sci-Fi', 'Thriller', 'Mystery', 'Horror'];
     
     // Initialize crawler with config
@@ -351,6 +387,7 @@ async function crawlAnimeData(): Promise<void> {
     console.log(`\nCrawling anime data with limits:`);
     console.log(`- Max pages per genre: ${maxPagesPerGenre}`);
     console.log(`- Max genres to process: ${maxGenres}`);
+    console.log(`- Crawl relations: ${crawlRelations ? 'yes' : 'no'}`);
     
     // Step 1: Fetch and store all genres
     const genres = await fetchAndStoreGenres(checkpoint);
@@ -382,7 +419,7 @@ async function crawlAnimeData(): Promise<void> {
     // Process each genre
     for (const genre of genresToProcess) {
       try {
-        const fetchedCount = await fetchAnimeByGenre(genre.id, genre.name, maxPagesPerGenre, checkpoint);
+        const fetchedCount = await fetchAnimeByGenre(genre.id, genre.name, maxPagesPerGenre, checkpoint, crawlRelations);
         totalAnime += fetchedCount;
         
         // Small delay between genres
@@ -415,9 +452,225 @@ async function crawlAnimeData(): Promise<void> {
   }
 }
 
-// Run crawler if this file is executed directly
+// A crawler stage that runs after crawlAnimeData: one Jikan endpoint per anime already in the database
+interface PerAnimeStage<TData, TStored> {
+  label: string;             // e.g. 'Character', for the log lines
+  endpoint: string;          // Jikan sub-resource, e.g. 'characters'
+  startMessage: string;
+  checkpointDir: string;     // Separate checkpoint so progress doesn't mix with the anime crawl
+  maxEnv: string;            // Env var limiting the anime per run (default 100)
+  missingCondition: string;  // SQL over `anime a` selecting anime the stage hasn't stored yet
+  store: (animeId: number, data: TData | undefined) => Promise<TStored>;
+  describe: (stored: TStored) => string;
+  summarize: (stored: TStored[]) => string[];
+}
+
+// Fetch one endpoint of an anime and store it; null when the fetch failed
+async function fetchAndStoreAnimeData<TData, TStored>(
+  animeId: number,
+  stage: PerAnimeStage<TData, TStored>,
+  checkpoint: CrawlerCheckpoint
+): Promise<TStored | null> {
+  const response = await fetchWithRateLimit(`https://api.jikan.moe/v4/anime/${animeId}/${stage.endpoint}`);
+  
+  if (!response.ok) {
+    const error = `Failed to fetch ${stage.endpoint}: ${response.status} ${response.statusText}`;
+    checkpoint.logError('api_error', error, { animeId });
+    return null;
+  }
+  
+  const data = await response.json() as { data?: TData };
+  return stage.store(animeId, data.data);
+}
+
+async function crawlPerAnimeStage<TData, TStored>(stage: PerAnimeStage<TData, TStored>): Promise<void> {
+  console.log(stage.startMessage);
+  
+  const checkpoint = new CrawlerCheckpoint(stage.checkpointDir);
+  
+  try {
+    const maxAnime = parseInt(process.env[stage.maxEnv] || '100');
+    
+    // Most popular anime first. Anime with nothing to store (an empty cast, no credits) still match
+    // missingCondition after their fetch, so processed ones are excluded in SQL; otherwise they would fill the window on every run
+    const result = await db.query(`
+      SELECT a.mal_id, a.title
+      FROM anime a
+      WHERE (${stage.missingCondition})
+        AND a.mal_id <> ALL($2::int[])
+      ORDER BY a.members DESC NULLS LAST
+      LIMIT $1
+    `, [maxAnime, checkpoint.getProcessedAnimeIds()]);
+    
+    const animeToProcess = result.rows;
+    console.log(`\n📋 Anime to process: ${animeToProcess.length} (limit ${maxAnime})`);
+    
+    const storedResults: TStored[] = [];
+    
+    for (const anime of animeToProcess) {
+      try {
+        const stored = await fetchAndStoreAnimeData(anime.mal_id, stage, checkpoint);
+        if (stored !== null) {
+          storedResults.push(stored);
+          console.log(`✅ ${anime.title}: ${stage.describe(stored)}`);
+          // Failed fetches stay unprocessed so the next run retries them
+          checkpoint.markAnimeProcessed(anime.mal_id);
+        }
+        
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Failed to process ${stage.endpoint} for ${anime.title}:`, errorMsg);
+        checkpoint.logError('anime_error', `Failed to store ${stage.endpoint} for anime ${anime.mal_id}: ${errorMsg}`, { animeId: anime.mal_id });
+      }
+    }
+    
+    // Keep the anime processed since the last save out of the next run's query
+    checkpoint.saveProgress();
+    
+    const summary = checkpoint.getProgressSummary();
+    console.log(`\n✅ ${stage.label} crawling completed!`);
+    console.log(`- Anime processed: ${summary.totalAnime}`);
+    for (const line of stage.summarize(storedResults)) {
+      console.log(`- ${line}`);
+    }
+    console.log(`- Errors encountered: ${summary.errors}`);
+    
+    checkpoint.exportProgress();
+    
+  } catch (error) {
+    console.error(`❌ ${stage.label} crawling failed:`, error);
+    checkpoint.logError('api_error', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
+// Characters and voice actors
+function crawlCharacterData(): Promise<void> {
+  return crawlPerAnimeStage<JikanCharacterEntry[], { characters: number; voiceActors: number }>({
+    label: 'Character',
+    endpoint: 'characters',
+    startMessage: '🎭 Starting character and voice actor crawling from Jikan API...',
+    checkpointDir: './crawler-data/characters',
+    maxEnv: 'MAX_CHARACTER_ANIME',
+    missingCondition: 'NOT EXISTS (SELECT 1 FROM anime_characters ac WHERE ac.anime_id = a.mal_id)',
+    store: (animeId, entries) => characterService.replaceAnimeCharacters(animeId, entries || []),
+    describe: stored => `${stored.characters} characters, ${stored.voiceActors} voice actor credits`,
+    summarize: stored => [
+      `Characters stored this run: ${stored.reduce((sum, s) => sum + s.characters, 0)}`,
+      `Voice actor credits stored this run: ${stored.reduce((sum, s) => sum + s.voiceActors, 0)}`
+    ]
+  });
+}
+
+// Staff credits
+function crawlStaffData(): Promise<void> {
+  return crawlPerAnimeStage<JikanStaffEntry[], number>({
+    label: 'Staff',
+    endpoint: 'staff',
+    startMessage: '🎬 Starting staff credits crawling from Jikan API...',
+    checkpointDir: './crawler-data/staff',
+    maxEnv: 'MAX_STAFF_ANIME',
+    missingCondition: 'NOT EXISTS (SELECT 1 FROM anime_staff s WHERE s.anime_id = a.mal_id)',
+    store: (animeId, entries) => staffService.replaceAnimeStaff(animeId, entries || []),
+    describe: credits => `${credits} staff credits`,
+    summarize: stored => [`Staff credits stored this run: ${stored.reduce((sum, credits) => sum + credits, 0)}`]
+  });
+}
+
+// Watch status counts and score distribution
+function crawlStatisticsData(): Promise<void> {
+  return crawlPerAnimeStage<Statistics, StatisticsMetrics>({
+    label: 'Statistics',
+    endpoint: 'statistics',
+    startMessage: '📊 Starting statistics crawling from Jikan API...',
+    checkpointDir: './crawler-data/statistics',
+    maxEnv: 'MAX_STATISTICS_ANIME',
+    missingCondition: "a.statistics IS NULL OR a.statistics = 'null'::jsonb",
+    store: (animeId, statistics) => statisticsService.storeAnimeStatistics(animeId, statistics || {}),
+    describe: metrics => {
+      const dropRate = metrics.drop_rate !== null ? `${(metrics.drop_rate * 100).toFixed(1)}% dropped` : 'no watch counts';
+      return `${dropRate}, ${metrics.score_votes ?? 0} score votes`;
+    },
+    summarize: stored => [`Statistics stored this run: ${stored.length}`]
+  });
+}
+
+// Refresh job: refetch upcoming and airing anime whose status may have moved on since they were crawled.
+// upsertAnime records the status transitions.
+async function refreshStaleAnime(): Promise<void> {
+  console.log('🔁 Starting status refresh from Jikan API...');
+  
+  // Only used for the error log: the same anime are due again on later runs, so nothing is skipped
+  const checkpoint = new CrawlerCheckpoint('./crawler-data/refresh');
+  
+  try {
+    const maxAnime = parseInt(process.env.MAX_REFRESH_ANIME || '100');
+    const staleAnime = await airingStatusService.findStaleAnime(maxAnime);
+    console.log(`\n📋 Stale anime to refresh: ${staleAnime.length} (limit ${maxAnime})`);
+    
+    let refreshed = 0;
+    let transitions = 0;
+    let errors = 0;
+    
+    for (const stale of staleAnime) {
+      try {
+        const response = await fetchWithRateLimit(`https://api.jikan.moe/v4/anime/${stale.mal_id}`);
+        
+        if (response.status === 404) {
+          // Removed from MAL: keep the row, but don't pick it again until it's stale again
+          await db.query('UPDATE anime SET last_scraped = NOW() WHERE mal_id = $1', [stale.mal_id]);
+          console.log(`⚠️  ${stale.title}: no longer on MAL`);
+          continue;
+        }
+        if (!response.ok) {
+          checkpoint.logError('api_error', `Failed to refresh anime: ${response.status} ${response.statusText}`, { animeId: stale.mal_id });
+          errors++;
+          continue;
+        }
+        
+        const data = await response.json() as { data: any };
+        const anime = transformJikanAnime(data.data);
+        await animeService.upsertAnime(anime);
+        await storeAnimeGenreRelationships(anime.mal_id, data.data, checkpoint);
+        refreshed++;
+        
+        if (anime.status !== stale.status) {
+          transitions++;
+          console.log(`🔀 ${anime.title}: ${stale.status} → ${anime.status}`);
+        }
+        
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Failed to refresh ${stale.title}:`, errorMsg);
+        checkpoint.logError('anime_error', `Failed to refresh anime ${stale.mal_id}: ${errorMsg}`, { animeId: stale.mal_id });
+        errors++;
+      }
+    }
+    
+    console.log(`\n✅ Status refresh completed!`);
+    console.log(`- Anime refreshed: ${refreshed}`);
+    console.log(`- Status transitions: ${transitions}`);
+    console.log(`- Errors encountered: ${errors}`);
+    
+    checkpoint.exportProgress();
+    
+  } catch (error) {
+    console.error('❌ Status refresh failed:', error);
+    checkpoint.logError('api_error', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
+// Run crawler if this file is executed directly (--characters / --staff / --statistics run the later stages,
+// --refresh refetches stale upcoming and airing anime)
 if (require.main === module) {
-  crawlAnimeData()
+  const crawl = process.argv.includes('--characters')
+    ? crawlCharacterData
+    : process.argv.includes('--staff') ? crawlStaffData
+    : process.argv.includes('--statistics') ? crawlStatisticsData
+    : process.argv.includes('--refresh') ? refreshStaleAnime : crawlAnimeData;
+  
+  crawl()
     .then(() => {
       console.log('Crawler finished successfully!');
       process.exit(0);
@@ -428,4 +681,4 @@ if (require.main === module) {
     });
 }
 
-export { crawlAnimeData, fetchAndStoreGenres }; 
\ No newline at end of file
+export { crawlAnimeData, crawlCharacterData, crawlStaffData, refreshStaleAnime, fetchAndStoreGenres }; 
\ No newline at end of file
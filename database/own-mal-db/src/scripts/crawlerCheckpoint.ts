@@ -83,7 +83,8 @@ export class CrawlerCheckpoint {
     };
   }
 
-  private saveProgress(): void {
+  // Called on its own by crawl stages that end between the saves of markAnimeProcessed
+  saveProgress(): void {
     try {
       // Convert Set to array for JSON serialization
       const toSave = {
@@ -120,6 +121,11 @@ export class CrawlerCheckpoint {
     return this.progress.processedAnimeIds.has(animeId);
   }
 
+  // Anime already processed, for crawl stages that exclude them in SQL
+  getProcessedAnimeIds(): number[] {
+    return Array.from(this.progress.processedAnimeIds);
+  }
+
   // Start processing a genre
   startGenre(genreId: number, genreName: string): void {
     this.progress.currentGenre = {
@@ -0,0 +1,85 @@
+import { db } from '../database/connection';
+import { ReviewAnalyzer } from '../services/reviewAnalyzer';
+import { createSentimentEngine } from '../services/sentimentEngine';
+import { CacheTags, invalidateCache } from '../services/responseCache';
+import chalk from 'chalk';
+
+const BATCH_SIZE = 500;
+
+// Rewrite sentiment_score and sentiment_label of every review with one engine, then re-analyze the
+// reception data built from them. Set SENTIMENT_ENGINE to the same engine so crawled reviews match.
+// Usage: npm run sentiment:reanalyze -- [--engine vader] [--skip-reception]
+async function reanalyzeSentiment() {
+  const engineArg = process.argv.indexOf('--engine');
+  const skipReception = process.argv.includes('--skip-reception');
+
+  try {
+    const engine = createSentimentEngine(engineArg !== -1 ? process.argv[engineArg + 1] : undefined);
+    const analyzer = new ReviewAnalyzer(engine);
+    console.log(chalk.bold.cyan(`\n🔁 Re-analyzing review sentiment with the ${engine.name} engine\n`));
+
+    let lastId = 0;
+    let processed = 0;
+    const animeIds = new Set<number>();
+
+    while (true) {
+      const result = await db.query(
+        `SELECT id, anime_id, review_text
+         FROM anime_reviews
+         WHERE id > $1
+         ORDER BY id
+         LIMIT $2`,
+        [lastId, BATCH_SIZE]
+      );
+      if (result.rows.length === 0) break;
+
+      const ids: number[] = [];
+      const scores: number[] = [];
+      const labels: string[] = [];
+      for (const row of result.rows) {
+        const sentiment = await analyzer.analyzeSentiment(row.review_text || '');
+        ids.push(row.id);
+        scores.push(sentiment.score);
+        labels.push(sentiment.label);
+        animeIds.add(row.anime_id);
+      }
+
+      await db.query(
+        `UPDATE anime_reviews ar
+         SET sentiment_score = v.score, sentiment_label = v.label, updated_at = NOW()
+         FROM unnest($1::int[], $2::float8[], $3::text[]) AS v(id, score, label)
+         WHERE ar.id = v.id`,
+        [ids, scores, labels]
+      );
+
+      processed += result.rows.length;
+      lastId = result.rows[result.rows.length - 1].id;
+      console.log(chalk.white(`   Scored ${processed} reviews (up to review ${lastId})`));
+    }
+    await invalidateCache([CacheTags.reviews]);
+
+    if (!skipReception) {
+      // sentiment_ratio and the aspect aggregates come from the new scores
+      let updated = 0;
+      for (const animeId of animeIds) {
+        await analyzer.updateAnimeReceptionData(animeId);
+        updated++;
+        if (updated % 100 === 0) {
+          console.log(chalk.white(`   Updated reception of ${updated}/${animeIds.size} anime`));
+        }
+      }
+    }
+
+    console.log(chalk.bold.green(`\n✅ Re-scored ${processed} reviews of ${animeIds.size} anime with ${engine.name}${skipReception ? '' : ', reception data updated'}\n`));
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error);
+    throw error;
+  } finally {
+    await db.end();
+  }
+}
+
+reanalyzeSentiment()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
@@ -0,0 +1,47 @@
+import { db } from '../database/connection';
+import { statisticsService } from '../services/statisticsService';
+import chalk from 'chalk';
+
+const BATCH_SIZE = 500;
+
+// Recompute drop rate, completion rate and score distribution metrics from the stored statistics JSON,
+// e.g. after the migration or a formula change. Crawled statistics get their metrics on write.
+async function rebuildStatisticsMetrics() {
+  console.log(chalk.bold.cyan('\n📊 Rebuilding statistics metrics\n'));
+
+  try {
+    let lastId = 0;
+    let processed = 0;
+
+    while (true) {
+      const result = await db.query(
+        `SELECT mal_id, statistics
+         FROM anime
+         WHERE mal_id > $1 AND statistics IS NOT NULL AND statistics <> 'null'::jsonb
+         ORDER BY mal_id
+         LIMIT $2`,
+        [lastId, BATCH_SIZE]
+      );
+      if (result.rows.length === 0) break;
+
+      await statisticsService.recomputeMetrics(result.rows);
+
+      processed += result.rows.length;
+      lastId = result.rows[result.rows.length - 1].mal_id;
+      console.log(chalk.white(`   Processed ${processed} anime (up to MAL ID ${lastId})`));
+    }
+
+    const votedResult = await db.query('SELECT COUNT(*) as total FROM anime WHERE score_votes IS NOT NULL');
+    console.log(chalk.bold.green(`\n✅ Metrics for ${processed} anime, ${votedResult.rows[0].total} with a score distribution\n`));
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error);
+    throw error;
+  } finally {
+    await db.end();
+  }
+}
+
+rebuildStatisticsMetrics()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
@@ -0,0 +1,47 @@
+import { db } from '../database/connection';
+import { animeService } from '../services/animeService';
+import chalk from 'chalk';
+
+const BATCH_SIZE = 500;
+
+// Rebuild anime_title_keys for every anime, e.g. after the migration or a normalizer change.
+// New and edited anime get their keys on write, so this only needs to run once per change.
+async function rebuildTitleKeys() {
+  console.log(chalk.bold.cyan('\n🔤 Rebuilding normalized title search keys\n'));
+
+  try {
+    let lastId = 0;
+    let processed = 0;
+
+    while (true) {
+      const result = await db.query(
+        `SELECT mal_id, title, title_english, title_japanese, title_synonyms
+         FROM anime
+         WHERE mal_id > $1
+         ORDER BY mal_id
+         LIMIT $2`,
+        [lastId, BATCH_SIZE]
+      );
+      if (result.rows.length === 0) break;
+
+      await animeService.syncTitleKeys(result.rows);
+
+      processed += result.rows.length;
+      lastId = result.rows[result.rows.length - 1].mal_id;
+      console.log(chalk.white(`   Indexed ${processed} anime (up to MAL ID ${lastId})`));
+    }
+
+    const keysResult = await db.query('SELECT COUNT(*) as total FROM anime_title_keys');
+    console.log(chalk.bold.green(`\n✅ ${keysResult.rows[0].total} title keys for ${processed} anime\n`));
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error);
+    throw error;
+  } finally {
+    await db.end();
+  }
+}
+
+rebuildTitleKeys()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
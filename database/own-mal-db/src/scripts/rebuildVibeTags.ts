@@ -0,0 +1,56 @@
+import { db } from '../database/connection';
+import { vibeTagService } from '../services/vibeTagService';
+import { CacheTags, invalidateCache } from '../services/responseCache';
+import chalk from 'chalk';
+
+const BATCH_SIZE = 200;
+
+// Re-extract the vibe tags of every anime with reviews, e.g. after the migration or a change to
+// the tag patterns. New reviews are tagged when the crawlers update reception data.
+async function rebuildVibeTags() {
+  console.log(chalk.bold.cyan('\n🏷️  Rebuilding vibe tags\n'));
+
+  try {
+    let lastId = 0;
+    let processed = 0;
+
+    while (true) {
+      const result = await db.query(
+        `SELECT DISTINCT anime_id
+         FROM anime_reviews
+         WHERE anime_id > $1
+         ORDER BY anime_id
+         LIMIT $2`,
+        [lastId, BATCH_SIZE]
+      );
+      if (result.rows.length === 0) break;
+
+      await db.transaction(async (client) => {
+        for (const row of result.rows) {
+          await vibeTagService.updateAnimeVibeTags(row.anime_id, client);
+        }
+      });
+
+      processed += result.rows.length;
+      lastId = result.rows[result.rows.length - 1].anime_id;
+      console.log(chalk.white(`   Tagged ${processed} anime (up to MAL ID ${lastId})`));
+    }
+    await invalidateCache([CacheTags.anime]);
+
+    const summary = await vibeTagService.getVibeSummary(false);
+    for (const vibe of summary) {
+      console.log(chalk.white(`   ${vibe.label.padEnd(12)} ${vibe.anime_count} anime`));
+    }
+    console.log(chalk.bold.green(`\n✅ Vibe tags rebuilt for ${processed} anime\n`));
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error);
+    throw error;
+  } finally {
+    await db.end();
+  }
+}
+
+rebuildVibeTags()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
@@ -0,0 +1,35 @@
+import { db } from '../database/connection';
+import { RANKING_VIEWS, RankingView, rankingViewService } from '../services/rankingViewService';
+import chalk from 'chalk';
+
+// Refresh the materialized ranking views (all of them, or the ones named on the command line),
+// e.g. from cron after a crawl. The API can also refresh them itself, see RANKING_VIEWS_REFRESH_MINUTES.
+async function refreshRankingViews() {
+  console.log(chalk.bold.cyan('\n🔄 Refreshing ranking views\n'));
+
+  try {
+    const requested = process.argv.slice(2);
+    const unknown = requested.filter(name => !RANKING_VIEWS.includes(name as RankingView));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown ranking views: ${unknown.join(', ')}. Known views: ${RANKING_VIEWS.join(', ')}`);
+    }
+
+    const views = requested.length > 0 ? requested as RankingView[] : RANKING_VIEWS;
+    const results = await rankingViewService.refresh(views);
+
+    for (const result of results) {
+      console.log(chalk.white(`   ${result.view} refreshed in ${result.duration_ms} ms`));
+    }
+    console.log(chalk.bold.green(`\n✅ Refreshed ${results.length} ranking views\n`));
+
+  } catch (error) {
+    console.error(chalk.red('Error:'), error);
+    throw error;
+  } finally {
+    await db.end();
+  }
+}
+
+refreshRankingViews()
+  .then(() => process.exit(0))
+  .catch(() => process.exit(1));
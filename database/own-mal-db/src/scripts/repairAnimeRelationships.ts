@@ -1,4 +1,6 @@
 import { db } from '../database/connection';
+import { franchiseService } from '../services/franchiseService';
+import { CrawlerCheckpoint } from './crawlerCheckpoint';
 import chalk from 'chalk';
 
 /**
@@ -10,6 +12,10 @@ import chalk from 'chalk';
  * Problem: 16,457 anime exist but have 0 genre/studio relationships
  * Solution: Re-fetch relationship data from Jikan API and populate tables
  *
+ * With --relations, backfills the anime_relations table (prequel/sequel/etc.)
+ * for anime that have no stored relations yet. Anime without relations on MAL
+ * never get a row, so fetched ones are kept in a checkpoint and not fetched again.
+ *
  * Rate Limit: 2 req/sec = ~2.3 hours for all 16,457 anime
  */
 
@@ -51,7 +57,8 @@ const rateLimiter = new RateLimiter();
 async function fetchAnimeFromJikan(malId: number, retryCount = 0): Promise<any | null> {
   await rateLimiter.waitForSlot();
 
-  const url = `https://api.jikan.moe/v4/anime/${malId}`;
+  // The /full endpoint also includes relations
+  const url = `https://api.jikan.moe/v4/anime/${malId}/full`;
 
   try {
     const response = await fetch(url);
@@ -183,37 +190,41 @@ async function storeStudioRelationships(animeId: number, jikanData: any): Promis
 }
 
 // Process a single anime
-async function processAnime(animeId: number): Promise<{ success: boolean; error?: string; genreLinks: number; studioLinks: number }> {
+async function processAnime(
+  animeId: number,
+  relationsOnly = false
+): Promise<{ success: boolean; skipped?: boolean; error?: string; genreLinks: number; studioLinks: number; relationLinks: number }> {
   try {
     // Check if this anime already has relationships (skip if so)
-    const checkQuery = await db.query(
-      'SELECT COUNT(*) as genre_count FROM anime_genres WHERE anime_id = $1',
-      [animeId]
-    );
+    const checkQuery = relationsOnly
+      ? await db.query('SELECT COUNT(*) as link_count FROM anime_relations WHERE anime_id = $1', [animeId])
+      : await db.query('SELECT COUNT(*) as link_count FROM anime_genres WHERE anime_id = $1', [animeId]);
 
-    if (parseInt(checkQuery.rows[0].genre_count) > 0) {
-      return { success: true, genreLinks: 0, studioLinks: 0 }; // Already has relationships
+    if (parseInt(checkQuery.rows[0].link_count) > 0) {
+      return { success: true, skipped: true, genreLinks: 0, studioLinks: 0, relationLinks: 0 }; // Already has relationships
     }
 
     // Fetch from Jikan
     const jikanData = await fetchAnimeFromJikan(animeId);
 
     if (!jikanData) {
-      return { success: false, error: '404 - Anime not found on MAL', genreLinks: 0, studioLinks: 0 };
+      return { success: false, error: '404 - Anime not found on MAL', genreLinks: 0, studioLinks: 0, relationLinks: 0 };
     }
 
     // Store relationships
-    const genreLinks = await storeGenreRelationships(animeId, jikanData);
-    const studioLinks = await storeStudioRelationships(animeId, jikanData);
+    const genreLinks = relationsOnly ? 0 : await storeGenreRelationships(animeId, jikanData);
+    const studioLinks = relationsOnly ? 0 : await storeStudioRelationships(animeId, jikanData);
+    const relationLinks = await franchiseService.replaceAnimeRelations(animeId, jikanData.relations || []);
 
-    return { success: true, genreLinks, studioLinks };
+    return { success: true, genreLinks, studioLinks, relationLinks };
 
   } catch (error) {
     return {
       success: false,
       error: error instanceof Error ? error.message : String(error),
       genreLinks: 0,
-      studioLinks: 0
+      studioLinks: 0,
+      relationLinks: 0
     };
   }
 }
@@ -238,8 +249,9 @@ export async function repairAllAnimeRelationships(options: {
   limit?: number;
   startFrom?: number;
   testMode?: boolean;
+  relationsOnly?: boolean;
 } = {}): Promise<void> {
-  const { limit, startFrom = 0, testMode = false } = options;
+  const { limit, startFrom = 0, testMode = false, relationsOnly = false } = options;
 
   console.log(chalk.bold.cyan('\n🔧 Anime Relationship Repair Script\n'));
 
@@ -247,21 +259,29 @@ export async function repairAllAnimeRelationships(options: {
     console.log(chalk.yellow('🧪 TEST MODE: Will process only a small sample\n'));
   }
 
+  if (relationsOnly) {
+    console.log(chalk.yellow('🔗 RELATIONS MODE: Backfilling anime relations only\n'));
+  }
+
+  // Relations mode only: anime already fetched, including those without relations
+  const relationsCheckpoint = relationsOnly ? new CrawlerCheckpoint('./crawler-data/relations') : null;
+
   try {
     // Get all anime IDs that need fixing
     const query = `
       SELECT a.mal_id, a.title
       FROM anime a
-      WHERE a.mal_id NOT IN (SELECT DISTINCT anime_id FROM anime_genres)
+      WHERE a.mal_id NOT IN (SELECT DISTINCT anime_id FROM ${relationsOnly ? 'anime_relations' : 'anime_genres'})
+        ${relationsCheckpoint ? 'AND a.mal_id <> ALL($1::int[])' : ''}
       ORDER BY a.mal_id
       ${limit ? `LIMIT ${limit}` : ''}
       ${startFrom > 0 ? `OFFSET ${startFrom}` : ''}
     `;
 
-    const result = await db.query(query);
+    const result = await db.query(query, relationsCheckpoint ? [relationsCheckpoint.getProcessedAnimeIds()] : []);
     const animeToFix = result.rows;
 
-    console.log(chalk.white(`Found ${chalk.bold(animeToFix.length)} anime without genre relationships\n`));
+    console.log(chalk.white(`Found ${chalk.bold(animeToFix.length)} anime without ${relationsOnly ? 'relations' : 'genre relationships'}\n`));
 
     if (animeToFix.length === 0) {
       console.log(chalk.green('✅ All anime already have relationships!'));
@@ -285,6 +305,7 @@ export async function repairAllAnimeRelationships(options: {
 
     let totalGenreLinks = 0;
     let totalStudioLinks = 0;
+    let totalRelationLinks = 0;
 
     // Process each anime
     for (let i = 0; i < animeToFix.length; i++) {
@@ -293,20 +314,26 @@ export async function repairAllAnimeRelationships(options: {
 
       console.log(chalk.cyan(`${progress} Processing anime ${mal_id}: ${title}`));
 
-      const result = await processAnime(mal_id);
+      const result = await processAnime(mal_id, relationsOnly);
 
       checkpoint.lastProcessedId = mal_id;
       checkpoint.totalProcessed++;
 
       if (result.success) {
-        if (result.genreLinks === 0 && result.studioLinks === 0) {
+        relationsCheckpoint?.markAnimeProcessed(mal_id);
+
+        if (result.skipped) {
           checkpoint.skippedCount++;
           console.log(chalk.gray(`  ⏭️  Already has relationships, skipped`));
+        } else if (relationsOnly && result.relationLinks === 0) {
+          checkpoint.successCount++;
+          console.log(chalk.gray(`  ➖ No relations on MAL`));
         } else {
           checkpoint.successCount++;
           totalGenreLinks += result.genreLinks;
           totalStudioLinks += result.studioLinks;
-          console.log(chalk.green(`  ✅ Created ${result.genreLinks} genre links, ${result.studioLinks} studio links`));
+          totalRelationLinks += result.relationLinks;
+          console.log(chalk.green(`  ✅ Created ${result.genreLinks} genre links, ${result.studioLinks} studio links, ${result.relationLinks} relation links`));
         }
       } else {
         checkpoint.errorCount++;
@@ -328,11 +355,14 @@ export async function repairAllAnimeRelationships(options: {
         console.log(chalk.red(`   Errors: ${checkpoint.errorCount}`));
         console.log(chalk.white(`   Genre links: ${totalGenreLinks}`));
         console.log(chalk.white(`   Studio links: ${totalStudioLinks}`));
+        console.log(chalk.white(`   Relation links: ${totalRelationLinks}`));
         console.log(chalk.cyan(`   Rate: ${rate.toFixed(2)} anime/sec`));
         console.log(chalk.cyan(`   ETA: ${formatTimeEstimate(eta)}\n`));
       }
     }
 
+    relationsCheckpoint?.saveProgress();
+
     // Final summary
     const totalTime = (Date.now() - checkpoint.startTime) / 1000;
 
@@ -344,6 +374,7 @@ export async function repairAllAnimeRelationships(options: {
     console.log(chalk.red(`   ❌ Errors: ${checkpoint.errorCount}`));
     console.log(chalk.white(`   Genre links created: ${totalGenreLinks}`));
     console.log(chalk.white(`   Studio links created: ${totalStudioLinks}`));
+    console.log(chalk.white(`   Relation links created: ${totalRelationLinks}`));
     console.log(chalk.cyan(`   Total time: ${formatTimeEstimate(totalTime)}\n`));
 
     if (checkpoint.errors.length > 0) {
@@ -366,9 +397,10 @@ export async function repairAllAnimeRelationships(options: {
 if (require.main === module) {
   const args = process.argv.slice(2);
   const testMode = args.includes('--test');
+  const relationsOnly = args.includes('--relations');
   const limit = testMode ? 10 : undefined;
 
-  repairAllAnimeRelationships({ limit, testMode })
+  repairAllAnimeRelationships({ limit, testMode, relationsOnly })
     .then(() => {
       console.log(chalk.green('\n✅ Script completed successfully'));
       process.exit(0);
@@ -1,5 +1,7 @@
 import { db } from '../database/connection';
+import { CacheTags, invalidateCache } from '../services/responseCache';
 import { ReviewAnalyzer } from '../services/reviewAnalyzer';
+import { classifySpoilers } from '../services/spoilerClassifier';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -22,6 +24,7 @@ interface JikanReview {
   review: string;
   votes: number;
   is_preliminary: boolean;
+  is_spoiler?: boolean;
   date: string;
 }
 
@@ -239,6 +242,7 @@ export class ReviewCrawler {
             try {
               // Analyze sentiment
               const sentiment = await this.analyzer.analyzeSentiment(review.review || '');
+              const spoilers = classifySpoilers(review.review || '', review.is_spoiler || false);
 
               // Save to database
               await this.saveReview({
@@ -251,7 +255,9 @@ export class ReviewCrawler {
                 date_posted: review.date ? new Date(review.date) : null,
                 review_length: review.review?.length || 0,
                 sentiment_score: sentiment.score,
-                sentiment_label: sentiment.label
+                sentiment_label: sentiment.label,
+                is_spoiler: spoilers.is_spoiler,
+                spoiler_spans: spoilers.spoiler_spans
               });
 
               savedCount++;
@@ -333,14 +339,17 @@ export class ReviewCrawler {
     const query = `
       INSERT INTO anime_reviews (
         anime_id, username, user_score, review_text, helpful_count,
-        is_preliminary, date_posted, review_length, sentiment_score, sentiment_label
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        is_preliminary, date_posted, review_length, sentiment_score, sentiment_label,
+        is_spoiler, spoiler_spans
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
       ON CONFLICT (anime_id, username) DO UPDATE SET
         user_score = EXCLUDED.user_score,
         review_text = EXCLUDED.review_text,
         helpful_count = EXCLUDED.helpful_count,
         sentiment_score = EXCLUDED.sentiment_score,
         sentiment_label = EXCLUDED.sentiment_label,
+        is_spoiler = EXCLUDED.is_spoiler,
+        spoiler_spans = EXCLUDED.spoiler_spans,
         updated_at = NOW()
     `;
 
@@ -354,8 +363,11 @@ export class ReviewCrawler {
       reviewData.date_posted,
       reviewData.review_length,
       reviewData.sentiment_score,
-      reviewData.sentiment_label
+      reviewData.sentiment_label,
+      reviewData.is_spoiler,
+      JSON.stringify(reviewData.spoiler_spans)
     ]);
+    await invalidateCache([CacheTags.reviews, CacheTags.reviewsByAnime(reviewData.anime_id)]);
   }
 
   async crawlPriorityAnime(config?: Partial<ReviewCrawlConfig>): Promise<void> {
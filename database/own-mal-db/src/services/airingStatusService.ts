@@ -0,0 +1,105 @@
+import { db, PoolClient } from '../database/connection';
+import { extractPrimaryImageUrl } from './animeFormatter';
+import { RecentTransitionParams, StaleAnime, StatusTransition } from '../types/anime';
+
+export type AiringStatus = 'Finished Airing' | 'Currently Airing' | 'Not yet aired';
+
+// Days after which a row of each status is refetched; shows past their expected premiere
+// or finale are refetched after OVERDUE_AFTER_DAYS. Finished shows don't change status.
+const STALE_AFTER_DAYS = {
+  'Not yet aired': 7,
+  'Currently Airing': 3
+};
+const OVERDUE_AFTER_DAYS = 1;
+
+// "Not yet aired" shows premiering within this many days count as due
+const PREMIERE_WINDOW_DAYS = 7;
+
+const DEFAULT_RECENT_DAYS = 30;
+
+export class AiringStatusService {
+
+  // Record a status change of an existing anime. Pass the client when called inside a transaction.
+  async recordTransition(malId: number, fromStatus: string | null, toStatus: string | null, client?: PoolClient): Promise<void> {
+    const query = 'INSERT INTO anime_status_history (anime_id, from_status, to_status) VALUES ($1, $2, $3)';
+    const values = [malId, fromStatus, toStatus];
+    await (client ? client.query(query, values) : db.query(query, values));
+  }
+
+  // Anime whose status may have moved on since they were last fetched, overdue premieres and finales first.
+  // Keyed on last_scraped, which only upsertAnime sets: statistics crawls and edits also bump updated_at.
+  async findStaleAnime(limit: number = 100): Promise<StaleAnime[]> {
+    const result = await db.query(`
+      SELECT a.mal_id, a.title, a.status, a.last_scraped
+      FROM anime a
+      WHERE (
+        a.status = 'Not yet aired' AND (
+          a.last_scraped < NOW() - $1 * INTERVAL '1 day'
+          OR (a.aired_from <= CURRENT_DATE + $3::int AND a.last_scraped < NOW() - $4 * INTERVAL '1 day')
+        )
+      ) OR (
+        a.status = 'Currently Airing' AND (
+          a.last_scraped < NOW() - $2 * INTERVAL '1 day'
+          OR (a.aired_to < CURRENT_DATE AND a.last_scraped < NOW() - $4 * INTERVAL '1 day')
+        )
+      )
+      ORDER BY
+        (a.status = 'Not yet aired' AND a.aired_from <= CURRENT_DATE)
+          OR (a.status = 'Currently Airing' AND a.aired_to < CURRENT_DATE) DESC,
+        a.last_scraped ASC,
+        a.members DESC NULLS LAST
+      LIMIT $5
+    `, [STALE_AFTER_DAYS['Not yet aired'], STALE_AFTER_DAYS['Currently Airing'], PREMIERE_WINDOW_DAYS, OVERDUE_AFTER_DAYS, limit]);
+
+    return result.rows;
+  }
+
+  // Anime that moved to a status within the last days and are still in it, latest change first
+  async getRecentTransitions(toStatus: AiringStatus, params: RecentTransitionParams = {}): Promise<StatusTransition[]> {
+    const { days = DEFAULT_RECENT_DAYS, type, sfw = true, limit = 20 } = params;
+
+    const conditions = [
+      'h.to_status = $1',
+      'a.status = $1',
+      `h.changed_at >= NOW() - $2 * INTERVAL '1 day'`,
+      // Only the latest transition, in case a show flip-flopped between statuses
+      'h.id = (SELECT MAX(h2.id) FROM anime_status_history h2 WHERE h2.anime_id = h.anime_id AND h2.to_status = $1)'
+    ];
+    const queryParams: any[] = [toStatus, days];
+
+    if (type) {
+      queryParams.push(type);
+      conditions.push(`a.type = $${queryParams.length}`);
+    }
+
+    if (sfw) {
+      conditions.push(`a.mal_id NOT IN (
+        SELECT ag.anime_id
+        FROM anime_genres ag
+        JOIN genres g ON ag.genre_id = g.id
+        WHERE g.name IN ('Hentai', 'Erotica')
+      )`);
+    }
+
+    queryParams.push(limit);
+    const result = await db.query(`
+      SELECT
+        a.mal_id, a.title, a.type, a.episodes, a.score, a.season, a.year, a.images,
+        a.aired_from::text AS aired_from, a.aired_to::text AS aired_to,
+        h.from_status, h.to_status, h.changed_at
+      FROM anime_status_history h
+      JOIN anime a ON a.mal_id = h.anime_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY h.changed_at DESC, h.id DESC
+      LIMIT $${queryParams.length}
+    `, queryParams);
+
+    return result.rows.map(({ images, ...row }) => ({
+      ...row,
+      score: row.score !== null ? parseFloat(row.score) : null,
+      image_url: extractPrimaryImageUrl(images)
+    }));
+  }
+}
+
+export const airingStatusService = new AiringStatusService();
@@ -0,0 +1,344 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/connection';
+import { CacheTags, invalidateCache } from './responseCache';
+import { animeService } from './animeService';
+import { parseEpisodeDuration } from './animeFormatter';
+import { Anime, AnimeAuditAction, AnimeAuditEntry, AnimeEditResult } from '../types/anime';
+
+// Columns the write API may change; everything else stays owned by the crawler.
+// episode_duration_seconds is never sent by clients but derived from duration (see withDerivedFields).
+export const ANIME_EDITABLE_FIELDS = [
+  'title', 'title_english', 'title_japanese', 'title_synonyms', 'image_url', 'type', 'source',
+  'episodes', 'status', 'airing', 'aired_from', 'aired_to', 'duration', 'episode_duration_seconds', 'rating', 'score',
+  'scored_by', 'rank', 'popularity', 'members', 'favorites', 'synopsis', 'background', 'season', 'year'
+] as const;
+
+export type AnimeEditableField = typeof ANIME_EDITABLE_FIELDS[number];
+
+export type AnimeChanges = Partial<Record<AnimeEditableField, any>>;
+
+export type AnimeEditErrorCode = 'NOT_FOUND' | 'ALREADY_EXISTS' | 'ENTRY_NOT_FOUND' | 'NOT_REVERTIBLE' | 'CONFLICT';
+
+export class AnimeEditError extends Error {
+  constructor(public code: AnimeEditErrorCode, message: string) {
+    super(message);
+    this.name = 'AnimeEditError';
+  }
+}
+
+// Row as JSON so values compare and round-trip the same way they are stored in the audit log
+const ROW_JSON = `to_jsonb(anime.*) - 'search_vector'`;
+
+interface AuditRecord {
+  animeId: number;
+  action: AnimeAuditAction;
+  changedFields: string[];
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  actor: string;
+  reason?: string;
+  revertsEntryId?: number;
+}
+
+function pick(row: Record<string, any>, fields: string[]): Record<string, any> {
+  return Object.fromEntries(fields.map(field => [field, row[field] ?? null]));
+}
+
+// Keep columns parsed from other fields in step with them
+function withDerivedFields(changes: AnimeChanges): AnimeChanges {
+  if (changes.duration === undefined) {
+    return changes;
+  }
+  return { ...changes, episode_duration_seconds: parseEpisodeDuration(changes.duration) };
+}
+
+function sameValue(a: any, b: any): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function mapAuditRow(row: any): AnimeAuditEntry {
+  return {
+    id: row.id,
+    anime_id: row.anime_id,
+    action: row.action,
+    changed_fields: row.changed_fields,
+    before: row.before_data,
+    after: row.after_data,
+    actor: row.actor,
+    reason: row.reason,
+    reverts_entry_id: row.reverts_entry_id,
+    created_at: row.created_at
+  };
+}
+
+export class AnimeEditService {
+
+  // Create an anime record that the crawler hasn't picked up (yet)
+  async createAnime(malId: number, fields: AnimeChanges, actor: string, reason?: string): Promise<AnimeEditResult> {
+    return this.editTransaction(malId, async (client) => {
+      const row = withDerivedFields(fields);
+      const columns = ANIME_EDITABLE_FIELDS.filter(field => row[field] !== undefined);
+      const values = columns.map(field => row[field]);
+
+      const result = await client.query(
+        `INSERT INTO anime (mal_id, ${columns.join(', ')})
+         VALUES ($1, ${columns.map((_, index) => `$${index + 2}`).join(', ')})
+         ON CONFLICT (mal_id) DO NOTHING
+         RETURNING ${ROW_JSON} AS row`,
+        [malId, ...values]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AnimeEditError('ALREADY_EXISTS', `Anime ${malId} already exists`);
+      }
+
+      const anime = result.rows[0].row;
+      const entry = await this.recordAudit(client, {
+        animeId: malId,
+        action: 'create',
+        changedFields: [...columns],
+        before: null,
+        after: anime,
+        actor,
+        reason
+      });
+
+      return { anime, entry };
+    });
+  }
+
+  // Apply a partial correction; only fields whose value actually changes are logged
+  async updateAnime(malId: number, changes: AnimeChanges, actor: string, reason?: string): Promise<AnimeEditResult> {
+    return this.editTransaction(malId, async (client) => {
+      const current = await this.lockAnime(client, malId);
+      if (!current) {
+        throw new AnimeEditError('NOT_FOUND', 'Anime not found');
+      }
+
+      const entry = await this.applyChanges(client, malId, current, withDerivedFields(changes), {
+        action: 'update',
+        actor,
+        reason
+      });
+
+      return { anime: entry ? await this.getAnimeRow(client, malId) : current, entry };
+    });
+  }
+
+  // Delete an anime; the full row is kept in the audit log so the delete can be reverted
+  async deleteAnime(malId: number, actor: string, reason?: string): Promise<AnimeEditResult> {
+    return this.editTransaction(malId, async (client) => {
+      const current = await this.lockAnime(client, malId);
+      if (!current) {
+        throw new AnimeEditError('NOT_FOUND', 'Anime not found');
+      }
+
+      await client.query('DELETE FROM anime WHERE mal_id = $1', [malId]);
+
+      const entry = await this.recordAudit(client, {
+        animeId: malId,
+        action: 'delete',
+        changedFields: [],
+        before: current,
+        after: null,
+        actor,
+        reason
+      });
+
+      return { anime: null, entry };
+    });
+  }
+
+  // Edit history of an anime, newest first
+  async getHistory(malId: number, limit: number = 50): Promise<AnimeAuditEntry[]> {
+    const result = await db.query(
+      `SELECT * FROM anime_audit_log
+       WHERE anime_id = $1
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2`,
+      [malId, limit]
+    );
+    return result.rows.map(mapAuditRow);
+  }
+
+  // Undo a single history entry. Updates are only reverted while the fields still hold the
+  // values that entry wrote, so a later correction is never silently overwritten.
+  async revertEntry(malId: number, entryId: number, actor: string, reason?: string): Promise<AnimeEditResult> {
+    return this.editTransaction(malId, async (client) => {
+      const entryResult = await client.query(
+        'SELECT * FROM anime_audit_log WHERE id = $1 AND anime_id = $2',
+        [entryId, malId]
+      );
+      if (entryResult.rows.length === 0) {
+        throw new AnimeEditError('ENTRY_NOT_FOUND', 'History entry not found');
+      }
+
+      const target = mapAuditRow(entryResult.rows[0]);
+      const current = await this.lockAnime(client, malId);
+
+      switch (target.action) {
+        case 'create': {
+          if (!current) {
+            throw new AnimeEditError('CONFLICT', 'Anime has already been deleted');
+          }
+          await client.query('DELETE FROM anime WHERE mal_id = $1', [malId]);
+          const entry = await this.recordAudit(client, {
+            animeId: malId,
+            action: 'revert',
+            changedFields: [],
+            before: current,
+            after: null,
+            actor,
+            reason,
+            revertsEntryId: target.id
+          });
+          return { anime: null, entry };
+        }
+
+        case 'delete': {
+          if (current) {
+            throw new AnimeEditError('CONFLICT', 'Anime exists again; revert the later create instead');
+          }
+          // Relations (genres, studios, reviews, ...) were removed by the cascade and come back with the next crawl
+          const restored = await client.query(
+            `INSERT INTO anime
+             SELECT * FROM jsonb_populate_record(NULL::anime, $1::jsonb)
+             RETURNING ${ROW_JSON} AS row`,
+            [JSON.stringify(target.before)]
+          );
+          const anime = restored.rows[0].row;
+          const entry = await this.recordAudit(client, {
+            animeId: malId,
+            action: 'revert',
+            changedFields: [],
+            before: null,
+            after: anime,
+            actor,
+            reason,
+            revertsEntryId: target.id
+          });
+          return { anime, entry };
+        }
+
+        case 'update':
+        case 'revert': {
+          if (!current) {
+            throw new AnimeEditError('NOT_FOUND', 'Anime not found');
+          }
+          if (target.changed_fields.length === 0 || !target.before || !target.after) {
+            throw new AnimeEditError('NOT_REVERTIBLE', 'History entry has no field changes to revert');
+          }
+
+          const overwritten = target.changed_fields.filter(field => !sameValue(current[field], target.after![field]));
+          if (overwritten.length > 0) {
+            throw new AnimeEditError(
+              'CONFLICT',
+              `Fields changed again after this entry: ${overwritten.join(', ')}`
+            );
+          }
+
+          const entry = await this.applyChanges(client, malId, current, pick(target.before, target.changed_fields), {
+            action: 'revert',
+            actor,
+            reason,
+            revertsEntryId: target.id
+          });
+          return { anime: await this.getAnimeRow(client, malId), entry };
+        }
+
+        default:
+          throw new AnimeEditError('NOT_REVERTIBLE', `Cannot revert a ${target.action} entry`);
+      }
+    });
+  }
+
+  // Run an edit in a transaction and drop cached responses built from the old row once it commits
+  private async editTransaction(malId: number, edit: (client: PoolClient) => Promise<AnimeEditResult>): Promise<AnimeEditResult> {
+    const result = await db.transaction(async (client) => {
+      const edited = await edit(client);
+      // Titles may have changed (or come back with a reverted delete); keep their search keys in step
+      if (edited.entry && edited.anime) {
+        await animeService.syncTitleKeys([edited.anime as Anime], client);
+      }
+      return edited;
+    });
+    if (result.entry) {
+      await invalidateCache([CacheTags.anime, CacheTags.animeById(malId)]);
+    }
+    return result;
+  }
+
+  private async lockAnime(client: PoolClient, malId: number): Promise<Record<string, any> | null> {
+    const result = await client.query(
+      `SELECT ${ROW_JSON} AS row FROM anime WHERE mal_id = $1 FOR UPDATE`,
+      [malId]
+    );
+    return result.rows[0]?.row || null;
+  }
+
+  private async getAnimeRow(client: PoolClient, malId: number): Promise<Record<string, any> | null> {
+    const result = await client.query(`SELECT ${ROW_JSON} AS row FROM anime WHERE mal_id = $1`, [malId]);
+    return result.rows[0]?.row || null;
+  }
+
+  private async applyChanges(
+    client: PoolClient,
+    malId: number,
+    current: Record<string, any>,
+    changes: AnimeChanges,
+    audit: { action: AnimeAuditAction; actor: string; reason?: string; revertsEntryId?: number }
+  ): Promise<AnimeAuditEntry | null> {
+    const fields = ANIME_EDITABLE_FIELDS.filter(field => changes[field] !== undefined);
+    if (fields.length === 0) {
+      return null;
+    }
+
+    const result = await client.query(
+      `UPDATE anime
+       SET ${fields.map((field, index) => `${field} = $${index + 2}`).join(', ')}
+       WHERE mal_id = $1
+       RETURNING ${ROW_JSON} AS row`,
+      [malId, ...fields.map(field => changes[field])]
+    );
+
+    // Compare the stored values, so e.g. a score of 8.5 vs 8.50 doesn't count as a change
+    const updated = result.rows[0].row;
+    const changedFields = fields.filter(field => !sameValue(current[field], updated[field]));
+    if (changedFields.length === 0) {
+      return null;
+    }
+
+    return this.recordAudit(client, {
+      animeId: malId,
+      action: audit.action,
+      changedFields,
+      before: pick(current, changedFields),
+      after: pick(updated, changedFields),
+      actor: audit.actor,
+      reason: audit.reason,
+      revertsEntryId: audit.revertsEntryId
+    });
+  }
+
+  private async recordAudit(client: PoolClient, record: AuditRecord): Promise<AnimeAuditEntry> {
+    const result = await client.query(
+      `INSERT INTO anime_audit_log
+         (anime_id, action, changed_fields, before_data, after_data, actor, reason, reverts_entry_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        record.animeId,
+        record.action,
+        record.changedFields,
+        record.before ? JSON.stringify(record.before) : null,
+        record.after ? JSON.stringify(record.after) : null,
+        record.actor,
+        record.reason || null,
+        record.revertsEntryId || null
+      ]
+    );
+    return mapAuditRow(result.rows[0]);
+  }
+}
+
+export const animeEditService = new AnimeEditService();
@@ -0,0 +1,83 @@
+import { AnimeWithRelations, CleanAnime } from '../types/anime';
+
+// Utility function to extract primary image URL from images object
+export function extractPrimaryImageUrl(images: any): string | null {
+  if (!images) return null;
+  
+  // Try different image formats in order of preference
+  if (images.jpg?.image_url) return images.jpg.image_url;
+  if (images.webp?.image_url) return images.webp.image_url;
+  if (images.jpg?.large_image_url) return images.jpg.large_image_url;
+  if (images.webp?.large_image_url) return images.webp.large_image_url;
+  
+  return null;
+}
+
+// Parse MAL's free-text duration ("24 min per ep", "1 hr 52 min", "30 sec") into seconds per episode.
+// Mirrors the backfill in migration 011, so keep the two in step.
+export function parseEpisodeDuration(duration: string | null | undefined): number | null {
+  if (!duration) return null;
+
+  const unit = (pattern: RegExp) => parseInt(duration.match(pattern)?.[1] || '0');
+  const seconds = unit(/(\d+)\s*hr/i) * 3600 + unit(/(\d+)\s*min/i) * 60 + unit(/(\d+)\s*sec/i);
+
+  return seconds > 0 ? seconds : null; // "Unknown"
+}
+
+// Total watch time in minutes; unknown until both the episode length and count are known
+export function totalRuntimeMinutes(anime: { episodes?: number | null; episode_duration_seconds?: number | null }): number | null {
+  if (!anime.episodes || !anime.episode_duration_seconds) return null;
+  return Math.round(anime.episodes * anime.episode_duration_seconds / 60);
+}
+
+// Utility function to clean anime data for LLM consumption (compact version)
+export function cleanAnimeData(anime: AnimeWithRelations): CleanAnime {
+  return {
+    mal_id: anime.mal_id,
+    title: anime.title || null,
+    title_english: anime.title_english || null,
+    title_japanese: anime.title_japanese || null,
+    image_url: anime.image_url || extractPrimaryImageUrl(anime.images),
+    score: anime.score || null,
+    scored_by: anime.scored_by || null,
+    rank: anime.rank || null,
+    popularity: anime.popularity || null,
+    members: anime.members || null,
+    favorites: anime.favorites || null,
+    synopsis: anime.synopsis ? (anime.synopsis.length > 300 ? anime.synopsis.substring(0, 300) + '...' : anime.synopsis) : null,
+    episodes: anime.episodes || null,
+    duration: anime.duration || null,
+    episode_duration_minutes: anime.episode_duration_seconds ? Math.round(anime.episode_duration_seconds / 60) : null,
+    total_runtime_minutes: totalRuntimeMinutes(anime),
+    year: anime.year || null,
+    season: anime.season || null,
+    status: anime.status || null,
+    rating: anime.rating || null,
+    source: anime.source || null,
+    type: anime.type || null,
+    genres: (anime.genres || []).map(g => g.name).join(', ') || null,
+    studios: (anime.studios || []).map(s => s.name).join(', ') || null,
+    themes: (anime.themes || []).map(t => t.name).join(', ') || null,
+    demographics: (anime.demographics || []).map(d => d.name).join(', ') || null,
+    url: `https://myanimelist.net/anime/${anime.mal_id}`
+  };
+}
+
+// Ultra-compact version for MCP tools
+export function ultraCompactAnimeData(anime: AnimeWithRelations) {
+  return {
+    id: anime.mal_id,
+    title: anime.title,
+    type: anime.type || 'N/A', // TV, Movie, OVA, Special, ONA, Music
+    score: anime.score || 'N/A',
+    year: anime.year || 'N/A',
+    episodes: anime.episodes || 'N/A',
+    runtime_minutes: totalRuntimeMinutes(anime), // Total watch time
+    status: anime.status || 'Unknown',
+    genres: (anime.genres || []).slice(0, 3).map(g => g.name).join(', ') || 'N/A',
+    themes: (anime.themes || []).slice(0, 2).map(t => t.name).join(', ') || null,
+    demographics: (anime.demographics || []).map(d => d.name).join(', ') || null,
+    studio: (anime.studios || [])[0]?.name || null, // Just first studio to save space
+    url: `https://myanimelist.net/anime/${anime.mal_id}`
+  };
+}
@@ -1,68 +1,144 @@
-import { db } from '../database/connection';
-import { Anime, AnimeWithRelations, SearchParams, SearchResult, Genre, CleanAnime, CleanSearchResult, SearchCapabilities } from '../types/anime';
-
-// Utility function to extract primary image URL from images object
-function extractPrimaryImageUrl(images: any): string | null {
-  if (!images) return null;
-  
-  // Try different image formats in order of preference
-  if (images.jpg?.image_url) return images.jpg.image_url;
-  if (images.webp?.image_url) return images.webp.image_url;
-  if (images.jpg?.large_image_url) return images.jpg.large_image_url;
-  if (images.webp?.large_image_url) return images.webp.large_image_url;
-  
-  return null;
+import { db, PoolClient } from '../database/connection';
+import { buildKeysetClause, buildKeysetPage, decodeCursor, SortKey } from '../database/keysetPagination';
+import { franchiseService } from './franchiseService';
+import { cleanAnimeData, parseEpisodeDuration, ultraCompactAnimeData } from './animeFormatter';
+import { CacheTags, invalidateCache } from './responseCache';
+import { airingStatusService } from './airingStatusService';
+import { rankingViewService } from './rankingViewService';
+import { statisticsService } from './statisticsService';
+import { buildTitleKeys, titleSearchKey } from './titleNormalizer';
+import { vibeTagService } from './vibeTagService';
+import { Anime, AnimeWithRelations, SearchParams, SearchResult, DidYouMeanSuggestion, TitleSuggestion, Genre, CleanAnime, CleanSearchResult, SearchCapabilities, SimilarityBreakdown, SimilarityExplanation, RecommendationParams, AnimeRecommendationResult, TopAnimeOptions } from '../types/anime';
+
+// Weights for content-based similarity scoring (sum to 1.0)
+const SIMILARITY_WEIGHTS: SimilarityBreakdown = {
+  genres: 0.35,
+  themes: 0.2,
+  demographics: 0.1,
+  studios: 0.1,
+  synopsis: 0.15,
+  era: 0.05,
+  type: 0.05
+};
+
+// A scored recommendation candidate as returned by the getSimilarAnime query
+interface SimilarityCandidateRow extends SimilarityBreakdown {
+  mal_id: number;
+  members: number | null;
+  year: number | null;
+  anime_type: string | null;
+  source_year: number | null;
+  shared_genres: string[];
+  shared_themes: string[];
+  shared_demographics: string[];
+  shared_studios: string[];
+  score: number;
 }
 
-// Utility function to clean anime data for LLM consumption (compact version)
-function cleanAnimeData(anime: AnimeWithRelations): CleanAnime {
-  return {
-    mal_id: anime.mal_id,
-    title: anime.title || null,
-    title_english: anime.title_english || null,
-    title_japanese: anime.title_japanese || null,
-    image_url: anime.image_url || extractPrimaryImageUrl(anime.images),
-    score: anime.score || null,
-    scored_by: anime.scored_by || null,
-    rank: anime.rank || null,
-    popularity: anime.popularity || null,
-    members: anime.members || null,
-    favorites: anime.favorites || null,
-    synopsis: anime.synopsis ? (anime.synopsis.length > 300 ? anime.synopsis.substring(0, 300) + '...' : anime.synopsis) : null,
-    episodes: anime.episodes || null,
-    duration: anime.duration || null,
-    year: anime.year || null,
-    season: anime.season || null,
-    status: anime.status || null,
-    rating: anime.rating || null,
-    source: anime.source || null,
-    type: anime.type || null,
-    genres: (anime.genres || []).map(g => g.name).join(', ') || null,
-    studios: (anime.studios || []).map(s => s.name).join(', ') || null,
-    themes: (anime.themes || []).map(t => t.name).join(', ') || null,
-    demographics: (anime.demographics || []).map(d => d.name).join(', ') || null,
-    url: `https://myanimelist.net/anime/${anime.mal_id}`
+// Build a human-readable explanation for a scored recommendation candidate
+function explainSimilarity(row: SimilarityCandidateRow): SimilarityExplanation {
+  const breakdown: SimilarityBreakdown = {
+    genres: row.genres,
+    themes: row.themes,
+    demographics: row.demographics,
+    studios: row.studios,
+    synopsis: row.synopsis,
+    era: row.era,
+    type: row.type
   };
-}
 
-// Ultra-compact version for MCP tools
-function ultraCompactAnimeData(anime: AnimeWithRelations) {
+  const reasons: string[] = [];
+  if (row.shared_genres.length > 0) {
+    reasons.push(`Shares genres: ${row.shared_genres.join(', ')}`);
+  }
+  if (row.shared_themes.length > 0) {
+    reasons.push(`Shares themes: ${row.shared_themes.join(', ')}`);
+  }
+  if (row.shared_demographics.length > 0) {
+    reasons.push(`Same demographic: ${row.shared_demographics.join(', ')}`);
+  }
+  if (row.shared_studios.length > 0) {
+    reasons.push(`Same studio: ${row.shared_studios.join(', ')}`);
+  }
+  if (row.synopsis >= 0.05) {
+    reasons.push('Similar story elements in synopsis');
+  }
+  if (row.era >= 0.75) {
+    reasons.push(`Released in a similar era (${row.year} vs ${row.source_year})`);
+  }
+  if (row.type === 1) {
+    reasons.push(`Same format (${row.anime_type})`);
+  }
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
   return {
-    id: anime.mal_id,
-    title: anime.title,
-    type: anime.type || 'N/A', // TV, Movie, OVA, Special, ONA, Music
-    score: anime.score || 'N/A',
-    year: anime.year || 'N/A',
-    episodes: anime.episodes || 'N/A',
-    status: anime.status || 'Unknown',
-    genres: (anime.genres || []).slice(0, 3).map(g => g.name).join(', ') || 'N/A',
-    themes: (anime.themes || []).slice(0, 2).map(t => t.name).join(', ') || null,
-    demographics: (anime.demographics || []).map(d => d.name).join(', ') || null,
-    studio: (anime.studios || [])[0]?.name || null, // Just first studio to save space
-    url: `https://myanimelist.net/anime/${anime.mal_id}`
+    score: round(row.score),
+    breakdown: Object.fromEntries(
+      Object.entries(breakdown).map(([key, value]) => [key, round(value)])
+    ) as unknown as SimilarityBreakdown,
+    reasons
   };
 }
 
+// Franchise collapsing works on an over-fetched window of raw results
+const FRANCHISE_OVERFETCH_FACTOR = 4;
+const MAX_FRANCHISE_WINDOW = 500;
+
+// Fuzzy title matching (pg_trgm, migration 009). The % and <% operators use pg_trgm's default
+// thresholds (similarity 0.3, word similarity 0.6) and are served by the trigram indexes.
+function fuzzyTitleCondition(param: string): string {
+  return `(
+    LOWER(a.title) % LOWER(${param}) OR
+    LOWER(a.title_english) % LOWER(${param}) OR
+    anime_synonyms_text(a.title_synonyms) % LOWER(${param}) OR
+    LOWER(${param}) <% LOWER(a.title) OR
+    LOWER(${param}) <% LOWER(a.title_english) OR
+    LOWER(${param}) <% anime_synonyms_text(a.title_synonyms)
+  )`;
+}
+
+// Trigram similarity (0-1) of the query to the closest of title, English title and synonyms
+function fuzzyTitleSimilarity(param: string): string {
+  return `GREATEST(
+    similarity(LOWER(a.title), LOWER(${param})),
+    similarity(LOWER(a.title_english), LOWER(${param})),
+    similarity(anime_synonyms_text(a.title_synonyms), LOWER(${param})),
+    word_similarity(LOWER(${param}), LOWER(a.title)),
+    word_similarity(LOWER(${param}), LOWER(a.title_english)),
+    word_similarity(LOWER(${param}), anime_synonyms_text(a.title_synonyms))
+  )`;
+}
+
+// The single title or synonym of an anime that best matches the query (prefix matches first)
+function bestTitleMatchJoin(param: string): string {
+  return `CROSS JOIN LATERAL (
+    SELECT
+      name,
+      LOWER(name) LIKE LOWER(${param}) || '%' AS is_prefix,
+      GREATEST(similarity(LOWER(name), LOWER(${param})), word_similarity(LOWER(${param}), LOWER(name))) AS similarity
+    FROM unnest(ARRAY[a.title, a.title_english] || COALESCE(a.title_synonyms, ARRAY[]::text[])) AS name
+    WHERE name IS NOT NULL
+    ORDER BY is_prefix DESC, similarity DESC
+    LIMIT 1
+  ) best`;
+}
+
+// Whether a result contains the query in one of its titles, verbatim or after normalization
+function hasLiteralTitleMatch(anime: AnimeWithRelations, query: string): boolean {
+  const needle = query.toLowerCase();
+  const key = titleSearchKey(query);
+  return [anime.title, anime.title_english, anime.title_japanese, ...(anime.title_synonyms || [])]
+    .some(name => name && (name.toLowerCase().includes(needle) || (key !== '' && titleSearchKey(name).includes(key))));
+}
+
+// Normalized keys shorter than this only match exactly or as a prefix; folding makes
+// short substrings too ambiguous ("moon" → "mon" would match every "...mon")
+const MIN_TITLE_KEY_SUBSTRING_LENGTH = 5;
+
+// Titles an anime is indexed under in anime_title_keys
+type TitledAnime = Pick<Anime, 'mal_id' | 'title' | 'title_english' | 'title_japanese' | 'title_synonyms'>;
+
 export class AnimeService {
   
   // Get anime by MAL ID with all relations
@@ -153,37 +229,31 @@ export class AnimeService {
     }
 
     const row = result.rows[0];
+    const relations = await franchiseService.getAnimeRelations(malId);
+    const vibes = await vibeTagService.getAnimeVibeTags(malId);
+
     return {
       ...row,
+      relations,
+      vibes,
       url: `https://myanimelist.net/anime/${row.mal_id}`
     };
   }
 
   // Search anime with filters and pagination
   async searchAnime(params: SearchParams): Promise<SearchResult> {
+    if (params.collapse_franchise) {
+      return this.searchAnimeCollapsed(params);
+    }
+
     const {
       query,
-      genres,
-      min_score,
-      max_score,
-      year,
-      min_year,
-      max_year,
-      decade,
-      min_popularity,
-      max_popularity,
-      exclude_very_popular,
-      airing_status,
-      current_year_only,
-      season,
-      min_episodes,
-      max_episodes,
-      type,
       order_by = 'mal_id',
       sort = 'desc',
       sfw = true,
       page = 1,
-      limit = 25
+      limit = 25,
+      cursor
     } = params;
 
     let whereConditions: string[] = [];
@@ -197,10 +267,26 @@ export class AnimeService {
     };
     
     const dbColumn = columnMapping[order_by] || order_by;
-    let orderByClause = `a.${dbColumn} ${sort.toUpperCase()}`;
+    const direction = sort.toUpperCase() as 'ASC' | 'DESC';
+
+    // Sort keys always end with mal_id so every row has a unique position (needed for cursors)
+    let sortKeys: SortKey[] = [{ expr: `a.${dbColumn}`, direction }];
 
     // Smart text search with title prioritization
     if (query) {
+      // Normalized key matches (romanization variants, kana, punctuation) rank just below
+      // the literal match of the same kind. Stays 'FALSE' when the query has no letters or digits.
+      const titleKey = titleSearchKey(query);
+      const keyParam = `$${paramCounter + 1}`;
+      const titleKeyMatch = (pattern: string) => titleKey
+        ? `EXISTS (SELECT 1 FROM anime_title_keys k WHERE k.anime_id = a.mal_id AND k.search_key ${pattern})`
+        : 'FALSE';
+      const keyExact = titleKeyMatch(`= ${keyParam}`);
+      const keyPrefix = titleKeyMatch(`LIKE ${keyParam} || '%'`);
+      const keyContains = titleKey.length >= MIN_TITLE_KEY_SUBSTRING_LENGTH
+        ? titleKeyMatch(`LIKE '%' || ${keyParam} || '%'`)
+        : 'FALSE';
+
       // Create a relevance score that prioritizes title matches
       const relevanceScore = `
         CASE 
@@ -208,14 +294,17 @@ export class AnimeService {
           WHEN LOWER(a.title) = LOWER($${paramCounter}) THEN 1000
           WHEN LOWER(a.title_english) = LOWER($${paramCounter}) THEN 1000
           WHEN LOWER(a.title_japanese) = LOWER($${paramCounter}) THEN 1000
+          WHEN ${keyExact} THEN 950
           
           -- Title starts with query (high priority)
           WHEN LOWER(a.title) LIKE LOWER($${paramCounter}) || '%' THEN 900
           WHEN LOWER(a.title_english) LIKE LOWER($${paramCounter}) || '%' THEN 900
+          WHEN ${keyPrefix} THEN 850
           
           -- Title contains query (medium-high priority)
           WHEN LOWER(a.title) LIKE '%' || LOWER($${paramCounter}) || '%' THEN 800
           WHEN LOWER(a.title_english) LIKE '%' || LOWER($${paramCounter}) || '%' THEN 800
+          WHEN ${keyContains} THEN 750
           
           -- Full-text search match in title fields (medium priority)
           WHEN to_tsvector('english', COALESCE(a.title, '') || ' ' || COALESCE(a.title_english, '') || ' ' || COALESCE(a.title_japanese, '')) @@ plainto_tsquery('english', $${paramCounter}) THEN 700
@@ -223,6 +312,9 @@ export class AnimeService {
           -- Full-text search match in synopsis (lower priority)
           WHEN a.search_vector @@ plainto_tsquery('english', $${paramCounter}) THEN 600
           
+          -- Fuzzy title/synonym match for misspellings (lowest priority, closest first)
+          WHEN ${fuzzyTitleCondition(`$${paramCounter}`)} THEN (500 + ROUND(${fuzzyTitleSimilarity(`$${paramCounter}`)} * 99))::int
+          
           -- No match
           ELSE 0
         END
@@ -236,31 +328,388 @@ export class AnimeService {
         LOWER(a.title_english) LIKE LOWER($${paramCounter}) || '%' OR
         LOWER(a.title) LIKE '%' || LOWER($${paramCounter}) || '%' OR
         LOWER(a.title_english) LIKE '%' || LOWER($${paramCounter}) || '%' OR
+        ${keyPrefix} OR
+        ${keyContains} OR
         to_tsvector('english', COALESCE(a.title, '') || ' ' || COALESCE(a.title_english, '') || ' ' || COALESCE(a.title_japanese, '')) @@ plainto_tsquery('english', $${paramCounter}) OR
-        a.search_vector @@ plainto_tsquery('english', $${paramCounter})
+        a.search_vector @@ plainto_tsquery('english', $${paramCounter}) OR
+        ${fuzzyTitleCondition(`$${paramCounter}`)}
       )`);
 
       // Override order by to use relevance score when searching
-      orderByClause = `(${relevanceScore}) DESC, a.popularity ASC, a.${dbColumn} ${sort.toUpperCase()}`;
+      sortKeys = [
+        { expr: relevanceScore.trim(), direction: 'DESC' },
+        { expr: 'a.popularity', direction: 'ASC' },
+        ...sortKeys
+      ];
       
       queryParams.push(query);
       paramCounter++;
+      // An unreferenced parameter would fail type inference, so the key is only bound when used
+      if (titleKey) {
+        queryParams.push(titleKey);
+        paramCounter++;
+      }
+    }
+
+    // Filters shared with findMatchingIds
+    const filters = this.buildFilterConditions(params, paramCounter);
+    whereConditions.push(...filters.conditions);
+    queryParams.push(...filters.params);
+    paramCounter = filters.nextParam;
+
+    if (!sortKeys.some(key => key.expr === 'a.mal_id')) {
+      sortKeys.push({ expr: 'a.mal_id', direction });
     }
 
-    // Genre filtering
+    const whereClause = whereConditions.length > 0 ? 'WHERE ' + whereConditions.join(' AND ') : '';
+
+    // Count total results
+    const countQuery = `
+      SELECT COUNT(*) as total
+      FROM anime a
+      ${whereClause}
+    `;
+    const countResult = await db.query(countQuery, queryParams);
+    const totalCount = parseInt(countResult.rows[0].total);
+
+    // Calculate pagination (a cursor replaces the offset)
+    const decodedCursor = cursor ? decodeCursor(cursor, sortKeys) : null;
+    const offset = decodedCursor ? 0 : (page - 1) * limit;
+    const totalPages = Math.ceil(totalCount / limit);
+
+    const keyset = buildKeysetClause(sortKeys, decodedCursor, paramCounter);
+    const pageConditions = keyset.condition ? [...whereConditions, keyset.condition] : whereConditions;
+    const pageWhereClause = pageConditions.length > 0 ? 'WHERE ' + pageConditions.join(' AND ') : '';
+    queryParams.push(...keyset.params);
+    paramCounter += keyset.params.length;
+
+    // Main query with relations
+    const searchQuery = `
+      SELECT 
+        a.*,
+        ${keyset.selectKeys},
+        COALESCE(
+          json_agg(
+            DISTINCT jsonb_build_object(
+              'id', g.id,
+              'name', g.name
+            )
+          ) FILTER (WHERE g.id IS NOT NULL AND ag.genre_type = 'genre'),
+          '[]'::json
+        ) as genres,
+        COALESCE(
+          json_agg(
+            DISTINCT jsonb_build_object(
+              'id', gt.id,
+              'name', gt.name
+            )
+          ) FILTER (WHERE gt.id IS NOT NULL AND agt.genre_type = 'theme'),
+          '[]'::json
+        ) as themes,
+        COALESCE(
+          json_agg(
+            DISTINCT jsonb_build_object(
+              'id', gd.id,
+              'name', gd.name
+            )
+          ) FILTER (WHERE gd.id IS NOT NULL AND agd.genre_type = 'demographic'),
+          '[]'::json
+        ) as demographics,
+        COALESCE(
+          json_agg(
+            DISTINCT jsonb_build_object(
+              'id', s.id,
+              'name', s.name
+            )
+          ) FILTER (WHERE s.id IS NOT NULL AND asu.role = 'studio'),
+          '[]'::json
+        ) as studios,
+        COALESCE(
+          array_agg(DISTINCT p.name) FILTER (WHERE p.id IS NOT NULL AND asp.role = 'producer'),
+          ARRAY[]::text[]
+        ) as producer_names,
+        COALESCE(
+          array_agg(DISTINCT l.name) FILTER (WHERE l.id IS NOT NULL AND asl.role = 'licensor'),
+          ARRAY[]::text[]
+        ) as licensor_names
+      FROM anime a
+      LEFT JOIN anime_genres ag ON a.mal_id = ag.anime_id AND ag.genre_type = 'genre'
+      LEFT JOIN genres g ON ag.genre_id = g.id
+      LEFT JOIN anime_genres agt ON a.mal_id = agt.anime_id AND agt.genre_type = 'theme'
+      LEFT JOIN genres gt ON agt.genre_id = gt.id
+      LEFT JOIN anime_genres agd ON a.mal_id = agd.anime_id AND agd.genre_type = 'demographic'
+      LEFT JOIN genres gd ON agd.genre_id = gd.id
+      LEFT JOIN anime_studios asu ON a.mal_id = asu.anime_id AND asu.role = 'studio'
+      LEFT JOIN studios s ON asu.studio_id = s.id
+      LEFT JOIN anime_studios asp ON a.mal_id = asp.anime_id AND asp.role = 'producer'
+      LEFT JOIN studios p ON asp.studio_id = p.id
+      LEFT JOIN anime_studios asl ON a.mal_id = asl.anime_id AND asl.role = 'licensor'
+      LEFT JOIN studios l ON asl.studio_id = l.id
+      ${pageWhereClause}
+      GROUP BY a.mal_id
+      ORDER BY ${keyset.orderBy}
+      LIMIT $${paramCounter} OFFSET $${paramCounter + 1}
+    `;
+
+    // Fetch one extra row to know whether another page follows
+    queryParams.push(limit + 1, offset);
+    const result = await db.query(searchQuery, queryParams);
+    const keysetPage = buildKeysetPage<any>(result.rows, sortKeys, limit, decodedCursor, offset > 0);
+
+    const results: AnimeWithRelations[] = keysetPage.rows.map(row => ({
+      ...row,
+      producers: (row.producer_names || []).map((name: string, index: number) => ({
+        id: index + 1, // Temporary ID, should be actual producer ID in production
+        name
+      })),
+      licensors: (row.licensor_names || []).map((name: string, index: number) => ({
+        id: index + 1, // Temporary ID, should be actual licensor ID in production
+        name
+      })),
+      url: `https://myanimelist.net/anime/${row.mal_id}`
+    }));
+
+    // Near miss: nothing contains the query verbatim, so results (if any) came from the fuzzy tier
+    // or synopsis matches. Offer the closest title as a correction.
+    const didYouMean = query && !results.some(anime => hasLiteralTitleMatch(anime, query))
+      ? await this.findDidYouMean(query, sfw)
+      : null;
+
+    return {
+      total_results: totalCount,
+      showing: results.length,
+      current_page: page,
+      last_page: totalPages,
+      has_next_page: decodedCursor ? keysetPage.next_cursor !== null : page < totalPages,
+      items_per_page: limit,
+      next_cursor: keysetPage.next_cursor,
+      prev_cursor: keysetPage.prev_cursor,
+      did_you_mean: didYouMean,
+      results
+    };
+  }
+
+  // Closest title to a misspelled query, ignoring every other search filter
+  private async findDidYouMean(query: string, sfw: boolean): Promise<DidYouMeanSuggestion | null> {
+    const result = await db.query(`
+      SELECT a.mal_id, a.title, best.name AS matched_title, best.similarity
+      FROM anime a
+      ${bestTitleMatchJoin('$1')}
+      WHERE ${fuzzyTitleCondition('$1')}
+        AND LOWER(best.name) <> LOWER($1)
+        ${sfw ? `AND a.mal_id NOT IN (
+          SELECT ag.anime_id
+          FROM anime_genres ag
+          JOIN genres g ON ag.genre_id = g.id
+          WHERE g.name IN ('Hentai', 'Erotica')
+        )` : ''}
+      ORDER BY best.similarity DESC, a.popularity ASC NULLS LAST
+      LIMIT 1
+    `, [query]);
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      query: row.matched_title,
+      mal_id: row.mal_id,
+      title: row.title,
+      similarity: Math.round(row.similarity * 100) / 100
+    };
+  }
+
+  // Title autocomplete: prefix matches on any title or synonym (most popular first), then fuzzy matches
+  async suggestTitles(query: string, limit: number = 10, sfw: boolean = true): Promise<TitleSuggestion[]> {
+    const result = await db.query(`
+      SELECT
+        a.mal_id, a.title, a.title_english, a.type, a.year, a.score, a.image_url,
+        best.name AS matched_title, best.is_prefix, best.similarity
+      FROM anime a
+      ${bestTitleMatchJoin('$1')}
+      WHERE (
+        LOWER(a.title) LIKE LOWER($1) || '%' OR
+        LOWER(a.title_english) LIKE LOWER($1) || '%' OR
+        anime_synonyms_text(a.title_synonyms) LIKE '%' || LOWER($1) || '%' OR
+        ${fuzzyTitleCondition('$1')}
+      )
+      ${sfw ? `AND a.mal_id NOT IN (
+        SELECT ag.anime_id
+        FROM anime_genres ag
+        JOIN genres g ON ag.genre_id = g.id
+        WHERE g.name IN ('Hentai', 'Erotica')
+      )` : ''}
+      ORDER BY
+        best.is_prefix DESC,
+        CASE WHEN best.is_prefix THEN a.popularity END ASC NULLS LAST,
+        best.similarity DESC,
+        a.popularity ASC NULLS LAST,
+        a.mal_id
+      LIMIT $2
+    `, [query, limit]);
+
+    return result.rows.map(row => ({
+      mal_id: row.mal_id,
+      title: row.title,
+      title_english: row.title_english,
+      matched_title: row.matched_title,
+      match: row.is_prefix ? 'prefix' : 'fuzzy',
+      similarity: Math.round(row.similarity * 100) / 100,
+      type: row.type,
+      year: row.year,
+      score: row.score !== null ? parseFloat(row.score) : null,
+      image_url: row.image_url
+    }));
+  }
+
+  // WHERE conditions for every SearchParams filter except the text query, with parameters numbered
+  // from paramStart. Used by searchAnime and by callers that rank the matches themselves.
+  private buildFilterConditions(params: SearchParams, paramStart: number): { conditions: string[]; params: any[]; nextParam: number } {
+    const {
+      genres,
+      genre_mode = 'any',
+      min_score,
+      max_score,
+      year,
+      min_year,
+      max_year,
+      decade,
+      min_popularity,
+      max_popularity,
+      exclude_very_popular,
+      airing_status,
+      current_year_only,
+      season,
+      min_episodes,
+      max_episodes,
+      min_duration,
+      max_duration,
+      max_total_runtime,
+      max_drop_rate,
+      min_completion_rate,
+      min_vote_controversy,
+      exclude_genres,
+      exclude_studios,
+      exclude_ids,
+      type,
+      studios,
+      staff,
+      staff_position,
+      vibes,
+      sfw = true
+    } = params;
+
+    const whereConditions: string[] = [];
+    const queryParams: any[] = [];
+    let paramCounter = paramStart;
+
+    // Genre filtering; genre_mode 'all' requires every listed genre instead of any of them
     if (genres) {
-      const genreIds = genres.split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id));
+      const genreIds = [...new Set(genres.split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id)))];
       if (genreIds.length > 0) {
+        const allGenresCondition = genre_mode === 'all'
+          ? `GROUP BY ag.anime_id HAVING COUNT(DISTINCT ag.genre_id) = cardinality($${paramCounter}::int[])`
+          : '';
         whereConditions.push(`a.mal_id IN (
           SELECT ag.anime_id 
           FROM anime_genres ag 
           WHERE ag.genre_id = ANY($${paramCounter})
+          ${allGenresCondition}
+        )`);
+        queryParams.push(genreIds);
+        paramCounter++;
+      }
+    }
+
+    if (exclude_genres) {
+      const genreIds = exclude_genres.split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id));
+      if (genreIds.length > 0) {
+        whereConditions.push(`a.mal_id NOT IN (
+          SELECT ag.anime_id
+          FROM anime_genres ag
+          WHERE ag.genre_id = ANY($${paramCounter})
         )`);
         queryParams.push(genreIds);
         paramCounter++;
       }
     }
 
+    // Studio filtering (animation studio credits, not producers/licensors)
+    if (studios) {
+      const studioIds = studios.split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id));
+      if (studioIds.length > 0) {
+        whereConditions.push(`a.mal_id IN (
+          SELECT ast.anime_id
+          FROM anime_studios ast
+          WHERE ast.studio_id = ANY($${paramCounter}) AND ast.role = 'studio'
+        )`);
+        queryParams.push(studioIds);
+        paramCounter++;
+      }
+    }
+
+    if (exclude_studios) {
+      const studioIds = exclude_studios.split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id));
+      if (studioIds.length > 0) {
+        whereConditions.push(`a.mal_id NOT IN (
+          SELECT ast.anime_id
+          FROM anime_studios ast
+          WHERE ast.studio_id = ANY($${paramCounter}) AND ast.role = 'studio'
+        )`);
+        queryParams.push(studioIds);
+        paramCounter++;
+      }
+    }
+
+    // Specific anime, e.g. what the user has already seen
+    if (exclude_ids) {
+      const malIds = exclude_ids.split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id));
+      if (malIds.length > 0) {
+        whereConditions.push(`a.mal_id <> ALL($${paramCounter})`);
+        queryParams.push(malIds);
+        paramCounter++;
+      }
+    }
+
+    // Staff filtering (e.g. everything by a director)
+    if (staff) {
+      const personIds = staff.split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id));
+      if (personIds.length > 0) {
+        let positionCondition = '';
+        if (staff_position) {
+          positionCondition = `AND s.position ILIKE '%' || $${paramCounter + 1} || '%'`;
+        }
+        whereConditions.push(`a.mal_id IN (
+          SELECT s.anime_id
+          FROM anime_staff s
+          WHERE s.person_id = ANY($${paramCounter}) ${positionCondition}
+        )`);
+        queryParams.push(personIds);
+        paramCounter++;
+        if (staff_position) {
+          queryParams.push(staff_position);
+          paramCounter++;
+        }
+      }
+    }
+
+    // Vibe filtering (see vibeTagService); anime whose reviews haven't been tagged never match
+    if (vibes) {
+      const tags = vibes.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+      if (tags.length > 0) {
+        whereConditions.push(`a.mal_id IN (
+          SELECT vt.anime_id
+          FROM anime_vibe_tags vt
+          WHERE vt.tag = ANY($${paramCounter})
+          GROUP BY vt.anime_id
+          HAVING COUNT(DISTINCT vt.tag) = $${paramCounter + 1}
+        )`);
+        queryParams.push(tags, new Set(tags).size);
+        paramCounter += 2;
+      }
+    }
+
     // Score filtering
     if (min_score !== undefined) {
       whereConditions.push(`a.score >= $${paramCounter}`);
@@ -364,6 +813,44 @@ export class AnimeService {
       paramCounter++;
     }
 
+    // Runtime filtering (minutes in, seconds stored); anime without a parsed duration never match
+    if (min_duration !== undefined) {
+      whereConditions.push(`a.episode_duration_seconds >= $${paramCounter} * 60`);
+      queryParams.push(min_duration);
+      paramCounter++;
+    }
+
+    if (max_duration !== undefined) {
+      whereConditions.push(`a.episode_duration_seconds <= $${paramCounter} * 60`);
+      queryParams.push(max_duration);
+      paramCounter++;
+    }
+
+    if (max_total_runtime !== undefined) {
+      whereConditions.push(`a.episodes * a.episode_duration_seconds <= $${paramCounter} * 60`);
+      queryParams.push(max_total_runtime);
+      paramCounter++;
+    }
+
+    // Audience statistics filtering (see statisticsService); anime without crawled statistics never match
+    if (max_drop_rate !== undefined) {
+      whereConditions.push(`a.drop_rate <= $${paramCounter}`);
+      queryParams.push(max_drop_rate);
+      paramCounter++;
+    }
+
+    if (min_completion_rate !== undefined) {
+      whereConditions.push(`a.completion_rate >= $${paramCounter}`);
+      queryParams.push(min_completion_rate);
+      paramCounter++;
+    }
+
+    if (min_vote_controversy !== undefined) {
+      whereConditions.push(`a.vote_controversy >= $${paramCounter}`);
+      queryParams.push(min_vote_controversy);
+      paramCounter++;
+    }
+
     // Type filtering
     if (type) {
       whereConditions.push(`a.type = $${paramCounter}`);
@@ -381,128 +868,61 @@ export class AnimeService {
       )`);
     }
 
-    const whereClause = whereConditions.length > 0 ? 'WHERE ' + whereConditions.join(' AND ') : '';
+    return { conditions: whereConditions, params: queryParams, nextParam: paramCounter };
+  }
 
-    // Count total results
-    const countQuery = `
-      SELECT COUNT(*) as total
-      FROM anime a
-      ${whereClause}
-    `;
-    const countResult = await db.query(countQuery, queryParams);
-    const totalCount = parseInt(countResult.rows[0].total);
+  // MAL IDs of every anime matching the SearchParams filters (the text query, sorting and paging are ignored)
+  async findMatchingIds(params: SearchParams): Promise<number[]> {
+    const filters = this.buildFilterConditions(params, 1);
+    const whereClause = filters.conditions.length > 0 ? 'WHERE ' + filters.conditions.join(' AND ') : '';
+    const result = await db.query(`SELECT a.mal_id FROM anime a ${whereClause}`, filters.params);
+    return result.rows.map(row => row.mal_id);
+  }
 
-    // Calculate pagination
-    const offset = (page - 1) * limit;
-    const totalPages = Math.ceil(totalCount / limit);
+  // Search with one representative per franchise: over-fetch raw results, group them, then paginate the groups
+  private async searchAnimeCollapsed(params: SearchParams): Promise<SearchResult> {
+    const { page = 1, limit = 25 } = params;
+    const window = Math.min(page * limit * FRANCHISE_OVERFETCH_FACTOR, MAX_FRANCHISE_WINDOW);
 
-    // Main query with relations
-    const searchQuery = `
-      SELECT 
-        a.*,
-        COALESCE(
-          json_agg(
-            DISTINCT jsonb_build_object(
-              'id', g.id,
-              'name', g.name
-            )
-          ) FILTER (WHERE g.id IS NOT NULL AND ag.genre_type = 'genre'),
-          '[]'::json
-        ) as genres,
-        COALESCE(
-          json_agg(
-            DISTINCT jsonb_build_object(
-              'id', gt.id,
-              'name', gt.name
-            )
-          ) FILTER (WHERE gt.id IS NOT NULL AND agt.genre_type = 'theme'),
-          '[]'::json
-        ) as themes,
-        COALESCE(
-          json_agg(
-            DISTINCT jsonb_build_object(
-              'id', gd.id,
-              'name', gd.name
-            )
-          ) FILTER (WHERE gd.id IS NOT NULL AND agd.genre_type = 'demographic'),
-          '[]'::json
-        ) as demographics,
-        COALESCE(
-          json_agg(
-            DISTINCT jsonb_build_object(
-              'id', s.id,
-              'name', s.name
-            )
-          ) FILTER (WHERE s.id IS NOT NULL AND asu.role = 'studio'),
-          '[]'::json
-        ) as studios,
-        COALESCE(
-          array_agg(DISTINCT p.name) FILTER (WHERE p.id IS NOT NULL AND asp.role = 'producer'),
-          ARRAY[]::text[]
-        ) as producer_names,
-        COALESCE(
-          array_agg(DISTINCT l.name) FILTER (WHERE l.id IS NOT NULL AND asl.role = 'licensor'),
-          ARRAY[]::text[]
-        ) as licensor_names
-      FROM anime a
-      LEFT JOIN anime_genres ag ON a.mal_id = ag.anime_id AND ag.genre_type = 'genre'
-      LEFT JOIN genres g ON ag.genre_id = g.id
-      LEFT JOIN anime_genres agt ON a.mal_id = agt.anime_id AND agt.genre_type = 'theme'
-      LEFT JOIN genres gt ON agt.genre_id = gt.id
-      LEFT JOIN anime_genres agd ON a.mal_id = agd.anime_id AND agd.genre_type = 'demographic'
-      LEFT JOIN genres gd ON agd.genre_id = gd.id
-      LEFT JOIN anime_studios asu ON a.mal_id = asu.anime_id AND asu.role = 'studio'
-      LEFT JOIN studios s ON asu.studio_id = s.id
-      LEFT JOIN anime_studios asp ON a.mal_id = asp.anime_id AND asp.role = 'producer'
-      LEFT JOIN studios p ON asp.studio_id = p.id
-      LEFT JOIN anime_studios asl ON a.mal_id = asl.anime_id AND asl.role = 'licensor'
-      LEFT JOIN studios l ON asl.studio_id = l.id
-      ${whereClause}
-      GROUP BY a.mal_id
-      ORDER BY ${orderByClause}
-      LIMIT $${paramCounter} OFFSET $${paramCounter + 1}
-    `;
-
-    queryParams.push(limit, offset);
-    const result = await db.query(searchQuery, queryParams);
+    const raw = await this.searchAnime({ ...params, collapse_franchise: false, cursor: undefined, page: 1, limit: window });
+    const grouped = await franchiseService.collapseFranchises(raw.results);
 
-    const results: AnimeWithRelations[] = result.rows.map(row => ({
-      ...row,
-      producers: (row.producer_names || []).map((name: string, index: number) => ({
-        id: index + 1, // Temporary ID, should be actual producer ID in production
-        name
-      })),
-      licensors: (row.licensor_names || []).map((name: string, index: number) => ({
-        id: index + 1, // Temporary ID, should be actual licensor ID in production
-        name
-      })),
-      url: `https://myanimelist.net/anime/${row.mal_id}`
-    }));
+    // Later pages fetch a larger window, until it reaches MAX_FRANCHISE_WINDOW; groups beyond that
+    // can't be reached, so the grouped results are then all there is. Until then the raw count is an upper bound.
+    const windowExhausted = !raw.has_next_page || window >= MAX_FRANCHISE_WINDOW;
+    const totalCount = windowExhausted ? grouped.length : raw.total_results;
+    const totalPages = Math.ceil(totalCount / limit);
+    const offset = (page - 1) * limit;
+    const results = grouped.slice(offset, offset + limit);
 
     return {
       total_results: totalCount,
       showing: results.length,
       current_page: page,
       last_page: totalPages,
-      has_next_page: page < totalPages,
+      has_next_page: grouped.length > offset + limit || !windowExhausted,
       items_per_page: limit,
+      did_you_mean: raw.did_you_mean,
       results
     };
   }
 
-  // Insert or update anime data
+  // Insert or update anime data. Status changes of existing anime go to the status history.
   async upsertAnime(anime: Anime): Promise<void> {
     const query = `
+      WITH previous AS (
+        SELECT status FROM anime WHERE mal_id = $1
+      )
       INSERT INTO anime (
         mal_id, title, title_english, title_japanese, title_synonyms,
         image_url, type, source, episodes, status, airing,
-        aired_from, aired_to, duration, rating, score, scored_by,
+        aired_from, aired_to, duration, episode_duration_seconds, rating, score, scored_by,
         rank, popularity, members, favorites, synopsis, background,
         season, year, images, trailer, broadcast, statistics, last_scraped
       ) VALUES (
         $1, $2, $3, $4, $5, $6, $7, $8, $9, $10,
         $11, $12, $13, $14, $15, $16, $17, $18, $19, $20,
-        $21, $22, $23, $24, $25, $26, $27, $28, $29, NOW()
+        $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, NOW()
       )
       ON CONFLICT (mal_id) DO UPDATE SET
         title = EXCLUDED.title,
@@ -518,6 +938,7 @@ export class AnimeService {
         aired_from = EXCLUDED.aired_from,
         aired_to = EXCLUDED.aired_to,
         duration = EXCLUDED.duration,
+        episode_duration_seconds = EXCLUDED.episode_duration_seconds,
         rating = EXCLUDED.rating,
         score = EXCLUDED.score,
         scored_by = EXCLUDED.scored_by,
@@ -532,9 +953,12 @@ export class AnimeService {
         images = EXCLUDED.images,
         trailer = EXCLUDED.trailer,
         broadcast = EXCLUDED.broadcast,
-        statistics = EXCLUDED.statistics,
+        statistics = COALESCE(NULLIF(EXCLUDED.statistics, 'null'::jsonb), anime.statistics), -- Crawled in a separate stage
         last_scraped = NOW(),
         updated_at = NOW()
+      RETURNING
+        EXISTS (SELECT 1 FROM previous) AS existed,
+        (SELECT status FROM previous) AS previous_status
     `;
 
     const values = [
@@ -552,6 +976,7 @@ export class AnimeService {
       anime.aired_from,
       anime.aired_to,
       anime.duration,
+      anime.episode_duration_seconds ?? parseEpisodeDuration(anime.duration),
       anime.rating,
       anime.score,
       anime.scored_by,
@@ -569,7 +994,75 @@ export class AnimeService {
       JSON.stringify(anime.statistics)
     ];
 
-    await db.query(query, values);
+    const result = await db.query(query, values);
+    const { existed, previous_status } = result.rows[0];
+    if (existed && (previous_status ?? null) !== (anime.status ?? null)) {
+      await airingStatusService.recordTransition(anime.mal_id, previous_status, anime.status ?? null);
+    }
+    await this.syncTitleKeys([anime]);
+    if (anime.statistics) {
+      await statisticsService.storeAnimeStatistics(anime.mal_id, anime.statistics);
+    }
+    await invalidateCache([CacheTags.anime, CacheTags.animeById(anime.mal_id)]);
+  }
+
+  // Replace the normalized title search keys of these anime (see titleNormalizer).
+  // Pass the client when called inside a transaction.
+  async syncTitleKeys(animeList: TitledAnime[], client?: PoolClient): Promise<void> {
+    if (animeList.length === 0) {
+      return;
+    }
+
+    const rows = animeList.flatMap(anime =>
+      buildTitleKeys(anime).map(key => ({ anime_id: anime.mal_id, ...key }))
+    );
+
+    const sync = async (conn: PoolClient) => {
+      await conn.query('DELETE FROM anime_title_keys WHERE anime_id = ANY($1)', [animeList.map(anime => anime.mal_id)]);
+      if (rows.length === 0) {
+        return;
+      }
+      await conn.query(
+        `INSERT INTO anime_title_keys (anime_id, search_key, source, title)
+         SELECT * FROM unnest($1::int[], $2::text[], $3::text[], $4::text[])
+         ON CONFLICT (anime_id, search_key) DO NOTHING`,
+        [
+          rows.map(row => row.anime_id),
+          rows.map(row => row.search_key),
+          rows.map(row => row.source),
+          rows.map(row => row.title)
+        ]
+      );
+    };
+
+    await (client ? sync(client) : db.transaction(sync));
+  }
+
+  // Resolve free-form titles (any romanization, kana, English or synonym) to MAL IDs by exact
+  // normalized key; the most popular anime wins when several share a title
+  async resolveTitles(titles: string[]): Promise<Array<{ input: string; mal_id: number | null; matched_title: string | null }>> {
+    const keys = titles.map(title => titleSearchKey(title));
+    const result = await db.query(
+      `SELECT DISTINCT ON (k.search_key) k.search_key, k.anime_id, k.title
+       FROM anime_title_keys k
+       JOIN anime a ON a.mal_id = k.anime_id
+       WHERE k.search_key = ANY($1)
+       ORDER BY k.search_key, a.popularity ASC NULLS LAST, a.mal_id`,
+      [keys.filter(key => key !== '')]
+    );
+
+    const byKey = new Map<string, { anime_id: number; title: string }>(
+      result.rows.map(row => [row.search_key, row])
+    );
+
+    return titles.map((input, index) => {
+      const match = byKey.get(keys[index]);
+      return {
+        input,
+        mal_id: match ? match.anime_id : null,
+        matched_title: match ? match.title : null
+      };
+    });
   }
 
   // Get all genres
@@ -604,29 +1097,88 @@ export class AnimeService {
       genre.count || 0,
       genre.type || 'genre'
     ]);
+    await invalidateCache([CacheTags.genres]);
   }
 
-  // Get anime count by genre
-  async getAnimeCountByGenre(): Promise<{ genre_name: string; count: number }[]> {
+  // Get anime count by genre, from genre_stats_mv unless fresh counts are requested
+  async getAnimeCountByGenre(fresh: boolean = false): Promise<{ genre_name: string; count: number }[]> {
     const query = `
-      SELECT g.name as genre_name, COUNT(ag.anime_id) as count
-      FROM genres g
-      LEFT JOIN anime_genres ag ON g.id = ag.genre_id
-      GROUP BY g.id, g.name
-      ORDER BY count DESC
+      SELECT gs.genre_name, gs.count
+      FROM ${rankingViewService.source('genre_stats_mv', fresh)} gs
+      ORDER BY gs.count DESC, gs.genre_name
     `;
     const result = await db.query(query);
     return result.rows;
   }
 
   // Get top anime by score
-  async getTopAnime(limit: number = 50): Promise<AnimeWithRelations[]> {
-    return this.searchAnime({
-      order_by: 'score',
-      sort: 'desc',
-      limit,
-      sfw: true
-    }).then(result => result.results);
+  async getTopAnime(limit: number = 50, collapseFranchise: boolean = false): Promise<AnimeWithRelations[]> {
+    return this.getTopAnimePage(limit, collapseFranchise).then(result => result.results);
+  }
+
+  // Get top anime as a search page, so callers can continue with a cursor. Reads the ranks from
+  // anime_rankings_mv (overall or within one season); fresh and franchise-collapsed lists are searched live.
+  async getTopAnimePage(limit: number = 50, collapseFranchise: boolean = false, cursor?: string, options: TopAnimeOptions = {}): Promise<SearchResult> {
+    const { year, season, fresh = false } = options;
+
+    if (fresh || collapseFranchise) {
+      return this.searchAnime({
+        order_by: 'score',
+        sort: 'desc',
+        limit,
+        sfw: true,
+        year,
+        season,
+        collapse_franchise: collapseFranchise,
+        cursor
+      });
+    }
+
+    const conditions: string[] = [];
+    const queryParams: any[] = [];
+    if (year !== undefined) {
+      queryParams.push(year);
+      conditions.push(`r.year = $${queryParams.length}`);
+    }
+    if (season) {
+      queryParams.push(season);
+      conditions.push(`r.season = $${queryParams.length}`);
+    }
+
+    // Ranks are unique, so they double as the cursor's tie breaker
+    const sortKeys: SortKey[] = [{ expr: year !== undefined && season ? 'r.season_rank' : 'r.overall_rank', direction: 'ASC' }];
+    const decodedCursor = cursor ? decodeCursor(cursor, sortKeys) : null;
+    const keyset = buildKeysetClause(sortKeys, decodedCursor, queryParams.length + 1);
+    const pageConditions = keyset.condition ? [...conditions, keyset.condition] : conditions;
+
+    const countResult = await db.query(
+      `SELECT COUNT(*) as total FROM anime_rankings_mv r ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}`,
+      queryParams
+    );
+    const totalCount = parseInt(countResult.rows[0].total);
+
+    const rankResult = await db.query(`
+      SELECT r.mal_id, ${keyset.selectKeys}
+      FROM anime_rankings_mv r
+      ${pageConditions.length > 0 ? 'WHERE ' + pageConditions.join(' AND ') : ''}
+      ORDER BY ${keyset.orderBy}
+      LIMIT $${queryParams.length + keyset.params.length + 1}
+    `, [...queryParams, ...keyset.params, limit + 1]);
+    const keysetPage = buildKeysetPage<{ mal_id: number }>(rankResult.rows, sortKeys, limit, decodedCursor);
+
+    const results = await this.loadAnimeWithRelations(keysetPage.rows.map(row => row.mal_id));
+
+    return {
+      total_results: totalCount,
+      showing: results.length,
+      current_page: 1,
+      last_page: Math.ceil(totalCount / limit),
+      has_next_page: keysetPage.next_cursor !== null,
+      items_per_page: limit,
+      next_cursor: keysetPage.next_cursor,
+      prev_cursor: keysetPage.prev_cursor,
+      results
+    };
   }
 
   // Clean data methods for LLM consumption
@@ -635,7 +1187,10 @@ export class AnimeService {
   async getCleanAnimeById(malId: number): Promise<CleanAnime | null> {
     const anime = await this.getAnimeById(malId);
     if (!anime) return null;
-    return cleanAnimeData(anime);
+    return {
+      ...cleanAnimeData(anime),
+      vibes: (anime.vibes || []).map(vibe => `${vibe.label} (${vibe.support} reviews)`).join(', ') || null
+    };
   }
 
   // Search anime with clean data format
@@ -660,9 +1215,12 @@ export class AnimeService {
   }
 
   // Ultra-compact search for MCP tools
-  async getCompactSearch(params: SearchParams): Promise<any[]> {
+  async getCompactSearch(params: SearchParams): Promise<{ results: any[]; did_you_mean: DidYouMeanSuggestion | null }> {
     const result = await this.searchAnime({ ...params, limit: Math.min(params.limit || 10, 15) });
-    return result.results.map(anime => ultraCompactAnimeData(anime));
+    return {
+      results: result.results.map(anime => ultraCompactAnimeData(anime)),
+      did_you_mean: result.did_you_mean ?? null
+    };
   }
 
   // Get current season anime using actual database season field
@@ -737,13 +1295,23 @@ export class AnimeService {
 
   // Bulk get anime by MAL IDs (for MCP tools with many anime IDs)
   async getBulkAnimeByIds(malIds: number[], compact: boolean = false): Promise<any[]> {
+    // Limit to prevent overwhelming queries
+    const results = await this.loadAnimeWithRelations(malIds.slice(0, 100));
+
+    // Return compact or full format based on request
+    if (compact) {
+      return results.map(anime => ultraCompactAnimeData(anime));
+    } else {
+      return results.map(anime => cleanAnimeData(anime));
+    }
+  }
+
+  // Anime with genres, themes, demographics and studios, in the order of the given IDs
+  async loadAnimeWithRelations(malIds: number[]): Promise<AnimeWithRelations[]> {
     if (malIds.length === 0) {
       return [];
     }
 
-    // Limit to prevent overwhelming queries
-    const limitedIds = malIds.slice(0, 100);
-
     const query = `
       SELECT
         a.*,
@@ -797,18 +1365,159 @@ export class AnimeService {
       ORDER BY array_position($1, a.mal_id)
     `;
 
-    const result = await db.query(query, [limitedIds]);
-    const results: AnimeWithRelations[] = result.rows.map(row => ({
+    const result = await db.query(query, [malIds]);
+    return result.rows.map(row => ({
       ...row,
       url: `https://myanimelist.net/anime/${row.mal_id}`
     }));
+  }
 
-    // Return compact or full format based on request
-    if (compact) {
-      return results.map(anime => ultraCompactAnimeData(anime));
-    } else {
-      return results.map(anime => cleanAnimeData(anime));
+  // Content-based recommendations: rank anime sharing genres/themes/demographics/studios with the source
+  async getSimilarAnime(malId: number, params: RecommendationParams = {}): Promise<AnimeRecommendationResult | null> {
+    const { limit = 10, compact = false, sfw = true } = params;
+
+    const sourceResult = await db.query('SELECT mal_id, title FROM anime WHERE mal_id = $1', [malId]);
+    if (sourceResult.rows.length === 0) {
+      return null;
     }
+    const source = sourceResult.rows[0];
+
+    // Exclude explicit content (same rule as searchAnime)
+    const sfwCondition = sfw
+      ? `WHERE a.mal_id NOT IN (
+          SELECT ag.anime_id
+          FROM anime_genres ag
+          JOIN genres g ON ag.genre_id = g.id
+          WHERE g.name IN ('Hentai', 'Erotica')
+        )`
+      : '';
+
+    // Candidates are anime sharing at least one genre-like tag or studio with the source.
+    // Each similarity component is normalized to 0..1 and weighted in the final score.
+    const query = `
+      WITH source AS (
+        SELECT mal_id, year, type, search_vector FROM anime WHERE mal_id = $1
+      ),
+      source_genres AS (
+        SELECT genre_id, genre_type FROM anime_genres WHERE anime_id = $1
+      ),
+      source_counts AS (
+        SELECT
+          COUNT(*) FILTER (WHERE genre_type = 'genre') AS genres,
+          COUNT(*) FILTER (WHERE genre_type = 'theme') AS themes,
+          COUNT(*) FILTER (WHERE genre_type = 'demographic') AS demographics
+        FROM source_genres
+      ),
+      source_studios AS (
+        SELECT studio_id FROM anime_studios WHERE anime_id = $1 AND role = 'studio'
+      ),
+      genre_overlap AS (
+        SELECT
+          ag.anime_id,
+          array_agg(g.name ORDER BY g.name) FILTER (WHERE ag.genre_type = 'genre') AS shared_genres,
+          array_agg(g.name ORDER BY g.name) FILTER (WHERE ag.genre_type = 'theme') AS shared_themes,
+          array_agg(g.name ORDER BY g.name) FILTER (WHERE ag.genre_type = 'demographic') AS shared_demographics
+        FROM anime_genres ag
+        JOIN source_genres sg ON sg.genre_id = ag.genre_id AND sg.genre_type = ag.genre_type
+        JOIN genres g ON g.id = ag.genre_id
+        WHERE ag.anime_id <> $1
+        GROUP BY ag.anime_id
+      ),
+      studio_overlap AS (
+        SELECT asu.anime_id, array_agg(s.name ORDER BY s.name) AS shared_studios
+        FROM anime_studios asu
+        JOIN source_studios ss ON ss.studio_id = asu.studio_id
+        JOIN studios s ON s.id = asu.studio_id
+        WHERE asu.role = 'studio' AND asu.anime_id <> $1
+        GROUP BY asu.anime_id
+      ),
+      -- OR together every lexeme of the source's search vector
+      synopsis_query AS (
+        SELECT to_tsquery(
+          'simple',
+          string_agg('''' || replace(replace(lexeme, '\\', '\\\\'), '''', '''''') || '''', ' | ')
+        ) AS q
+        FROM source, unnest(tsvector_to_array(source.search_vector)) AS lexeme
+      ),
+      candidates AS (
+        SELECT anime_id FROM genre_overlap
+        UNION
+        SELECT anime_id FROM studio_overlap
+      ),
+      scored AS (
+        SELECT
+          a.mal_id,
+          a.members,
+          a.year,
+          a.type AS anime_type,
+          src.year AS source_year,
+          COALESCE(gov.shared_genres, ARRAY[]::text[]) AS shared_genres,
+          COALESCE(gov.shared_themes, ARRAY[]::text[]) AS shared_themes,
+          COALESCE(gov.shared_demographics, ARRAY[]::text[]) AS shared_demographics,
+          COALESCE(sov.shared_studios, ARRAY[]::text[]) AS shared_studios,
+          COALESCE(cardinality(gov.shared_genres)::float / NULLIF(sc.genres, 0), 0) AS genres,
+          COALESCE(cardinality(gov.shared_themes)::float / NULLIF(sc.themes, 0), 0) AS themes,
+          COALESCE(cardinality(gov.shared_demographics)::float / NULLIF(sc.demographics, 0), 0) AS demographics,
+          CASE WHEN sov.anime_id IS NOT NULL THEN 1 ELSE 0 END AS studios,
+          COALESCE(ts_rank(a.search_vector, sq.q, 32), 0) AS synopsis,
+          CASE
+            WHEN a.year IS NULL OR src.year IS NULL THEN 0
+            ELSE GREATEST(0, 1 - ABS(a.year - src.year)::float / 20)
+          END AS era,
+          CASE WHEN a.type = src.type THEN 1 ELSE 0 END AS type
+        FROM candidates c
+        JOIN anime a ON a.mal_id = c.anime_id
+        LEFT JOIN genre_overlap gov ON gov.anime_id = c.anime_id
+        LEFT JOIN studio_overlap sov ON sov.anime_id = c.anime_id
+        CROSS JOIN source src
+        CROSS JOIN source_counts sc
+        CROSS JOIN synopsis_query sq
+        ${sfwCondition}
+      )
+      SELECT
+        *,
+        (genres * $2::float + themes * $3::float + demographics * $4::float + studios * $5::float +
+         synopsis * $6::float + era * $7::float + type * $8::float) AS score
+      FROM scored
+      ORDER BY score DESC, members DESC NULLS LAST
+      LIMIT $9
+    `;
+
+    const result = await db.query<SimilarityCandidateRow>(query, [
+      malId,
+      SIMILARITY_WEIGHTS.genres,
+      SIMILARITY_WEIGHTS.themes,
+      SIMILARITY_WEIGHTS.demographics,
+      SIMILARITY_WEIGHTS.studios,
+      SIMILARITY_WEIGHTS.synopsis,
+      SIMILARITY_WEIGHTS.era,
+      SIMILARITY_WEIGHTS.type,
+      limit
+    ]);
+
+    const details = await this.loadAnimeWithRelations(result.rows.map(row => row.mal_id));
+    const detailsById = new Map(details.map(anime => [anime.mal_id, anime]));
+
+    // Follow the ranking; a candidate deleted between the two queries is left out
+    const results = result.rows.flatMap(row => {
+      const anime = detailsById.get(row.mal_id);
+      if (!anime) {
+        return [];
+      }
+      return [{
+        ...(compact ? ultraCompactAnimeData(anime) : cleanAnimeData(anime)),
+        similarity: explainSimilarity(row)
+      }];
+    });
+
+    return {
+      source: {
+        mal_id: source.mal_id,
+        title: source.title
+      },
+      total_results: results.length,
+      results
+    };
   }
 
   // Get search capabilities for MCP tool discovery
@@ -834,11 +1543,19 @@ export class AnimeService {
           current_year: "Filter to current year only using current_year_only=true"
         },
         content: {
-          genres: "Filter by genre IDs (comma-separated, e.g., '1,4,10'). Use getAllGenres() to see available options",
+          genres: "Filter by genre IDs (comma-separated, e.g., '1,4,10'). Matches any listed genre; genre_mode=all requires every one. Use getAllGenres() to see available options",
+          exclusions: "Leave out genres with exclude_genres, animation studios with exclude_studios and specific anime (e.g. already seen) with exclude_ids, all comma-separated IDs",
+          audience: "Filter by how MAL users watch and vote, as fractions 0-1: max_drop_rate (e.g. 0.05), min_completion_rate, min_vote_controversy (divided opinions). Sort with order_by=completion_rate, drop_rate or vote_controversy. Anime without crawled statistics don't match",
           type: "Filter by anime type: 'TV', 'Movie', 'OVA', 'Special', 'ONA', 'Music'",
           airing_status: "Filter by status: 'airing' (currently airing), 'finished', 'upcoming'",
           episodes: "Filter by episode count using min_episodes and max_episodes",
-          content_rating: "SFW filtering available (sfw=true excludes adult content)"
+          duration: "Filter by episode length in minutes using min_duration and max_duration, or by total watch time (episodes x length) in minutes using max_total_runtime",
+          content_rating: "SFW filtering available (sfw=true excludes adult content)",
+          studios: "Filter by animation studio IDs with studios=<id> (comma-separated). Browse IDs via /api/v1/studios",
+          staff: "Filter by staff with staff=<person id> (comma-separated), optionally staff_position='Director'",
+          vibes: "Filter by how reviewers describe the show with vibes=<tag> (comma-separated, all required): slow_burn, comfy, tearjerker, mindfuck, wholesome, feel_good, bittersweet, dark, hype. Only anime with analyzed reviews carry vibes",
+          collapse_franchise: "Show one entry per franchise using collapse_franchise=true (other seasons/movies listed in 'franchise')",
+          title_query: "query matches titles (any romanization or kana), synonyms and synopsis; misspelled titles still match fuzzily and return a did_you_mean correction. Autocomplete via /api/v1/search/suggest?q="
         },
         quality: {
           score_range: "Filter by MAL score using min_score and max_score (0-10)",
@@ -847,6 +1564,16 @@ export class AnimeService {
         }
       },
       search_examples: [
+        {
+          description: "Find other anime by the director of Cowboy Bebop",
+          example_query: "what else did Shinichiro Watanabe direct",
+          suggested_parameters: {
+            staff: "2009", // Shinichiro Watanabe (MAL person ID)
+            staff_position: "Director",
+            order_by: "score",
+            sort: "desc"
+          }
+        },
         {
           description: "Find best ecchi series from 2000-2010",
           example_query: "2000-2010 best ecchi series",
@@ -890,6 +1617,47 @@ export class AnimeService {
             order_by: "score",
             sort: "desc"
           }
+        },
+        {
+          description: "Find romantic comedies without ecchi",
+          example_query: "romcom, no ecchi",
+          suggested_parameters: {
+            genres: "4,22", // Comedy, Romance
+            genre_mode: "all",
+            exclude_genres: "9", // Ecchi
+            order_by: "score",
+            sort: "desc"
+          }
+        },
+        {
+          description: "Find well-rated series that people actually finish",
+          example_query: "shows people actually finish",
+          suggested_parameters: {
+            type: "TV",
+            min_score: 7.5,
+            max_drop_rate: 0.05,
+            order_by: "completion_rate",
+            sort: "desc"
+          }
+        },
+        {
+          description: "Find comfy shows that reviewers call a slow burn",
+          example_query: "comfy slow burn anime",
+          suggested_parameters: {
+            vibes: "comfy,slow_burn",
+            order_by: "score",
+            sort: "desc"
+          }
+        },
+        {
+          description: "Find a well-rated anime that can be finished over a weekend",
+          example_query: "something I can finish this weekend",
+          suggested_parameters: {
+            max_total_runtime: 600, // 10 hours
+            min_score: 7.5,
+            order_by: "score",
+            sort: "desc"
+          }
         }
       ],
       available_genres: genres,
@@ -898,10 +1666,7 @@ export class AnimeService {
         max_year: max_year || new Date().getFullYear()
       },
       current_limitations: [
-        "No similarity-based recommendations yet (requires additional ML implementation)",
         "No user-specific recommendations based on watch history",
-        "Genre filtering is inclusive (OR logic) - cannot exclude specific genres yet",
-        "No studio-based filtering implemented yet",
         "No advanced text search in synopsis with ranking"
       ]
     };
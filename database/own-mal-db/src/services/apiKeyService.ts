@@ -0,0 +1,254 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../database/connection';
+
+export type ApiKeyScope = 'read' | 'write' | 'admin';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'write', 'admin'];
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  key_prefix: string;
+  scope: ApiKeyScope;
+  rate_limit_per_minute: number;
+  burst: number;
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+export interface ApiKeyWithUsage extends ApiKey {
+  requests_today: number;
+  rejected_today: number;
+  requests_total: number;
+}
+
+export interface CreateApiKeyOptions {
+  name: string;
+  scope: ApiKeyScope;
+  rateLimitPerMinute?: number;
+  burst?: number;
+}
+
+const KEY_PREFIX = 'omdb_';
+
+// Resolved keys are cached briefly so authentication doesn't cost a query per request;
+// a revoked key stops working within this window. Unknown keys aren't cached: anyone can make them up.
+const KEY_CACHE_TTL_MS = 30_000;
+
+// Usage counters are kept in memory and written in batches
+const USAGE_FLUSH_INTERVAL_MS = 10_000;
+
+interface PendingUsage {
+  requests: number;
+  rejected: number;
+}
+
+function hashKey(plaintext: string): string {
+  return createHash('sha256').update(plaintext).digest('hex');
+}
+
+// Scopes are ordered: admin can do everything write can, write everything read can
+export function scopeAllows(granted: ApiKeyScope, required: ApiKeyScope): boolean {
+  return API_KEY_SCOPES.indexOf(granted) >= API_KEY_SCOPES.indexOf(required);
+}
+
+export class ApiKeyService {
+  private cache = new Map<string, { key: ApiKey; expiresAt: number }>();
+  private lastSweep = Date.now();
+  private pendingUsage = new Map<number, PendingUsage>();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  // Mint a new key. The plaintext is only ever returned here.
+  async createKey(options: CreateApiKeyOptions): Promise<{ key: ApiKey; plaintext: string }> {
+    const plaintext = KEY_PREFIX + randomBytes(24).toString('base64url');
+
+    const result = await db.query(
+      `INSERT INTO api_keys (name, key_prefix, key_hash, scope, rate_limit_per_minute, burst)
+       VALUES ($1, $2, $3, $4, COALESCE($5, 120), COALESCE($6, 30))
+       RETURNING id, name, key_prefix, scope, rate_limit_per_minute, burst, created_at, last_used_at, revoked_at`,
+      [
+        options.name,
+        plaintext.slice(0, KEY_PREFIX.length + 6),
+        hashKey(plaintext),
+        options.scope,
+        options.rateLimitPerMinute ?? null,
+        options.burst ?? null
+      ]
+    );
+
+    return { key: result.rows[0], plaintext };
+  }
+
+  // Revoke by id or key prefix; returns the revoked key or null if none matched
+  async revokeKey(idOrPrefix: string): Promise<ApiKey | null> {
+    const id = /^\d+$/.test(idOrPrefix) ? parseInt(idOrPrefix) : null;
+    const matches = await db.query(
+      'SELECT id FROM api_keys WHERE revoked_at IS NULL AND (id = $1 OR key_prefix = $2)',
+      [id, idOrPrefix]
+    );
+
+    if (matches.rows.length === 0) return null;
+    if (matches.rows.length > 1) {
+      // Prefixes are short enough to collide in theory; never revoke more than was asked for
+      throw new Error(`${idOrPrefix} matches several keys, revoke by id instead`);
+    }
+
+    const result = await db.query(
+      `UPDATE api_keys SET revoked_at = NOW()
+       WHERE id = $1
+       RETURNING id, name, key_prefix, scope, rate_limit_per_minute, burst, created_at, last_used_at, revoked_at`,
+      [matches.rows[0].id]
+    );
+
+    this.cache.clear();
+    return result.rows[0];
+  }
+
+  // All keys with today's and total usage
+  async listKeys(includeRevoked: boolean = false): Promise<ApiKeyWithUsage[]> {
+    await this.flushUsage();
+
+    const result = await db.query(
+      `SELECT
+         k.id, k.name, k.key_prefix, k.scope, k.rate_limit_per_minute, k.burst,
+         k.created_at, k.last_used_at, k.revoked_at,
+         COALESCE(SUM(u.request_count) FILTER (WHERE u.day = CURRENT_DATE), 0) as requests_today,
+         COALESCE(SUM(u.rejected_count) FILTER (WHERE u.day = CURRENT_DATE), 0) as rejected_today,
+         COALESCE(SUM(u.request_count), 0) as requests_total
+       FROM api_keys k
+       LEFT JOIN api_key_usage u ON u.key_id = k.id
+       WHERE $1 OR k.revoked_at IS NULL
+       GROUP BY k.id
+       ORDER BY k.id ASC`,
+      [includeRevoked]
+    );
+
+    return result.rows.map(row => ({
+      ...row,
+      requests_today: parseInt(row.requests_today),
+      rejected_today: parseInt(row.rejected_today),
+      requests_total: parseInt(row.requests_total)
+    }));
+  }
+
+  // Daily usage of one key, most recent first
+  async getUsage(keyId: number, days: number = 30) {
+    await this.flushUsage();
+
+    const result = await db.query(
+      `SELECT day, request_count, rejected_count
+       FROM api_key_usage
+       WHERE key_id = $1 AND day > CURRENT_DATE - $2::int
+       ORDER BY day DESC`,
+      [keyId, days]
+    );
+
+    return result.rows.map(row => ({
+      day: row.day,
+      request_count: parseInt(row.request_count),
+      rejected_count: parseInt(row.rejected_count)
+    }));
+  }
+
+  // Resolve an active key from its plaintext, or null if it is unknown or revoked
+  async authenticate(plaintext: string): Promise<ApiKey | null> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const hash = hashKey(plaintext);
+    const cached = this.cache.get(hash);
+    if (cached && cached.expiresAt > now) {
+      return cached.key;
+    }
+
+    const result = await db.query(
+      `SELECT id, name, key_prefix, scope, rate_limit_per_minute, burst, created_at, last_used_at, revoked_at
+       FROM api_keys
+       WHERE key_hash = $1 AND revoked_at IS NULL`,
+      [hash]
+    );
+
+    const key: ApiKey | null = result.rows[0] || null;
+    if (key) {
+      this.cache.set(hash, { key, expiresAt: now + KEY_CACHE_TTL_MS });
+    } else {
+      this.cache.delete(hash);
+    }
+    return key;
+  }
+
+  // Drop expired entries, so keys that stopped being used don't stay in memory
+  private sweep(now: number): void {
+    if (now - this.lastSweep < KEY_CACHE_TTL_MS) return;
+    this.lastSweep = now;
+    for (const [hash, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(hash);
+      }
+    }
+  }
+
+  // Count a request against a key; rejected requests are counted separately
+  recordUsage(keyId: number, rejected: boolean = false): void {
+    const usage = this.pendingUsage.get(keyId) || { requests: 0, rejected: 0 };
+    if (rejected) {
+      usage.rejected++;
+    } else {
+      usage.requests++;
+    }
+    this.pendingUsage.set(keyId, usage);
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flushUsage().catch(error => console.error('Failed to flush API key usage:', error));
+    }, USAGE_FLUSH_INTERVAL_MS);
+    this.flushTimer.unref();
+  }
+
+  // Write pending counters to the database
+  async flushUsage(): Promise<void> {
+    if (this.pendingUsage.size === 0) return;
+
+    const batch = Array.from(this.pendingUsage.entries());
+    this.pendingUsage.clear();
+
+    try {
+      await this.writeUsage(batch);
+    } catch (error) {
+      // Put the batch back, on top of what was counted meanwhile, so the next flush retries it
+      for (const [keyId, usage] of batch) {
+        const pending = this.pendingUsage.get(keyId) || { requests: 0, rejected: 0 };
+        pending.requests += usage.requests;
+        pending.rejected += usage.rejected;
+        this.pendingUsage.set(keyId, pending);
+      }
+      this.scheduleFlush();
+      throw error;
+    }
+  }
+
+  private async writeUsage(batch: Array<[number, PendingUsage]>): Promise<void> {
+    await db.transaction(async (client) => {
+      for (const [keyId, usage] of batch) {
+        await client.query(
+          `INSERT INTO api_key_usage (key_id, day, request_count, rejected_count)
+           VALUES ($1, CURRENT_DATE, $2, $3)
+           ON CONFLICT (key_id, day) DO UPDATE SET
+             request_count = api_key_usage.request_count + EXCLUDED.request_count,
+             rejected_count = api_key_usage.rejected_count + EXCLUDED.rejected_count`,
+          [keyId, usage.requests, usage.rejected]
+        );
+        if (usage.requests > 0) {
+          await client.query('UPDATE api_keys SET last_used_at = NOW() WHERE id = $1', [keyId]);
+        }
+      }
+    });
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
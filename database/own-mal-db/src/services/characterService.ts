@@ -0,0 +1,159 @@
+import { db } from '../database/connection';
+import { AnimeCharacterFilters, AnimeCharacterList, JikanCharacterEntry, PersonDetails } from '../types/anime';
+
+export class CharacterService {
+
+  // Replace the cast of an anime with the one reported by Jikan
+  async replaceAnimeCharacters(animeId: number, entries: JikanCharacterEntry[]): Promise<{ characters: number; voiceActors: number }> {
+    return db.transaction(async (client) => {
+      await client.query('DELETE FROM character_voice_actors WHERE anime_id = $1', [animeId]);
+      await client.query('DELETE FROM anime_characters WHERE anime_id = $1', [animeId]);
+
+      let characters = 0;
+      let voiceActors = 0;
+
+      for (const entry of entries || []) {
+        const character = entry.character;
+        await client.query(
+          `INSERT INTO characters (mal_id, name, url, image_url, favorites)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (mal_id) DO UPDATE SET
+             name = EXCLUDED.name,
+             url = EXCLUDED.url,
+             image_url = EXCLUDED.image_url,
+             favorites = EXCLUDED.favorites`,
+          [character.mal_id, character.name, character.url, character.images?.jpg?.image_url || null, entry.favorites || 0]
+        );
+        await client.query(
+          `INSERT INTO anime_characters (anime_id, character_id, role)
+           VALUES ($1, $2, $3)
+           ON CONFLICT DO NOTHING`,
+          [animeId, character.mal_id, entry.role]
+        );
+        characters++;
+
+        for (const voiceActor of entry.voice_actors || []) {
+          const person = voiceActor.person;
+          await client.query(
+            `INSERT INTO people (mal_id, name, url, image_url)
+             VALUES ($1, $2, $3, $4)
+             ON CONFLICT (mal_id) DO UPDATE SET
+               name = EXCLUDED.name,
+               url = EXCLUDED.url,
+               image_url = EXCLUDED.image_url`,
+            [person.mal_id, person.name, person.url, person.images?.jpg?.image_url || null]
+          );
+          await client.query(
+            `INSERT INTO character_voice_actors (anime_id, character_id, person_id, language)
+             VALUES ($1, $2, $3, $4)
+             ON CONFLICT DO NOTHING`,
+            [animeId, character.mal_id, person.mal_id, voiceActor.language]
+          );
+          voiceActors++;
+        }
+      }
+
+      return { characters, voiceActors };
+    });
+  }
+
+  // Get the cast of an anime, main characters first
+  async getAnimeCharacters(animeId: number, filters: AnimeCharacterFilters = {}): Promise<AnimeCharacterList | null> {
+    const animeResult = await db.query('SELECT mal_id, title FROM anime WHERE mal_id = $1', [animeId]);
+    if (animeResult.rows.length === 0) {
+      return null;
+    }
+
+    const conditions = ['ac.anime_id = $1'];
+    const params: any[] = [animeId];
+
+    if (filters.role) {
+      params.push(filters.role);
+      conditions.push(`ac.role = $${params.length}`);
+    }
+
+    // Language only narrows the voice actor list; characters without a match are kept
+    let languageCondition = '';
+    if (filters.language) {
+      params.push(filters.language);
+      languageCondition = `AND LOWER(cva.language) = LOWER($${params.length})`;
+    }
+
+    const query = `
+      SELECT
+        c.mal_id,
+        c.name,
+        c.url,
+        c.image_url,
+        ac.role,
+        c.favorites,
+        COALESCE(
+          json_agg(
+            json_build_object(
+              'mal_id', p.mal_id,
+              'name', p.name,
+              'image_url', p.image_url,
+              'language', cva.language
+            ) ORDER BY cva.language, p.name
+          ) FILTER (WHERE p.mal_id IS NOT NULL),
+          '[]'
+        ) AS voice_actors
+      FROM anime_characters ac
+      JOIN characters c ON c.mal_id = ac.character_id
+      LEFT JOIN character_voice_actors cva
+        ON cva.anime_id = ac.anime_id AND cva.character_id = ac.character_id ${languageCondition}
+      LEFT JOIN people p ON p.mal_id = cva.person_id
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY c.mal_id, c.name, c.url, c.image_url, ac.role, c.favorites
+      ORDER BY CASE WHEN ac.role = 'Main' THEN 0 ELSE 1 END, c.favorites DESC NULLS LAST, c.name
+    `;
+
+    const result = await db.query(query, params);
+
+    return {
+      anime_id: animeId,
+      title: animeResult.rows[0].title,
+      total_characters: result.rows.length,
+      characters: result.rows
+    };
+  }
+
+  // Get a person with every role they voiced, best scored anime first
+  async getPersonById(personId: number): Promise<PersonDetails | null> {
+    const personResult = await db.query(
+      'SELECT mal_id, name, url, image_url FROM people WHERE mal_id = $1',
+      [personId]
+    );
+
+    if (personResult.rows.length === 0) {
+      return null;
+    }
+
+    const rolesQuery = `
+      SELECT
+        a.mal_id AS anime_id,
+        a.title AS anime_title,
+        a.year AS anime_year,
+        a.score AS anime_score,
+        c.mal_id AS character_id,
+        c.name AS character_name,
+        ac.role,
+        cva.language
+      FROM character_voice_actors cva
+      JOIN anime a ON a.mal_id = cva.anime_id
+      JOIN characters c ON c.mal_id = cva.character_id
+      JOIN anime_characters ac ON ac.anime_id = cva.anime_id AND ac.character_id = cva.character_id
+      WHERE cva.person_id = $1
+      ORDER BY a.score DESC NULLS LAST, a.members DESC NULLS LAST, c.name
+    `;
+    const rolesResult = await db.query(rolesQuery, [personId]);
+
+    return {
+      ...personResult.rows[0],
+      total_roles: rolesResult.rows.length,
+      voice_roles: rolesResult.rows
+    };
+  }
+}
+
+export const characterService = new CharacterService();
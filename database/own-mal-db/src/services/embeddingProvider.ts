@@ -0,0 +1,227 @@
+// Text embedding providers for semantic search. A provider turns texts into fixed-length vectors;
+// vectors are stored per provider name, so switching providers never compares vectors of different models.
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+  // Learn from the corpus, for providers that build their model from our own synopses
+  fit?(documents: string[]): Promise<void>;
+  // Serialized model, stored in embedding_models so the API can embed queries with it
+  saveModel?(): Buffer;
+  loadModel?(model: Buffer): void;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Default provider: TF-IDF over the synopses reduced to a dense space with latent semantic analysis.
+// Runs offline with no model download; words that appear in similar synopses end up close together,
+// so "grief" can match a synopsis about "loss" and "mourning".
+const DEFAULT_LSA_DIMENSIONS = 128;
+const MAX_VOCABULARY = 10000;
+const MIN_DOCUMENT_FREQUENCY = 3;
+const MAX_DOCUMENT_SHARE = 0.5; // Terms in more than half of the synopses say nothing about any of them
+const POWER_ITERATIONS = 6;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'again', 'against', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because',
+  'been', 'before', 'being', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'down',
+  'during', 'each', 'even', 'few', 'for', 'from', 'further', 'had', 'has', 'have', 'having', 'he', 'her', 'here',
+  'hers', 'herself', 'him', 'himself', 'his', 'how', 'however', 'if', 'in', 'into', 'is', 'it', 'its', 'itself',
+  'just', 'may', 'me', 'more', 'most', 'much', 'must', 'my', 'myself', 'no', 'nor', 'not', 'now', 'of', 'off', 'on',
+  'once', 'one', 'only', 'or', 'other', 'our', 'ours', 'out', 'over', 'own', 'same', 'she', 'should', 'so', 'some',
+  'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there', 'these', 'they', 'this',
+  'those', 'through', 'to', 'too', 'under', 'until', 'up', 'upon', 'very', 'was', 'we', 'were', 'what', 'when',
+  'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'within', 'would', 'you', 'your', 'yours',
+  // Synopsis boilerplate
+  'anime', 'series', 'episode', 'episodes', 'season', 'written', 'source', 'mal', 'rewrite', 'story'
+]);
+
+// Lowercased words with common English suffixes stripped, so "friends" and "friend" share a term
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[a-z]+/g) || [];
+  const tokens: string[] = [];
+  for (const word of words) {
+    if (word.length < 3 || STOPWORDS.has(word)) continue;
+    tokens.push(stem(word));
+  }
+  return tokens;
+}
+
+function stem(word: string): string {
+  for (const suffix of ['ingly', 'edly', 'ing', 'ies', 'ied', 'ed', 'es', 'ly', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 4) {
+      const base = word.slice(0, -suffix.length);
+      return suffix === 'ies' || suffix === 'ied' ? base + 'y' : base;
+    }
+  }
+  return word;
+}
+
+function normalize(vector: Float64Array | number[]): number[] {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  return Array.from(vector, value => (norm > 0 ? value / norm : 0));
+}
+
+// Orthonormalize the columns of a terms x dimensions matrix in place (modified Gram-Schmidt)
+function orthonormalizeColumns(matrix: Float64Array, rows: number, columns: number): void {
+  for (let column = 0; column < columns; column++) {
+    for (let previous = 0; previous < column; previous++) {
+      let dot = 0;
+      for (let row = 0; row < rows; row++) dot += matrix[row * columns + column] * matrix[row * columns + previous];
+      for (let row = 0; row < rows; row++) matrix[row * columns + column] -= dot * matrix[row * columns + previous];
+    }
+    let norm = 0;
+    for (let row = 0; row < rows; row++) norm += matrix[row * columns + column] ** 2;
+    norm = Math.sqrt(norm) || 1;
+    for (let row = 0; row < rows; row++) matrix[row * columns + column] /= norm;
+  }
+}
+
+// Deterministic pseudo-random numbers, so rebuilding from the same synopses gives the same model
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+}
+
+type SparseVector = Array<[number, number]>; // [term index, weight]
+
+export class LsaEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'lsa';
+  private vocabulary = new Map<string, number>();
+  private idf: Float64Array = new Float64Array(0);
+  private projection: Float64Array = new Float64Array(0); // terms x dimensions, orthonormal columns
+
+  constructor(private dims: number = DEFAULT_LSA_DIMENSIONS) {}
+
+  get dimensions(): number {
+    return this.dims;
+  }
+
+  async fit(documents: string[]): Promise<void> {
+    const tokenized = documents.map(tokenize);
+
+    // Vocabulary: terms in enough synopses to be learnable, but not in most of them
+    const documentFrequency = new Map<string, number>();
+    for (const tokens of tokenized) {
+      for (const term of new Set(tokens)) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+    }
+    const maxFrequency = Math.max(MIN_DOCUMENT_FREQUENCY, documents.length * MAX_DOCUMENT_SHARE);
+    const terms = [...documentFrequency.entries()]
+      .filter(([, frequency]) => frequency >= MIN_DOCUMENT_FREQUENCY && frequency <= maxFrequency)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_VOCABULARY);
+
+    this.vocabulary = new Map(terms.map(([term], index) => [term, index]));
+    this.idf = Float64Array.from(terms, ([, frequency]) => Math.log((1 + documents.length) / (1 + frequency)) + 1);
+    // Fewer dimensions than terms or documents would leave some of them empty
+    this.dims = Math.max(1, Math.min(this.dims, terms.length, documents.length));
+
+    const matrix = tokenized.map(tokens => this.tfidf(tokens)).filter(vector => vector.length > 0);
+    this.projection = this.topSingularVectors(matrix, this.vocabulary.size, this.dims);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (this.vocabulary.size === 0) {
+      throw new Error('LSA model is not fitted; run npm run embeddings:build');
+    }
+
+    return texts.map(text => {
+      const vector = new Float64Array(this.dims);
+      for (const [term, weight] of this.tfidf(tokenize(text))) {
+        const offset = term * this.dims;
+        for (let dimension = 0; dimension < this.dims; dimension++) {
+          vector[dimension] += weight * this.projection[offset + dimension];
+        }
+      }
+      return normalize(vector);
+    });
+  }
+
+  // Layout: 4-byte header length, JSON header (dimensions and terms), then idf and projection as float32
+  saveModel(): Buffer {
+    const header = Buffer.from(JSON.stringify({ dimensions: this.dims, terms: [...this.vocabulary.keys()] }));
+    const weights = Float32Array.from([...this.idf, ...this.projection]);
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(header.length);
+    return Buffer.concat([length, header, Buffer.from(weights.buffer)]);
+  }
+
+  loadModel(model: Buffer): void {
+    const headerLength = model.readUInt32LE(0);
+    const header = JSON.parse(model.subarray(4, 4 + headerLength).toString()) as { dimensions: number; terms: string[] };
+    // Copy out of the buffer, which may not be 4-byte aligned
+    const weightBytes = model.subarray(4 + headerLength);
+    const weights = new Float32Array(weightBytes.buffer.slice(weightBytes.byteOffset, weightBytes.byteOffset + weightBytes.byteLength));
+
+    this.dims = header.dimensions;
+    this.vocabulary = new Map(header.terms.map((term, index) => [term, index]));
+    this.idf = Float64Array.from(weights.subarray(0, header.terms.length));
+    this.projection = Float64Array.from(weights.subarray(header.terms.length));
+  }
+
+  // Sublinear term frequency times idf, L2-normalized, known terms only
+  private tfidf(tokens: string[]): SparseVector {
+    const counts = new Map<number, number>();
+    for (const token of tokens) {
+      const term = this.vocabulary.get(token);
+      if (term !== undefined) counts.set(term, (counts.get(term) || 0) + 1);
+    }
+
+    const vector: SparseVector = [...counts.entries()].map(([term, count]) => [term, (1 + Math.log(count)) * this.idf[term]]);
+    const norm = Math.sqrt(vector.reduce((total, [, weight]) => total + weight * weight, 0));
+    return vector.map(([term, weight]) => [term, weight / norm]);
+  }
+
+  // Basis of the top right singular vectors of the document-term matrix, by subspace iteration on XᵀX
+  private topSingularVectors(matrix: SparseVector[], terms: number, dimensions: number): Float64Array {
+    const random = seededRandom(42);
+    let basis = Float64Array.from({ length: terms * dimensions }, () => random());
+    orthonormalizeColumns(basis, terms, dimensions);
+
+    for (let iteration = 0; iteration < POWER_ITERATIONS; iteration++) {
+      const next = new Float64Array(terms * dimensions);
+      const projected = new Float64Array(dimensions);
+
+      for (const document of matrix) {
+        // projected = document · basis, then next += documentᵀ · projected
+        projected.fill(0);
+        for (const [term, weight] of document) {
+          const offset = term * dimensions;
+          for (let dimension = 0; dimension < dimensions; dimension++) projected[dimension] += weight * basis[offset + dimension];
+        }
+        for (const [term, weight] of document) {
+          const offset = term * dimensions;
+          for (let dimension = 0; dimension < dimensions; dimension++) next[offset + dimension] += weight * projected[dimension];
+        }
+      }
+
+      orthonormalizeColumns(next, terms, dimensions);
+      basis = next;
+    }
+
+    return basis;
+  }
+}
+
+// Providers by name; EMBEDDING_PROVIDER picks one. Register others (e.g. a hosted model) before first use.
+const providerFactories = new Map<string, () => EmbeddingProvider>([
+  ['lsa', () => new LsaEmbeddingProvider(parseInt(process.env.EMBEDDING_DIMENSIONS || String(DEFAULT_LSA_DIMENSIONS)))]
+]);
+
+export function registerEmbeddingProvider(name: string, factory: () => EmbeddingProvider): void {
+  providerFactories.set(name, factory);
+}
+
+export function createEmbeddingProvider(name: string = process.env.EMBEDDING_PROVIDER || 'lsa'): EmbeddingProvider {
+  const factory = providerFactories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown embedding provider: ${name}. Known providers: ${[...providerFactories.keys()].join(', ')}`);
+  }
+  return factory();
+}
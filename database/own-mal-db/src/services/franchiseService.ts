@@ -0,0 +1,279 @@
+import { db } from '../database/connection';
+import { AnimeRelation, AnimeWithRelations, FranchiseEntry, FranchiseMember, FranchiseWatchOrder, JikanRelationGroup } from '../types/anime';
+
+// Relations where the related entry is watched after the source anime
+const WATCH_AFTER_RELATIONS = ['Sequel', 'Side Story', 'Summary', 'Spin-Off'];
+
+// Relations where the related entry is watched before the source anime
+const WATCH_BEFORE_RELATIONS = ['Prequel', 'Parent Story', 'Full Story'];
+
+// Relations that keep entries in the same franchise (adaptations/characters/other are excluded)
+const FRANCHISE_RELATIONS = [
+  ...WATCH_AFTER_RELATIONS,
+  ...WATCH_BEFORE_RELATIONS,
+  'Alternative Version',
+  'Alternative Setting'
+];
+
+// Safety cap for very large franchises (e.g. Gundam)
+const MAX_FRANCHISE_SIZE = 200;
+
+// Reduce a title to its franchise stem: "Attack on Titan Season 3 Part 2" -> "attack on titan"
+function titleStem(title: string): string {
+  return title
+    .toLowerCase()
+    .split(/[:(\[]/)[0]
+    .replace(/\b(season|part|cour)\s*\d+\b/g, '')
+    .replace(/\b\d+(st|nd|rd|th)\s+season\b/g, '')
+    .replace(/\b(the movie|movie|ova|specials?|final season|2nd|3rd)\b/g, '')
+    .replace(/(\s+([ivx]+|\d+))+\s*$/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+interface FranchiseNode {
+  mal_id: number;
+  title: string | null;
+  type: string | null;
+  year: number | null;
+  episodes: number | null;
+  score: number | null;
+  aired_from: Date | null;
+  in_database: boolean;
+}
+
+// Earliest aired first, unknown dates last, MAL ID as final tie-breaker
+function compareByAirDate(a: FranchiseNode, b: FranchiseNode): number {
+  const aTime = a.aired_from ? new Date(a.aired_from).getTime() : (a.year ? Date.UTC(a.year, 0, 1) : Infinity);
+  const bTime = b.aired_from ? new Date(b.aired_from).getTime() : (b.year ? Date.UTC(b.year, 0, 1) : Infinity);
+  if (aTime !== bTime) {
+    return aTime < bTime ? -1 : 1;
+  }
+  return a.mal_id - b.mal_id;
+}
+
+// Kahn's algorithm with air date as tie-breaker. MAL relation data is not always
+// consistent, so cycles are broken by taking the earliest remaining entry.
+function topologicalWatchOrder(
+  nodes: FranchiseNode[],
+  edges: Array<{ from: number; to: number }>
+): { order: FranchiseNode[]; hasCycles: boolean } {
+  const inDegree = new Map<number, number>(nodes.map(node => [node.mal_id, 0]));
+  const outgoing = new Map<number, number[]>(nodes.map(node => [node.mal_id, []]));
+
+  for (const { from, to } of edges) {
+    outgoing.get(from)!.push(to);
+    inDegree.set(to, inDegree.get(to)! + 1);
+  }
+
+  const remaining = [...nodes].sort(compareByAirDate);
+  const order: FranchiseNode[] = [];
+  let hasCycles = false;
+
+  while (remaining.length > 0) {
+    let index = remaining.findIndex(node => inDegree.get(node.mal_id) === 0);
+    if (index === -1) {
+      hasCycles = true;
+      index = 0;
+    }
+
+    const [next] = remaining.splice(index, 1);
+    order.push(next);
+
+    for (const to of outgoing.get(next.mal_id)!) {
+      inDegree.set(to, inDegree.get(to)! - 1);
+    }
+  }
+
+  return { order, hasCycles };
+}
+
+export class FranchiseService {
+
+  // Group anime by franchise, keeping input order. The first (best-ranked) entry of each
+  // group is the representative; the others are attached as a compact franchise array.
+  // Anime without stored relations fall back to matching on title stem.
+  async collapseFranchises(items: AnimeWithRelations[]): Promise<AnimeWithRelations[]> {
+    if (items.length === 0) {
+      return [];
+    }
+
+    const rootsQuery = `
+      WITH RECURSIVE walk(seed, mal_id) AS (
+        SELECT id, id FROM unnest($1::integer[]) AS id
+        UNION
+        SELECT w.seed, CASE WHEN r.anime_id = w.mal_id THEN r.related_id ELSE r.anime_id END
+        FROM anime_relations r
+        JOIN walk w ON r.anime_id = w.mal_id OR r.related_id = w.mal_id
+        WHERE r.related_type = 'anime' AND r.relation = ANY($2)
+      )
+      SELECT seed, MIN(mal_id) AS root, COUNT(*) AS size
+      FROM walk
+      GROUP BY seed
+    `;
+    const rootsResult = await db.query(rootsQuery, [items.map(item => item.mal_id), FRANCHISE_RELATIONS]);
+    const roots = new Map<number, { root: number; size: number }>(
+      rootsResult.rows.map(row => [row.seed, { root: row.root, size: parseInt(row.size) }])
+    );
+
+    // Assign each item a franchise key: relation graph root, else title stem
+    const groups = new Map<string, AnimeWithRelations[]>();
+    for (const item of items) {
+      const graph = roots.get(item.mal_id);
+      const stem = titleStem(item.title || '');
+      const key = graph && graph.size > 1
+        ? `relation:${graph.root}`
+        : stem ? `title:${stem}` : `anime:${item.mal_id}`;
+
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(item);
+    }
+
+    return [...groups.values()].map(([representative, ...others]) => ({
+      ...representative,
+      franchise: others.map((member): FranchiseMember => ({
+        mal_id: member.mal_id,
+        title: member.title,
+        type: member.type || null,
+        year: member.year || null,
+        score: member.score || null
+      }))
+    }));
+  }
+
+  // Replace all stored relations for an anime with the ones reported by Jikan
+  async replaceAnimeRelations(animeId: number, relations: JikanRelationGroup[]): Promise<number> {
+    return db.transaction(async (client) => {
+      await client.query('DELETE FROM anime_relations WHERE anime_id = $1', [animeId]);
+
+      let linksCreated = 0;
+      for (const group of relations || []) {
+        for (const entry of group.entry || []) {
+          await client.query(
+            `INSERT INTO anime_relations (anime_id, related_id, related_type, relation, related_name, related_url)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             ON CONFLICT DO NOTHING`,
+            [animeId, entry.mal_id, entry.type, group.relation, entry.name, entry.url]
+          );
+          linksCreated++;
+        }
+      }
+
+      return linksCreated;
+    });
+  }
+
+  // Get direct relations of an anime
+  async getAnimeRelations(malId: number): Promise<AnimeRelation[]> {
+    const query = `
+      SELECT
+        r.relation,
+        r.related_id,
+        r.related_type,
+        r.related_name AS name,
+        r.related_url AS url,
+        (a.mal_id IS NOT NULL) AS in_database
+      FROM anime_relations r
+      LEFT JOIN anime a ON r.related_type = 'anime' AND a.mal_id = r.related_id
+      WHERE r.anime_id = $1
+      ORDER BY r.relation, r.related_type, r.related_id
+    `;
+    const result = await db.query(query, [malId]);
+    return result.rows;
+  }
+
+  // Get the whole franchise of an anime in watch order
+  async getFranchiseWatchOrder(malId: number): Promise<FranchiseWatchOrder | null> {
+    const exists = await db.query('SELECT 1 FROM anime WHERE mal_id = $1', [malId]);
+    if (exists.rows.length === 0) {
+      return null;
+    }
+
+    // Walk franchise relations in both directions (edges are stored one-sided for uncrawled entries)
+    const membersQuery = `
+      WITH RECURSIVE franchise(mal_id) AS (
+        SELECT $1::integer
+        UNION
+        SELECT CASE WHEN r.anime_id = f.mal_id THEN r.related_id ELSE r.anime_id END
+        FROM anime_relations r
+        JOIN franchise f ON r.anime_id = f.mal_id OR r.related_id = f.mal_id
+        WHERE r.related_type = 'anime' AND r.relation = ANY($2)
+      )
+      SELECT mal_id FROM franchise LIMIT $3
+    `;
+    const membersResult = await db.query(membersQuery, [malId, FRANCHISE_RELATIONS, MAX_FRANCHISE_SIZE]);
+    const memberIds: number[] = membersResult.rows.map(row => row.mal_id);
+
+    const nodesQuery = `
+      SELECT
+        m.id AS mal_id,
+        COALESCE(a.title, rn.related_name) AS title,
+        a.type,
+        a.year,
+        a.episodes,
+        a.score,
+        a.aired_from,
+        (a.mal_id IS NOT NULL) AS in_database
+      FROM unnest($1::integer[]) AS m(id)
+      LEFT JOIN anime a ON a.mal_id = m.id
+      LEFT JOIN LATERAL (
+        SELECT related_name
+        FROM anime_relations
+        WHERE related_type = 'anime' AND related_id = m.id
+        LIMIT 1
+      ) rn ON TRUE
+    `;
+    const nodesResult = await db.query(nodesQuery, [memberIds]);
+
+    const edgesQuery = `
+      SELECT anime_id, related_id, relation
+      FROM anime_relations
+      WHERE related_type = 'anime'
+        AND anime_id = ANY($1)
+        AND related_id = ANY($1)
+        AND relation = ANY($2)
+    `;
+    const edgesResult = await db.query(edgesQuery, [
+      memberIds,
+      [...WATCH_AFTER_RELATIONS, ...WATCH_BEFORE_RELATIONS]
+    ]);
+
+    // Normalize every edge to "from is watched before to", dropping duplicates
+    const seen = new Set<string>();
+    const edges: Array<{ from: number; to: number }> = [];
+    for (const row of edgesResult.rows) {
+      const edge = WATCH_AFTER_RELATIONS.includes(row.relation)
+        ? { from: row.anime_id, to: row.related_id }
+        : { from: row.related_id, to: row.anime_id };
+      const key = `${edge.from}-${edge.to}`;
+      if (edge.from !== edge.to && !seen.has(key)) {
+        seen.add(key);
+        edges.push(edge);
+      }
+    }
+
+    const { order, hasCycles } = topologicalWatchOrder(nodesResult.rows, edges);
+
+    const watchOrder: FranchiseEntry[] = order.map((node, index) => ({
+      position: index + 1,
+      mal_id: node.mal_id,
+      title: node.title,
+      type: node.type,
+      year: node.year,
+      episodes: node.episodes,
+      score: node.score,
+      in_database: node.in_database
+    }));
+
+    return {
+      anime_id: malId,
+      franchise_size: watchOrder.length,
+      has_cycles: hasCycles,
+      watch_order: watchOrder
+    };
+  }
+}
+
+export const franchiseService = new FranchiseService();
@@ -0,0 +1,63 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { animeService } from './animeService';
+import { queryParser } from './queryParser';
+import { Genre } from '../types/anime';
+
+const GENRES: Genre[] = [
+  { id: 1, name: 'Action' },
+  { id: 4, name: 'Comedy' },
+  { id: 14, name: 'Horror' },
+  { id: 18, name: 'Mecha' },
+  { id: 22, name: 'Romance' },
+  { id: 36, name: 'Slice of Life' }
+];
+
+describe('queryParser.parse', () => {
+  before(() => {
+    // Genres and titles come from the database; no title resolves here
+    mock.method(animeService, 'getAllGenres', async () => GENRES);
+    mock.method(animeService, 'resolveTitles', async (titles: string[]) =>
+      titles.map(input => ({ input, mal_id: null, matched_title: null }))
+    );
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  const cases: Array<{ input: string; params: Record<string, unknown>; unmatched?: string[] }> = [
+    {
+      input: 'dark 90s mecha movies under 2 hours',
+      params: { decade: '1990s', genres: '18', type: 'Movie', max_duration: 120 },
+      unmatched: ['dark']
+    },
+    // A consumed year range is not read again as a single year
+    { input: 'action from 2010 to 2015', params: { min_year: 2010, max_year: 2015, genres: '1' } },
+    // "not popular" is consumed whole, so "popular" does not sort by popularity
+    { input: 'not popular comedy', params: { exclude_very_popular: true, genres: '4' } },
+    // The longest genre name wins over its parts
+    { input: 'slice of life shows', params: { genres: '36', type: 'TV' } },
+    { input: 'under 13 episodes', params: { max_episodes: 12 } },
+    { input: 'at most 13 episodes', params: { max_episodes: 13 } },
+    { input: 'romance without horror', params: { genres: '22', exclude_genres: '14' } },
+    { input: 'action but no romance', params: { genres: '1', exclude_genres: '22' } },
+    // Negation applies to synonyms too
+    { input: 'no scary stuff', params: { exclude_genres: '14' } },
+    { input: 'funny robots', params: { genres: '18,4' } }
+  ];
+
+  for (const { input, params, unmatched = [] } of cases) {
+    it(`parses "${input}"`, async () => {
+      const parsed = await queryParser.parse(input);
+      assert.deepEqual(parsed.params, params);
+      assert.deepEqual(parsed.unmatched_tokens, unmatched);
+    });
+  }
+
+  it('reads a bare runtime budget as the whole watch', async () => {
+    const parsed = await queryParser.parse('something to finish this weekend');
+    assert.deepEqual(parsed.duration, { min_minutes: undefined, max_minutes: 600, scope: 'total' });
+    assert.equal(parsed.params.max_total_runtime, 600);
+  });
+});
@@ -0,0 +1,377 @@
+import { animeService } from './animeService';
+import { Genre, ParsedQueryMatch, ParsedSearchQuery, SearchParams, SentimentPattern } from '../types/anime';
+
+// Turns a natural-language request ("dark 90s mecha movies under 2 hours with good reviews")
+// into structured search parameters. Rules consume the phrases they understand; whatever is
+// left (minus filler words) is reported back as unmatched so callers can judge the result.
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12
+};
+const NUMBER = '(\\d+(?:\\.\\d+)?|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)';
+const YEAR = '((?:19|20)\\d{2})';
+
+const AT_MOST = '(?:under|less than|fewer than|shorter than|below|at most|max(?:imum)?|up to|no more than|within|in)';
+const AT_LEAST = '(?:over|more than|longer than|above|at least|min(?:imum)?)';
+const NEGATION = '(\\b(?:no|not|without|except|excluding|minus)\\s+)?';
+
+const RECEPTION_PHRASES: Array<[RegExp, SentimentPattern]> = [
+  [/\b(?:universally loved|beloved|everyone loves)\b/g, 'universally_loved'],
+  [/\b(?:underrated|hidden gems?|slept on)\b/g, 'underrated'],
+  [/\boverrated\b/g, 'overrated'],
+  [/\b(?:polari[sz]ing|divisive|controversial)\b/g, 'highly_polarizing'],
+  [/\bmixed (?:reviews|reception)\b/g, 'mixed_reception'],
+  [/\b(?:bad|negative|poor|terrible) (?:reviews|reception)\b/g, 'mostly_negative'],
+  [/\b(?:(?:good|great|positive|glowing|strong) (?:reviews|reception)|well[ -](?:reviewed|received))\b/g, 'mostly_positive']
+];
+
+// Time budgets for a whole watch, in minutes
+const WATCH_BUDGETS: Array<[RegExp, number]> = [
+  [/\b(?:over|in|during|on)?\s*(?:a|one|this|the|next)\s+weekend\b/g, 600],
+  [/\b(?:in\s+)?(?:one|a single)\s+(?:sitting|evening|night)\b|\btonight\b/g, 180],
+  [/\b(?:in\s+)?(?:one|a)\s+day\b/g, 480]
+];
+
+// Everyday words for genres and themes; the first name that exists in the genres table wins
+const GENRE_SYNONYMS: Array<[RegExp, string[]]> = [
+  [/\b(?:giant robots?|robots?|gundam)\b/g, ['Mecha']],
+  [/\b(?:scary|creepy|spooky)\b/g, ['Horror']],
+  [/\b(?:funny|hilarious|comedic|humou?r)\b/g, ['Comedy']],
+  [/\b(?:romantic|love stor(?:y|ies))\b/g, ['Romance']],
+  [/\b(?:magic(?:al)?|wizards?|witch(?:es)?)\b/g, ['Fantasy']],
+  [/\b(?:sci ?fi|scifi|science fiction)\b/g, ['Sci-Fi']],
+  [/\b(?:sporty|baseball|basketball|soccer|football|volleyball|tennis)\b/g, ['Sports']],
+  [/\b(?:thrillers?|suspenseful)\b/g, ['Suspense', 'Thriller']],
+  [/\b(?:mind games?|mind bending)\b/g, ['Psychological']],
+  [/\b(?:war|soldiers?)\b/g, ['Military']],
+  [/\bhigh school\b/g, ['School']],
+  [/\b(?:detectives?|whodunn?its?)\b/g, ['Detective', 'Mystery']],
+  [/\b(?:vampires?)\b/g, ['Vampire']],
+  [/\b(?:cute girls doing cute things|cgdct)\b/g, ['CGDCT']],
+  [/\b(?:another world|transported to another world)\b/g, ['Isekai']]
+];
+
+const TYPE_WORDS: Array<[RegExp, NonNullable<SearchParams['type']>]> = [
+  [/\bmusic videos?\b/g, 'Music'],
+  [/\b(?:movies?|films?)\b/g, 'Movie'],
+  [/\bovas?\b/g, 'OVA'],
+  [/\bonas?\b/g, 'ONA'],
+  [/\bspecials?\b/g, 'Special'],
+  [/\b(?:tv series|tv shows?|tv|series|shows?)\b/g, 'TV']
+];
+
+const AIRING_WORDS: Array<[RegExp, NonNullable<SearchParams['airing_status']>]> = [
+  [/\b(?:currently airing|airing now|still airing|ongoing|airing)\b/g, 'airing'],
+  [/\b(?:not yet aired|upcoming|unreleased|announced)\b/g, 'upcoming'],
+  [/\b(?:finished airing|finished|completed|ended)\b/g, 'finished']
+];
+
+// Filler words that carry no search meaning and don't count against confidence
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'with', 'without', 'of', 'in', 'on', 'for', 'to', 'from', 'by', 'about',
+  'i', 'me', 'my', 'we', 'us', 'you', 'want', 'wanna', 'need', 'looking', 'look', 'find', 'show', 'give',
+  'recommend', 'recommendations', 'suggest', 'some', 'any', 'something', 'anything', 'stuff', 'that', 'which',
+  'is', 'are', 'be', 'has', 'have', 'had', 'can', 'could', 'would', 'should', 'please', 'like', 'similar',
+  'anime', 'animes', 'watch', 'titles', 'title', 'ones', 'one', 'kind', 'type', 'sort', 'really', 'very',
+  'pretty', 'quite', 'more', 'most', 'less', 'least', 'long', 'but', 'not', 'too', 'so', 'also', 'maybe', 'just', 'set',
+  'finish', 'binge', 'time'
+]);
+
+function toNumber(raw: string): number {
+  return NUMBER_WORDS[raw] ?? parseFloat(raw);
+}
+
+function toMinutes(amount: string, unit: string): number {
+  const value = toNumber(amount);
+  return Math.round(unit.startsWith('h') ? value * 60 : value);
+}
+
+// "90s" → "1990s", "2010s" → "2010s"
+function decadeOf(raw: string): string {
+  const digits = raw.replace(/\D/g, '');
+  if (digits.length === 4) return `${digits}s`;
+  const tens = parseInt(digits);
+  return `${tens >= 30 ? 19 : 20}${digits.padStart(2, '0')}s`;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function words(text: string): string[] {
+  return text.split(/\s+/).filter(word => word.length > 0);
+}
+
+// Working state of one parse: the text still to be understood plus everything recognized so far
+class ParseState {
+  text: string;
+  params: Partial<SearchParams> = {};
+  genreIds: number[] = [];
+  excludedGenreIds: number[] = [];
+  duration: { min_minutes?: number; max_minutes?: number; perEpisode: boolean } | null = null;
+  receptionPattern?: SentimentPattern;
+  similarTo?: { mal_id: number; title: string };
+  matched: ParsedQueryMatch[] = [];
+
+  constructor(input: string) {
+    this.text = ` ${input.toLowerCase().replace(/[^\p{L}\p{N}+.'\s-]/gu, ' ').replace(/'(?=\d0s\b)/g, '')} `;
+  }
+
+  // Run a rule over the remaining text; matches the handler accepts are blanked out so later rules can't reuse them
+  consume(pattern: RegExp, handler: (match: RegExpMatchArray) => { field: string; value: any } | null): void {
+    this.text = this.text.replace(pattern, (...args) => {
+      const match = args.slice(0, -2) as unknown as RegExpMatchArray;
+      const result = handler(match);
+      if (!result) return match[0];
+      this.matched.push({ text: match[0].trim(), field: result.field, value: result.value });
+      return ' '.repeat(match[0].length);
+    });
+  }
+
+  set<K extends keyof SearchParams>(field: K, value: SearchParams[K]): { field: string; value: any } | null {
+    if (this.params[field] !== undefined) return null;
+    this.params[field] = value;
+    return { field, value };
+  }
+}
+
+export class QueryParser {
+
+  async parse(input: string): Promise<ParsedSearchQuery> {
+    const state = new ParseState(input);
+
+    await this.parseSimilarTo(state);
+    this.parseReception(state);
+    this.parseDuration(state);
+    this.parseEpisodes(state);
+    this.parseScore(state);
+    this.parseTime(state);
+    this.parseType(state);
+    this.parseAiring(state);
+    this.parseQualityAndPopularity(state);
+    this.parseGenres(state, await animeService.getAllGenres());
+
+    // Leftover words may still be a title ("naruto movies"); otherwise they were not understood
+    let leftover = words(state.text).filter(word => !STOPWORDS.has(word) && !/^[+.'-]+$/.test(word));
+    if (leftover.length > 0) {
+      const [resolved] = await animeService.resolveTitles([leftover.join(' ')]);
+      if (resolved.mal_id !== null) {
+        state.params.query = leftover.join(' ');
+        state.matched.push({ text: leftover.join(' '), field: 'query', value: resolved.matched_title });
+        leftover = [];
+      }
+    }
+
+    if (state.genreIds.length > 0) {
+      state.params.genres = state.genreIds.join(',');
+    }
+    if (state.excludedGenreIds.length > 0) {
+      state.params.exclude_genres = state.excludedGenreIds.join(',');
+    }
+
+    const duration = state.duration
+      ? {
+          min_minutes: state.duration.min_minutes,
+          max_minutes: state.duration.max_minutes,
+          // A movie's runtime is its single episode; otherwise a bare "under 10 hours" is the whole watch
+          scope: (state.duration.perEpisode || state.params.type === 'Movie' ? 'episode' : 'total') as 'episode' | 'total'
+        }
+      : undefined;
+
+    if (duration?.scope === 'episode') {
+      if (duration.min_minutes !== undefined) state.params.min_duration = Math.ceil(duration.min_minutes);
+      if (duration.max_minutes !== undefined) state.params.max_duration = Math.floor(duration.max_minutes);
+    } else if (duration?.max_minutes !== undefined) {
+      state.params.max_total_runtime = Math.floor(duration.max_minutes);
+    }
+
+    const understood = state.matched.reduce((total, match) => total + words(match.text).length, 0);
+    const confidence = understood + leftover.length > 0
+      ? Math.round((understood / (understood + leftover.length)) * 100) / 100
+      : 0;
+
+    return {
+      input,
+      params: state.params,
+      duration,
+      reception_pattern: state.receptionPattern,
+      similar_to: state.similarTo,
+      matched: state.matched,
+      unmatched_tokens: leftover,
+      confidence,
+      search_path: `/api/v1/anime?${new URLSearchParams(
+        Object.entries(state.params).map(([key, value]): [string, string] => [key, String(value)])
+      ).toString()}`,
+      reception_path: state.receptionPattern
+        ? `/api/v1/reception/search?sentiment_pattern=${state.receptionPattern}`
+        : undefined
+    };
+  }
+
+  // "like cowboy bebop", "similar to monster": the longest run of words that resolves to a title
+  private async parseSimilarTo(state: ParseState): Promise<void> {
+    const match = state.text.match(/\b(?:similar to|like|such as)\s+(.+)$/);
+    if (!match) return;
+
+    const candidates = words(match[1]).map((_, index, all) => all.slice(0, all.length - index).join(' '));
+    const resolved = await animeService.resolveTitles(candidates);
+    const best = resolved.find(entry => entry.mal_id !== null);
+    if (!best) return;
+
+    const title = words(best.input).map(escapeRegex).join('\\s+');
+    const phrase = new RegExp(`\\b(?:similar to|like|such as)\\s+${title}\\b`);
+    state.consume(phrase, () => {
+      state.similarTo = { mal_id: best.mal_id!, title: best.matched_title! };
+      return { field: 'similar_to', value: best.mal_id };
+    });
+  }
+
+  private parseReception(state: ParseState): void {
+    for (const [pattern, receptionPattern] of RECEPTION_PHRASES) {
+      state.consume(pattern, () => {
+        if (state.receptionPattern) return null;
+        state.receptionPattern = receptionPattern;
+        return { field: 'reception_pattern', value: receptionPattern };
+      });
+    }
+  }
+
+  private parseDuration(state: ParseState): void {
+    const unit = '(hours?|hrs?|h|minutes?|mins?|m)';
+    const perEpisode = '(\\s+(?:per|an|each|a)\\s+(?:episode|ep))?';
+
+    const bound = (kind: 'max_minutes' | 'min_minutes') => (match: RegExpMatchArray) => {
+      const minutes = toMinutes(match[1], match[2]);
+      state.duration = { ...(state.duration || { perEpisode: false }), [kind]: minutes };
+      if (match[3]) state.duration.perEpisode = true;
+      return { field: `duration.${kind}`, value: minutes };
+    };
+
+    state.consume(new RegExp(`\\b${AT_MOST}\\s+${NUMBER}\\s*${unit}\\b${perEpisode}`, 'g'), bound('max_minutes'));
+    state.consume(new RegExp(`\\b${AT_LEAST}\\s+${NUMBER}\\s*${unit}\\b${perEpisode}`, 'g'), bound('min_minutes'));
+
+    // "finish this weekend", "in one sitting": a whole-watch budget
+    for (const [pattern, minutes] of WATCH_BUDGETS) {
+      state.consume(pattern, () => {
+        if (state.duration?.max_minutes !== undefined) return null;
+        state.duration = { ...(state.duration || { perEpisode: false }), max_minutes: minutes };
+        return { field: 'duration.max_minutes', value: minutes };
+      });
+    }
+  }
+
+  private parseEpisodes(state: ParseState): void {
+    state.consume(new RegExp(`\\b${AT_MOST}\\s+${NUMBER}\\s+episodes?\\b`, 'g'), match => {
+      // "under 13" excludes 13, "at most 13" includes it
+      const strict = /^(?:under|less|fewer|shorter|below)/.test(match[0].trim());
+      return state.set('max_episodes', toNumber(match[1]) - (strict ? 1 : 0));
+    });
+    state.consume(new RegExp(`\\b${NUMBER}\\s+episodes?\\s+or\\s+(?:less|fewer)\\b`, 'g'), match =>
+      state.set('max_episodes', toNumber(match[1]))
+    );
+    state.consume(new RegExp(`\\b${AT_LEAST}\\s+${NUMBER}\\s+episodes?\\b`, 'g'), match =>
+      state.set('min_episodes', toNumber(match[1]))
+    );
+    state.consume(/\b(?:short series|short shows?|short)\b/g, () => state.set('max_episodes', 13));
+    state.consume(/\b(?:long running|long series|lengthy)\b/g, () => state.set('min_episodes', 50));
+  }
+
+  private parseScore(state: ParseState): void {
+    state.consume(/\b(?:scored?|rated|rating|mal score)\s+(?:of\s+)?(?:above|over|at least|higher than|more than)?\s*(\d{1,2}(?:\.\d+)?)\s*\+?(?=\s)/g, match => {
+      const score = parseFloat(match[1]);
+      return score <= 10 ? state.set('min_score', score) : null;
+    });
+    state.consume(/\b(\d(?:\.\d+)?)\s*\+\s*(?:scored?|rated|rating|score)?(?=\s)/g, match =>
+      state.set('min_score', parseFloat(match[1]))
+    );
+  }
+
+  private parseTime(state: ParseState): void {
+    state.consume(new RegExp(`\\b(?:from|between)?\\s*${YEAR}\\s*(?:-|to|and|until)\\s*${YEAR}\\b`, 'g'), match => {
+      state.set('min_year', parseInt(match[1]));
+      return state.set('max_year', parseInt(match[2])) && { field: 'year_range', value: [parseInt(match[1]), parseInt(match[2])] };
+    });
+    state.consume(new RegExp(`\\b(before|until|prior to|up to|pre)\\s+${YEAR}\\b`, 'g'), match => {
+      const year = parseInt(match[2]);
+      return state.set('max_year', match[1] === 'before' || match[1] === 'prior to' || match[1] === 'pre' ? year - 1 : year);
+    });
+    state.consume(new RegExp(`\\b(after|since|post)\\s+${YEAR}\\b`, 'g'), match => {
+      const year = parseInt(match[2]);
+      return state.set('min_year', match[1] === 'since' ? year : year + 1);
+    });
+    state.consume(new RegExp(`\\b(winter|spring|summer|fall|autumn)(?:\\s+(?:of\\s+)?${YEAR})?\\b`, 'g'), match => {
+      const season = (match[1] === 'autumn' ? 'fall' : match[1]) as SearchParams['season'];
+      if (match[2]) state.set('year', parseInt(match[2]));
+      return state.set('season', season);
+    });
+    state.consume(/\b((?:19|20)\d0s|\d0s)\b/g, match => state.set('decade', decadeOf(match[1])));
+    state.consume(new RegExp(`\\b${YEAR}\\b`, 'g'), match => state.set('year', parseInt(match[1])));
+    state.consume(/\b(?:this year)\b/g, () => state.set('current_year_only', true));
+
+    const hasYear = () => ['year', 'min_year', 'max_year', 'decade', 'current_year_only']
+      .some(field => state.params[field as keyof SearchParams] !== undefined);
+    state.consume(/\b(?:old school|retro|vintage|classics?|old|older)\b/g, () =>
+      hasYear() ? null : state.set('max_year', 1999)
+    );
+    state.consume(/\b(?:recent|new|newer|modern|latest)\b/g, () =>
+      hasYear() ? null : state.set('min_year', new Date().getFullYear() - 3)
+    );
+  }
+
+  private parseType(state: ParseState): void {
+    for (const [pattern, type] of TYPE_WORDS) {
+      state.consume(pattern, () => state.set('type', type));
+    }
+  }
+
+  private parseAiring(state: ParseState): void {
+    for (const [pattern, status] of AIRING_WORDS) {
+      state.consume(pattern, () => state.set('airing_status', status));
+    }
+  }
+
+  private parseQualityAndPopularity(state: ParseState): void {
+    state.consume(/\b(?:best|top rated|top|greatest|masterpieces?|highly rated|must watch|acclaimed)\b/g, () => {
+      state.set('order_by', 'score');
+      state.set('sort', 'desc');
+      return state.set('min_score', 8) || { field: 'order_by', value: 'score' };
+    });
+    state.consume(/\b(?:good|great|decent|solid|well rated)\b/g, () => state.set('min_score', 7));
+    state.consume(/\b(?:not (?:so |too |very )?popular|obscure|niche|lesser known|underground)\b/g, () =>
+      state.set('exclude_very_popular', true)
+    );
+    state.consume(/\b(?:popular|trending|mainstream|well known)\b/g, () => {
+      state.set('sort', 'asc');
+      return state.set('order_by', 'popularity');
+    });
+    state.consume(/\b(?:family friendly|kid friendly|sfw)\b/g, () => state.set('sfw', true));
+  }
+
+  // Genre, theme and demographic names from the genres table, plus everyday synonyms.
+  // A negation in front ("no horror", "without ecchi") excludes the genre instead.
+  private parseGenres(state: ParseState, genres: Genre[]): void {
+    const byName = new Map(genres.map(genre => [genre.name.toLowerCase(), genre]));
+
+    const addGenre = (genre: Genre | undefined, negated: boolean) => {
+      if (!genre) return null;
+      const ids = negated ? state.excludedGenreIds : state.genreIds;
+      if (!ids.includes(genre.id)) ids.push(genre.id);
+      return { field: negated ? 'exclude_genres' : 'genres', value: genre.name };
+    };
+
+    // Longest names first so "slice of life" wins over "life"
+    const names = [...byName.keys()].sort((a, b) => b.length - a.length);
+    for (const name of names) {
+      const pattern = escapeRegex(name).replace(/[\s-]+/g, '[\\s-]+');
+      state.consume(new RegExp(`${NEGATION}\\b${pattern}s?\\b`, 'g'), match => addGenre(byName.get(name), !!match[1]));
+    }
+
+    for (const [pattern, candidates] of GENRE_SYNONYMS) {
+      const target = candidates.map(name => byName.get(name.toLowerCase())).find(Boolean);
+      state.consume(new RegExp(`${NEGATION}(?:${pattern.source})`, 'g'), match => addGenre(target, !!match[1]));
+    }
+  }
+}
+
+export const queryParser = new QueryParser();
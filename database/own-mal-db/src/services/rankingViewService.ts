@@ -0,0 +1,123 @@
+import { db } from '../database/connection';
+import { CacheTags, invalidateCache } from './responseCache';
+
+// Materialized views created by migration 013, refreshed by `npm run views:refresh` or on a schedule
+export const RANKING_VIEWS = ['genre_stats_mv', 'anime_rankings_mv', 'reception_leaderboard_mv'] as const;
+
+export type RankingView = typeof RANKING_VIEWS[number];
+
+// Live equivalents of the views, for ?fresh=true. Mirror migration 013, so keep the two in step.
+export const LIVE_VIEW_SOURCES: Record<RankingView, string> = {
+  genre_stats_mv: `(
+    SELECT g.id AS genre_id, g.name AS genre_name, COUNT(ag.anime_id) AS count
+    FROM genres g
+    LEFT JOIN anime_genres ag ON g.id = ag.genre_id
+    GROUP BY g.id, g.name
+  )`,
+  anime_rankings_mv: `(
+    SELECT
+      a.mal_id,
+      a.year,
+      a.season,
+      a.score,
+      ROW_NUMBER() OVER (ORDER BY a.score DESC, a.mal_id DESC) AS overall_rank,
+      ROW_NUMBER() OVER (PARTITION BY a.year, a.season ORDER BY a.score DESC, a.mal_id DESC) AS season_rank
+    FROM anime a
+    WHERE a.score IS NOT NULL
+      AND a.mal_id NOT IN (
+        SELECT ag.anime_id
+        FROM anime_genres ag
+        JOIN genres g ON ag.genre_id = g.id
+        WHERE g.name IN ('Hentai', 'Erotica')
+      )
+  )`,
+  reception_leaderboard_mv: `(
+    SELECT
+      a.mal_id,
+      a.title,
+      a.score,
+      (a.reception_data->>'review_count')::int AS review_count,
+      (a.reception_data->>'sentiment_ratio')::float AS sentiment_ratio,
+      (a.reception_data->>'score_variance')::float AS score_variance,
+      (a.reception_data->>'avg_review_length')::float AS avg_review_length
+    FROM anime a
+    WHERE a.reception_data IS NOT NULL
+  )`
+};
+
+// Where a response's aggregates came from, reported as meta.source / meta.refreshed_at
+export interface ViewFreshness {
+  source: 'view' | 'live';
+  refreshed_at: string | null; // When the view was last refreshed; the request time for live data
+}
+
+export interface ViewRefreshResult {
+  view: RankingView;
+  refreshed_at: string;
+  duration_ms: number;
+}
+
+export class RankingViewService {
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  // Table or subquery to read from: the view, or the live query behind it when fresh data is requested
+  source(view: RankingView, fresh: boolean = false): string {
+    return fresh ? LIVE_VIEW_SOURCES[view] : view;
+  }
+
+  async getFreshness(view: RankingView, fresh: boolean = false): Promise<ViewFreshness> {
+    if (fresh) {
+      return { source: 'live', refreshed_at: new Date().toISOString() };
+    }
+
+    const result = await db.query('SELECT refreshed_at FROM ranking_view_refreshes WHERE view_name = $1', [view]);
+    const refreshedAt: Date | undefined = result.rows[0]?.refreshed_at;
+    return { source: 'view', refreshed_at: refreshedAt ? refreshedAt.toISOString() : null };
+  }
+
+  // Refresh the views one by one. CONCURRENTLY keeps them readable meanwhile (needs their unique indexes).
+  async refresh(views: readonly RankingView[] = RANKING_VIEWS): Promise<ViewRefreshResult[]> {
+    const results: ViewRefreshResult[] = [];
+
+    for (const view of views) {
+      const startTime = Date.now();
+      await db.query(`REFRESH MATERIALIZED VIEW CONCURRENTLY ${view}`);
+      const durationMs = Date.now() - startTime;
+
+      const result = await db.query(
+        `INSERT INTO ranking_view_refreshes (view_name, refreshed_at, duration_ms)
+         VALUES ($1, NOW(), $2)
+         ON CONFLICT (view_name) DO UPDATE SET
+           refreshed_at = EXCLUDED.refreshed_at,
+           duration_ms = EXCLUDED.duration_ms
+         RETURNING refreshed_at`,
+        [view, durationMs]
+      );
+      results.push({ view, refreshed_at: result.rows[0].refreshed_at.toISOString(), duration_ms: durationMs });
+    }
+
+    await invalidateCache([CacheTags.rankings]);
+    return results;
+  }
+
+  // Refresh every view in the background of the API server; failures are logged and retried next interval
+  startScheduledRefresh(intervalMinutes: number): void {
+    this.stopScheduledRefresh();
+    this.refreshTimer = setInterval(() => {
+      this.refresh()
+        .then(results => console.log(`🔄 Refreshed ${results.length} ranking views`))
+        .catch(error => console.error('Scheduled ranking view refresh failed:', error));
+    }, intervalMinutes * 60 * 1000);
+    // Don't keep the process alive just for the schedule
+    this.refreshTimer.unref();
+  }
+
+  stopScheduledRefresh(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+}
+
+export const rankingViewService = new RankingViewService();
@@ -0,0 +1,57 @@
+// In-memory token buckets, one per client (API key or anonymous IP).
+// Each bucket holds up to `burst` tokens and refills at `ratePerMinute`; a request takes one token.
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Buckets idle for this long are full again and can be dropped
+const IDLE_BUCKET_TTL_MS = 10 * 60 * 1000;
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private lastSweep = Date.now();
+
+  take(clientId: string, ratePerMinute: number, burst: number, now: number = Date.now()): RateLimitDecision {
+    this.sweep(now);
+
+    const refillPerMs = ratePerMinute / 60_000;
+    const bucket = this.buckets.get(clientId) || { tokens: burst, updatedAt: now };
+
+    bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(clientId, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, limit: burst, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+    }
+
+    return {
+      allowed: false,
+      limit: burst,
+      remaining: 0,
+      retryAfterSeconds: Math.max(1, Math.ceil((1 - bucket.tokens) / refillPerMs / 1000))
+    };
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < IDLE_BUCKET_TTL_MS) return;
+    this.lastSweep = now;
+    for (const [clientId, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > IDLE_BUCKET_TTL_MS) {
+        this.buckets.delete(clientId);
+      }
+    }
+  }
+}
+
+export const rateLimiter = new RateLimiter();
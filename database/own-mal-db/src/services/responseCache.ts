@@ -0,0 +1,192 @@
+import { createHash } from 'crypto';
+import { db } from '../database/connection';
+
+// Serialized response plus the validators sent to clients
+export interface CachedResponse {
+  body: string;
+  etag: string;
+  lastModified: number;
+  tagVersions: Record<string, number>; // Tag versions at the time the entry was stored
+  expiresAt: number;
+}
+
+// Storage backend for cached responses, swappable with responseCache.setStore(). It must be
+// per-process: tag versions live in the ResponseCache of each process, so a store shared between
+// processes (e.g. Redis) would serve entries another process has already invalidated.
+export interface CacheStore {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, entry: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Least-recently-used store bounded by entry count; Map iteration order doubles as recency order
+export class MemoryLruStore implements CacheStore {
+  private entries = new Map<string, CachedResponse>();
+
+  constructor(private maxEntries: number = 500) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// Postgres channel used to invalidate API server caches from crawler processes
+const INVALIDATION_CHANNEL = 'response_cache_invalidation';
+
+// Invalidation works by bumping tag versions instead of tracking which keys carry a tag:
+// an entry is stale once one of its tags moved on. The versions are kept in memory next to
+// the store, which is why only per-process stores are supported (see CacheStore).
+export class ResponseCache {
+  private store: CacheStore;
+  private tagVersions = new Map<string, number>();
+  private hits = 0;
+  private misses = 0;
+  private disabled = false;
+
+  constructor(store: CacheStore) {
+    this.store = store;
+  }
+
+  setStore(store: CacheStore): void {
+    this.store = store;
+  }
+
+  isEnabled(): boolean {
+    return !this.disabled && process.env.RESPONSE_CACHE_ENABLED !== 'false';
+  }
+
+  // Stop serving cached responses, e.g. when invalidations can no longer be received
+  async disable(): Promise<void> {
+    this.disabled = true;
+    await this.store.clear();
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = await this.store.get(key);
+    const fresh = entry
+      && entry.expiresAt > Date.now()
+      && Object.entries(entry.tagVersions).every(([tag, version]) => this.versionOf(tag) === version);
+
+    if (!fresh) {
+      if (entry) await this.store.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    return entry;
+  }
+
+  // Current versions of the given tags. Taken before the response is built, so a write that lands
+  // while the handler runs leaves the stored entry already stale rather than serving old data.
+  snapshotTags(tags: string[]): Record<string, number> {
+    return Object.fromEntries(tags.map(tag => [tag, this.versionOf(tag)]));
+  }
+
+  // Store a response and return its validators right away; the store write finishes in the background
+  set(key: string, body: unknown, tagVersions: Record<string, number>, ttlSeconds: number): CachedResponse {
+    const serialized = JSON.stringify(body);
+    const entry: CachedResponse = {
+      body: serialized,
+      etag: `"${createHash('sha1').update(serialized).digest('base64url')}"`,
+      lastModified: Date.now(),
+      tagVersions,
+      expiresAt: Date.now() + ttlSeconds * 1000
+    };
+    this.store.set(key, entry).catch(error => console.error('Response cache write failed:', error));
+    return entry;
+  }
+
+  // Mark every entry carrying one of these tags as stale (this process only)
+  invalidateLocal(tags: string[]): void {
+    for (const tag of tags) {
+      this.tagVersions.set(tag, this.versionOf(tag) + 1);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  getStats() {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      tracked_tags: this.tagVersions.size,
+      enabled: this.isEnabled()
+    };
+  }
+
+  private versionOf(tag: string): number {
+    return this.tagVersions.get(tag) || 0;
+  }
+}
+
+export const responseCache = new ResponseCache(
+  new MemoryLruStore(parseInt(process.env.RESPONSE_CACHE_MAX_ENTRIES || '500'))
+);
+
+// Invalidate cached responses after a write. Other processes (the API server when this runs
+// in a crawler) are told through Postgres NOTIFY. Never throws: a failed invalidation must not fail the write.
+export async function invalidateCache(tags: string[]): Promise<void> {
+  responseCache.invalidateLocal(tags);
+  try {
+    await db.query('SELECT pg_notify($1, $2)', [INVALIDATION_CHANNEL, tags.join(',')]);
+  } catch (error) {
+    console.error('Failed to publish cache invalidation:', error);
+  }
+}
+
+// Subscribe the API server to invalidations published by other processes.
+// Holds one pool client for the lifetime of the process.
+export async function listenForCacheInvalidations(): Promise<void> {
+  const client = await db.getClient();
+  client.on('notification', (message) => {
+    if (message.channel === INVALIDATION_CHANNEL && message.payload) {
+      responseCache.invalidateLocal(message.payload.split(','));
+    }
+  });
+  client.on('error', (error) => {
+    // Without the subscription entries could outlive the data they were built from
+    console.error('Cache invalidation listener failed, disabling response cache:', error);
+    responseCache.disable().catch(() => undefined);
+  });
+  await client.query(`LISTEN ${INVALIDATION_CHANNEL}`);
+}
+
+// Cache tags shared by the routes that cache and the writers that invalidate
+export const CacheTags = {
+  anime: 'anime',
+  animeById: (malId: number) => `anime:${malId}`,
+  genres: 'genres',
+  reviews: 'reviews',
+  reviewsByAnime: (animeId: number) => `reviews:${animeId}`,
+  rankings: 'rankings' // Responses read from the ranking views, stale after a view refresh
+};
@@ -1,9 +1,49 @@
 import { db } from '../database/connection';
+import { CacheTags, invalidateCache } from './responseCache';
+import { vibeTagService } from './vibeTagService';
+import { createSentimentEngine, SentimentAnalysis, SentimentEngine, SentimentTerm } from './sentimentEngine';
+
+export type { SentimentAnalysis } from './sentimentEngine';
+
+// Aspects reviewers rate separately, matching the story/animation/sound/character ratings of the shared Review type
+export type ReviewAspect = 'story' | 'animation' | 'sound' | 'characters' | 'ending';
+
+export const REVIEW_ASPECTS: ReviewAspect[] = ['story', 'animation', 'sound', 'characters', 'ending'];
+
+// A clause is about an aspect when it matches its pattern (lowercased text). Character designs are
+// animation and ending songs are sound, not characters or the ending.
+const ASPECT_PATTERNS: Record<ReviewAspect, RegExp> = {
+  story: /\b(?:story|stories|plot|plots|narrative|storytelling|writing|script|premise|pacing|world ?building)\b/,
+  animation: /\b(?:animation|animated|art|art ?style|artwork|visuals?|cgi|sakuga|character designs?|fight choreography)\b/,
+  sound: /\b(?:sound|soundtrack|ost|music|musical|(?:opening|ending) (?:songs?|themes?)|voice acting|voice actors?|seiyuu|dub|dubbed)\b/,
+  characters: /\b(?:characters?(?! designs?)|protagonists?|antagonists?|villains?|cast|mc|heroine|characterization|character development)\b/,
+  ending: /\b(?:ending(?! (?:songs?|themes?))|endings|finale|final episode|last episode|conclusion|final arc)\b/
+};
+
+// Clauses split on contrast, so "gorgeous animation but a weak ending" scores the two aspects apart
+const CLAUSE_SEPARATOR = /[.!?;\n]+|\b(?:but|however|although|though|whereas|yet)\b/i;
+
+// An aspect needs this many reviews discussing it before it is reported
+const MIN_ASPECT_MENTIONS = 3;
+
+export interface AspectSentiment {
+  mentions: number;        // Reviews with sentiment about the aspect
+  mention_share: number;   // Of all reviews
+  sentiment: number;       // Mean per-review aspect score, -1 to 1
+  positive_share: number;
+  negative_share: number;
+  label: 'positive' | 'negative' | 'mixed';
+  top_terms: string[];     // Sentiment words reviewers use most about it, in the direction of the label
+}
+
+export type AspectProfile = Partial<Record<ReviewAspect, AspectSentiment>>;
 
-export interface SentimentAnalysis {
-  score: number; // -1 (negative) to 1 (positive)
-  label: 'positive' | 'negative' | 'neutral';
-  confidence: number;
+export interface AspectComparison {
+  aspect: ReviewAspect;
+  anime_1_sentiment: number;
+  anime_2_sentiment: number;
+  better_received: string;
+  difference: number;
 }
 
 export interface ReceptionProfile {
@@ -16,94 +56,133 @@ export interface ReceptionProfile {
   avg_review_length: number;
   common_complaints: string[];
   common_praises: string[];
+  aspects: AspectProfile;
+  aspect_summary: string | null; // e.g. "stunning animation, rushed ending"
+}
+
+function round(value: number, digits: number = 3): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// How two anime's reviews rate each aspect both have enough reviews about
+export function compareAspects(
+  aspects1: AspectProfile | undefined,
+  aspects2: AspectProfile | undefined,
+  title1: string,
+  title2: string
+): AspectComparison[] {
+  return REVIEW_ASPECTS
+    .filter(aspect => aspects1?.[aspect] && aspects2?.[aspect])
+    .map(aspect => {
+      const sentiment1 = aspects1![aspect]!.sentiment;
+      const sentiment2 = aspects2![aspect]!.sentiment;
+      return {
+        aspect,
+        anime_1_sentiment: sentiment1,
+        anime_2_sentiment: sentiment2,
+        better_received: sentiment1 >= sentiment2 ? title1 : title2,
+        difference: round(Math.abs(sentiment1 - sentiment2))
+      };
+    });
 }
 
 export class ReviewAnalyzer {
+  // Defaults to the SENTIMENT_ENGINE engine
+  constructor(private readonly engine: SentimentEngine = createSentimentEngine()) {}
+
+  get engineName(): string {
+    return this.engine.name;
+  }
 
   async analyzeSentiment(reviewText: string): Promise<SentimentAnalysis> {
     if (!reviewText || reviewText.length < 10) {
       return { score: 0, label: 'neutral', confidence: 0 };
     }
 
-    // Enhanced keyword-based sentiment analysis
-    const positiveWords = [
-      'amazing', 'excellent', 'fantastic', 'brilliant', 'masterpiece',
-      'beautiful', 'perfect', 'incredible', 'outstanding', 'wonderful',
-      'love', 'adore', 'enjoy', 'great', 'awesome', 'superb', 'stunning',
-      'captivating', 'engaging', 'entertaining', 'hilarious', 'touching',
-      'emotional', 'gripping', 'compelling', 'satisfying', 'phenomenal',
-      'breathtaking', 'marvelous', 'spectacular', 'impressive', 'charming',
-      'delightful', 'refreshing', 'unique', 'innovative', 'creative'
-    ];
-
-    const negativeWords = [
-      'terrible', 'awful', 'horrible', 'boring', 'disappointing',
-      'waste', 'trash', 'bad', 'worst', 'hate', 'annoying',
-      'stupid', 'ridiculous', 'pointless', 'overrated', 'underwhelming',
-      'painful', 'cringe', 'bland', 'dull', 'mediocre', 'weak',
-      'confusing', 'messy', 'rushed', 'poorly', 'lacking', 'forced',
-      'awkward', 'predictable', 'cliche', 'generic', 'uninspired'
-    ];
-
-    const intensifiers = ['very', 'extremely', 'absolutely', 'incredibly', 'totally', 'completely'];
-    const negators = ['not', 'never', 'no', 'hardly', 'barely', 'scarcely'];
-
-    const text = reviewText.toLowerCase();
-    const sentences = text.split(/[.!?]+/);
-
-    let totalScore = 0;
-    let sentimentWordCount = 0;
-
-    for (const sentence of sentences) {
-      const words = sentence.split(/\W+/);
-
-      for (let i = 0; i < words.length; i++) {
-        const word = words[i];
-        let score = 0;
-        let multiplier = 1;
-
-        // Check for sentiment words
-        if (positiveWords.includes(word)) {
-          score = 1;
-        } else if (negativeWords.includes(word)) {
-          score = -1;
-        }
-
-        if (score !== 0) {
-          sentimentWordCount++;
+    const { score, label, confidence } = this.engine.analyze(reviewText);
+    return { score, label, confidence };
+  }
 
-          // Check for intensifiers before sentiment word
-          if (i > 0 && intensifiers.includes(words[i - 1])) {
-            multiplier = 1.5;
-          }
+  // Sentiment of each aspect one review talks about: the engine's score of the clauses mentioning it,
+  // weighted by their number of sentiment words
+  analyzeAspects(reviewText: string): Partial<Record<ReviewAspect, { score: number; terms: string[] }>> {
+    const sums = new Map<ReviewAspect, { weighted: number; count: number; terms: SentimentTerm[] }>();
+
+    for (const clause of (reviewText || '').split(CLAUSE_SEPARATOR)) {
+      if (!clause) continue;
+      const lowered = clause.toLowerCase();
+      const aspects = REVIEW_ASPECTS.filter(aspect => ASPECT_PATTERNS[aspect].test(lowered));
+      if (aspects.length === 0) continue;
+
+      const analysis = this.engine.analyze(clause);
+      if (analysis.terms.length === 0) continue;
+
+      for (const aspect of aspects) {
+        const sum = sums.get(aspect) || { weighted: 0, count: 0, terms: [] };
+        sum.weighted += analysis.score * analysis.terms.length;
+        sum.count += analysis.terms.length;
+        sum.terms.push(...analysis.terms);
+        sums.set(aspect, sum);
+      }
+    }
 
-          // Check for negators before sentiment word
-          if (i > 0 && negators.includes(words[i - 1])) {
-            score = -score;
-          }
+    const result: Partial<Record<ReviewAspect, { score: number; terms: string[] }>> = {};
+    for (const [aspect, sum] of sums) {
+      const score = Math.max(-1, Math.min(1, sum.weighted / sum.count));
+      // Keep the words pulling the same way as the review's verdict on the aspect
+      result[aspect] = {
+        score,
+        terms: sum.terms.filter(term => !term.negated && Math.sign(term.score) === Math.sign(score)).map(term => term.word)
+      };
+    }
+    return result;
+  }
 
-          totalScore += score * multiplier;
+  // Per-aspect aggregates over all reviews of an anime, plus a one-line summary of the clear verdicts
+  private aggregateAspects(reviewTexts: string[]): { aspects: AspectProfile; summary: string | null } {
+    const perReview = reviewTexts.map(text => this.analyzeAspects(text));
+    const aspects: AspectProfile = {};
+
+    for (const aspect of REVIEW_ASPECTS) {
+      const mentions = perReview.map(review => review[aspect]).filter((mention): mention is { score: number; terms: string[] } => !!mention);
+      if (mentions.length < MIN_ASPECT_MENTIONS) continue;
+
+      const sentiment = mentions.reduce((sum, mention) => sum + mention.score, 0) / mentions.length;
+      const label = sentiment > 0.3 ? 'positive' : sentiment < -0.3 ? 'negative' : 'mixed';
+
+      // A review's terms already agree with its verdict, so take them from the reviews agreeing with the label
+      const termCounts = new Map<string, number>();
+      for (const mention of mentions) {
+        if (label === 'positive' && mention.score <= 0) continue;
+        if (label === 'negative' && mention.score >= 0) continue;
+        for (const term of mention.terms) {
+          termCounts.set(term, (termCounts.get(term) || 0) + 1);
         }
       }
-    }
 
-    if (sentimentWordCount === 0) {
-      return { score: 0, label: 'neutral', confidence: 0.1 };
+      aspects[aspect] = {
+        mentions: mentions.length,
+        mention_share: round(mentions.length / reviewTexts.length),
+        sentiment: round(sentiment),
+        positive_share: round(mentions.filter(mention => mention.score > 0.2).length / mentions.length),
+        negative_share: round(mentions.filter(mention => mention.score < -0.2).length / mentions.length),
+        label,
+        top_terms: [...termCounts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3).map(([term]) => term)
+      };
     }
 
-    const normalizedScore = totalScore / sentimentWordCount;
-    const confidence = Math.min(sentimentWordCount / (reviewText.split(/\W+/).length * 0.1), 1);
-
-    let label: 'positive' | 'negative' | 'neutral';
-    if (normalizedScore > 0.3) label = 'positive';
-    else if (normalizedScore < -0.3) label = 'negative';
-    else label = 'neutral';
+    // Clear verdicts only, strongest first: "stunning animation, rushed ending"
+    const verdicts = REVIEW_ASPECTS
+      .filter(aspect => aspects[aspect] && aspects[aspect]!.label !== 'mixed')
+      .sort((a, b) => Math.abs(aspects[b]!.sentiment) - Math.abs(aspects[a]!.sentiment))
+      .map(aspect => {
+        const profile = aspects[aspect]!;
+        const word = profile.top_terms[0] || (profile.label === 'positive' ? 'praised' : 'criticized');
+        return `${word} ${aspect}`;
+      });
 
-    return {
-      score: Math.max(-1, Math.min(1, normalizedScore)),
-      label,
-      confidence: Math.max(0.1, confidence)
-    };
+    return { aspects, summary: verdicts.length > 0 ? verdicts.join(', ') : null };
   }
 
   async analyzeAnimeReception(animeId: number): Promise<ReceptionProfile> {
@@ -141,6 +220,7 @@ export class ReviewAnalyzer {
     const allReviewText = reviews.map(r => r.review_text || '').join(' ').toLowerCase();
     const commonComplaints = this.extractCommonThemes(allReviewText, 'negative');
     const commonPraises = this.extractCommonThemes(allReviewText, 'positive');
+    const aspectAnalysis = this.aggregateAspects(reviews.map(r => r.review_text || ''));
 
     return {
       anime_id: animeId,
@@ -151,7 +231,9 @@ export class ReviewAnalyzer {
       preliminary_review_count: preliminaryCount,
       avg_review_length: avgReviewLength,
       common_complaints: commonComplaints,
-      common_praises: commonPraises
+      common_praises: commonPraises,
+      aspects: aspectAnalysis.aspects,
+      aspect_summary: aspectAnalysis.summary
     };
   }
 
@@ -215,6 +297,8 @@ export class ReviewAnalyzer {
         avg_review_length: receptionProfile.avg_review_length,
         common_complaints: receptionProfile.common_complaints,
         common_praises: receptionProfile.common_praises,
+        aspects: receptionProfile.aspects,
+        aspect_summary: receptionProfile.aspect_summary,
         last_analyzed: new Date().toISOString()
       };
 
@@ -222,6 +306,9 @@ export class ReviewAnalyzer {
         'UPDATE anime SET reception_data = $1 WHERE mal_id = $2',
         [JSON.stringify(receptionData), animeId]
       );
+      // Vibe tags come from the same reviews, so they are re-extracted with the reception data
+      await vibeTagService.updateAnimeVibeTags(animeId);
+      await invalidateCache([CacheTags.reviews, CacheTags.reviewsByAnime(animeId), CacheTags.animeById(animeId)]);
     } catch (error) {
       console.error(`Failed to update reception data for anime ${animeId}:`, error);
       throw error;
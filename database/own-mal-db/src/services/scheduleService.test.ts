@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { foldIcsLine, parseWeek, zonedTimeToUtc } from './scheduleService';
+
+// Calendar dates are UTC midnights, as in the service
+function day(value: string): Date {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+describe('zonedTimeToUtc', () => {
+  const cases: Array<{ date: string; time: string; timeZone: string; utc: string }> = [
+    { date: '2025-10-11', time: '23:30', timeZone: 'Asia/Tokyo', utc: '2025-10-11T14:30:00.000Z' },
+    // Early JST broadcasts fall on the previous UTC day
+    { date: '2025-10-11', time: '01:00', timeZone: 'Asia/Tokyo', utc: '2025-10-10T16:00:00.000Z' },
+    { date: '2025-01-15', time: '12:00', timeZone: 'UTC', utc: '2025-01-15T12:00:00.000Z' },
+    // Europe/Helsinki switches to summer time on 2025-03-30 and back on 2025-10-26
+    { date: '2025-03-29', time: '12:00', timeZone: 'Europe/Helsinki', utc: '2025-03-29T10:00:00.000Z' },
+    { date: '2025-03-30', time: '12:00', timeZone: 'Europe/Helsinki', utc: '2025-03-30T09:00:00.000Z' },
+    { date: '2025-10-26', time: '01:00', timeZone: 'Europe/Helsinki', utc: '2025-10-25T22:00:00.000Z' },
+    { date: '2025-10-26', time: '05:00', timeZone: 'Europe/Helsinki', utc: '2025-10-26T03:00:00.000Z' },
+    // America/New_York falls back at 02:00 on 2025-11-02
+    { date: '2025-11-02', time: '00:30', timeZone: 'America/New_York', utc: '2025-11-02T04:30:00.000Z' },
+    { date: '2025-11-02', time: '12:00', timeZone: 'America/New_York', utc: '2025-11-02T17:00:00.000Z' }
+  ];
+
+  for (const { date, time, timeZone, utc } of cases) {
+    it(`converts ${date} ${time} ${timeZone}`, () => {
+      const [hour, minute] = time.split(':').map(Number);
+      assert.equal(zonedTimeToUtc(day(date), hour, minute, timeZone).toISOString(), utc);
+    });
+  }
+});
+
+describe('parseWeek', () => {
+  const cases: Array<{ week: string; monday: string | null }> = [
+    { week: '2025-W41', monday: '2025-10-06' },
+    { week: '2021-W01', monday: '2021-01-04' },
+    { week: '2026-W53', monday: '2026-12-28' },
+    { week: '2025-10-08', monday: '2025-10-06' },
+    { week: '2025-10-06', monday: '2025-10-06' },
+    { week: '2025-10-12', monday: '2025-10-06' },
+    // The Monday of ISO week 2025-W01
+    { week: '2024-12-31', monday: '2024-12-30' },
+    { week: '2025-W53', monday: null },
+    { week: '2025-W00', monday: null },
+    { week: '2025-02-30', monday: null },
+    { week: '2025-W1', monday: null },
+    { week: 'next week', monday: null }
+  ];
+
+  for (const { week, monday } of cases) {
+    it(`parses ${week}`, () => {
+      const result = parseWeek(week);
+      assert.equal(result && result.toISOString().slice(0, 10), monday);
+    });
+  }
+});
+
+describe('foldIcsLine', () => {
+  const cases: Array<{ name: string; line: string; chunks: string[] }> = [
+    { name: 'keeps short lines', line: 'SUMMARY:Frieren', chunks: ['SUMMARY:Frieren'] },
+    { name: 'keeps a line of exactly 75 octets', line: 'a'.repeat(75), chunks: ['a'.repeat(75)] },
+    { name: 'folds at 75 octets', line: 'a'.repeat(76), chunks: ['a'.repeat(75), 'a'] },
+    // Continuation lines lose one octet to the leading space
+    { name: 'folds continuations at 74 octets', line: 'a'.repeat(200), chunks: ['a'.repeat(75), 'a'.repeat(74), 'a'.repeat(51)] },
+    // Never splits a multi-byte character
+    { name: 'counts octets, not characters', line: 'é'.repeat(38), chunks: ['é'.repeat(37), 'é'] }
+  ];
+
+  for (const { name, line, chunks } of cases) {
+    it(name, () => {
+      assert.equal(foldIcsLine(line), chunks.join('\r\n '));
+    });
+  }
+});
@@ -0,0 +1,364 @@
+import { db } from '../database/connection';
+import { extractPrimaryImageUrl } from './animeFormatter';
+import { Broadcast, CalendarParams, ScheduleDay, ScheduleEntry, ScheduleParams, WeeklySchedule } from '../types/anime';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Jikan reports broadcasts in JST; schedules default to it too
+const DEFAULT_TIMEZONE = 'Asia/Tokyo';
+const DEFAULT_EPISODE_MINUTES = 24;
+const DEFAULT_CALENDAR_WEEKS = 4;
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// Wall clock reading of an instant in a time zone; weekday 0 is Monday
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+// Weekly broadcast slot parsed from the broadcast JSON
+interface BroadcastSlot {
+  weekday: number;
+  hour: number;
+  minute: number;
+  timeZone: string;
+}
+
+interface BroadcastRow {
+  mal_id: number;
+  title: string;
+  title_english: string | null;
+  type: string | null;
+  images: any;
+  episodes: number | null;
+  broadcast: Broadcast;
+  aired_from: string | null; // YYYY-MM-DD, the JST premiere date
+  aired_to: string | null;
+  episode_duration_seconds: number | null;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(instant: Date, timeZone: string): ZonedParts {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+      weekday: 'long'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: parseInt(parts.year),
+    month: parseInt(parts.month),
+    day: parseInt(parts.day),
+    hour: parseInt(parts.hour) % 24,
+    minute: parseInt(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday.toLowerCase())
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Calendar dates are handled as UTC midnights
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function isoWeekday(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function timeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = zonedParts(instant, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return wallClock - Math.floor(instant.getTime() / 60000) * 60000;
+}
+
+// UTC instant of a wall clock time in a time zone. The offset is read again at the result so DST switches land right.
+export function zonedTimeToUtc(date: Date, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = date.getTime() + (hour * 60 + minute) * 60000;
+  const guess = wallClock - timeZoneOffsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - timeZoneOffsetMs(new Date(guess), timeZone));
+}
+
+// ISO week label ("2025-W41") of the week starting on a Monday
+export function isoWeekLabel(monday: Date): string {
+  const thursday = addDays(monday, 3);
+  const jan4 = new Date(Date.UTC(thursday.getUTCFullYear(), 0, 4));
+  const firstMonday = addDays(jan4, -isoWeekday(jan4));
+  const weekNumber = Math.round((monday.getTime() - firstMonday.getTime()) / WEEK_MS) + 1;
+  return `${thursday.getUTCFullYear()}-W${pad(weekNumber)}`;
+}
+
+// Monday of an ISO week ("2025-W41") or of the week containing a date ("2025-10-08"); null if neither
+export function parseWeek(week: string): Date | null {
+  const isoWeek = /^(\d{4})-W(\d{2})$/.exec(week);
+  if (isoWeek) {
+    const jan4 = new Date(Date.UTC(parseInt(isoWeek[1]), 0, 4));
+    const monday = addDays(jan4, (parseInt(isoWeek[2]) - 1) * 7 - isoWeekday(jan4));
+    // Rejects W00 and W53 in years with 52 weeks
+    return isoWeekLabel(monday) === week ? monday : null;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(week)) {
+    const date = parseDate(week);
+    // Rejects dates like 2025-02-30 that Date.UTC rolls over
+    return toDateString(date) === week ? addDays(date, -isoWeekday(date)) : null;
+  }
+
+  return null;
+}
+
+function currentMonday(timeZone: string): Date {
+  const today = zonedParts(new Date(), timeZone);
+  const date = new Date(Date.UTC(today.year, today.month - 1, today.day));
+  return addDays(date, -isoWeekday(date));
+}
+
+// "Saturdays" + "23:30" + "Asia/Tokyo"; null when the day or time is unknown
+function parseBroadcastSlot(broadcast: Broadcast | null): BroadcastSlot | null {
+  if (!broadcast?.day || !broadcast.time) return null;
+
+  const weekday = WEEKDAYS.indexOf(broadcast.day.toLowerCase().replace(/s$/, ''));
+  const time = /^(\d{1,2}):(\d{2})$/.exec(broadcast.time);
+  const timeZone = broadcast.timezone || DEFAULT_TIMEZONE;
+  if (weekday < 0 || !time || !isValidTimeZone(timeZone)) return null;
+
+  return { weekday, hour: parseInt(time[1]), minute: parseInt(time[2]), timeZone };
+}
+
+// Broadcast instants of a weekly slot within [start, end)
+function broadcastsBetween(slot: BroadcastSlot, start: Date, end: Date): Date[] {
+  const first = zonedParts(new Date(start.getTime() - DAY_MS), slot.timeZone);
+  const firstDate = new Date(Date.UTC(first.year, first.month - 1, first.day));
+  const days = Math.ceil((end.getTime() - start.getTime()) / DAY_MS) + 2;
+
+  const instants: Date[] = [];
+  for (let offset = 0; offset <= days; offset++) {
+    const date = addDays(firstDate, offset);
+    if (isoWeekday(date) !== slot.weekday) continue;
+
+    const instant = zonedTimeToUtc(date, slot.hour, slot.minute, slot.timeZone);
+    if (instant >= start && instant < end) {
+      instants.push(instant);
+    }
+  }
+  return instants;
+}
+
+// Episode airing at an instant, counting weekly slots since the premiere. Undefined when the
+// instant is before the premiere or after the last episode; null when the premiere date is unknown.
+function estimateEpisode(row: BroadcastRow, slot: BroadcastSlot, airsAt: Date): number | null | undefined {
+  if (row.aired_to && airsAt.getTime() > addDays(parseDate(row.aired_to), 2).getTime()) return undefined;
+  if (!row.aired_from) return null;
+
+  const premiere = zonedTimeToUtc(parseDate(row.aired_from), slot.hour, slot.minute, slot.timeZone);
+  // Half a day of slack for premieres that aired a day off the regular slot
+  const episode = Math.floor((airsAt.getTime() - premiere.getTime() + DAY_MS / 2) / WEEK_MS) + 1;
+  if (episode < 1 || (row.episodes && episode > row.episodes)) return undefined;
+  return episode;
+}
+
+// iCalendar text values escape backslashes, separators and newlines
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+export function foldIcsLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const char of line) {
+    if (Buffer.byteLength(chunk + char) > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+export class ScheduleService {
+
+  // Airing schedule of one week in the requester's time zone, grouped by weekday
+  async getWeeklySchedule(params: ScheduleParams = {}): Promise<WeeklySchedule> {
+    const timeZone = params.tz || DEFAULT_TIMEZONE;
+    const monday = params.week ? parseWeek(params.week) : currentMonday(timeZone);
+    if (!monday) {
+      throw new Error(`Invalid week: ${params.week}`);
+    }
+
+    const start = zonedTimeToUtc(monday, 0, 0, timeZone);
+    const end = zonedTimeToUtc(addDays(monday, 7), 0, 0, timeZone);
+    const rows = await this.loadBroadcasts(start, end, params.ids, params.sfw ?? true);
+    const entries = this.entriesBetween(rows, start, end, timeZone);
+
+    const days: ScheduleDay[] = WEEKDAYS.map((weekday, index) => {
+      const date = toDateString(addDays(monday, index));
+      return { weekday, date, entries: entries.filter(entry => entry.local_date === date) };
+    });
+
+    return {
+      timezone: timeZone,
+      week: isoWeekLabel(monday),
+      week_start: toDateString(monday),
+      week_end: toDateString(addDays(monday, 6)),
+      total_entries: entries.length,
+      days
+    };
+  }
+
+  // iCalendar feed with one event per upcoming episode, for calendar subscriptions
+  async getCalendar(params: CalendarParams = {}): Promise<string> {
+    const weeks = params.weeks ?? DEFAULT_CALENDAR_WEEKS;
+    // Start a day back so episodes that just aired stay on the calendar
+    const start = new Date(Date.now() - DAY_MS);
+    const end = new Date(start.getTime() + weeks * WEEK_MS);
+    const rows = await this.loadBroadcasts(start, end, params.ids, params.sfw ?? true);
+    const entries = this.entriesBetween(rows, start, end, 'UTC');
+
+    const stamp = formatIcsDate(new Date());
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//own-mal-db//Airing Schedule//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Anime airing schedule',
+      'REFRESH-INTERVAL;VALUE=DURATION:PT12H',
+      'X-PUBLISHED-TTL:PT12H'
+    ];
+
+    for (const entry of entries) {
+      const airsAt = new Date(entry.airs_at);
+      const endsAt = new Date(airsAt.getTime() + (entry.duration_minutes || DEFAULT_EPISODE_MINUTES) * 60000);
+      const summary = entry.estimated_episode !== null ? `${entry.title} - Episode ${entry.estimated_episode}` : entry.title;
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:anime-${entry.mal_id}-${formatIcsDate(airsAt)}@own-mal-db`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatIcsDate(airsAt)}`,
+        `DTEND:${formatIcsDate(endsAt)}`,
+        `SUMMARY:${escapeIcsText(summary)}`,
+        `DESCRIPTION:${escapeIcsText(`Broadcast: ${entry.broadcast.string || `${entry.broadcast.day} at ${entry.broadcast.time}`}`)}`,
+        `URL:https://myanimelist.net/anime/${entry.mal_id}`,
+        'END:VEVENT'
+      );
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+  }
+
+  // Anime with a weekly broadcast slot that may air between start and end
+  private async loadBroadcasts(start: Date, end: Date, ids: number[] | undefined, sfw: boolean): Promise<BroadcastRow[]> {
+    const conditions = [
+      `a.broadcast->>'day' IS NOT NULL`,
+      `a.broadcast->>'time' IS NOT NULL`,
+      // Airing now, or a known run that overlaps the window (upcoming premieres, shows that just ended)
+      `(a.status = 'Currently Airing' OR (a.aired_from IS NOT NULL AND a.aired_from <= $2::date AND (a.aired_to IS NULL OR a.aired_to >= $1::date)))`
+    ];
+    const queryParams: any[] = [toDateString(addDays(start, -1)), toDateString(addDays(end, 1))];
+
+    if (ids && ids.length > 0) {
+      queryParams.push(ids);
+      conditions.push(`a.mal_id = ANY($${queryParams.length})`);
+    }
+
+    if (sfw) {
+      conditions.push(`a.mal_id NOT IN (
+        SELECT ag.anime_id
+        FROM anime_genres ag
+        JOIN genres g ON ag.genre_id = g.id
+        WHERE g.name IN ('Hentai', 'Erotica')
+      )`);
+    }
+
+    const result = await db.query(`
+      SELECT
+        a.mal_id, a.title, a.title_english, a.type, a.images, a.episodes, a.broadcast,
+        a.aired_from::text AS aired_from, a.aired_to::text AS aired_to, a.episode_duration_seconds
+      FROM anime a
+      WHERE ${conditions.join(' AND ')}
+    `, queryParams);
+    return result.rows;
+  }
+
+  private entriesBetween(rows: BroadcastRow[], start: Date, end: Date, timeZone: string): ScheduleEntry[] {
+    const entries: ScheduleEntry[] = [];
+
+    for (const row of rows) {
+      const slot = parseBroadcastSlot(row.broadcast);
+      if (!slot) continue;
+
+      for (const airsAt of broadcastsBetween(slot, start, end)) {
+        const episode = estimateEpisode(row, slot, airsAt);
+        if (episode === undefined) continue;
+
+        const local = zonedParts(airsAt, timeZone);
+        entries.push({
+          mal_id: row.mal_id,
+          title: row.title,
+          title_english: row.title_english,
+          type: row.type,
+          image_url: extractPrimaryImageUrl(row.images),
+          episodes: row.episodes,
+          estimated_episode: episode,
+          airs_at: airsAt.toISOString(),
+          local_date: `${local.year}-${pad(local.month)}-${pad(local.day)}`,
+          local_time: `${pad(local.hour)}:${pad(local.minute)}`,
+          duration_minutes: row.episode_duration_seconds ? Math.round(row.episode_duration_seconds / 60) : null,
+          broadcast: row.broadcast
+        });
+      }
+    }
+
+    return entries.sort((a, b) => a.airs_at.localeCompare(b.airs_at) || a.title.localeCompare(b.title));
+  }
+}
+
+export const scheduleService = new ScheduleService();
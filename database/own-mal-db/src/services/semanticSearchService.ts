@@ -0,0 +1,203 @@
+import { db } from '../database/connection';
+import { animeService } from './animeService';
+import { createEmbeddingProvider, EmbeddingProvider } from './embeddingProvider';
+import { SemanticSearchParams, SemanticSearchResult } from '../types/anime';
+
+const DEFAULT_MIN_SIMILARITY = 0.1;
+
+// Text embedded for an anime: the synopsis plus genre and theme names, which carry meaning
+// short synopses often leave out
+export interface EmbeddingDocument {
+  mal_id: number;
+  text: string;
+}
+
+// In-memory copy of one provider's vectors, scanned on every search
+interface VectorIndex {
+  provider: string;
+  version: string; // Embedding count, last update and model fit time; any change reloads the index
+  ids: number[];
+  vectors: Float32Array; // ids.length x dimensions, each row L2-normalized
+  dimensions: number;
+}
+
+export class SemanticSearchService {
+  private provider: EmbeddingProvider | null = null;
+  private providerFittedAt: string | null = null;
+  private index: VectorIndex | null = null;
+
+  // Synopses to embed, in MAL ID order after lastId. With onlyMissing, just anime without an
+  // embedding from this provider or updated since it was computed.
+  async getDocuments(providerName: string, lastId: number, limit: number, onlyMissing: boolean = false): Promise<EmbeddingDocument[]> {
+    const result = await db.query(
+      `SELECT
+         a.mal_id,
+         a.synopsis,
+         COALESCE(string_agg(g.name, ', ' ORDER BY g.name) FILTER (WHERE ag.genre_type IN ('genre', 'theme')), '') AS tags
+       FROM anime a
+       LEFT JOIN anime_genres ag ON a.mal_id = ag.anime_id
+       LEFT JOIN genres g ON ag.genre_id = g.id
+       LEFT JOIN anime_embeddings ae ON a.mal_id = ae.anime_id AND ae.provider = $1
+       WHERE a.mal_id > $2
+         AND a.synopsis IS NOT NULL AND a.synopsis <> ''
+         AND (NOT $4::boolean OR ae.anime_id IS NULL OR a.updated_at > ae.updated_at)
+       GROUP BY a.mal_id
+       ORDER BY a.mal_id
+       LIMIT $3`,
+      [providerName, lastId, limit, onlyMissing]
+    );
+
+    return result.rows.map(row => ({
+      mal_id: row.mal_id,
+      text: row.tags ? `${row.synopsis}\n${row.tags}` : row.synopsis
+    }));
+  }
+
+  // Store a fitted model so the API embeds queries in the same space as the stored vectors
+  async saveModel(provider: EmbeddingProvider, documentCount: number): Promise<void> {
+    await db.query(
+      `INSERT INTO embedding_models (provider, dimensions, model, document_count, fitted_at)
+       VALUES ($1, $2, $3, $4, NOW())
+       ON CONFLICT (provider) DO UPDATE SET
+         dimensions = EXCLUDED.dimensions,
+         model = EXCLUDED.model,
+         document_count = EXCLUDED.document_count,
+         fitted_at = EXCLUDED.fitted_at`,
+      [provider.name, provider.dimensions, provider.saveModel ? provider.saveModel() : null, documentCount]
+    );
+  }
+
+  async storeEmbeddings(provider: EmbeddingProvider, documents: EmbeddingDocument[]): Promise<void> {
+    if (documents.length === 0) return;
+
+    const vectors = await provider.embed(documents.map(document => document.text));
+    await db.transaction(async (client) => {
+      for (let i = 0; i < documents.length; i++) {
+        await client.query(
+          `INSERT INTO anime_embeddings (anime_id, provider, embedding, updated_at)
+           VALUES ($1, $2, $3, NOW())
+           ON CONFLICT (anime_id, provider) DO UPDATE SET
+             embedding = EXCLUDED.embedding,
+             updated_at = EXCLUDED.updated_at`,
+          [documents[i].mal_id, provider.name, vectors[i]]
+        );
+      }
+    });
+  }
+
+  // Embeddings of a previous model are meaningless in a refitted one
+  async clearEmbeddings(providerName: string): Promise<void> {
+    await db.query('DELETE FROM anime_embeddings WHERE provider = $1', [providerName]);
+  }
+
+  // The configured provider with its stored model loaded; null until `npm run embeddings:build` has run.
+  // Providers with a model of their own (no saveModel) only need their row in embedding_models.
+  async loadProvider(): Promise<EmbeddingProvider | null> {
+    const provider = this.provider || createEmbeddingProvider();
+    const result = await db.query('SELECT model, fitted_at FROM embedding_models WHERE provider = $1', [provider.name]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const fittedAt = result.rows[0].fitted_at.toISOString();
+    if (this.provider !== provider || this.providerFittedAt !== fittedAt) {
+      if (provider.loadModel && result.rows[0].model) {
+        provider.loadModel(result.rows[0].model);
+      }
+      this.provider = provider;
+      this.providerFittedAt = fittedAt;
+    }
+    return provider;
+  }
+
+  // Anime ranked by cosine similarity between their synopsis and the text, optionally narrowed
+  // by the regular search filters. Null when no embeddings have been built yet.
+  async search(params: SemanticSearchParams): Promise<SemanticSearchResult | null> {
+    const { text, min_similarity = DEFAULT_MIN_SIMILARITY, page = 1, limit = 10 } = params;
+
+    const provider = await this.loadProvider();
+    if (!provider) {
+      return null;
+    }
+    const index = await this.loadIndex(provider.name);
+    if (index.ids.length === 0) {
+      return null;
+    }
+
+    const [queryVector] = await provider.embed([text]);
+
+    // Only anime passing the filters are scored (genres, years, sfw, ...)
+    const allowed = new Set(await animeService.findMatchingIds(params));
+
+    const matches: Array<{ mal_id: number; similarity: number }> = [];
+    for (let row = 0; row < index.ids.length; row++) {
+      if (!allowed.has(index.ids[row])) continue;
+
+      // Both vectors are normalized, so the dot product is the cosine similarity
+      let similarity = 0;
+      const offset = row * index.dimensions;
+      for (let dimension = 0; dimension < index.dimensions; dimension++) {
+        similarity += index.vectors[offset + dimension] * queryVector[dimension];
+      }
+      if (similarity >= min_similarity) {
+        matches.push({ mal_id: index.ids[row], similarity });
+      }
+    }
+    matches.sort((a, b) => b.similarity - a.similarity || a.mal_id - b.mal_id);
+
+    const pageMatches = matches.slice((page - 1) * limit, page * limit);
+    const similarityById = new Map(pageMatches.map(match => [match.mal_id, match.similarity]));
+    const anime = await animeService.loadAnimeWithRelations(pageMatches.map(match => match.mal_id));
+    const lastPage = Math.max(1, Math.ceil(matches.length / limit));
+
+    return {
+      total_results: matches.length,
+      showing: anime.length,
+      current_page: page,
+      last_page: lastPage,
+      has_next_page: page < lastPage,
+      items_per_page: limit,
+      provider: provider.name,
+      embedded_count: index.ids.length,
+      results: anime.map(entry => ({
+        ...entry,
+        semantic_similarity: Math.round((similarityById.get(entry.mal_id) || 0) * 10000) / 10000
+      }))
+    };
+  }
+
+  // Vectors are read once and kept until the table changes (a build or update run)
+  private async loadIndex(providerName: string): Promise<VectorIndex> {
+    const versionResult = await db.query(
+      `SELECT COUNT(*) AS total, MAX(updated_at) AS last_updated
+       FROM anime_embeddings
+       WHERE provider = $1`,
+      [providerName]
+    );
+    const { total, last_updated } = versionResult.rows[0];
+    const version = `${total}:${last_updated ? last_updated.toISOString() : ''}:${this.providerFittedAt}`;
+
+    if (this.index && this.index.provider === providerName && this.index.version === version) {
+      return this.index;
+    }
+
+    const result = await db.query(
+      'SELECT anime_id, embedding FROM anime_embeddings WHERE provider = $1 ORDER BY anime_id',
+      [providerName]
+    );
+    const dimensions = result.rows.length > 0 ? result.rows[0].embedding.length : 0;
+    const vectors = new Float32Array(result.rows.length * dimensions);
+    result.rows.forEach((row, position) => vectors.set(row.embedding, position * dimensions));
+
+    this.index = {
+      provider: providerName,
+      version,
+      ids: result.rows.map(row => row.anime_id),
+      vectors,
+      dimensions
+    };
+    return this.index;
+  }
+}
+
+export const semanticSearchService = new SemanticSearchService();
@@ -0,0 +1,282 @@
+// Sentiment engines for review text. An engine scores a text from -1 (negative) to 1 (positive);
+// SENTIMENT_ENGINE picks the one the crawlers and reception analysis use.
+
+export interface SentimentAnalysis {
+  score: number; // -1 (negative) to 1 (positive)
+  label: 'positive' | 'negative' | 'neutral';
+  confidence: number; // 0 to 1
+}
+
+export interface SentimentTerm {
+  word: string;
+  score: number;     // Effective valence after intensifiers and negation
+  negated: boolean;
+}
+
+export interface SentimentScore extends SentimentAnalysis {
+  terms: SentimentTerm[]; // Sentiment-bearing words found, empty when the text has none
+}
+
+export interface SentimentEngine {
+  readonly name: string;
+  analyze(text: string): SentimentScore;
+}
+
+// Share of sentiment words among all words at which confidence reaches 1
+const FULL_CONFIDENCE_DENSITY = 0.1;
+
+function confidenceFor(termCount: number, text: string): number {
+  return Math.max(0.1, Math.min(termCount / (text.split(/\W+/).length * FULL_CONFIDENCE_DENSITY), 1));
+}
+
+function labelFor(score: number, threshold: number): SentimentAnalysis['label'] {
+  if (score > threshold) return 'positive';
+  if (score < -threshold) return 'negative';
+  return 'neutral';
+}
+
+// The original keyword engine: +1/-1 per sentiment word, x1.5 after an intensifier, flipped right
+// after a negator, averaged over the sentiment words of the text
+const POSITIVE_WORDS = [
+  'amazing', 'excellent', 'fantastic', 'brilliant', 'masterpiece',
+  'beautiful', 'perfect', 'incredible', 'outstanding', 'wonderful',
+  'love', 'adore', 'enjoy', 'great', 'awesome', 'superb', 'stunning',
+  'captivating', 'engaging', 'entertaining', 'hilarious', 'touching',
+  'emotional', 'gripping', 'compelling', 'satisfying', 'phenomenal',
+  'breathtaking', 'marvelous', 'spectacular', 'impressive', 'charming',
+  'delightful', 'refreshing', 'unique', 'innovative', 'creative'
+];
+
+const NEGATIVE_WORDS = [
+  'terrible', 'awful', 'horrible', 'boring', 'disappointing',
+  'waste', 'trash', 'bad', 'worst', 'hate', 'annoying',
+  'stupid', 'ridiculous', 'pointless', 'overrated', 'underwhelming',
+  'painful', 'cringe', 'bland', 'dull', 'mediocre', 'weak',
+  'confusing', 'messy', 'rushed', 'poorly', 'lacking', 'forced',
+  'awkward', 'predictable', 'cliche', 'generic', 'uninspired'
+];
+
+const INTENSIFIERS = ['very', 'extremely', 'absolutely', 'incredibly', 'totally', 'completely'];
+const NEGATORS = ['not', 'never', 'no', 'hardly', 'barely', 'scarcely'];
+
+export class LexiconSentimentEngine implements SentimentEngine {
+  readonly name = 'lexicon';
+
+  analyze(text: string): SentimentScore {
+    const terms: SentimentTerm[] = [];
+    let total = 0;
+
+    for (const sentence of text.toLowerCase().split(/[.!?]+/)) {
+      const words = sentence.split(/\W+/);
+
+      for (let i = 0; i < words.length; i++) {
+        const word = words[i];
+        let score = POSITIVE_WORDS.includes(word) ? 1 : NEGATIVE_WORDS.includes(word) ? -1 : 0;
+        if (score === 0) continue;
+
+        const multiplier = i > 0 && INTENSIFIERS.includes(words[i - 1]) ? 1.5 : 1;
+        const negated = i > 0 && NEGATORS.includes(words[i - 1]);
+        if (negated) score = -score;
+
+        total += score * multiplier;
+        terms.push({ word, score: score * multiplier, negated });
+      }
+    }
+
+    if (terms.length === 0) {
+      return { score: 0, label: 'neutral', confidence: 0.1, terms };
+    }
+
+    const score = Math.max(-1, Math.min(1, total / terms.length));
+    return { score, label: labelFor(score, 0.3), confidence: confidenceFor(terms.length, text), terms };
+  }
+}
+
+// VADER-style engine (Hutto & Gilbert, 2014): graded valences from -4 to 4, boosters and dampeners
+// in the three words before a sentiment word, negation scope of three words, "but" shifting weight
+// to the clause after it, ALL CAPS and exclamation marks as emphasis. Each sentence is normalized
+// to a compound score and the review scores the mean over its sentences with sentiment.
+const VADER_LEXICON = new Map<string, number>(Object.entries({
+  // General
+  good: 1.9, great: 3.1, amazing: 2.8, awesome: 3.1, excellent: 2.7, fantastic: 2.6, brilliant: 2.8,
+  beautiful: 2.9, beautifully: 2.7, gorgeous: 3.0, stunning: 2.6, perfect: 2.7, perfectly: 2.5,
+  incredible: 2.3, outstanding: 3.0, wonderful: 2.7, wonderfully: 2.7, love: 3.2, loved: 2.9, loving: 2.9,
+  lovely: 2.8, adore: 2.6, adored: 2.4, enjoy: 2.2, enjoyed: 2.3, enjoyable: 1.9, enjoyment: 2.1, fun: 2.3,
+  funny: 1.9, hilarious: 1.7, liked: 1.8, best: 3.2, better: 1.9, nice: 1.8, superb: 3.1, spectacular: 2.6,
+  impressive: 2.3, impressed: 2.1, charming: 2.1, delightful: 2.9, refreshing: 2.0, unique: 1.5,
+  creative: 1.9, innovative: 1.9, original: 1.3, engaging: 1.8, captivating: 2.0, compelling: 1.9,
+  gripping: 1.8, entertaining: 1.9, satisfying: 2.0, satisfied: 1.8, touching: 1.5, heartwarming: 2.6,
+  wholesome: 2.1, emotional: 0.6, memorable: 2.0, epic: 2.0, solid: 1.5, strong: 1.3, recommend: 1.5,
+  recommended: 1.6, worth: 1.5, masterful: 2.9, masterpiece: 3.2, phenomenal: 3.0, breathtaking: 2.8,
+  marvelous: 2.9, exceptional: 2.7, favorite: 2.0, favourite: 2.0, glad: 2.0, happy: 2.7, cool: 1.3,
+  sweet: 2.0, fine: 0.8, decent: 1.0, interesting: 1.7, intriguing: 1.6, clever: 1.8, smart: 1.7,
+  nuanced: 1.6, polished: 1.6, fluid: 1.2, vibrant: 1.9, immersive: 2.0, addictive: 1.3, thrilling: 2.2,
+  exciting: 2.2, flawless: 2.9, beloved: 2.6,
+  bad: -2.5, terrible: -2.8, awful: -2.9, horrible: -2.9, worst: -3.1, worse: -2.1, boring: -1.9,
+  bored: -1.5, dull: -1.7, bland: -1.4, disappointing: -2.2, disappointed: -2.0, disappointment: -2.3,
+  waste: -1.8, wasted: -1.8, trash: -2.5, garbage: -2.7, hate: -2.7, hated: -3.0, annoying: -1.7,
+  annoyed: -1.6, stupid: -2.4, dumb: -2.3, ridiculous: -1.5, pointless: -1.7, underwhelming: -1.8,
+  painful: -1.9, mediocre: -1.8, weak: -1.6, confusing: -1.3, confused: -1.3, messy: -1.4, mess: -1.5,
+  poorly: -1.8, poor: -2.1, lacking: -1.4, lackluster: -1.8, forced: -1.2, awkward: -1.3, shallow: -1.5,
+  flat: -1.0, unnecessary: -1.2, tedious: -1.9, repetitive: -1.4, slow: -0.6, dragging: -1.3, nonsense: -1.7,
+  lazy: -1.6, ugly: -2.3, sloppy: -1.8, cheap: -1.2, problem: -1.7, problems: -1.7, issue: -0.8,
+  issues: -0.8, flaw: -1.2, flaws: -1.2, flawed: -1.4, fail: -2.5, failed: -2.3, fails: -2.2,
+  unfortunately: -1.5, sadly: -1.5, frustrating: -1.9, frustrated: -1.8, irritating: -2.0,
+  unbearable: -2.8, disaster: -3.1, regret: -1.9, regretted: -1.9, inconsistent: -1.3,
+  // Anime reviews
+  kino: 2.5, goated: 2.8, peak: 2.3, banger: 2.5, bingeable: 2.0, 'binge-worthy': 2.0, rewatchable: 2.0,
+  'must-watch': 2.6, 'well-written': 2.2, 'top-tier': 2.5, underrated: 1.5, sakuga: 1.5,
+  mid: -1.8, overrated: -1.6, overhyped: -1.6, filler: -1.2, fillers: -1.2, rushed: -1.6, cringe: -2.0,
+  cringey: -2.0, cringy: -2.0, asspull: -2.3, 'ass-pull': -2.3, slog: -2.0, snoozefest: -2.5,
+  forgettable: -1.8, generic: -1.3, cliche: -1.2, cliched: -1.3, predictable: -1.2, uninspired: -1.7,
+  pretentious: -1.8, edgy: -1.0, fanservice: -0.8, unwatchable: -3.0, dropped: -1.5, plotholes: -1.5
+}));
+
+// Two-word entries, looked up before single words
+const VADER_PHRASES = new Map<string, number>(Object.entries({
+  'peak fiction': 3.2, 'must watch': 2.6, 'well written': 2.2, 'well done': 2.0, 'top tier': 2.5,
+  'god tier': 3.0, "chef's kiss": 2.8, 'fan service': -0.8, 'plot holes': -1.5, 'plot hole': -1.5,
+  'plot armor': -1.2, 'ass pull': -2.3, 'fell flat': -2.0, 'falls flat': -2.0, 'fell off': -1.8,
+  'dragged out': -1.5, 'waste of': -2.4
+}));
+
+const BOOSTER_INCREMENT = 0.293;
+const BOOSTERS = new Map<string, number>([
+  ...['absolutely', 'completely', 'deeply', 'enormously', 'entirely', 'especially', 'exceptionally',
+    'extremely', 'genuinely', 'greatly', 'highly', 'hugely', 'incredibly', 'insanely', 'intensely',
+    'particularly', 'really', 'remarkably', 'ridiculously', 'seriously', 'so', 'super', 'thoroughly',
+    'totally', 'tremendously', 'truly', 'unbelievably', 'utterly', 'very'].map((word): [string, number] => [word, BOOSTER_INCREMENT]),
+  ...['kinda', 'sorta', 'slightly', 'somewhat', 'marginally', 'partly', 'occasionally', 'kind of', 'sort of',
+    'a bit', 'a little'].map((word): [string, number] => [word, -BOOSTER_INCREMENT])
+]);
+
+const NEGATION_WORDS = new Set([
+  'not', 'no', 'never', 'nothing', 'nowhere', 'none', 'neither', 'nor', 'without', 'hardly', 'barely',
+  'scarcely', 'cannot', 'dont', 'didnt', 'doesnt', 'isnt', 'wasnt', 'arent', 'werent', 'cant', 'couldnt',
+  'wont', 'wouldnt', 'shouldnt', 'aint'
+]);
+
+const NEGATION_SCALAR = -0.74;
+const CAPS_INCREMENT = 0.733;
+const BUT_BEFORE_WEIGHT = 0.5;
+const BUT_AFTER_WEIGHT = 1.5;
+const NORMALIZATION_ALPHA = 15;
+
+function isNegation(word: string): boolean {
+  return NEGATION_WORDS.has(word) || word.endsWith("n't");
+}
+
+function isAllCaps(token: string): boolean {
+  return token.length > 1 && /[A-Z]/.test(token) && token === token.toUpperCase();
+}
+
+export class VaderSentimentEngine implements SentimentEngine {
+  readonly name = 'vader';
+
+  analyze(text: string): SentimentScore {
+    const normalized = text.replace(/[‘’]/g, "'");
+    const tokens = normalized.split(/\s+/).map(token => token.replace(/^[^\w']+|[^\w']+$/g, '')).filter(Boolean);
+    // Caps only emphasize when the rest of the text isn't shouted too
+    const capsDifferential = tokens.some(isAllCaps) && !tokens.every(isAllCaps);
+
+    const terms: SentimentTerm[] = [];
+    const compounds: number[] = [];
+
+    for (const sentence of normalized.match(/[^.!?\n]+[.!?]*/g) || []) {
+      const sentenceTerms = this.scoreSentence(sentence, capsDifferential);
+      if (sentenceTerms.length === 0) continue;
+      terms.push(...sentenceTerms);
+
+      let sum = sentenceTerms.reduce((total, term) => total + term.score, 0);
+      if (sum !== 0) {
+        const exclamations = Math.min((sentence.match(/!/g) || []).length, 4) * 0.292;
+        const questions = (sentence.match(/\?/g) || []).length;
+        const questionEmphasis = questions > 3 ? 0.96 : questions > 1 ? questions * 0.18 : 0;
+        sum += Math.sign(sum) * (exclamations + questionEmphasis);
+      }
+      compounds.push(sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA));
+    }
+
+    if (terms.length === 0) {
+      return { score: 0, label: 'neutral', confidence: 0.1, terms };
+    }
+
+    const score = compounds.reduce((total, compound) => total + compound, 0) / compounds.length;
+    return { score, label: labelFor(score, 0.2), confidence: confidenceFor(terms.length, text), terms };
+  }
+
+  private scoreSentence(sentence: string, capsDifferential: boolean): SentimentTerm[] {
+    const tokens = sentence.split(/\s+/).map(token => token.replace(/^[^\w']+|[^\w']+$/g, '')).filter(Boolean);
+    const words = tokens.map(token => token.toLowerCase());
+    const scored: Array<SentimentTerm & { index: number }> = [];
+
+    for (let i = 0; i < words.length; i++) {
+      const phrase = i + 1 < words.length ? `${words[i]} ${words[i + 1]}` : '';
+      if (BOOSTERS.has(phrase)) {
+        i++;
+        continue;
+      }
+
+      let word = words[i];
+      let valence = VADER_LEXICON.get(word);
+      if (VADER_PHRASES.has(phrase)) {
+        word = phrase;
+        valence = VADER_PHRASES.get(phrase);
+      }
+      if (valence === undefined) continue;
+
+      if (capsDifferential && isAllCaps(tokens[i])) {
+        valence += Math.sign(valence) * CAPS_INCREMENT;
+      }
+
+      // Boosters and dampeners fade with distance: 1, 0.95, 0.9
+      let negated = false;
+      for (let distance = 1; distance <= 3 && i - distance >= 0; distance++) {
+        const previous = words[i - distance];
+        const previousPhrase = i - distance - 1 >= 0 ? `${words[i - distance - 1]} ${previous}` : '';
+        const boost = BOOSTERS.get(previousPhrase) ?? BOOSTERS.get(previous);
+        if (boost !== undefined) {
+          let scalar = Math.sign(valence) * boost;
+          if (capsDifferential && isAllCaps(tokens[i - distance])) {
+            scalar += Math.sign(valence) * CAPS_INCREMENT;
+          }
+          valence += scalar * (1 - 0.05 * (distance - 1));
+        }
+        if (isNegation(previous)) negated = true;
+      }
+      if (negated) valence *= NEGATION_SCALAR;
+
+      scored.push({ word, score: valence, negated, index: i });
+      if (word === phrase) i++;
+    }
+
+    // "but" shifts weight to the clause after it
+    const butIndex = words.indexOf('but');
+    return scored.map(({ index, ...term }) => {
+      if (butIndex === -1) return term;
+      return { ...term, score: term.score * (index < butIndex ? BUT_BEFORE_WEIGHT : BUT_AFTER_WEIGHT) };
+    });
+  }
+}
+
+// Engines by name; SENTIMENT_ENGINE picks one. Register others before first use.
+const engineFactories = new Map<string, () => SentimentEngine>([
+  ['lexicon', () => new LexiconSentimentEngine()],
+  ['vader', () => new VaderSentimentEngine()]
+]);
+
+export function registerSentimentEngine(name: string, factory: () => SentimentEngine): void {
+  engineFactories.set(name, factory);
+}
+
+export function listSentimentEngines(): string[] {
+  return [...engineFactories.keys()];
+}
+
+export function createSentimentEngine(name: string = process.env.SENTIMENT_ENGINE || 'lexicon'): SentimentEngine {
+  const factory = engineFactories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown sentiment engine: ${name}. Known engines: ${listSentimentEngines().join(', ')}`);
+  }
+  return factory();
+}
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifySpoilers, REDACTED_TEXT, redactSpoilers, SpoilerSpan } from './spoilerClassifier';
+
+const R = REDACTED_TEXT;
+
+function span(start: number, end: number): SpoilerSpan {
+  return { start, end, reasons: ['marker'] };
+}
+
+describe('redactSpoilers', () => {
+  const text = 'abcdefghij';
+  const cases: Array<{ name: string; spans: SpoilerSpan[]; redacted: string }> = [
+    { name: 'keeps text without spans', spans: [], redacted: 'abcdefghij' },
+    { name: 'replaces a span', spans: [span(2, 5)], redacted: `ab${R}fghij` },
+    { name: 'replaces the whole text', spans: [span(0, 10)], redacted: R },
+    { name: 'sorts spans', spans: [span(6, 8), span(0, 2)], redacted: `${R}cdef${R}ij` },
+    { name: 'merges overlapping spans', spans: [span(1, 4), span(3, 6)], redacted: `a${R}ghij` },
+    { name: 'merges touching spans', spans: [span(1, 3), span(3, 5)], redacted: `a${R}fghij` },
+    { name: 'merges nested spans', spans: [span(1, 8), span(2, 3)], redacted: `a${R}ij` }
+  ];
+
+  for (const { name, spans, redacted } of cases) {
+    it(name, () => {
+      assert.equal(redactSpoilers(text, spans), redacted);
+    });
+  }
+});
+
+describe('classifySpoilers', () => {
+  const cases: Array<{ name: string; text: string; flagged?: boolean; spans: Array<{ from: string; to: string; reasons: string[] }>; redacted: string }> = [
+    {
+      name: 'finds nothing in a spoiler-free review',
+      text: 'No spoilers: the art is great. Watch it.',
+      spans: [],
+      redacted: 'No spoilers: the art is great. Watch it.'
+    },
+    {
+      name: 'covers a [spoiler] block',
+      text: 'Great art. [spoiler]It was all a dream[/spoiler] Watch it.',
+      spans: [{ from: '[spoiler]', to: '[/spoiler]', reasons: ['marker'] }],
+      redacted: `Great art. ${R} Watch it.`
+    },
+    {
+      name: 'covers the sentence of an episode event',
+      text: 'The animation is great. In episode 20 she finds out the truth. Worth it.',
+      spans: [{ from: 'In episode', to: 'truth.', reasons: ['episode'] }],
+      redacted: `The animation is great. ${R} Worth it.`
+    },
+    {
+      name: 'merges sentence signals into the enclosing block',
+      text: '[spoiler]The mentor dies in episode 12.[/spoiler] Still great.',
+      spans: [{ from: '[spoiler]', to: '[/spoiler]', reasons: ['marker', 'character_death', 'episode'] }],
+      redacted: `${R} Still great.`
+    },
+    {
+      name: 'covers everything when the author flagged the review',
+      text: 'Great art. Watch it.',
+      flagged: true,
+      spans: [{ from: 'Great', to: 'it.', reasons: ['flagged'] }],
+      redacted: R
+    }
+  ];
+
+  for (const { name, text, flagged, spans, redacted } of cases) {
+    it(name, () => {
+      const classification = classifySpoilers(text, flagged);
+      assert.equal(classification.is_spoiler, spans.length > 0);
+      assert.deepEqual(classification.spoiler_spans, spans.map(({ from, to, reasons }) => ({
+        start: text.indexOf(from),
+        end: text.indexOf(to) + to.length,
+        reasons
+      })));
+      assert.equal(redactSpoilers(text, classification.spoiler_spans), redacted);
+    });
+  }
+});
@@ -0,0 +1,146 @@
+// Spoiler detection for review text. Sentences carrying a spoiler signal become spans (character
+// offsets into the review) that can be redacted, so reviews are safe to show before watching.
+
+export type SpoilerReason = 'marker' | 'character_death' | 'ending' | 'episode' | 'flagged';
+
+export interface SpoilerSpan {
+  start: number;
+  end: number;
+  reasons: SpoilerReason[];
+}
+
+export interface SpoilerClassification {
+  is_spoiler: boolean;
+  spoiler_spans: SpoilerSpan[];
+}
+
+// hide: leave spoiler reviews out, redact: blank the spoiling sentences, show: full text with spans
+export type SpoilerMode = 'hide' | 'redact' | 'show';
+
+export const SPOILER_MODES: SpoilerMode[] = ['hide', 'redact', 'show'];
+
+export const REDACTED_TEXT = '[spoiler redacted]';
+
+// [spoiler]...[/spoiler] blocks, as MAL's editor writes them
+const SPOILER_BLOCK = /\[spoiler(?:=[^\]]*)?\]([\s\S]*?)\[\/spoiler\]/gi;
+
+// "Spoilers ahead", "Major spoilers:", "spoiler warning" cover the rest of the paragraph, or up to "end spoilers"
+const SPOILER_ANNOUNCEMENT = /\b(?:spoilers? (?:ahead|below|warning|alert|follow)|(?:minor |major |mild |heavy )?spoilers?:|warning:? spoilers?)/gi;
+const SPOILER_END = /\b(?:end (?:of )?spoilers?|spoilers? (?:end|over))\b|\n\s*\n/i;
+// "No spoilers:", "without spoilers ahead" announce the opposite
+const NO_SPOILERS = /\b(?:no|without|free of|non)\W*$/i;
+
+const DEATH = /\b(?:dies|died|dying|killed|kills|murdered|is dead|was dead|are dead|death of|sacrifices? (?:himself|herself|themselves|his life|her life)|commits? suicide|committed suicide|passes away|passed away)\b/i;
+// A death only spoils when it happens to someone
+const CHARACTER = /\b(?:mc|protagonist|main character|hero|heroine|villain|antagonist|father|mother|dad|mom|sister|brother|best friend|friend|mentor|love interest|wife|husband|girlfriend|boyfriend|teacher|captain|everyone|everybody)\b/i;
+const NAME = /(?<=\S\s+)(?!(?:I|The|This|That|It|He|She|They|But|And|In|If|Episode|Season|Anime|Japanese|English|MAL|OST|OP|ED|TV|CGI)\b)[A-Z][a-z]+/;
+
+const ENDING = /\b(?:turns? out (?:to be|that)|turned out (?:to be|that)|(?:is|was|are|were|gets?|got) revealed (?:to be|that|as)|reveals? (?:that|himself|herself|themselves)|the (?:plot )?twist (?:is|was) that|plot twist:|ends up (?:dying|dead|together|married|marrying|killing|alone)|end up together|get together (?:in|at) the end|the (?:final|last) (?:episode|scene|arc|battle) (?:shows|reveals|ends with)|(?:final|last) (?:episode|scene) where)\b/i;
+const ENDING_EVENT = /\b[Ii]n the (?:end|last episode|final episode|finale),? (?:he|she|they|(?!It\b|This\b|The\b)[A-Z][a-z]+) \w+/;
+
+const EPISODE = /\b(?:episode|ep\.?)\s*#?\d+\b/i;
+// "It gets good after episode 3" is advice, "in episode 20 she finds out" is plot
+const EPISODE_EVENT = /\b(?:happens|reveals?|revealed|dies|died|shows|finds out|found out|learns|discovers|confess(?:es|ed)|betray(?:s|ed)|returns|comes back|finally|kills|killed|turns out|appears)\b/i;
+
+// Sentences with their offsets, surrounding whitespace excluded
+function sentences(text: string): Array<{ start: number; end: number; text: string }> {
+  const result: Array<{ start: number; end: number; text: string }> = [];
+  for (const match of text.matchAll(/[^.!?\n]+(?:[.!?]+|\n|$)/g)) {
+    const raw = match[0];
+    const trimmed = raw.trim();
+    if (!trimmed) continue;
+    const start = (match.index || 0) + (raw.length - raw.trimStart().length);
+    result.push({ start, end: start + trimmed.length, text: trimmed });
+  }
+  return result;
+}
+
+function mergeSpans(spans: SpoilerSpan[]): SpoilerSpan[] {
+  const merged: SpoilerSpan[] = [];
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+      last.reasons = [...new Set([...last.reasons, ...span.reasons])];
+    } else {
+      merged.push({ ...span, reasons: [...span.reasons] });
+    }
+  }
+  return merged;
+}
+
+// Classify one review. `flagged` is the author's own spoiler flag from MAL, which covers the whole text.
+export function classifySpoilers(reviewText: string, flagged: boolean = false): SpoilerClassification {
+  const text = reviewText || '';
+  const spans: SpoilerSpan[] = [];
+
+  for (const match of text.matchAll(SPOILER_BLOCK)) {
+    const start = match.index || 0;
+    spans.push({ start, end: start + match[0].length, reasons: ['marker'] });
+  }
+
+  for (const match of text.matchAll(SPOILER_ANNOUNCEMENT)) {
+    const start = match.index || 0;
+    if (NO_SPOILERS.test(text.slice(Math.max(0, start - 15), start))) continue;
+    const rest = text.slice(start + match[0].length);
+    const endMatch = rest.match(SPOILER_END);
+    // An "end spoilers" marker is redacted with the block, a paragraph break is kept
+    const endLength = endMatch && endMatch[0].trim() ? endMatch[0].length : 0;
+    const end = endMatch ? start + match[0].length + (endMatch.index || 0) + endLength : text.length;
+    spans.push({ start, end, reasons: ['marker'] });
+  }
+
+  for (const sentence of sentences(text)) {
+    const reasons: SpoilerReason[] = [];
+    if (DEATH.test(sentence.text) && (CHARACTER.test(sentence.text) || NAME.test(sentence.text))) {
+      reasons.push('character_death');
+    }
+    if (ENDING.test(sentence.text) || ENDING_EVENT.test(sentence.text)) {
+      reasons.push('ending');
+    }
+    if (EPISODE.test(sentence.text) && EPISODE_EVENT.test(sentence.text)) {
+      reasons.push('episode');
+    }
+    if (reasons.length > 0) {
+      spans.push({ start: sentence.start, end: sentence.end, reasons });
+    }
+  }
+
+  if (flagged && text.length > 0) {
+    spans.push({ start: 0, end: text.length, reasons: ['flagged'] });
+  }
+
+  const merged = mergeSpans(spans);
+  return { is_spoiler: merged.length > 0, spoiler_spans: merged };
+}
+
+export function redactSpoilers(reviewText: string, spans: SpoilerSpan[]): string {
+  let result = '';
+  let position = 0;
+  for (const span of mergeSpans(spans)) {
+    result += reviewText.slice(position, span.start) + REDACTED_TEXT;
+    position = Math.max(position, span.end);
+  }
+  return result + reviewText.slice(position);
+}
+
+// Review text as a review endpoint returns it. Reviews stored before classification are classified
+// on the fly; `hide` can only filter classified reviews in SQL, so unclassified spoilers are redacted.
+export function applySpoilerMode(
+  review: { review_text: string | null; is_spoiler?: boolean | null; spoiler_spans?: SpoilerSpan[] | null },
+  mode: SpoilerMode
+): { review_text: string | null; is_spoiler: boolean; spoiler_spans?: SpoilerSpan[] } {
+  const classification: SpoilerClassification = review.is_spoiler === null || review.is_spoiler === undefined
+    ? classifySpoilers(review.review_text || '')
+    : { is_spoiler: review.is_spoiler, spoiler_spans: review.spoiler_spans || [] };
+
+  if (mode === 'show') {
+    return { review_text: review.review_text, ...classification };
+  }
+  return {
+    review_text: review.review_text && classification.is_spoiler
+      ? redactSpoilers(review.review_text, classification.spoiler_spans)
+      : review.review_text,
+    is_spoiler: classification.is_spoiler
+  };
+}
@@ -0,0 +1,118 @@
+import { db } from '../database/connection';
+import { AnimeStaffList, JikanStaffEntry, PersonFilmography } from '../types/anime';
+
+export class StaffService {
+
+  // Replace the staff credits of an anime with the ones reported by Jikan
+  async replaceAnimeStaff(animeId: number, entries: JikanStaffEntry[]): Promise<number> {
+    return db.transaction(async (client) => {
+      await client.query('DELETE FROM anime_staff WHERE anime_id = $1', [animeId]);
+
+      let creditsCreated = 0;
+      for (const entry of entries || []) {
+        const person = entry.person;
+        await client.query(
+          `INSERT INTO people (mal_id, name, url, image_url)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (mal_id) DO UPDATE SET
+             name = EXCLUDED.name,
+             url = EXCLUDED.url,
+             image_url = EXCLUDED.image_url`,
+          [person.mal_id, person.name, person.url, person.images?.jpg?.image_url || null]
+        );
+
+        for (const position of entry.positions || []) {
+          await client.query(
+            `INSERT INTO anime_staff (anime_id, person_id, position)
+             VALUES ($1, $2, $3)
+             ON CONFLICT DO NOTHING`,
+            [animeId, person.mal_id, position]
+          );
+          creditsCreated++;
+        }
+      }
+
+      return creditsCreated;
+    });
+  }
+
+  // Get the staff of an anime, directors first
+  async getAnimeStaff(animeId: number, position?: string): Promise<AnimeStaffList | null> {
+    const animeResult = await db.query('SELECT mal_id, title FROM anime WHERE mal_id = $1', [animeId]);
+    if (animeResult.rows.length === 0) {
+      return null;
+    }
+
+    const params: any[] = [animeId];
+    let positionCondition = '';
+    if (position) {
+      params.push(position);
+      positionCondition = `AND s.position ILIKE '%' || $2 || '%'`;
+    }
+
+    const query = `
+      SELECT
+        p.mal_id,
+        p.name,
+        p.image_url,
+        array_agg(s.position ORDER BY s.position) AS positions
+      FROM anime_staff s
+      JOIN people p ON p.mal_id = s.person_id
+      WHERE s.anime_id = $1 ${positionCondition}
+      GROUP BY p.mal_id, p.name, p.image_url
+      ORDER BY BOOL_OR(s.position = 'Director') DESC, COUNT(*) DESC, p.name
+    `;
+    const result = await db.query(query, params);
+
+    return {
+      anime_id: animeId,
+      title: animeResult.rows[0].title,
+      total_staff: result.rows.length,
+      staff: result.rows
+    };
+  }
+
+  // Get everything a person worked on as staff, best scored first
+  async getPersonFilmography(personId: number, position?: string): Promise<PersonFilmography | null> {
+    const personResult = await db.query(
+      'SELECT mal_id, name, url, image_url FROM people WHERE mal_id = $1',
+      [personId]
+    );
+
+    if (personResult.rows.length === 0) {
+      return null;
+    }
+
+    const params: any[] = [personId];
+    let positionCondition = '';
+    if (position) {
+      params.push(position);
+      positionCondition = `AND s.position ILIKE '%' || $2 || '%'`;
+    }
+
+    const query = `
+      SELECT
+        a.mal_id,
+        a.title,
+        a.type,
+        a.year,
+        a.score,
+        a.members,
+        array_agg(s.position ORDER BY s.position) AS positions
+      FROM anime_staff s
+      JOIN anime a ON a.mal_id = s.anime_id
+      WHERE s.person_id = $1 ${positionCondition}
+      GROUP BY a.mal_id, a.title, a.type, a.year, a.score, a.members
+      ORDER BY a.score DESC NULLS LAST, a.members DESC NULLS LAST
+    `;
+    const result = await db.query(query, params);
+
+    return {
+      person: personResult.rows[0],
+      total_credits: result.rows.length,
+      filmography: result.rows
+    };
+  }
+}
+
+export const staffService = new StaffService();
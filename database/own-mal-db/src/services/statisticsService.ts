@@ -0,0 +1,169 @@
+import { db, PoolClient } from '../database/connection';
+import { CacheTags, invalidateCache } from './responseCache';
+import { AnimeStatisticsReport, ControversialAnime, ControversialAnimeParams, Statistics, StatisticsMetrics } from '../types/anime';
+
+// Standard deviation of an even split between 1s and 10s, the most divided a 1-10 vote can be
+const MAX_SCORE_STDDEV = 4.5;
+
+const DEFAULT_MIN_CONTROVERSY_VOTES = 1000;
+
+// Columns of the anime table that mirror StatisticsMetrics (score_mean is only reported, the MAL score is stored already)
+export const STATISTICS_METRIC_COLUMNS = [
+  'drop_rate', 'completion_rate', 'score_votes', 'score_stddev', 'score_skewness', 'score_entropy', 'vote_controversy'
+] as const;
+
+function round(value: number, digits: number = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Derive watch and vote metrics from MAL's statistics JSON. Anything that can't be computed
+// (no statistics yet, nobody started the anime, no score votes) is null.
+export function computeStatisticsMetrics(statistics: Statistics | null | undefined): StatisticsMetrics {
+  const metrics: StatisticsMetrics = {
+    drop_rate: null,
+    completion_rate: null,
+    score_votes: null,
+    score_mean: null,
+    score_stddev: null,
+    score_skewness: null,
+    score_entropy: null,
+    vote_controversy: null
+  };
+  if (!statistics) return metrics;
+
+  // Plan to watch doesn't count: those users never had the chance to finish or drop it
+  const started = (statistics.watching || 0) + (statistics.completed || 0) + (statistics.on_hold || 0) + (statistics.dropped || 0);
+  if (started > 0) {
+    metrics.drop_rate = round((statistics.dropped || 0) / started);
+    metrics.completion_rate = round((statistics.completed || 0) / started);
+  }
+
+  const scores = (statistics.scores || []).filter(entry => entry.score >= 1 && entry.score <= 10 && entry.votes > 0);
+  const votes = scores.reduce((total, entry) => total + entry.votes, 0);
+  if (votes === 0) return metrics;
+
+  const mean = scores.reduce((total, entry) => total + entry.score * entry.votes, 0) / votes;
+  const moment = (power: number) => scores.reduce((total, entry) => total + entry.votes * (entry.score - mean) ** power, 0) / votes;
+  const stddev = Math.sqrt(moment(2));
+  const entropy = scores.reduce((total, entry) => {
+    const share = entry.votes / votes;
+    return total + share * Math.log(1 / share);
+  }, 0) / Math.log(10);
+
+  metrics.score_votes = votes;
+  metrics.score_mean = round(mean, 2);
+  metrics.score_stddev = round(stddev);
+  metrics.score_skewness = stddev > 0 ? round(moment(3) / stddev ** 3) : 0;
+  metrics.score_entropy = round(entropy);
+  metrics.vote_controversy = round(Math.min(stddev / MAX_SCORE_STDDEV, 1));
+
+  return metrics;
+}
+
+export class StatisticsService {
+
+  // Store the statistics of an anime together with the metrics derived from them.
+  // Pass the client when called inside a transaction.
+  async storeAnimeStatistics(malId: number, statistics: Statistics, client?: PoolClient): Promise<StatisticsMetrics> {
+    const metrics = computeStatisticsMetrics(statistics);
+    const store = (conn: PoolClient) => conn.query(
+      `UPDATE anime SET
+         statistics = $2,
+         ${STATISTICS_METRIC_COLUMNS.map((column, index) => `${column} = $${index + 3}`).join(',\n         ')},
+         updated_at = NOW()
+       WHERE mal_id = $1`,
+      [malId, JSON.stringify(statistics), ...STATISTICS_METRIC_COLUMNS.map(column => metrics[column])]
+    );
+    await (client ? store(client) : db.transaction(store));
+
+    if (!client) {
+      await invalidateCache([CacheTags.anime, CacheTags.animeById(malId)]);
+    }
+    return metrics;
+  }
+
+  // Recompute the stored metrics from the stored statistics JSON, e.g. after the migration or a formula change
+  async recomputeMetrics(rows: Array<{ mal_id: number; statistics: Statistics | null }>): Promise<void> {
+    await db.transaction(async (client) => {
+      for (const row of rows) {
+        if (row.statistics) {
+          await this.storeAnimeStatistics(row.mal_id, row.statistics, client);
+        }
+      }
+    });
+    await invalidateCache([CacheTags.anime]);
+  }
+
+  // Watch and vote breakdown of an anime; null if the anime doesn't exist
+  async getAnimeStatistics(malId: number): Promise<AnimeStatisticsReport | null> {
+    const result = await db.query('SELECT mal_id, title, status, statistics FROM anime WHERE mal_id = $1', [malId]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    const statistics: Statistics = row.statistics || {};
+    const watching = statistics.watching || 0;
+    const completed = statistics.completed || 0;
+    const onHold = statistics.on_hold || 0;
+    const dropped = statistics.dropped || 0;
+    const planToWatch = statistics.plan_to_watch || 0;
+
+    return {
+      mal_id: row.mal_id,
+      title: row.title,
+      status: row.status,
+      user_counts: {
+        watching,
+        completed,
+        on_hold: onHold,
+        dropped,
+        plan_to_watch: planToWatch,
+        total: statistics.total || watching + completed + onHold + dropped + planToWatch
+      },
+      score_distribution: [...(statistics.scores || [])].sort((a, b) => b.score - a.score),
+      metrics: computeStatisticsMetrics(row.statistics)
+    };
+  }
+
+  // Anime whose voters disagree the most: votes spread towards both ends of the scale
+  async getControversialAnime(params: ControversialAnimeParams = {}): Promise<ControversialAnime[]> {
+    const { min_votes = DEFAULT_MIN_CONTROVERSY_VOTES, type, sfw = true, limit = 20 } = params;
+
+    const conditions = ['a.vote_controversy IS NOT NULL', 'a.score_votes >= $1'];
+    const queryParams: any[] = [min_votes];
+
+    if (type) {
+      queryParams.push(type);
+      conditions.push(`a.type = $${queryParams.length}`);
+    }
+
+    if (sfw) {
+      conditions.push(`a.mal_id NOT IN (
+        SELECT ag.anime_id
+        FROM anime_genres ag
+        JOIN genres g ON ag.genre_id = g.id
+        WHERE g.name IN ('Hentai', 'Erotica')
+      )`);
+    }
+
+    queryParams.push(limit);
+    const result = await db.query(`
+      SELECT
+        a.mal_id, a.title, a.type, a.year, a.score, a.score_votes, a.score_stddev,
+        a.score_entropy, a.vote_controversy, a.drop_rate
+      FROM anime a
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY a.vote_controversy DESC, a.score_votes DESC, a.mal_id
+      LIMIT $${queryParams.length}
+    `, queryParams);
+
+    return result.rows.map(row => ({
+      ...row,
+      score: row.score !== null ? parseFloat(row.score) : null
+    }));
+  }
+}
+
+export const statisticsService = new StatisticsService();
@@ -0,0 +1,131 @@
+// Title normalization for matching romanized and Japanese-script titles against each other.
+// "Kyōkai no Kanata", "Kyoukai no Kanata" and "きょうかいのかなた" all reduce to the same search key.
+// Kanji are kept as-is (transliterating them needs a dictionary), so kanji titles only match kanji queries.
+
+const HIRAGANA_ROMAJI: Record<string, string> = {
+  'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+  'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+  'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+  'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
+  'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+  'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
+  'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
+  'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+  'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho',
+  'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+  'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+  'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+  'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+  'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
+  'わ': 'wa', 'ゐ': 'i', 'ゑ': 'e', 'を': 'wo', 'ん': 'n', 'ゔ': 'vu'
+};
+
+// Small kana that combine with the preceding syllable (きゃ → kya, ふぁ → fa, ティ → ti)
+const SMALL_YOON: Record<string, string> = { 'ゃ': 'ya', 'ゅ': 'yu', 'ょ': 'yo' };
+const SMALL_VOWELS: Record<string, string> = { 'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o', 'ゎ': 'wa' };
+
+const SOKUON = 'っ';
+const LONG_VOWEL_MARK = 'ー';
+
+// Katakana ァ..ヶ sit exactly 0x60 code points above their hiragana counterparts
+function katakanaToHiragana(text: string): string {
+  return text.replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
+
+// Hepburn transliteration of kana; everything else passes through unchanged
+export function kanaToRomaji(text: string): string {
+  const chars = Array.from(katakanaToHiragana(text));
+  let output = '';
+  let geminate = false;
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+
+    if (char === SOKUON) {
+      geminate = true;
+      continue;
+    }
+    // Long vowels are folded away by normalizeTitle anyway
+    if (char === LONG_VOWEL_MARK) {
+      continue;
+    }
+
+    let syllable = HIRAGANA_ROMAJI[char] ?? SMALL_VOWELS[char] ?? SMALL_YOON[char];
+    if (syllable === undefined) {
+      output += char;
+      geminate = false;
+      continue;
+    }
+
+    const next = chars[i + 1];
+    if (HIRAGANA_ROMAJI[char] && SMALL_YOON[next] && syllable.endsWith('i') && syllable.length > 1) {
+      const glide = SMALL_YOON[next];
+      // shi/chi/ji drop the y: しゃ → sha, not shya
+      syllable = /^(sh|ch|j)/.test(syllable) ? syllable.slice(0, -1) + glide.slice(1) : syllable.slice(0, -1) + glide;
+      i++;
+    } else if (HIRAGANA_ROMAJI[char] && SMALL_VOWELS[next] && next !== 'ゎ') {
+      const vowel = SMALL_VOWELS[next];
+      syllable = syllable.length > 1 ? syllable.slice(0, -1) + vowel : `w${vowel}`;
+      i++;
+    }
+
+    if (geminate) {
+      syllable = (syllable.startsWith('ch') ? 't' : syllable[0]) + syllable;
+      geminate = false;
+    }
+    output += syllable;
+  }
+
+  return output;
+}
+
+// Lowercase romanized form with diacritics, punctuation and long vowels folded:
+// "Kimetsu no Yaiba: Mugen Ressha-hen" → "kimetsu no yaiba mugen ressha hen"
+export function normalizeTitle(title: string): string {
+  return kanaToRomaji(title.normalize('NFKC').toLowerCase())
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')          // ō → o, é → e
+    .replace(/[^\p{L}\p{N}]+/gu, ' ') // punctuation and symbols separate words
+    .replace(/ou/g, 'o')              // ou / ō / oo are all the same long o
+    .replace(/([aeiou])\1+/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Whitespace-free key stored per title and synonym; kana have no word breaks, so neither do keys
+export function titleSearchKey(title: string): string {
+  return normalizeTitle(title).replace(/ /g, '');
+}
+
+export type TitleKeySource = 'title' | 'english' | 'japanese' | 'synonym';
+
+export interface TitleKey {
+  search_key: string;
+  source: TitleKeySource;
+  title: string;
+}
+
+// Search keys for every title of an anime, first occurrence winning when two titles reduce to the same key
+export function buildTitleKeys(anime: {
+  title?: string | null;
+  title_english?: string | null;
+  title_japanese?: string | null;
+  title_synonyms?: string[] | null;
+}): TitleKey[] {
+  const candidates: Array<[TitleKeySource, string | null | undefined]> = [
+    ['title', anime.title],
+    ['english', anime.title_english],
+    ['japanese', anime.title_japanese],
+    ...(anime.title_synonyms || []).map(synonym => ['synonym', synonym] as [TitleKeySource, string])
+  ];
+
+  const keys = new Map<string, TitleKey>();
+  for (const [source, title] of candidates) {
+    if (!title) continue;
+    const searchKey = titleSearchKey(title);
+    if (searchKey && !keys.has(searchKey)) {
+      keys.set(searchKey, { search_key: searchKey, source, title });
+    }
+  }
+  return Array.from(keys.values());
+}
@@ -0,0 +1,222 @@
+import { db, PoolClient } from '../database/connection';
+import { CacheTags, invalidateCache } from './responseCache';
+import { AnimeVibeTag, VibeAnime, VibeBrowseParams, VibeSummary } from '../types/anime';
+
+// Vibe tags reviewers use for how a show feels, with the phrases that count as calling it that.
+// Patterns run on lowercased review text; each review counts at most once per tag.
+export const VIBE_TAGS = {
+  slow_burn: {
+    label: 'Slow burn',
+    patterns: [/\bslow[- ]?burn(?:ing|er)?\b/, /\btakes? (?:its|their) (?:sweet )?time\b/, /\bpatience (?:pays off|is rewarded)\b/]
+  },
+  comfy: {
+    label: 'Comfy',
+    patterns: [/\bcomfy\b/, /\bco[sz]y\b/, /\biyashikei\b/, /\brelaxing\b/, /\bsoothing\b/]
+  },
+  tearjerker: {
+    label: 'Tearjerker',
+    patterns: [/\btear[- ]?jerk(?:er|ing)\b/, /\b(?:made|make|makes|making) me (?:cry|tear up|sob|bawl)\b/, /\b(?:cried|sobbed|bawled)\b/, /\bbring(?:s)? (?:you|me) to tears\b/, /\bin tears\b/]
+  },
+  mindfuck: {
+    label: 'Mindfuck',
+    patterns: [/\bmind[- ]?f(?:u|\*)ck(?:ing|ery)?\b/, /\bmind[- ]?(?:bending|screw|blowing|boggling)\b/, /\bmess(?:es|ed)? with (?:your|my) (?:head|mind)\b/, /\bpsychological thriller\b/]
+  },
+  wholesome: {
+    label: 'Wholesome',
+    patterns: [/\bwholesome\b/, /\bheart[- ]?warming\b/, /\bsweet and (?:innocent|pure)\b/]
+  },
+  feel_good: {
+    label: 'Feel-good',
+    patterns: [/\bfeel[- ]good\b/, /\buplifting\b/, /\b(?:made|makes) me smile\b/, /\bput(?:s)? a smile on\b/]
+  },
+  bittersweet: {
+    label: 'Bittersweet',
+    patterns: [/\bbitter[- ]?sweet\b/, /\bmelanchol(?:y|ic)\b/, /\bnostalgic\b/]
+  },
+  dark: {
+    label: 'Dark',
+    patterns: [/\bdark (?:themes?|tone|story|atmosphere|and (?:gritty|depressing|disturbing))\b/, /\bgrimdark\b/, /\bbleak\b/, /\bdisturbing\b/, /\bdepressing\b/]
+  },
+  hype: {
+    label: 'Hype',
+    patterns: [/\bhype (?:moments?|scenes?|fights?|train)\b/, /\bpeak fiction\b/, /\badrenaline\b/, /\bedge of (?:my|your) seat\b/, /\bgoosebumps\b/]
+  }
+} as const;
+
+export type VibeTag = keyof typeof VIBE_TAGS;
+
+export const VIBE_TAG_NAMES = Object.keys(VIBE_TAGS) as VibeTag[];
+
+// A tag mentioned by a single reviewer is an opinion, not a vibe
+const MIN_SUPPORT = 2;
+
+// Share of reviews mentioning a tag at which confidence reaches 1: when a quarter of the reviewers
+// bring it up unprompted, the show clearly has that vibe
+const FULL_CONFIDENCE_SHARE = 0.25;
+
+// "not comfy", "never made me cry", "wasn't a tearjerker" don't count
+const NEGATION = /\b(?:not|never|no|isn't|wasn't|aren't|doesn't|didn't|don't|hardly|nothing|without)\b(?:\W+\w+){0,2}\W*$/;
+
+// Lower bound of the 95% Wilson score interval for the share of reviews mentioning a tag,
+// so 2 mentions out of 3 reviews count for less than 40 out of 60
+function wilsonLowerBound(support: number, total: number): number {
+  if (total === 0) return 0;
+  const z = 1.96;
+  const share = support / total;
+  const denominator = 1 + (z * z) / total;
+  const centre = share + (z * z) / (2 * total);
+  const margin = z * Math.sqrt((share * (1 - share) + (z * z) / (4 * total)) / total);
+  return (centre - margin) / denominator;
+}
+
+// Tags one review calls the show
+export function findVibeTags(reviewText: string): VibeTag[] {
+  const text = reviewText.toLowerCase();
+  return VIBE_TAG_NAMES.filter(tag =>
+    VIBE_TAGS[tag].patterns.some(pattern => {
+      const globalPattern = new RegExp(pattern.source, 'g');
+      for (const match of text.matchAll(globalPattern)) {
+        const before = text.slice(Math.max(0, (match.index || 0) - 40), match.index);
+        if (!NEGATION.test(before)) return true;
+      }
+      return false;
+    })
+  );
+}
+
+// Per-anime tags from all of its reviews: support is the number of reviews mentioning the tag
+export function extractVibeTags(reviewTexts: string[]): AnimeVibeTag[] {
+  const support = new Map<VibeTag, number>();
+  for (const text of reviewTexts) {
+    for (const tag of findVibeTags(text || '')) {
+      support.set(tag, (support.get(tag) || 0) + 1);
+    }
+  }
+
+  return [...support.entries()]
+    .filter(([, count]) => count >= MIN_SUPPORT)
+    .map(([tag, count]) => ({
+      tag,
+      label: VIBE_TAGS[tag].label,
+      support: count,
+      review_count: reviewTexts.length,
+      confidence: Math.round(Math.min(wilsonLowerBound(count, reviewTexts.length) / FULL_CONFIDENCE_SHARE, 1) * 1000) / 1000
+    }))
+    .sort((a, b) => b.confidence - a.confidence || b.support - a.support);
+}
+
+export class VibeTagService {
+
+  // Re-extract an anime's tags from its reviews, replacing the stored ones.
+  // Pass the client when called inside a transaction.
+  async updateAnimeVibeTags(animeId: number, client?: PoolClient): Promise<AnimeVibeTag[]> {
+    const reviewsQuery = 'SELECT review_text FROM anime_reviews WHERE anime_id = $1 AND review_text IS NOT NULL';
+    const reviews = client ? await client.query(reviewsQuery, [animeId]) : await db.query(reviewsQuery, [animeId]);
+    const tags = extractVibeTags(reviews.rows.map(row => row.review_text));
+
+    const store = async (conn: PoolClient) => {
+      await conn.query('DELETE FROM anime_vibe_tags WHERE anime_id = $1', [animeId]);
+      for (const tag of tags) {
+        await conn.query(
+          `INSERT INTO anime_vibe_tags (anime_id, tag, support, review_count, confidence, updated_at)
+           VALUES ($1, $2, $3, $4, $5, NOW())`,
+          [animeId, tag.tag, tag.support, tag.review_count, tag.confidence]
+        );
+      }
+    };
+    await (client ? store(client) : db.transaction(store));
+
+    if (!client) {
+      await invalidateCache([CacheTags.anime, CacheTags.animeById(animeId)]);
+    }
+    return tags;
+  }
+
+  async getAnimeVibeTags(animeId: number): Promise<AnimeVibeTag[]> {
+    const result = await db.query(
+      `SELECT tag, support, review_count, confidence
+       FROM anime_vibe_tags
+       WHERE anime_id = $1
+       ORDER BY confidence DESC, support DESC`,
+      [animeId]
+    );
+
+    return result.rows
+      .filter(row => row.tag in VIBE_TAGS)
+      .map(row => ({
+        tag: row.tag,
+        label: VIBE_TAGS[row.tag as VibeTag].label,
+        support: row.support,
+        review_count: row.review_count,
+        confidence: row.confidence
+      }));
+  }
+
+  // Every known vibe with how many anime carry it
+  async getVibeSummary(sfw: boolean = true): Promise<VibeSummary[]> {
+    const result = await db.query(
+      `SELECT vt.tag, COUNT(*) AS anime_count
+       FROM anime_vibe_tags vt
+       ${sfw ? `WHERE vt.anime_id NOT IN (
+         SELECT ag.anime_id
+         FROM anime_genres ag
+         JOIN genres g ON ag.genre_id = g.id
+         WHERE g.name IN ('Hentai', 'Erotica')
+       )` : ''}
+       GROUP BY vt.tag`
+    );
+    const counts = new Map<string, number>(result.rows.map(row => [row.tag, parseInt(row.anime_count)]));
+
+    return VIBE_TAG_NAMES.map(tag => ({
+      tag,
+      label: VIBE_TAGS[tag].label,
+      anime_count: counts.get(tag) || 0
+    }));
+  }
+
+  // Anime with a vibe, most confidently tagged first
+  async getAnimeByVibe(params: VibeBrowseParams): Promise<VibeAnime[]> {
+    const { vibe, min_confidence = 0, min_score, type, sfw = true, limit = 20 } = params;
+
+    const conditions = ['vt.tag = $1', 'vt.confidence >= $2'];
+    const queryParams: any[] = [vibe, min_confidence];
+
+    if (min_score !== undefined) {
+      queryParams.push(min_score);
+      conditions.push(`a.score >= $${queryParams.length}`);
+    }
+
+    if (type) {
+      queryParams.push(type);
+      conditions.push(`a.type = $${queryParams.length}`);
+    }
+
+    if (sfw) {
+      conditions.push(`a.mal_id NOT IN (
+        SELECT ag.anime_id
+        FROM anime_genres ag
+        JOIN genres g ON ag.genre_id = g.id
+        WHERE g.name IN ('Hentai', 'Erotica')
+      )`);
+    }
+
+    queryParams.push(limit);
+    const result = await db.query(`
+      SELECT
+        a.mal_id, a.title, a.type, a.year, a.episodes, a.score, a.image_url,
+        vt.support, vt.review_count, vt.confidence
+      FROM anime_vibe_tags vt
+      JOIN anime a ON a.mal_id = vt.anime_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY vt.confidence DESC, vt.support DESC, a.score DESC NULLS LAST, a.mal_id
+      LIMIT $${queryParams.length}
+    `, queryParams);
+
+    return result.rows.map(row => ({
+      ...row,
+      score: row.score !== null ? parseFloat(row.score) : null
+    }));
+  }
+}
+
+export const vibeTagService = new VibeTagService();
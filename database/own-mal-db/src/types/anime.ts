@@ -97,6 +97,7 @@ export interface Anime {
   aired_from?: Date | null;
   aired_to?: Date | null;
   duration?: string | null;
+  episode_duration_seconds?: number | null; // Parsed from duration ("24 min per ep" → 1440)
   rating?: string | null;
   score?: number | null;
   scored_by?: number | null;
@@ -114,6 +115,14 @@ export interface Anime {
   trailer?: Trailer | null;
   broadcast?: Broadcast | null;
   statistics?: Statistics | null;
+  // Derived from statistics (see statisticsService), null until statistics are crawled
+  drop_rate?: number | null;
+  completion_rate?: number | null;
+  score_votes?: number | null;
+  score_stddev?: number | null;
+  score_skewness?: number | null;
+  score_entropy?: number | null;
+  vote_controversy?: number | null;
   
   // Timestamps
   created_at?: Date;
@@ -129,13 +138,144 @@ export interface AnimeWithRelations extends Anime {
   licensors: Producer[];
   themes: Genre[];
   demographics: Genre[];
+  relations?: AnimeRelation[];
+  franchise?: FranchiseMember[];
+  vibes?: AnimeVibeTag[];
   url: string;
 }
 
+// Compact entry for other franchise members attached to a collapsed search result
+export interface FranchiseMember {
+  mal_id: number;
+  title: string;
+  type: string | null;
+  year: number | null;
+  score: number | null;
+}
+
+// Relation edge between an anime and another anime/manga entry (from Jikan relations)
+export interface AnimeRelation {
+  relation: string; // 'Prequel', 'Sequel', 'Side Story', 'Parent Story', 'Adaptation', ...
+  related_id: number;
+  related_type: 'anime' | 'manga';
+  name: string | null;
+  url: string | null;
+  in_database?: boolean;
+}
+
+// Franchise watch order entry
+export interface FranchiseEntry {
+  position: number;
+  mal_id: number;
+  title: string | null;
+  type: string | null;
+  year: number | null;
+  episodes: number | null;
+  score: number | null;
+  in_database: boolean;
+}
+
+export interface FranchiseWatchOrder {
+  anime_id: number;
+  franchise_size: number;
+  has_cycles: boolean;
+  watch_order: FranchiseEntry[];
+}
+
+// Voice actor credit for a character in a specific anime
+export interface CharacterVoiceActor {
+  mal_id: number;
+  name: string;
+  image_url: string | null;
+  language: string;
+}
+
+// Character appearing in an anime, with their voice actors
+export interface AnimeCharacter {
+  mal_id: number;
+  name: string;
+  url: string | null;
+  image_url: string | null;
+  role: 'Main' | 'Supporting' | string;
+  favorites: number | null;
+  voice_actors: CharacterVoiceActor[];
+}
+
+export interface AnimeCharacterList {
+  anime_id: number;
+  title: string;
+  total_characters: number;
+  characters: AnimeCharacter[];
+}
+
+export interface AnimeCharacterFilters {
+  role?: 'Main' | 'Supporting';
+  language?: string;
+}
+
+// Role voiced by a person (one entry per anime/character pair)
+export interface PersonVoiceRole {
+  anime_id: number;
+  anime_title: string;
+  anime_year: number | null;
+  anime_score: number | null;
+  character_id: number;
+  character_name: string;
+  role: string;
+  language: string;
+}
+
+export interface PersonDetails {
+  mal_id: number;
+  name: string;
+  url: string | null;
+  image_url: string | null;
+  total_roles: number;
+  voice_roles: PersonVoiceRole[];
+}
+
+// Staff member of an anime with all their positions on it
+export interface AnimeStaffMember {
+  mal_id: number;
+  name: string;
+  image_url: string | null;
+  positions: string[];
+}
+
+export interface AnimeStaffList {
+  anime_id: number;
+  title: string;
+  total_staff: number;
+  staff: AnimeStaffMember[];
+}
+
+// Anime a person is credited on as staff, with all their positions on it
+export interface FilmographyEntry {
+  mal_id: number;
+  title: string;
+  type: string | null;
+  year: number | null;
+  score: number | null;
+  members: number | null;
+  positions: string[];
+}
+
+export interface PersonFilmography {
+  person: {
+    mal_id: number;
+    name: string;
+    url: string | null;
+    image_url: string | null;
+  };
+  total_credits: number;
+  filmography: FilmographyEntry[];
+}
+
 // Search and pagination interfaces
 export interface SearchParams {
   query?: string;
   genres?: string;
+  genre_mode?: 'any' | 'all'; // any (default): at least one listed genre; all: every listed genre
   min_score?: number;
   max_score?: number;
   
@@ -159,14 +299,43 @@ export interface SearchParams {
   min_episodes?: number;
   max_episodes?: number;
   
+  // Runtime filtering, in minutes
+  min_duration?: number;       // Per episode
+  max_duration?: number;       // Per episode
+  max_total_runtime?: number;  // Episodes x episode length; anime with an unknown episode count are excluded
+  
+  // Exclusions, comma-separated IDs
+  exclude_genres?: string;
+  exclude_studios?: string; // Animation studio role only, like studios
+  exclude_ids?: string;     // MAL IDs, e.g. anime the user has already seen
+  
+  // Audience statistics filtering, fractions 0-1 (anime without crawled statistics never match)
+  max_drop_rate?: number;
+  min_completion_rate?: number;
+  min_vote_controversy?: number;
+  
   // Type filtering
   type?: 'TV' | 'Movie' | 'OVA' | 'Special' | 'ONA' | 'Music';
   
-  order_by?: 'mal_id' | 'title' | 'type' | 'rating' | 'start_date' | 'end_date' | 'episodes' | 'score' | 'scored_by' | 'rank' | 'popularity' | 'members' | 'favorites';
+  // Studio filtering
+  studios?: string; // Comma-separated studio IDs (animation studio role only)
+  
+  // Staff filtering
+  staff?: string; // Comma-separated MAL person IDs
+  staff_position?: string; // e.g. "Director", matched case-insensitively within the credited position
+  
+  // Review-based vibe tags, comma-separated (e.g. "comfy,slow_burn"); every listed vibe is required
+  vibes?: string;
+  
+  // Franchise deduplication (one representative per franchise)
+  collapse_franchise?: boolean;
+  
+  order_by?: 'mal_id' | 'title' | 'type' | 'rating' | 'start_date' | 'end_date' | 'episodes' | 'score' | 'scored_by' | 'rank' | 'popularity' | 'members' | 'favorites' | 'drop_rate' | 'completion_rate' | 'vote_controversy';
   sort?: 'desc' | 'asc';
   sfw?: boolean;
   page?: number;
   limit?: number;
+  cursor?: string; // Opaque keyset cursor from next_cursor/prev_cursor, takes precedence over page
 }
 
 export interface SearchResult {
@@ -176,9 +345,71 @@ export interface SearchResult {
   last_page: number;
   has_next_page: boolean;
   items_per_page: number;
+  next_cursor?: string | null;
+  prev_cursor?: string | null;
+  did_you_mean?: DidYouMeanSuggestion | null;
   results: AnimeWithRelations[];
 }
 
+// Top anime list options (/api/v1/anime/top); a year and season narrow it to that season's ranking
+export interface TopAnimeOptions {
+  year?: number;
+  season?: SearchParams['season'];
+  fresh?: boolean; // Rank live instead of reading the ranking view
+}
+
+// Closest known title for a query that matched nothing literally (typos, missing words)
+export interface DidYouMeanSuggestion {
+  query: string;
+  mal_id: number;
+  title: string;
+  similarity: number;
+}
+
+// Autocomplete entry from /api/v1/search/suggest
+export interface TitleSuggestion {
+  mal_id: number;
+  title: string;
+  title_english: string | null;
+  matched_title: string; // The title or synonym the input matched
+  match: 'prefix' | 'fuzzy';
+  similarity: number;
+  type: string | null;
+  year: number | null;
+  score: number | null;
+  image_url: string | null;
+}
+
+// Review sentiment patterns understood by /api/v1/reception/search
+export type SentimentPattern =
+  | 'mostly_positive' | 'mostly_negative' | 'highly_polarizing'
+  | 'universally_loved' | 'underrated' | 'overrated' | 'mixed_reception';
+
+// One recognized phrase of a natural-language query and what it became
+export interface ParsedQueryMatch {
+  text: string;
+  field: string;
+  value: any;
+}
+
+// Result of POST /api/v1/search/parse
+export interface ParsedSearchQuery {
+  input: string;
+  params: Partial<SearchParams>; // Ready to pass to searchAnime / GET /api/v1/anime
+  duration?: {
+    min_minutes?: number;
+    max_minutes?: number;
+    scope: 'episode' | 'total'; // Per episode (or movie) vs. the whole series
+  };
+  reception_pattern?: SentimentPattern;
+  similar_to?: { mal_id: number; title: string };
+  matched: ParsedQueryMatch[];
+  unmatched_tokens: string[];
+  confidence: number; // Share of meaningful words that were understood (0-1)
+  search_path: string;
+  reception_path?: string;
+}
+
 // Database entity interfaces
 export interface AnimeGenreRelation {
   anime_id: number;
@@ -207,6 +438,46 @@ export interface JikanAnimeResponse {
   };
 }
 
+export interface JikanRelationGroup {
+  relation: string;
+  entry: Array<{
+    mal_id: number;
+    type: 'anime' | 'manga';
+    name: string;
+    url: string;
+  }>;
+}
+
+export interface JikanCharacterEntry {
+  character: {
+    mal_id: number;
+    url: string;
+    name: string;
+    images?: { jpg?: { image_url?: string } };
+  };
+  role: string;
+  favorites?: number;
+  voice_actors?: Array<{
+    person: {
+      mal_id: number;
+      url: string;
+      name: string;
+      images?: { jpg?: { image_url?: string } };
+    };
+    language: string;
+  }>;
+}
+
+export interface JikanStaffEntry {
+  person: {
+    mal_id: number;
+    url: string;
+    name: string;
+    images?: { jpg?: { image_url?: string } };
+  };
+  positions: string[];
+}
+
 export interface JikanGenreResponse {
   data: Array<{
     mal_id: number;
@@ -232,6 +503,8 @@ export interface CleanAnime {
   synopsis: string | null;
   episodes: number | null;
   duration: string | null;
+  episode_duration_minutes: number | null;
+  total_runtime_minutes: number | null; // Total watch time, null while the episode count is unknown
   year: number | null;
   season: string | null;
   status: string | null;
@@ -242,6 +515,7 @@ export interface CleanAnime {
   studios: string | null;
   themes: string | null;
   demographics: string | null;
+  vibes?: string | null; // Detail responses only, e.g. "Comfy (12 reviews), Slow burn (5 reviews)"
   url: string;
 }
 
@@ -266,10 +540,18 @@ export interface SearchCapabilities {
     };
     content: {
       genres: string;
+      exclusions: string;
+      audience: string;
       type: string;
       airing_status: string;
       episodes: string;
+      duration: string;
       content_rating: string;
+      studios: string;
+      staff: string;
+      vibes: string;
+      collapse_franchise: string;
+      title_query: string;
     };
     quality: {
       score_range: string;
@@ -290,6 +572,38 @@ export interface SearchCapabilities {
   current_limitations: string[];
 }
 
+// Content-based similarity interfaces
+export interface SimilarityBreakdown {
+  genres: number;
+  themes: number;
+  demographics: number;
+  studios: number;
+  synopsis: number;
+  era: number;
+  type: number;
+}
+
+export interface SimilarityExplanation {
+  score: number;
+  breakdown: SimilarityBreakdown;
+  reasons: string[];
+}
+
+export interface RecommendationParams {
+  limit?: number;
+  compact?: boolean;
+  sfw?: boolean;
+}
+
+export interface AnimeRecommendationResult {
+  source: {
+    mal_id: number;
+    title: string;
+  };
+  total_results: number;
+  results: Array<(CleanAnime | Record<string, any>) & { similarity: SimilarityExplanation }>;
+}
+
 // Bulk operation interfaces
 export interface BulkAnimeRequest {
   ids: number[];
@@ -302,4 +616,205 @@ export interface BulkAnimeResponse {
   total_missing: number;
   missing_ids?: number[];
   results: CleanAnime[] | any[];
-} 
\ No newline at end of file
+} 
+// Audit trail of manual edits made through the write API
+export type AnimeAuditAction = 'create' | 'update' | 'delete' | 'revert';
+
+export interface AnimeAuditEntry {
+  id: number;
+  anime_id: number;
+  action: AnimeAuditAction;
+  changed_fields: string[];
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  actor: string;
+  reason: string | null;
+  reverts_entry_id: number | null;
+  created_at: Date;
+}
+
+export interface AnimeEditResult {
+  anime: Record<string, any> | null;
+  entry: AnimeAuditEntry | null; // null when the edit changed nothing
+}
+
+// Metrics derived from the MAL statistics JSON. Rates are shares of users who started the anime
+// (watching, completed, on hold or dropped); score metrics describe the 1-10 vote distribution.
+export interface StatisticsMetrics {
+  drop_rate: number | null;
+  completion_rate: number | null;
+  score_votes: number | null;
+  score_mean: number | null;
+  score_stddev: number | null;
+  score_skewness: number | null;   // < 0: votes lean high with a tail of low scores
+  score_entropy: number | null;    // 0 = everyone gave the same score, 1 = votes spread evenly over 1-10
+  vote_controversy: number | null; // Spread of votes relative to the widest possible split (1s vs 10s), 0-1
+}
+
+export interface AnimeStatisticsReport {
+  mal_id: number;
+  title: string;
+  status: string | null;
+  user_counts: {
+    watching: number;
+    completed: number;
+    on_hold: number;
+    dropped: number;
+    plan_to_watch: number;
+    total: number;
+  };
+  score_distribution: Array<{ score: number; votes: number; percentage: number }>;
+  metrics: StatisticsMetrics;
+}
+
+export interface ControversialAnimeParams {
+  min_votes?: number;
+  type?: SearchParams['type'];
+  sfw?: boolean;
+  limit?: number;
+}
+
+export interface ControversialAnime {
+  mal_id: number;
+  title: string;
+  type: string | null;
+  year: number | null;
+  score: number | null;
+  score_votes: number;
+  score_stddev: number;
+  score_entropy: number;
+  vote_controversy: number;
+  drop_rate: number | null;
+}
+
+// Airing schedule (/api/v1/schedule)
+export interface ScheduleParams {
+  tz?: string;          // IANA time zone the schedule is shown in, default Asia/Tokyo
+  week?: string;        // ISO week (2025-W41) or any date in the week (2025-10-08); default the current week
+  ids?: number[];       // Only these anime, e.g. a watching list
+  sfw?: boolean;
+}
+
+export interface ScheduleEntry {
+  mal_id: number;
+  title: string;
+  title_english: string | null;
+  type: string | null;
+  image_url: string | null;
+  episodes: number | null;
+  estimated_episode: number | null;  // Weekly slots since aired_from, so breaks and double episodes throw it off
+  airs_at: string;            // UTC instant
+  local_date: string;         // In the requested time zone
+  local_time: string;
+  duration_minutes: number | null;
+  broadcast: Broadcast;       // As stored, usually JST
+}
+
+export interface ScheduleDay {
+  weekday: string;
+  date: string;
+  entries: ScheduleEntry[];
+}
+
+export interface WeeklySchedule {
+  timezone: string;
+  week: string;
+  week_start: string;
+  week_end: string;
+  total_entries: number;
+  days: ScheduleDay[];
+}
+
+// iCalendar export (/api/v1/schedule/calendar.ics)
+export interface CalendarParams {
+  ids?: number[];
+  weeks?: number;       // How many weeks ahead to include, default 4
+  sfw?: boolean;
+}
+
+// Airing status tracking (/api/v1/search/recently-finished, /recently-started)
+export interface StatusTransition {
+  mal_id: number;
+  title: string;
+  type: string | null;
+  episodes: number | null;
+  score: number | null;
+  season: string | null;
+  year: number | null;
+  image_url: string | null;
+  aired_from: string | null;
+  aired_to: string | null;
+  from_status: string | null;
+  to_status: string;
+  changed_at: Date;
+}
+
+export interface RecentTransitionParams {
+  days?: number;        // How far back to look, default 30
+  type?: SearchParams['type'];
+  sfw?: boolean;
+  limit?: number;
+}
+
+// Row picked by the refresh job because its status may be out of date
+export interface StaleAnime {
+  mal_id: number;
+  title: string;
+  status: string | null;
+  last_scraped: Date;
+}
+
+// Semantic synopsis search (/api/v1/search/semantic). Accepts the SearchParams filters besides the text.
+export interface SemanticSearchParams extends Omit<SearchParams, 'query' | 'order_by' | 'sort' | 'cursor' | 'collapse_franchise'> {
+  text: string;
+  min_similarity?: number;  // Cosine similarity cutoff (-1 to 1), default 0.1
+}
+
+export interface SemanticSearchResult {
+  total_results: number;
+  showing: number;
+  current_page: number;
+  last_page: number;
+  has_next_page: boolean;
+  items_per_page: number;
+  provider: string;         // Embedding provider that ranked the results
+  embedded_count: number;   // Anime with an embedding; the rest can't be found this way yet
+  results: Array<AnimeWithRelations & { semantic_similarity: number }>;
+}
+
+// Review-based vibe tags (see vibeTagService): how reviewers describe the feel of a show
+export interface AnimeVibeTag {
+  tag: string;              // slow_burn, comfy, tearjerker, mindfuck, ...
+  label: string;
+  support: number;          // Reviews calling the show that
+  review_count: number;     // Reviews the tags were extracted from
+  confidence: number;       // 0-1, from the share of reviews mentioning the tag
+}
+
+export interface VibeSummary {
+  tag: string;
+  label: string;
+  anime_count: number;
+}
+
+export interface VibeBrowseParams {
+  vibe: string;
+  min_confidence?: number;
+  min_score?: number;
+  type?: SearchParams['type'];
+  sfw?: boolean;
+  limit?: number;
+}
+
+export interface VibeAnime {
+  mal_id: number;
+  title: string;
+  type: string | null;
+  year: number | null;
+  episodes: number | null;
+  score: number | null;
+  image_url: string | null;
+  support: number;
+  review_count: number;
+  confidence: number;
+}
@@ -8,6 +8,77 @@ import { dirname, join } from "path";
 // Base URL for local clean API
 const LOCAL_API_BASE = "http://localhost:3001/api/anime";
 
+// Base URL for v1 API (endpoints without a legacy equivalent)
+const LOCAL_API_V1_BASE = "http://localhost:3001/api/v1";
+
+// API key for the local API (X-API-Key); optional unless the server runs with API_KEYS_REQUIRED=true
+const LOCAL_API_KEY = process.env.OWN_MAL_API_KEY;
+
+// fetch() against the local API, authenticated when a key is configured
+function localApiFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const headers = { ...(init.headers as Record<string, string> | undefined), ...(LOCAL_API_KEY ? { "X-API-Key": LOCAL_API_KEY } : {}) };
+  return fetch(url, { ...init, headers });
+}
+
+type LocalApiQuery = Record<string, string | number | boolean | number[] | undefined>;
+
+interface LocalApiCall {
+  action: string;                    // what the tool does, for error messages ("fetching staff")
+  context?: Record<string, unknown>; // echoed with API errors, e.g. { anime_id: id }
+  body?: unknown;                    // sent as a JSON POST instead of a GET
+  format?: (data: any, meta: any) => unknown; // shapes data.data for the tool result (default: as is)
+}
+
+// Call a v1 endpoint and turn its { success, data, error } envelope into a tool result.
+// Undefined query values are left out and arrays are comma-joined.
+async function callLocalApi(path: string, query: LocalApiQuery, call: LocalApiCall) {
+  try {
+    const queryParams = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value === undefined || (Array.isArray(value) && value.length === 0)) continue;
+      queryParams.append(key, Array.isArray(value) ? value.join(',') : String(value));
+    }
+
+    const init: RequestInit = call.body === undefined
+      ? {}
+      : { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(call.body) };
+    const response = await localApiFetch(`${LOCAL_API_V1_BASE}${path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`, init);
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok || !data?.success) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: true,
+            status: response.status,
+            message: `Error ${call.action}: ${data?.error?.message || response.statusText}`,
+            details: data?.error?.details,
+            ...call.context
+          }, null, 2)
+        }],
+        isError: true,
+      };
+    }
+
+    const result = call.format ? call.format(data.data, data.meta) : data.data;
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+    };
+  } catch (error: any) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          error: true,
+          message: `Failed ${call.action}: ${error.message || 'An unexpected error occurred'}`
+        }, null, 2)
+      }],
+      isError: true,
+    };
+  }
+}
+
 // Get the directory of the current module
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -159,7 +230,7 @@ function getServer() {
       return withAnalytics("getSearchCapabilities", {}, async () => {
         try {
           // First, get the actual genres from the API to provide accurate information
-        const genresResponse = await fetch(`${LOCAL_API_BASE}/genres`);
+        const genresResponse = await localApiFetch(`${LOCAL_API_BASE}/genres`);
         let availableGenres: any[] = [];
         
         if (genresResponse.ok) {
@@ -175,17 +246,27 @@ function getServer() {
             primary_functions: [
               "searchAnime - Main search with comprehensive filtering (COMPACT FORMAT - 94% smaller responses)",
               "getBulkAnimeByIds - Get multiple anime by MAL IDs in one efficient call (PERFECT FOR MAL USER DATA)",
+              "searchAnimeByDescription - Find anime whose synopsis matches a described story, theme or mood",
+              "browseAnimeByVibe - Anime reviewers call comfy, a slow burn, a tearjerker, a mindfuck, ...",
               "getCurrentSeasonAnime - Currently airing anime (COMPACT FORMAT)",
+              "getAiringSchedule - Weekly airing schedule in any time zone with estimated episode numbers",
               "getCompactSeasonalRecommendations - Seasonal anime recommendations (COMPACT FORMAT)",
               "getAnimeDetails - Detailed information for specific anime",
               "getTopAnime - Popular and trending anime lists",
               "getSeasonalAnimeRecommendations - Legacy seasonal search (use compact version instead)",
               "getAnimeRecommendations - Similar anime suggestions",
+              "getAnimeCharacters - Characters and their voice actors for an anime",
+              "getPersonDetails - Voice actor details with every role they voiced",
+              "getStudioProfile - Studio stats (mean score, output per year, top genres, reception) and best titles",
+              "getAnimeStaff - Director, writers, composer and other staff of an anime",
+              "getPersonFilmography - Everything a director/writer/composer worked on, best scored first",
+              "getAnimeStatistics - Watching/completed/dropped counts, score distribution, drop and completion rate",
+              "getControversialAnime - Anime whose score votes are the most divided",
               "getAnimeReviews - Review summary (sentiment, scores, top reviewers) - ALWAYS USE THIS FIRST",
               "getAnimeReviewsSample - Balanced sample of 10 reviews (mix of positive/negative/neutral) with full text",
               "getAnimeReviewsDetailed - Full review text (context-heavy) - use only when needed after summary",
               "getAnimeGenres - All available genres with IDs",
-              "getAnimeReception - Reception analysis with sentiment and polarization",
+              "getAnimeReception - Reception analysis with sentiment, polarization and per-aspect sentiment",
               "searchByReviewSentiment - Find anime by sentiment patterns",
               "getReviewInsights - Database-wide review pattern insights",
               "compareAnimeReception - Compare reception between two anime"
@@ -199,7 +280,9 @@ function getServer() {
             genre_filtering: {
               genres: "Filter by genre IDs (comma-separated). Use getAnimeGenres() first to see all available options",
               available_count: availableGenres.length,
-              examples: ["'1' (Action)", "'4' (Comedy)", "'10' (Fantasy)", "'22' (Romance)", "'1,4' (Action+Comedy)"],
+              genre_mode: "'any' (default) matches at least one listed genre, 'all' requires every one",
+              exclude_genres: "Genre IDs to leave out (comma-separated), e.g. '14' for no Horror",
+              examples: ["'1' (Action)", "'4' (Comedy)", "'10' (Fantasy)", "'22' (Romance)", "'1,4' (Action or Comedy)", "'1,4' with genre_mode 'all' (Action+Comedy)"],
               note: "IMPORTANT: Always call getAnimeGenres() first to see current genre IDs and names"
             },
             quality_filters: {
@@ -208,7 +291,7 @@ function getServer() {
             },
             sorting_options: {
               order_by: "Sort results by specific criteria",
-              available_fields: ["mal_id", "title", "type", "rating", "start_date", "end_date", "episodes", "score", "scored_by", "rank", "popularity", "members", "favorites"],
+              available_fields: ["mal_id", "title", "type", "rating", "start_date", "end_date", "episodes", "score", "scored_by", "rank", "popularity", "members", "favorites", "drop_rate", "completion_rate", "vote_controversy"],
               sort: "Sort direction: 'desc' (highest first) or 'asc' (lowest first)",
               examples: ["order_by: 'score', sort: 'desc' for highest rated first"]
             },
@@ -218,6 +301,26 @@ function getServer() {
               airing_status: "Filter by status: 'airing' (currently airing), 'finished', 'upcoming'",
               examples: ["year: 2024, season: 'summer' for Summer 2024 anime"]
             },
+            exclusions: {
+              exclude_genres: "Genre IDs to leave out (comma-separated)",
+              exclude_studios: "Animation studio IDs to leave out (comma-separated)",
+              exclude_ids: "MAL IDs to leave out (comma-separated), e.g. anime the user has already seen",
+              examples: ["exclude_genres: '14,9' for no horror and no ecchi", "exclude_ids: '1,5,30' to skip watched titles"]
+            },
+            runtime_filtering: {
+              min_duration: "Minimum episode length in minutes",
+              max_duration: "Maximum episode length in minutes",
+              max_total_runtime: "Maximum total watch time in minutes (episodes x episode length)",
+              examples: ["max_total_runtime: 600 for something to finish over a weekend", "max_duration: 10 for short-form anime"],
+              note: "Compact results include runtime_minutes (total watch time) when the episode count is known"
+            },
+            audience_filtering: {
+              max_drop_rate: "Maximum share of users who started the anime and dropped it (0-1)",
+              min_completion_rate: "Minimum share of users who started the anime and completed it (0-1)",
+              min_vote_controversy: "Minimum spread of score votes (0-1), high = divided opinions",
+              examples: ["max_drop_rate: 0.05, order_by: 'completion_rate' for shows people actually finish"],
+              note: "Anime without crawled statistics never match these filters"
+            },
             type_filtering: {
               type: "Filter by anime type",
               available_types: ["TV (series)", "Movie (films)", "OVA (original video)", "Special (specials)", "ONA (web anime)", "Music (music videos)"],
@@ -248,7 +351,7 @@ function getServer() {
                 "getSeasonalAnimeRecommendations() - Full detailed format with all anime data"
               ],
               recommendation: "Use compact versions for quick searches, full versions for detailed analysis",
-              data_difference: "Compact: id, title, score, year, episodes, status, genres, themes, demographics, studio, type. Full: Complete anime objects with synopsis, images, etc."
+              data_difference: "Compact: id, title, score, year, episodes, runtime_minutes, status, genres, themes, demographics, studio, type. Full: Complete anime objects with synopsis, images, etc."
             },
             recommendations: {
               description: "Find anime similar to a specific anime",
@@ -260,7 +363,7 @@ function getServer() {
               tier_2_sample: "getAnimeReviewsSample - Balanced sample of ~10 reviews (mix of positive/negative/neutral) with full text for analysis",
               tier_3_detailed: "getAnimeReviewsDetailed - All reviews with full text (context-heavy) - use sparingly",
               recommended_strategy: "1) Always start with summary, 2) Use sample for recommendation analysis, 3) Use detailed only when you need comprehensive review content",
-              options: ["Include/exclude preliminary reviews", "Include/exclude spoiler reviews", "Sort by helpfulness/date/score"]
+              options: ["Include/exclude preliminary reviews", "Spoilers: hide, redact (default) or show", "Sort by helpfulness/date/score"]
             }
           },
           search_strategies: {
@@ -278,9 +381,14 @@ function getServer() {
             ],
             common_patterns: {
               "Find highly rated anime in specific genre": "searchAnime with genres + min_score + order_by='score'",
+              "Find anime about a theme or premise": "searchAnimeByDescription with the description, plus filters like min_score",
+              "Find something comfy / a good cry / a mindfuck": "browseAnimeByVibe with the vibe, or searchAnime with vibes + other filters",
               "Discover new seasonal anime": "getSeasonalAnimeRecommendations with season='now'",
+              "When do my shows air this week": "getAiringSchedule with tz + ids of the watching list",
               "Find popular anime of all time": "getTopAnime with filter='bypopularity'",
               "Get anime similar to one you like": "getAnimeRecommendations with anime ID",
+              "Find what else a director made": "getAnimeStaff for the director's ID, then getPersonFilmography with position='Director'",
+              "Find shows people actually finish": "searchAnime with max_drop_rate=0.05 + order_by='completion_rate'",
               "Analyze user's watch list": "getBulkAnimeByIds with user's anime IDs",
               "Get detailed info on many anime efficiently": "getBulkAnimeByIds with compact=false"
             }
@@ -356,146 +464,84 @@ function getServer() {
     async ({ user_query }: { user_query: string }) => {
       return withAnalytics("suggestSearchStrategy", { user_query }, async () => {
         try {
-          const query = user_query.toLowerCase();
-        
-        // Analyze the query for different patterns
-        const suggestions = {
-          detected_intent: "general_search",
-          confidence: 0.7,
-          suggested_parameters: {} as any,
-          alternative_strategies: [] as any[],
-          explanation: "",
-          expected_result_count: "medium" as "low" | "medium" | "high"
-        };
-
-        // Genre detection
-        const genreKeywords = {
-          action: ["action", "fight", "battle", "combat", "martial arts"],
-          comedy: ["comedy", "funny", "humor", "laugh"],
-          romance: ["romance", "love", "romantic", "relationship"],
-          drama: ["drama", "emotional", "serious"],
-          fantasy: ["fantasy", "magic", "magical", "wizard", "dragon"],
-          horror: ["horror", "scary", "creepy", "ghost"],
-          thriller: ["thriller", "suspense", "mystery"],
-          "slice of life": ["slice of life", "daily life", "everyday", "school life"],
-          sports: ["sports", "basketball", "soccer", "baseball", "volleyball"],
-          mecha: ["mecha", "robot", "gundam", "giant robot"]
-        };
-
-        let detectedGenres: string[] = [];
-        for (const [genre, keywords] of Object.entries(genreKeywords)) {
-          if (keywords.some(keyword => query.includes(keyword))) {
-            detectedGenres.push(genre);
-          }
-        }
-
-        // Quality indicators
-        const qualityKeywords = {
-          high: ["best", "top", "highly rated", "masterpiece", "classic", "must watch"],
-          good: ["good", "decent", "recommended", "popular"],
-          any: ["any", "whatever", "anything"]
-        };
-
-        let qualityLevel = "any";
-        for (const [level, keywords] of Object.entries(qualityKeywords)) {
-          if (keywords.some(keyword => query.includes(keyword))) {
-            qualityLevel = level;
-            break;
-          }
+        // Parsing lives in the API (POST /api/v1/search/parse) so every client reads queries the same way
+        const response = await localApiFetch(`${LOCAL_API_V1_BASE}/search/parse`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ query: user_query })
+        });
+        const data = await response.json().catch(() => null);
+
+        if (!response.ok || !data?.success) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                error: true,
+                status: response.status,
+                message: `Error parsing query: ${data?.error?.message || response.statusText}`
+              }, null, 2)
+            }],
+            isError: true,
+          };
         }
 
-        // Time period detection
-        const timeKeywords = {
-          recent: ["recent", "new", "latest", "2020", "2021", "2022", "2023", "2024"],
-          classic: ["classic", "old", "vintage", "90s", "1990", "80s", "1980"],
-          specific_year: query.match(/\b(19|20)\d{2}\b/)
-        };
+        const parsed = data.data;
+        const params = parsed.params || {};
+        const alternativeStrategies: any[] = [];
 
-        // Type detection
-        const typeKeywords = {
-          movie: ["movie", "film"],
-          series: ["series", "tv", "show", "anime series"],
-          short: ["short", "ova", "special"]
-        };
-
-        // Build suggestions based on analysis
-        if (detectedGenres.length > 0) {
-          suggestions.detected_intent = "genre_search";
-          suggestions.explanation = `Detected interest in ${detectedGenres.join(", ")} anime. `;
-          suggestions.suggested_parameters.note = "Use getAnimeGenres() first to get exact genre IDs";
-          suggestions.alternative_strategies.push({
-            strategy: "genre_search",
-            description: `Search specifically for ${detectedGenres.join(" + ")} anime`,
-            parameters: { note: "Get genre IDs from getAnimeGenres() first" }
+        if (parsed.similar_to) {
+          alternativeStrategies.push({
+            strategy: "recommendations",
+            description: `Find anime similar to ${parsed.similar_to.title}`,
+            tool: "getAnimeRecommendations",
+            parameters: { id: parsed.similar_to.mal_id }
           });
         }
-
-        if (qualityLevel === "high") {
-          suggestions.suggested_parameters.min_score = 8.0;
-          suggestions.suggested_parameters.order_by = "score";
-          suggestions.suggested_parameters.sort = "desc";
-          suggestions.explanation += "Looking for high-quality anime with excellent ratings. ";
-        } else if (qualityLevel === "good") {
-          suggestions.suggested_parameters.min_score = 7.0;
-          suggestions.explanation += "Looking for well-regarded anime. ";
-        }
-
-        if (timeKeywords.recent.some(keyword => query.includes(keyword))) {
-          suggestions.alternative_strategies.push({
-            strategy: "seasonal_search",
-            description: "Use getSeasonalAnimeRecommendations for recent anime",
-            parameters: { season: "now" }
+        if (parsed.reception_pattern) {
+          alternativeStrategies.push({
+            strategy: "reception_search",
+            description: `Find anime whose reviews are ${parsed.reception_pattern.replace(/_/g, " ")}`,
+            tool: "searchByReviewSentiment",
+            parameters: { sentiment_pattern: parsed.reception_pattern }
           });
-          suggestions.explanation += "Consider using seasonal search for recent anime. ";
         }
-
-        if (timeKeywords.classic.some(keyword => query.includes(keyword))) {
-          suggestions.suggested_parameters.order_by = "year";
-          suggestions.suggested_parameters.sort = "asc";
-          suggestions.explanation += "Searching for classic/older anime. ";
-        }
-
-        // Specific anime title detection
-        const animeNames = ["naruto", "one piece", "dragon ball", "attack on titan", "demon slayer", "my hero academia"];
-        const mentionedAnime = animeNames.find(name => query.includes(name));
-        if (mentionedAnime) {
-          suggestions.detected_intent = "specific_anime_or_similar";
-          suggestions.explanation = `Looking for "${mentionedAnime}" or similar anime. `;
-          suggestions.alternative_strategies.push({
-            strategy: "search_then_recommendations",
-            description: "First search for the specific anime, then use getAnimeRecommendations",
-            steps: [
-              `searchAnime with query: "${mentionedAnime}"`,
-              "getAnimeRecommendations with the found anime's ID"
-            ]
+        if (params.airing_status === "airing") {
+          alternativeStrategies.push({
+            strategy: "seasonal_search",
+            description: "Use getCurrentSeasonAnime for what is airing right now",
+            tool: "getCurrentSeasonAnime"
           });
         }
 
-        // Popularity indicators
-        if (query.includes("popular") || query.includes("trending")) {
-          suggestions.alternative_strategies.push({
-            strategy: "top_anime_search",
-            description: "Use getTopAnime for popular anime",
-            parameters: { filter: "bypopularity" }
-          });
+        const notes: string[] = [];
+        // Per-episode limits and a total maximum map onto search parameters; a total minimum does not
+        if (parsed.duration?.scope === "total" && parsed.duration.min_minutes !== undefined) {
+          notes.push(`Total runtime of at least ${parsed.duration.min_minutes} min: check runtime_minutes of the results`);
         }
-
-        // Set default explanation if none provided
-        if (!suggestions.explanation) {
-          suggestions.explanation = "General anime search detected. ";
+        if (parsed.unmatched_tokens.length > 0) {
+          notes.push(`Not understood: ${parsed.unmatched_tokens.join(", ")}. Consider asking the user or adding them as a text query`);
         }
 
-        // Add general recommendations
-        suggestions.explanation += "Recommended workflow: 1) Use getAnimeGenres() if filtering by genre, 2) Use searchAnime() with suggested parameters, 3) Use getAnimeDetails() for more info on interesting results.";
-
-        // Estimate result count
-        if (suggestions.suggested_parameters.min_score >= 8.0) {
-          suggestions.expected_result_count = "low";
-        } else if (detectedGenres.length > 2 || suggestions.suggested_parameters.min_score >= 7.0) {
-          suggestions.expected_result_count = "medium";
-        } else {
-          suggestions.expected_result_count = "high";
-        }
+        const suggestions = {
+          detected_intent: parsed.similar_to
+            ? "specific_anime_or_similar"
+            : parsed.reception_pattern
+              ? "reception_search"
+              : params.genres
+                ? "genre_search"
+                : params.query
+                  ? "title_search"
+                  : "general_search",
+          confidence: parsed.confidence,
+          suggested_parameters: params,
+          api_search_path: parsed.search_path,
+          matched: parsed.matched,
+          unmatched_tokens: parsed.unmatched_tokens,
+          alternative_strategies: alternativeStrategies,
+          notes,
+          explanation: "Recommended workflow: 1) Use searchAnime() with suggested_parameters (genre IDs are already resolved), 2) Try the alternative strategies for reception or similarity, 3) Use getAnimeDetails() for more info on interesting results."
+        };
 
         return {
           content: [{ type: "text", text: JSON.stringify(suggestions, null, 2) }],
@@ -527,15 +573,29 @@ function getServer() {
     {
       query: z.string().describe("Search query for anime title, character name, or keyword").optional(),
       genres: z.string().optional().describe("Filter by genre IDs (comma-separated). IMPORTANT: Use getAnimeGenres first to see available genres and their IDs. Examples: '1' for Action, '4' for Comedy, '10' for Fantasy, '22' for Romance. Multiple genres: '1,4' for Action+Comedy."),
+      genre_mode: z.enum(["any", "all"]).optional().describe("How to combine the listed genres: 'any' (default) matches at least one, 'all' requires every one, e.g. genres '4,22' with 'all' for romantic comedies"),
+      exclude_genres: z.string().regex(/^\d+(,\d+)*$/).optional().describe("Leave out anime with any of these genre IDs (comma-separated), e.g. '14' to skip Horror or '9' to skip Ecchi"),
+      exclude_studios: z.string().regex(/^\d+(,\d+)*$/).optional().describe("Leave out anime animated by these studio IDs (comma-separated)"),
+      exclude_ids: z.string().regex(/^\d+(,\d+)*$/).optional().describe("Leave out specific anime by MAL ID (comma-separated), e.g. titles the user has already seen"),
       min_score: z.number().min(0).max(10).optional().describe("Minimum score filter (0-10)"),
       year: z.number().int().min(1900).max(2030).optional().describe("Filter by specific year (e.g., 2024)"),
       season: z.enum(["winter", "spring", "summer", "fall"]).optional().describe("Filter by season: winter, spring, summer, fall"),
       airing_status: z.enum(["airing", "finished", "upcoming"]).optional().describe("Filter by airing status: airing (currently airing), finished (completed), upcoming (not yet aired)"),
       type: z.enum(["TV", "Movie", "OVA", "Special", "ONA", "Music"]).optional().describe("Filter by anime type: TV (series), Movie (films), OVA (original video), Special (specials), ONA (web anime), Music (music videos)"),
+      studios: z.string().regex(/^\d+(,\d+)*$/).optional().describe("Filter by animation studio IDs (comma-separated). Use getStudioProfile to look up a studio's ID by name"),
+      staff: z.string().regex(/^\d+(,\d+)*$/).optional().describe("Filter by staff MAL person IDs (comma-separated), e.g. a director's ID from getPersonFilmography"),
+      staff_position: z.string().optional().describe("Narrow the staff filter to a position, e.g. 'Director', 'Music', 'Series Composition'"),
+      vibes: z.string().regex(/^[a-z_]+(,[a-z_]+)*$/).optional().describe("Review-based vibe tags the anime must all have (comma-separated): slow_burn, comfy, tearjerker, mindfuck, wholesome, feel_good, bittersweet, dark, hype"),
+      min_duration: z.number().int().positive().optional().describe("Minimum episode length in minutes (a movie's runtime is its single episode)"),
+      max_duration: z.number().int().positive().optional().describe("Maximum episode length in minutes, e.g. 10 for short-form anime"),
+      max_total_runtime: z.number().int().positive().optional().describe("Maximum total watch time (episodes x episode length) in minutes, e.g. 600 for something to finish over a weekend. Excludes anime with an unknown episode count"),
+      max_drop_rate: z.number().min(0).max(1).optional().describe("Maximum share (0-1) of users who started the anime and dropped it, e.g. 0.05 for shows people actually finish"),
+      min_completion_rate: z.number().min(0).max(1).optional().describe("Minimum share (0-1) of users who started the anime and completed it"),
+      min_vote_controversy: z.number().min(0).max(1).optional().describe("Minimum spread of score votes (0-1); high values mean divided opinions"),
       order_by: z.enum([
         "mal_id", "title", "type", "rating", "start_date", "end_date",
         "episodes", "score", "scored_by", "rank", "popularity",
-        "members", "favorites"
+        "members", "favorites", "drop_rate", "completion_rate", "vote_controversy"
       ]).optional().describe("Sort results by this field"),
       sort: z.enum(["desc", "asc"]).optional().describe("Sort order (desc or asc)"),
       sfw: z.boolean().optional().describe("Filter out adult content (true) or include all (false). Defaults to true."),
@@ -545,11 +605,25 @@ function getServer() {
     async (params: {
       query?: string;
       genres?: string;
+      genre_mode?: string;
+      exclude_genres?: string;
+      exclude_studios?: string;
+      exclude_ids?: string;
       min_score?: number;
       year?: number;
       season?: string;
       airing_status?: string;
       type?: string;
+      studios?: string;
+      staff?: string;
+      staff_position?: string;
+      vibes?: string;
+      min_duration?: number;
+      max_duration?: number;
+      max_total_runtime?: number;
+      max_drop_rate?: number;
+      min_completion_rate?: number;
+      min_vote_controversy?: number;
       order_by?: string;
       sort?: string;
       sfw?: boolean;
@@ -579,11 +653,25 @@ function getServer() {
         const queryParams = new URLSearchParams();
         if (params.query) queryParams.append("query", params.query);
         if (params.genres) queryParams.append("genres", params.genres);
+        if (params.genre_mode) queryParams.append("genre_mode", params.genre_mode);
+        if (params.exclude_genres) queryParams.append("exclude_genres", params.exclude_genres);
+        if (params.exclude_studios) queryParams.append("exclude_studios", params.exclude_studios);
+        if (params.exclude_ids) queryParams.append("exclude_ids", params.exclude_ids);
         if (params.min_score !== undefined) queryParams.append("min_score", String(params.min_score));
         if (params.year) queryParams.append("year", String(params.year));
         if (params.season) queryParams.append("season", params.season);
         if (params.airing_status) queryParams.append("airing_status", params.airing_status);
         if (params.type) queryParams.append("type", params.type);
+        if (params.studios) queryParams.append("studios", params.studios);
+        if (params.staff) queryParams.append("staff", params.staff);
+        if (params.staff_position) queryParams.append("staff_position", params.staff_position);
+        if (params.vibes) queryParams.append("vibes", params.vibes);
+        if (params.min_duration) queryParams.append("min_duration", String(params.min_duration));
+        if (params.max_duration) queryParams.append("max_duration", String(params.max_duration));
+        if (params.max_total_runtime) queryParams.append("max_total_runtime", String(params.max_total_runtime));
+        if (params.max_drop_rate !== undefined) queryParams.append("max_drop_rate", String(params.max_drop_rate));
+        if (params.min_completion_rate !== undefined) queryParams.append("min_completion_rate", String(params.min_completion_rate));
+        if (params.min_vote_controversy !== undefined) queryParams.append("min_vote_controversy", String(params.min_vote_controversy));
         if (params.order_by) queryParams.append("order_by", params.order_by);
         if (params.sort) queryParams.append("sort", params.sort);
         queryParams.append("sfw", String(params.sfw === undefined ? true : params.sfw));
@@ -591,7 +679,7 @@ function getServer() {
         if (params.limit) queryParams.append("limit", String(params.limit));
 
         const apiUrl = `${LOCAL_API_BASE}/compact/search?${queryParams.toString()}`;
-        const response = await fetch(apiUrl);
+        const response = await localApiFetch(apiUrl);
         
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -641,7 +729,11 @@ function getServer() {
             parameters_applied: params,
             total_results: data.data?.pagination?.total || data.data?.data?.length || 0,
             results_shown: data.data?.data?.length || 0,
+            did_you_mean: data.did_you_mean || null,
             search_tips: [
+              ...(data.did_you_mean ? [
+                `No exact title match for "${params.query}" - did you mean "${data.did_you_mean.query}" (MAL ID ${data.did_you_mean.mal_id})?`
+              ] : []),
               ...(params.genres ? [
                 "Genre filtering applied - use getAnimeGenres() to see all available genres"
               ] : [
@@ -678,6 +770,23 @@ function getServer() {
 
 
 
+  server.tool(
+    "suggestAnimeTitles",
+    "Autocomplete anime titles from a partial or misspelled name. Returns matching titles with their MyAnimeList IDs, checking English titles and synonyms too. Use it to resolve a title the user mentioned before calling getAnimeDetails or getAnimeRecommendations.",
+
+    {
+      q: z.string().min(2).max(100).describe("Partial or approximate title, e.g. 'frieren', 'shingeki no kyojn', 'aot'"),
+      limit: z.number().int().positive().max(20).optional().describe("Maximum number of suggestions (default 10)"),
+      sfw: z.boolean().optional().describe("Filter out adult content (true) or include all (false). Defaults to true.")
+    },
+    async (params: { q: string; limit?: number; sfw?: boolean }) => {
+      return withAnalytics("suggestAnimeTitles", params, () => callLocalApi('/search/suggest', { q: params.q, limit: params.limit, sfw: params.sfw ?? true }, {
+        action: "suggesting titles",
+        format: suggestions => ({ query: params.q, suggestions })
+      }));
+    }
+  );
+
   server.tool(
     "getAnimeDetails",
     "Get comprehensive details for a specific anime by MyAnimeList ID, including synopsis, genres, episodes, and images.",
@@ -686,7 +795,7 @@ function getServer() {
     async ({ id }: { id: number }) => {
       return withAnalytics("getAnimeDetails", { id }, async () => {
         try {
-        const response = await fetch(`${LOCAL_API_BASE}/clean/${id}`);
+        const response = await localApiFetch(`${LOCAL_API_BASE}/clean/${id}`);
         
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -759,13 +868,22 @@ function getServer() {
 
   server.tool(
     "getAnimeRecommendations",
-    "Find anime recommendations based on a given anime's MyAnimeList ID. Returns similar or related anime.",
+    "Find anime recommendations based on a given anime's MyAnimeList ID. Returns similar anime ranked by shared genres, themes, demographics, studios, synopsis overlap, era and type, with an explanation of why each one matched.",
 
-    { id: z.number().int().positive().describe("MyAnimeList ID of the anime to get recommendations based on") },
-    async ({ id }: { id: number }) => {
-      return withAnalytics("getAnimeRecommendations", { id }, async () => {
+    {
+      id: z.number().int().positive().describe("MyAnimeList ID of the anime to get recommendations based on"),
+      limit: z.number().int().positive().max(25).optional().describe("Number of recommendations to return (default 10, max 25)"),
+      compact: z.boolean().optional().describe("Return ultra-compact anime entries to save tokens")
+    },
+    async (params: { id: number; limit?: number; compact?: boolean }) => {
+      return withAnalytics("getAnimeRecommendations", params, async () => {
+        const { id } = params;
         try {
-        const response = await fetch(`${LOCAL_API_BASE}/recommendations/${id}`);
+        const queryParams = new URLSearchParams();
+        if (params.limit) queryParams.append('limit', params.limit.toString());
+        if (params.compact) queryParams.append('compact', 'true');
+
+        const response = await localApiFetch(`${LOCAL_API_BASE}/recommendations/${id}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`);
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -817,6 +935,260 @@ function getServer() {
     }
   );
 
+  server.tool(
+    "getAnimeCharacters",
+    "Get the characters of an anime with their voice actors. Main characters are listed first. Use the voice actor IDs with getPersonDetails to find their other roles.",
+
+    {
+      id: z.number().int().positive().describe("MyAnimeList ID of the anime"),
+      role: z.enum(["Main", "Supporting"]).optional().describe("Only return Main or Supporting characters"),
+      language: z.string().optional().describe("Only include voice actors for this language (e.g. 'Japanese', 'English')")
+    },
+    async (params: { id: number; role?: "Main" | "Supporting"; language?: string }) => {
+      return withAnalytics("getAnimeCharacters", params, () => callLocalApi(`/anime/${params.id}/characters`, { role: params.role, language: params.language }, {
+        action: "fetching characters",
+        context: { anime_id: params.id }
+      }));
+    }
+  );
+
+  server.tool(
+    "getPersonDetails",
+    "Get a voice actor by MyAnimeList person ID with every character they voiced in the database, best scored anime first.",
+
+    {
+      id: z.number().int().positive().describe("MyAnimeList person ID (from getAnimeCharacters voice actors)")
+    },
+    async (params: { id: number }) => {
+      return withAnalytics("getPersonDetails", params, () => callLocalApi(`/people/${params.id}`, {}, {
+        action: "fetching person",
+        context: { person_id: params.id }
+      }));
+    }
+  );
+
+  server.tool(
+    "getAnimeStaff",
+    "Get the staff of an anime (director, series composition, music, character design, ...). Use the person IDs with getPersonFilmography to find their other work.",
+
+    {
+      id: z.number().int().positive().describe("MyAnimeList ID of the anime"),
+      position: z.string().optional().describe("Only include this position, e.g. 'Director'")
+    },
+    async (params: { id: number; position?: string }) => {
+      return withAnalytics("getAnimeStaff", params, () => callLocalApi(`/anime/${params.id}/staff`, { position: params.position }, {
+        action: "fetching staff",
+        context: { anime_id: params.id }
+      }));
+    }
+  );
+
+  server.tool(
+    "getPersonFilmography",
+    "Get everything a person (director, writer, composer, animator, ...) is credited on as staff, sorted by score. Answers questions like 'what else did this director make'.",
+
+    {
+      id: z.number().int().positive().describe("MyAnimeList person ID"),
+      position: z.string().optional().describe("Only include credits for this position, e.g. 'Director', 'Music', 'Original Creator'")
+    },
+    async (params: { id: number; position?: string }) => {
+      return withAnalytics("getPersonFilmography", params, () => callLocalApi(`/people/${params.id}/filmography`, { position: params.position }, {
+        action: "fetching filmography",
+        context: { person_id: params.id }
+      }));
+    }
+  );
+
+  server.tool(
+    "getAnimeStatistics",
+    "Get how MAL users watch and vote on an anime: watching/completed/on hold/dropped/plan to watch counts, the 1-10 score distribution, drop and completion rate (share of users who started it), and the spread, skew and entropy of the votes.",
+
+    {
+      id: z.number().int().positive().describe("MyAnimeList ID of the anime")
+    },
+    async (params: { id: number }) => {
+      return withAnalytics("getAnimeStatistics", params, () => callLocalApi(`/anime/${params.id}/statistics`, {}, {
+        action: "fetching statistics",
+        context: { anime_id: params.id },
+        format: (statistics, meta) => ({ ...statistics, note: meta?.note })
+      }));
+    }
+  );
+
+  server.tool(
+    "getControversialAnime",
+    "List the anime whose score votes are the most divided (many high and many low scores), ranked by vote_controversy (0-1). For reception-based polarization from review text use searchByReviewSentiment with 'highly_polarizing' instead.",
+
+    {
+      min_votes: z.number().int().positive().optional().describe("Minimum number of score votes (default 1000) so obscure titles with a handful of votes don't dominate"),
+      type: z.enum(["TV", "Movie", "OVA", "Special", "ONA", "Music"]).optional().describe("Only include this anime type"),
+      sfw: z.boolean().optional().describe("Filter out adult content (true) or include all (false). Defaults to true."),
+      limit: z.number().int().positive().max(50).optional().describe("Number of results (default 20, max 50)")
+    },
+    async (params: { min_votes?: number; type?: string; sfw?: boolean; limit?: number }) => {
+      return withAnalytics("getControversialAnime", params, () => callLocalApi('/search/controversial', {
+        min_votes: params.min_votes,
+        type: params.type,
+        sfw: params.sfw,
+        limit: params.limit
+      }, { action: "fetching controversial anime" }));
+    }
+  );
+
+  server.tool(
+    "searchAnimeByDescription",
+    "Find anime whose synopsis matches a description in meaning rather than wording, e.g. 'a quiet story about grief and moving on' or 'found family on a long journey'. Results are ranked by semantic_similarity (-1 to 1). Narrow them with the usual searchAnime filters (genres, min_score, type, years). Use searchAnime for titles and keywords.",
+
+    {
+      text: z.string().min(3).max(500).describe("Description of the story, themes or mood you're looking for"),
+      genres: z.string().optional().describe("Genre IDs (comma-separated) the results must have. Use getAnimeGenres() for IDs"),
+      exclude_genres: z.string().optional().describe("Genre IDs (comma-separated) to leave out"),
+      min_score: z.number().min(0).max(10).optional().describe("Minimum MAL score"),
+      type: z.enum(["TV", "Movie", "OVA", "Special", "ONA", "Music"]).optional().describe("Only include this anime type"),
+      min_year: z.number().int().optional().describe("Earliest year"),
+      max_year: z.number().int().optional().describe("Latest year"),
+      min_similarity: z.number().min(-1).max(1).optional().describe("Drop weaker matches (default 0.1)"),
+      sfw: z.boolean().optional().describe("Filter out adult content (true) or include all (false). Defaults to true."),
+      limit: z.number().int().positive().max(50).optional().describe("Number of results (default 10, max 50)")
+    },
+    async (params: { text: string; genres?: string; exclude_genres?: string; min_score?: number; type?: string; min_year?: number; max_year?: number; min_similarity?: number; sfw?: boolean; limit?: number }) => {
+      return withAnalytics("searchAnimeByDescription", params, () => callLocalApi('/search/semantic', {}, {
+        action: "searching by description",
+        body: params,
+        // Synopses already matched; keep the listing compact
+        format: data => ({
+          total_results: data.total_results,
+          embedded_count: data.embedded_count,
+          results: data.results.map((anime: any) => ({
+            mal_id: anime.mal_id,
+            title: anime.title,
+            title_english: anime.title_english,
+            type: anime.type,
+            year: anime.year,
+            episodes: anime.episodes,
+            score: anime.score !== null ? parseFloat(anime.score) : null,
+            genres: (anime.genres || []).map((genre: any) => genre.name),
+            themes: (anime.themes || []).map((theme: any) => theme.name),
+            semantic_similarity: anime.semantic_similarity
+          }))
+        })
+      }));
+    }
+  );
+
+  server.tool(
+    "browseAnimeByVibe",
+    "Browse anime by how reviewers describe their feel: slow_burn, comfy, tearjerker, mindfuck, wholesome, feel_good, bittersweet, dark, hype. Without a vibe, lists the vibes with how many anime carry each. With one, returns anime most confidently tagged with it (support = reviews calling it that). To combine vibes with other filters use searchAnime with vibes.",
+
+    {
+      vibe: z.enum(["slow_burn", "comfy", "tearjerker", "mindfuck", "wholesome", "feel_good", "bittersweet", "dark", "hype"]).optional().describe("Vibe to browse; omit to list all vibes"),
+      min_confidence: z.number().min(0).max(1).optional().describe("Minimum tag confidence (0-1), e.g. 0.5 for clear cases only"),
+      min_score: z.number().min(0).max(10).optional().describe("Minimum MAL score"),
+      type: z.enum(["TV", "Movie", "OVA", "Special", "ONA", "Music"]).optional().describe("Only include this anime type"),
+      sfw: z.boolean().optional().describe("Filter out adult content (true) or include all (false). Defaults to true."),
+      limit: z.number().int().positive().max(50).optional().describe("Number of results (default 20, max 50)")
+    },
+    async (params: { vibe?: string; min_confidence?: number; min_score?: number; type?: string; sfw?: boolean; limit?: number }) => {
+      return withAnalytics("browseAnimeByVibe", params, () => callLocalApi(params.vibe ? `/search/vibes/${params.vibe}` : '/search/vibes', {
+        min_confidence: params.min_confidence,
+        min_score: params.min_score,
+        type: params.type,
+        sfw: params.sfw,
+        limit: params.limit
+      }, { action: "browsing anime by vibe" }));
+    }
+  );
+
+  server.tool(
+    "getAiringSchedule",
+    "Get the weekly airing schedule: broadcast times converted from JST to the given time zone, grouped by weekday, with an estimated episode number for each show. Pass MAL IDs (e.g. the user's watching list) to see only those shows.",
+
+    {
+      tz: z.string().optional().describe("IANA time zone to show times in, e.g. 'Europe/Helsinki' (default Asia/Tokyo)"),
+      week: z.string().optional().describe("ISO week like '2025-W41' or any date in the week like '2025-10-08' (default current week)"),
+      ids: z.array(z.number().int().positive()).max(500).optional().describe("Only include these MAL IDs, e.g. the watching list"),
+      sfw: z.boolean().optional().describe("Filter out adult content (true) or include all (false). Defaults to true.")
+    },
+    async (params: { tz?: string; week?: string; ids?: number[]; sfw?: boolean }) => {
+      return withAnalytics("getAiringSchedule", params, () => callLocalApi('/schedule', { tz: params.tz, week: params.week, ids: params.ids, sfw: params.sfw }, {
+        action: "fetching airing schedule",
+        format: schedule => ({
+          ...schedule,
+          calendar_url: `${LOCAL_API_V1_BASE}/schedule/calendar.ics${params.ids && params.ids.length > 0 ? `?ids=${params.ids.join(',')}` : ''}`
+        })
+      }));
+    }
+  );
+
+  server.tool(
+    "getStudioProfile",
+    "Get an animation studio's profile: mean score, titles per year, top genres, review reception summary and best scored titles. Look up by studio ID or by name.",
+
+    {
+      id: z.number().int().positive().optional().describe("MyAnimeList studio ID"),
+      name: z.string().optional().describe("Studio name to look up when the ID is unknown (e.g. 'Madhouse', 'Kyoto Animation')")
+    },
+    async (params: { id?: number; name?: string }) => {
+      return withAnalytics("getStudioProfile", params, async () => {
+        try {
+        let studioId = params.id;
+
+        if (!studioId && params.name) {
+          const searchResponse = await localApiFetch(`${LOCAL_API_V1_BASE}/studios?query=${encodeURIComponent(params.name)}&limit=5`);
+          const searchData = await searchResponse.json().catch(() => null);
+          const matches = searchData?.data?.studios || [];
+
+          if (matches.length === 0) {
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({
+                  error: true,
+                  message: `No studio found matching '${params.name}'`
+                }, null, 2)
+              }],
+              isError: true,
+            };
+          }
+
+          // Prefer an exact name match, otherwise the studio with most titles
+          const exact = matches.find((studio: any) => studio.name.toLowerCase() === params.name!.toLowerCase());
+          studioId = (exact || matches[0]).id;
+        }
+
+        if (!studioId) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                error: true,
+                message: "Provide either a studio id or a studio name"
+              }, null, 2)
+            }],
+            isError: true,
+          };
+        }
+
+        return await callLocalApi(`/studios/${studioId}`, {}, {
+          action: "fetching studio",
+          context: { studio_id: studioId }
+        });
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: true,
+              message: `Failed to fetch studio profile: ${error.message || 'An unexpected error occurred'}`
+            }, null, 2)
+          }],
+          isError: true,
+        };
+      }
+      });
+    }
+  );
+
   server.tool(
     "getTopAnime",
     "Retrieve lists of top, popular, trending, or most favorited anime. Filter by airing, upcoming, popularity, or favorites.",
@@ -836,7 +1208,7 @@ function getServer() {
 
           const limitParam = params.limit || 25;
           const apiUrl = `${LOCAL_API_BASE}/clean/top/${limitParam}?${queryParams.toString()}`;
-          const response = await fetch(apiUrl);
+          const response = await localApiFetch(apiUrl);
         
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -922,7 +1294,7 @@ function getServer() {
       return withAnalytics("getAnimeReviews", params, async () => {
         try {
         const apiUrl = `${LOCAL_API_BASE}/reviews/${params.id}/summary`;
-        const response = await fetch(apiUrl);
+        const response = await localApiFetch(apiUrl);
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -976,28 +1348,28 @@ function getServer() {
 
   server.tool(
     "getAnimeReviewsDetailed",
-    "Fetch detailed user reviews with full text for a specific anime. Use this ONLY when you need actual review content after checking the summary first.",
+    "Fetch detailed user reviews with full text for a specific anime. Use this ONLY when you need actual review content after checking the summary first. Spoiling sentences are redacted unless spoilers is set to show.",
 
     {
       id: z.number().int().positive().describe("MyAnimeList ID of the anime to fetch detailed reviews for"),
       page: z.number().int().positive().optional().describe("Page number for pagination (default: 1)"),
       limit: z.number().int().positive().max(10).optional().describe("Number of reviews per page (max 10 to avoid context overflow)"),
       preliminary: z.boolean().optional().describe("Include preliminary reviews (written before anime finished airing)"),
-      spoilers: z.boolean().optional().describe("Include reviews marked as containing spoilers"),
+      spoilers: z.enum(["hide", "redact", "show"]).optional().describe("Spoiler handling: hide (leave out spoiler reviews), redact (replace spoiling sentences, default) or show (full text with spoiler spans)"),
       sort: z.enum(["date", "helpful", "score"]).optional().describe("Sort reviews by: date (newest first), helpful (most helpful first), or score (highest score first)")
     },
-    async (params: { id: number; page?: number; limit?: number; preliminary?: boolean; spoilers?: boolean; sort?: string }) => {
+    async (params: { id: number; page?: number; limit?: number; preliminary?: boolean; spoilers?: string; sort?: string }) => {
       return withAnalytics("getAnimeReviewsDetailed", params, async () => {
         try {
         const queryParams = new URLSearchParams();
         if (params.page) queryParams.append("page", String(params.page));
         if (params.limit) queryParams.append("limit", String(Math.min(params.limit, 10))); // Cap at 10 for context safety
         if (params.preliminary !== undefined) queryParams.append("preliminary", String(params.preliminary));
-        if (params.spoilers !== undefined) queryParams.append("spoilers", String(params.spoilers));
+        if (params.spoilers) queryParams.append("spoilers", params.spoilers);
         if (params.sort) queryParams.append("sort", params.sort);
 
         const apiUrl = `${LOCAL_API_BASE}/reviews/${params.id}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-        const response = await fetch(apiUrl);
+        const response = await localApiFetch(apiUrl);
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -1062,20 +1434,22 @@ function getServer() {
 
   server.tool(
     "getAnimeReviewsSample",
-    "Get a balanced sample of reviews (mix of positive/negative/neutral) with full text for recommendation analysis. Limited to ~10 reviews to avoid context overflow.",
+    "Get a balanced sample of reviews (mix of positive/negative/neutral) with full text for recommendation analysis. Limited to ~10 reviews to avoid context overflow. Spoiling sentences are redacted unless spoilers is set to show.",
 
     {
       id: z.number().int().positive().describe("MyAnimeList ID of the anime to get review sample for"),
-      limit: z.number().int().positive().max(15).optional().describe("Number of reviews to sample (max 15, default 10)")
+      limit: z.number().int().positive().max(15).optional().describe("Number of reviews to sample (max 15, default 10)"),
+      spoilers: z.enum(["hide", "redact", "show"]).optional().describe("Spoiler handling: hide (leave out spoiler reviews), redact (replace spoiling sentences, default) or show (full text with spoiler spans)")
     },
-    async (params: { id: number; limit?: number }) => {
+    async (params: { id: number; limit?: number; spoilers?: string }) => {
       return withAnalytics("getAnimeReviewsSample", params, async () => {
         try {
         const queryParams = new URLSearchParams();
         if (params.limit) queryParams.append("limit", String(params.limit));
+        if (params.spoilers) queryParams.append("spoilers", params.spoilers);
 
         const apiUrl = `${LOCAL_API_BASE}/reviews/${params.id}/sample${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-        const response = await fetch(apiUrl);
+        const response = await localApiFetch(apiUrl);
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -1137,7 +1511,7 @@ function getServer() {
     async () => {
       return withAnalytics("getAnimeGenres", {}, async () => {
         try {
-        const response = await fetch(`${LOCAL_API_BASE}/genres`);
+        const response = await localApiFetch(`${LOCAL_API_BASE}/genres`);
         
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -1203,7 +1577,7 @@ function getServer() {
         if (params.limit) queryParams.append("limit", String(params.limit));
 
         const apiUrl = `${LOCAL_API_BASE}/compact/current?${queryParams.toString()}`;
-        const response = await fetch(apiUrl);
+        const response = await localApiFetch(apiUrl);
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -1273,7 +1647,7 @@ function getServer() {
         if (params.limit) queryParams.append("limit", String(params.limit));
 
         const apiUrl = `${LOCAL_API_BASE}/compact/seasonal?${queryParams.toString()}`;
-        const response = await fetch(apiUrl);
+        const response = await localApiFetch(apiUrl);
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -1359,7 +1733,7 @@ function getServer() {
 
         const seasonPath = params.season === "now" ? "now" : "upcoming";
         const apiUrl = `${LOCAL_API_BASE}/clean/seasons/${seasonPath}?${queryParams.toString()}`;
-        const response = await fetch(apiUrl);
+        const response = await localApiFetch(apiUrl);
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -1443,13 +1817,13 @@ function getServer() {
   // Get comprehensive reception analysis for an anime based on reviews
   server.tool(
     "getAnimeReception",
-    "Get detailed reception analysis for an anime including sentiment analysis, polarization scores, common complaints/praises, and review patterns.",
+    "Get detailed reception analysis for an anime including sentiment analysis, polarization scores, common complaints/praises, review patterns, and per-aspect sentiment (story, animation, sound, characters, ending) summarized like 'stunning animation, rushed ending'.",
 
     { id: z.number().int().positive().describe("MyAnimeList ID of the anime to analyze reception for") },
     async ({ id }: { id: number }) => {
       return withAnalytics("getAnimeReception", { id }, async () => {
         try {
-        const response = await fetch(`${LOCAL_API_BASE}/reception/${id}`);
+        const response = await localApiFetch(`${LOCAL_API_BASE}/reception/${id}`);
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -1526,7 +1900,7 @@ function getServer() {
         if (params.min_reviews) queryParams.append("min_reviews", String(params.min_reviews));
         if (params.limit) queryParams.append("limit", String(params.limit));
 
-        const response = await fetch(`${LOCAL_API_BASE}/sentiment/search?${queryParams.toString()}`);
+        const response = await localApiFetch(`${LOCAL_API_BASE}/sentiment/search?${queryParams.toString()}`);
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -1597,7 +1971,7 @@ function getServer() {
         queryParams.append("insight_type", params.insight_type);
         if (params.genre_filter) queryParams.append("genre_filter", params.genre_filter);
 
-        const response = await fetch(`${LOCAL_API_BASE}/insights?${queryParams.toString()}`);
+        const response = await localApiFetch(`${LOCAL_API_BASE}/insights?${queryParams.toString()}`);
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -1652,7 +2026,7 @@ function getServer() {
   // Compare reception between two anime
   server.tool(
     "compareAnimeReception",
-    "Compare reception analysis between two anime to see differences in sentiment, polarization, and review patterns.",
+    "Compare reception analysis between two anime to see differences in sentiment, polarization, review patterns, and how each aspect (story, animation, sound, characters, ending) was received.",
 
     {
       anime_id_1: z.number().int().positive().describe("MyAnimeList ID of the first anime"),
@@ -1665,7 +2039,7 @@ function getServer() {
         queryParams.append("anime_id_1", String(params.anime_id_1));
         queryParams.append("anime_id_2", String(params.anime_id_2));
 
-        const response = await fetch(`${LOCAL_API_BASE}/compare-reception?${queryParams.toString()}`);
+        const response = await localApiFetch(`${LOCAL_API_BASE}/compare-reception?${queryParams.toString()}`);
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));
@@ -1762,7 +2136,7 @@ function getServer() {
         queryParams.append("ids", params.ids.join(","));
         if (params.compact) queryParams.append("compact", "true");
 
-        const response = await fetch(`${LOCAL_API_BASE}/bulk?${queryParams.toString()}`);
+        const response = await localApiFetch(`${LOCAL_API_BASE}/bulk?${queryParams.toString()}`);
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({ message: response.statusText }));